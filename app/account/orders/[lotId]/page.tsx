@@ -0,0 +1,320 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { getOptimizedImageUrl } from "@/lib/cloudinary";
+import { cn } from "@/lib/utils";
+import {
+  ArrowLeft,
+  CalendarClock,
+  CheckCircle,
+  Circle,
+  ExternalLink,
+  MapPin,
+  Package,
+  Truck,
+} from "lucide-react";
+import {
+  StatusBadge,
+  formatCurrency,
+  formatDate,
+  parseImages,
+  type OrderDetailView,
+} from "../order-view";
+
+function formatDateTime(dateString: string) {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+function LifecycleSteps({ steps }: { steps: OrderDetailView["steps"] }) {
+  return (
+    <ol className="grid grid-cols-5 gap-2">
+      {steps.map((step, index) => {
+        const next = steps[index + 1];
+        return (
+          <li key={step.key} className="relative flex flex-col items-center text-center">
+            {/* Connector to the next step */}
+            {next && (
+              <span
+                className={cn(
+                  "absolute top-3 left-1/2 w-full h-0.5",
+                  next.reached ? "bg-primary" : "bg-border"
+                )}
+              />
+            )}
+            <span className="relative z-10 bg-card">
+              {step.reached ? (
+                <CheckCircle className="h-6 w-6 text-primary" />
+              ) : (
+                <Circle className="h-6 w-6 text-muted-foreground/40" />
+              )}
+            </span>
+            <span
+              className={cn(
+                "mt-2 text-xs sm:text-sm font-medium",
+                !step.reached && "text-muted-foreground"
+              )}
+            >
+              {step.label}
+            </span>
+            {step.at && (
+              <span className="text-xs text-muted-foreground">{formatDate(step.at)}</span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function DeliveryEstimate({ detail }: { detail: OrderDetailView }) {
+  const deliveredAt =
+    detail.shipment?.delivered_at ?? detail.steps.find((s) => s.key === "delivered")?.at;
+
+  if (detail.order.status === "DELIVERED") {
+    return (
+      <div className="flex items-start gap-3">
+        <CheckCircle className="h-5 w-5 text-green-600 shrink-0 mt-0.5" />
+        <div>
+          <p className="font-medium">Delivered{deliveredAt ? ` ${formatDate(deliveredAt)}` : ""}</p>
+          <p className="text-sm text-muted-foreground">Enjoy your purchase!</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!detail.estimated_delivery) return null;
+
+  const { earliest, latest, transit_days } = detail.estimated_delivery;
+  return (
+    <div className="flex items-start gap-3">
+      <CalendarClock className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+      <div>
+        <p className="font-medium">
+          Estimated delivery: {formatDate(earliest)} – {formatDate(latest)}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Based on the shipping method&rsquo;s {transit_days} day transit time. Customs and
+          carrier delays can push it later.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function ShipmentTimeline({ shipment }: { shipment: NonNullable<OrderDetailView["shipment"]> }) {
+  return (
+    <Card className="border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Shipment
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="text-sm">
+            <p className="text-muted-foreground">{shipment.carrier ?? "Tracking number"}</p>
+            <p className="font-mono break-all">{shipment.tracking_number}</p>
+          </div>
+          <a href={shipment.tracking_url} target="_blank" rel="noreferrer">
+            <Button variant="outline" size="sm">
+              Track with carrier
+              <ExternalLink className="h-3.5 w-3.5 ml-1" />
+            </Button>
+          </a>
+        </div>
+
+        {shipment.checkpoints.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No tracking updates yet. The first carrier scan usually appears within a few
+            days of shipping.
+          </p>
+        ) : (
+          <ol className="space-y-3">
+            {shipment.checkpoints.map((checkpoint, index) => (
+              <li
+                key={`${checkpoint.occurred_at}-${checkpoint.status}`}
+                className={cn(
+                  "border-l-2 pl-3 text-sm",
+                  index === 0 ? "border-primary" : "border-border"
+                )}
+              >
+                <p className={cn(index === 0 && "font-medium")}>
+                  {checkpoint.description ?? checkpoint.status.replace(/_/g, " ")}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDateTime(checkpoint.occurred_at)}
+                  {checkpoint.location && (
+                    <>
+                      {" · "}
+                      <MapPin className="h-3 w-3 inline" /> {checkpoint.location}
+                    </>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {shipment.last_checked_at && (
+          <p className="text-xs text-muted-foreground">
+            Last checked {formatDateTime(shipment.last_checked_at)}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main page component
+// ---------------------------------------------------------------------------
+
+export default function OrderDetailPage() {
+  const params = useParams();
+  const lotId = params.lotId as string;
+
+  const [detail, setDetail] = useState<OrderDetailView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/account/orders/${encodeURIComponent(lotId)}`);
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to load order");
+        }
+        setDetail(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load order");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [lotId]);
+
+  const order = detail?.order;
+  const thumbnail = order ? parseImages(order.cj_images)[0] || null : null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href="/account/orders"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All orders
+        </Link>
+        <h2 className="text-2xl font-semibold mt-2">Order Details</h2>
+      </div>
+
+      {loading ? (
+        <Card className="border-border/50">
+          <CardContent className="py-12 text-center">
+            <div className="h-8 w-8 border-2 border-primary border-t-transparent rounded-full animate-spin mx-auto" />
+            <p className="mt-4 text-muted-foreground">Loading order...</p>
+          </CardContent>
+        </Card>
+      ) : error || !detail || !order ? (
+        <Card className="border-border/50">
+          <CardContent className="py-10 text-center">
+            <p className="text-sm text-destructive">{error ?? "Order not found"}</p>
+            <Link href="/account/orders">
+              <Button variant="outline" className="mt-4">
+                Back to orders
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary */}
+          <Card className="border-border/50 overflow-hidden">
+            <CardContent className="p-0">
+              <div className="flex flex-col sm:flex-row">
+                <div className="sm:w-40 h-40 sm:h-auto bg-muted shrink-0">
+                  {thumbnail ? (
+                    <img
+                      src={getOptimizedImageUrl(thumbnail, { width: 320, height: 320, crop: "fill" })}
+                      alt={order.cj_product_name}
+                      className="h-full w-full object-cover"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).src = "/placeholder.svg";
+                      }}
+                    />
+                  ) : (
+                    <div className="h-full w-full flex items-center justify-center">
+                      <Package className="h-10 w-10 text-muted-foreground/40" />
+                    </div>
+                  )}
+                </div>
+                <div className="flex-1 p-4 flex flex-col sm:flex-row gap-4">
+                  <div className="flex-1 min-w-0">
+                    <StatusBadge status={order.status} />
+                    <h3 className="font-medium mt-2">{order.cj_product_name}</h3>
+                    {order.cj_variant_name && (
+                      <p className="text-sm text-muted-foreground">{order.cj_variant_name}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Ordered {formatDate(order.created_at)}
+                    </p>
+                  </div>
+                  <div className="sm:text-right shrink-0 text-sm">
+                    <p className="text-muted-foreground">Amount</p>
+                    <p className="text-lg font-semibold">
+                      {order.winning_bid_cents ? formatCurrency(order.winning_bid_cents) : "--"}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Progress */}
+          <Card className="border-border/50">
+            <CardContent className="p-6 space-y-6">
+              <LifecycleSteps steps={detail.steps} />
+              <DeliveryEstimate detail={detail} />
+            </CardContent>
+          </Card>
+
+          {detail.shipment && <ShipmentTimeline shipment={detail.shipment} />}
+
+          <Card className="border-border/50 bg-section-alt">
+            <CardContent className="p-6">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                  <h3 className="font-medium">Still have a question?</h3>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Include your tracking number and our client services team will look
+                    into it.
+                  </p>
+                </div>
+                <Link href="/contact">
+                  <Button variant="outline">Contact Us</Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
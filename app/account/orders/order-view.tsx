@@ -0,0 +1,202 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Package,
+  Truck,
+  CheckCircle,
+  AlertCircle,
+  XCircle,
+  Clock,
+} from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types – mirrors the API response from GET /api/account/orders
+// (sensitive cost / profit fields are already stripped server-side)
+// ---------------------------------------------------------------------------
+
+export type OrderView = {
+  id: string;
+  cj_product_name: string;
+  cj_variant_name: string | null;
+  cj_images: string | null; // JSON-stringified array of image URLs
+  status: string;
+  winning_bid_cents: number | null;
+  tracking_number: string | null;
+  tracking_carrier: string | null;
+  tracking_url: string | null; // carrier page, or AfterShip for unknown carriers
+  basta_sale_id: string | null;
+  basta_item_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** GET /api/account/orders/:lotId (see lib/order-tracking.ts). */
+export type OrderDetailView = {
+  order: OrderView;
+  steps: Array<{
+    key: "won" | "paid" | "ordered" | "shipped" | "delivered";
+    label: string;
+    reached: boolean;
+    at: string | null;
+  }>;
+  shipment: {
+    tracking_number: string;
+    carrier: string | null;
+    tracking_url: string;
+    status: string | null;
+    last_checked_at: string | null;
+    delivered_at: string | null;
+    checkpoints: Array<{
+      occurred_at: string;
+      status: string;
+      description: string | null;
+      location: string | null;
+    }>;
+  } | null;
+  estimated_delivery: {
+    earliest: string;
+    latest: string;
+    transit_days: string;
+  } | null;
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function formatCurrency(cents: number | null | undefined) {
+  if (cents == null) return "";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+  }).format(cents / 100);
+}
+
+export function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export function parseImages(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Status badge logic
+// ---------------------------------------------------------------------------
+
+type StatusConfig = {
+  label: string;
+  icon: React.ElementType;
+  className: string;
+  variant?: "default" | "secondary" | "destructive" | "outline";
+};
+
+function getStatusConfig(status: string): StatusConfig {
+  switch (status) {
+    case "DELIVERED":
+      return {
+        label: "Delivered",
+        icon: CheckCircle,
+        className: "bg-green-100 text-green-700 hover:bg-green-100",
+      };
+    case "SHIPPED":
+      return {
+        label: "Shipped",
+        icon: Truck,
+        className: "bg-green-100 text-green-700 hover:bg-green-100",
+      };
+    case "CJ_PAID":
+      return {
+        label: "Order Confirmed",
+        icon: Package,
+        className: "bg-blue-50 text-blue-700 border-blue-200",
+        variant: "outline",
+      };
+    case "CJ_ORDERED":
+      return {
+        label: "Processing",
+        icon: Clock,
+        className: "bg-amber-50 text-amber-700 border-amber-200",
+        variant: "outline",
+      };
+    case "PAID":
+      return {
+        label: "Payment Received",
+        icon: CheckCircle,
+        className: "bg-blue-50 text-blue-700 border-blue-200",
+        variant: "outline",
+      };
+    case "AUCTION_CLOSED":
+      return {
+        label: "Awaiting Payment",
+        icon: Clock,
+        className: "bg-amber-50 text-amber-700 border-amber-200",
+        variant: "outline",
+      };
+    case "PAYMENT_FAILED":
+      return {
+        label: "Payment Failed",
+        icon: AlertCircle,
+        className: "bg-red-100 text-red-700 hover:bg-red-100",
+        variant: "destructive",
+      };
+    case "CANCELLED":
+      return {
+        label: "Cancelled",
+        icon: XCircle,
+        className: "bg-red-100 text-red-700 hover:bg-red-100",
+        variant: "destructive",
+      };
+    case "CJ_OUT_OF_STOCK":
+      return {
+        label: "Out of Stock",
+        icon: AlertCircle,
+        className: "bg-red-100 text-red-700 hover:bg-red-100",
+        variant: "destructive",
+      };
+    case "CJ_PRICE_CHANGED":
+      return {
+        label: "Under Review",
+        icon: AlertCircle,
+        className: "bg-amber-50 text-amber-700 border-amber-200",
+        variant: "outline",
+      };
+    case "RESERVE_NOT_MET":
+      return {
+        label: "Reserve Not Met",
+        icon: XCircle,
+        className: "bg-gray-100 text-gray-600 hover:bg-gray-100",
+        variant: "secondary",
+      };
+    default:
+      return {
+        label: status.replace(/_/g, " "),
+        icon: Package,
+        className: "bg-gray-100 text-gray-600",
+        variant: "secondary",
+      };
+  }
+}
+
+export function StatusBadge({ status }: { status: string }) {
+  const config = getStatusConfig(status);
+  const Icon = config.icon;
+  return (
+    <Badge variant={config.variant} className={config.className}>
+      <Icon className="h-3 w-3 mr-1" />
+      {config.label}
+    </Badge>
+  );
+}
@@ -4,182 +4,21 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
+import { getOptimizedImageUrl } from "@/lib/cloudinary";
 import {
   Package,
   Truck,
-  CheckCircle,
-  AlertCircle,
-  XCircle,
-  Clock,
   ExternalLink,
   ShoppingBag,
+  ChevronRight,
 } from "lucide-react";
-
-// ---------------------------------------------------------------------------
-// Types – mirrors the API response from GET /api/account/orders
-// (sensitive cost / profit fields are already stripped server-side)
-// ---------------------------------------------------------------------------
-
-type OrderView = {
-  id: string;
-  cj_product_name: string;
-  cj_variant_name: string | null;
-  cj_images: string | null; // JSON-stringified array of image URLs
-  status: string;
-  winning_bid_cents: number | null;
-  tracking_number: string | null;
-  tracking_carrier: string | null;
-  basta_sale_id: string | null;
-  basta_item_id: string | null;
-  created_at: string;
-  updated_at: string;
-};
-
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-function formatCurrency(cents: number | null | undefined) {
-  if (cents == null) return "";
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 0,
-  }).format(cents / 100);
-}
-
-function formatDate(dateString: string) {
-  return new Date(dateString).toLocaleDateString("en-US", {
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-  });
-}
-
-function parseImages(raw: string | null): string[] {
-  if (!raw) return [];
-  try {
-    const parsed = JSON.parse(raw);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
-
-function getTrackingUrl(trackingNumber: string, carrier: string | null): string {
-  // Use AfterShip as a universal tracker
-  return `https://track.aftership.com/${trackingNumber}`;
-}
-
-// ---------------------------------------------------------------------------
-// Status badge logic
-// ---------------------------------------------------------------------------
-
-type StatusConfig = {
-  label: string;
-  icon: React.ElementType;
-  className: string;
-  variant?: "default" | "secondary" | "destructive" | "outline";
-};
-
-function getStatusConfig(status: string): StatusConfig {
-  switch (status) {
-    case "DELIVERED":
-      return {
-        label: "Delivered",
-        icon: CheckCircle,
-        className: "bg-green-100 text-green-700 hover:bg-green-100",
-      };
-    case "SHIPPED":
-      return {
-        label: "Shipped",
-        icon: Truck,
-        className: "bg-green-100 text-green-700 hover:bg-green-100",
-      };
-    case "CJ_PAID":
-      return {
-        label: "Order Confirmed",
-        icon: Package,
-        className: "bg-blue-50 text-blue-700 border-blue-200",
-        variant: "outline",
-      };
-    case "CJ_ORDERED":
-      return {
-        label: "Processing",
-        icon: Clock,
-        className: "bg-amber-50 text-amber-700 border-amber-200",
-        variant: "outline",
-      };
-    case "PAID":
-      return {
-        label: "Payment Received",
-        icon: CheckCircle,
-        className: "bg-blue-50 text-blue-700 border-blue-200",
-        variant: "outline",
-      };
-    case "AUCTION_CLOSED":
-      return {
-        label: "Awaiting Payment",
-        icon: Clock,
-        className: "bg-amber-50 text-amber-700 border-amber-200",
-        variant: "outline",
-      };
-    case "PAYMENT_FAILED":
-      return {
-        label: "Payment Failed",
-        icon: AlertCircle,
-        className: "bg-red-100 text-red-700 hover:bg-red-100",
-        variant: "destructive",
-      };
-    case "CANCELLED":
-      return {
-        label: "Cancelled",
-        icon: XCircle,
-        className: "bg-red-100 text-red-700 hover:bg-red-100",
-        variant: "destructive",
-      };
-    case "CJ_OUT_OF_STOCK":
-      return {
-        label: "Out of Stock",
-        icon: AlertCircle,
-        className: "bg-red-100 text-red-700 hover:bg-red-100",
-        variant: "destructive",
-      };
-    case "CJ_PRICE_CHANGED":
-      return {
-        label: "Under Review",
-        icon: AlertCircle,
-        className: "bg-amber-50 text-amber-700 border-amber-200",
-        variant: "outline",
-      };
-    case "RESERVE_NOT_MET":
-      return {
-        label: "Reserve Not Met",
-        icon: XCircle,
-        className: "bg-gray-100 text-gray-600 hover:bg-gray-100",
-        variant: "secondary",
-      };
-    default:
-      return {
-        label: status.replace(/_/g, " "),
-        icon: Package,
-        className: "bg-gray-100 text-gray-600",
-        variant: "secondary",
-      };
-  }
-}
-
-function StatusBadge({ status }: { status: string }) {
-  const config = getStatusConfig(status);
-  const Icon = config.icon;
-  return (
-    <Badge variant={config.variant} className={config.className}>
-      <Icon className="h-3 w-3 mr-1" />
-      {config.label}
-    </Badge>
-  );
-}
+import {
+  StatusBadge,
+  formatCurrency,
+  formatDate,
+  parseImages,
+  type OrderView,
+} from "./order-view";
 
 // ---------------------------------------------------------------------------
 // Main page component
@@ -271,7 +110,7 @@ export default function OrdersPage() {
                     <div className="sm:w-40 h-40 sm:h-auto bg-muted shrink-0 relative">
                       {thumbnail ? (
                         <img
-                          src={thumbnail}
+                          src={getOptimizedImageUrl(thumbnail, { width: 320, height: 320, crop: "fill" })}
                           alt={order.cj_product_name}
                           className="h-full w-full object-cover"
                           onError={(e) => {
@@ -314,10 +153,7 @@ export default function OrdersPage() {
                                 : "Tracking: "}
                             </span>
                             <a
-                              href={getTrackingUrl(
-                                order.tracking_number,
-                                order.tracking_carrier
-                              )}
+                              href={order.tracking_url ?? undefined}
                               target="_blank"
                               rel="noreferrer"
                               className="text-primary hover:underline font-mono text-xs break-all"
@@ -345,9 +181,15 @@ export default function OrdersPage() {
                           </p>
                         </div>
 
-                        {/* Link to lot detail if available */}
-                        {order.basta_sale_id && order.basta_item_id && (
-                          <div className="mt-4 sm:flex sm:justify-end">
+                        <div className="mt-4 flex flex-wrap gap-2 sm:justify-end">
+                          <Link href={`/account/orders/${order.id}`}>
+                            <Button size="sm">
+                              Order Details
+                              <ChevronRight className="h-3.5 w-3.5 ml-1" />
+                            </Button>
+                          </Link>
+                          {/* Link to lot detail if available */}
+                          {order.basta_sale_id && order.basta_item_id && (
                             <Link
                               href={`/auction/${order.basta_sale_id}/lot/${order.basta_item_id}`}
                             >
@@ -356,8 +198,8 @@ export default function OrdersPage() {
                                 <ExternalLink className="h-3.5 w-3.5 ml-1" />
                               </Button>
                             </Link>
-                          </div>
-                        )}
+                          )}
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { translateItemStatus } from "@/lib/utils";
+import { Heart, Clock, ExternalLink, Trash2 } from "lucide-react";
+
+type WatchlistItemView = {
+  saleId: string;
+  itemId: string;
+  addedAt: string;
+  lotNumber?: number;
+  lotTitle?: string;
+  auctionTitle?: string;
+  image?: string;
+  currency?: string | null;
+  currentBid?: number | null;
+  startingBid?: number | null;
+  totalBids?: number | null;
+  bidStatus?: string | null;
+  itemStatus?: string | null;
+  closingDate?: string | null;
+};
+
+function formatCurrency(cents: number | null | undefined, currency: string = "USD") {
+  if (cents == null) return "—";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 0,
+  }).format(cents / 100);
+}
+
+function getTimeRemaining(dateString: string) {
+  const now = new Date();
+  const end = new Date(dateString);
+  const diff = end.getTime() - now.getTime();
+
+  if (diff <= 0) return "Ended";
+
+  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+function isOpenStatus(itemStatus?: string | null): boolean {
+  return itemStatus === "ITEM_OPEN" || itemStatus === "ITEM_CLOSING";
+}
+
+function getStatusBadge(itemStatus?: string | null) {
+  if (itemStatus === "ITEM_CLOSING") {
+    return (
+      <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100 text-xs">
+        {translateItemStatus(itemStatus)}
+      </Badge>
+    );
+  }
+  if (itemStatus === "ITEM_OPEN") {
+    return (
+      <Badge className="bg-green-100 text-green-700 hover:bg-green-100 text-xs">
+        {translateItemStatus(itemStatus)}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="secondary" className="text-xs">
+      {itemStatus ? translateItemStatus(itemStatus) : "Unavailable"}
+    </Badge>
+  );
+}
+
+export default function WatchlistPage() {
+  const { toast } = useToast();
+  const [items, setItems] = useState<WatchlistItemView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [removing, setRemoving] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch("/api/account/watchlist");
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to load watchlist");
+        }
+        setItems(Array.isArray(data.items) ? data.items : []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load watchlist");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  // Open lots first, soonest closing at the top
+  const sortedItems = useMemo(
+    () =>
+      [...items].sort((a, b) => {
+        const openDiff = Number(isOpenStatus(b.itemStatus)) - Number(isOpenStatus(a.itemStatus));
+        if (openDiff !== 0) return openDiff;
+        const aClose = a.closingDate ? new Date(a.closingDate).getTime() : Infinity;
+        const bClose = b.closingDate ? new Date(b.closingDate).getTime() : Infinity;
+        return aClose - bClose;
+      }),
+    [items]
+  );
+
+  const handleRemove = async (item: WatchlistItemView) => {
+    const key = `${item.saleId}:${item.itemId}`;
+    setRemoving(key);
+    try {
+      const res = await fetch("/api/account/watchlist", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ saleId: item.saleId, itemId: item.itemId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update watchlist");
+      }
+      setItems((prev) => prev.filter((i) => `${i.saleId}:${i.itemId}` !== key));
+    } catch (err) {
+      toast({
+        title: "Watchlist update failed",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold">Watchlist</h2>
+        <p className="text-muted-foreground mt-1">
+          {items.length} {items.length === 1 ? "lot" : "lots"} you&apos;re keeping an eye on
+        </p>
+      </div>
+
+      {loading ? (
+        <Card className="border-border/50">
+          <CardContent className="py-12 text-center">
+            <div className="h-8 w-8 border-2 border-primary border-t-transparent rounded-full animate-spin mx-auto" />
+            <p className="mt-4 text-muted-foreground">Loading watchlist…</p>
+          </CardContent>
+        </Card>
+      ) : error ? (
+        <Card className="border-border/50">
+          <CardContent className="py-10 text-center">
+            <p className="text-sm text-destructive">{error}</p>
+            <Button variant="outline" className="mt-4" onClick={() => window.location.reload()}>
+              Try again
+            </Button>
+          </CardContent>
+        </Card>
+      ) : sortedItems.length === 0 ? (
+        <Card className="border-border/50">
+          <CardContent className="py-12 text-center">
+            <Heart className="h-12 w-12 mx-auto text-muted-foreground/40" />
+            <h3 className="mt-4 font-medium">Your watchlist is empty</h3>
+            <p className="mt-2 text-muted-foreground">
+              Tap the heart on any lot to follow it here
+            </p>
+            <Link href="/auctions">
+              <Button className="mt-6">Browse Auctions</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {sortedItems.map((item) => {
+            const key = `${item.saleId}:${item.itemId}`;
+            const currency = item.currency || "USD";
+            const open = isOpenStatus(item.itemStatus);
+            const hasBids = item.currentBid != null && (item.totalBids ?? 0) > 0;
+
+            return (
+              <Card key={key} className="border-border/50 overflow-hidden">
+                <CardContent className="p-0">
+                  <div className="flex flex-row">
+                    <div className="w-28 sm:w-36 shrink-0 bg-muted">
+                      <img
+                        src={item.image || "/placeholder.svg"}
+                        alt={item.lotTitle || "Lot image"}
+                        className={`h-full w-full object-cover aspect-square ${open ? "" : "opacity-75"}`}
+                        onError={(e) => { (e.target as HTMLImageElement).src = "/placeholder.svg"; }}
+                      />
+                    </div>
+
+                    <div className="flex-1 p-3 sm:p-4 min-w-0">
+                      <div className="flex items-start gap-2 flex-wrap">
+                        <Badge variant="outline" className="shrink-0 text-xs">
+                          Lot {item.lotNumber ?? "—"}
+                        </Badge>
+                        {getStatusBadge(item.itemStatus)}
+                      </div>
+                      <h3 className="font-medium mt-2 line-clamp-2 text-sm sm:text-base">
+                        {item.lotTitle || "Untitled lot"}
+                      </h3>
+                      <p className="text-xs sm:text-sm text-muted-foreground line-clamp-1">
+                        {item.auctionTitle || "Auction"}
+                      </p>
+
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs sm:text-sm">
+                        <div>
+                          <span className="text-muted-foreground">
+                            {hasBids ? (open ? "Current: " : "Final: ") : "Starting: "}
+                          </span>
+                          <span className="font-medium">
+                            {formatCurrency(hasBids ? item.currentBid : item.startingBid, currency)}
+                          </span>
+                        </div>
+                        {hasBids && (
+                          <div className="text-muted-foreground">
+                            {item.totalBids} {item.totalBids === 1 ? "bid" : "bids"}
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="flex items-center justify-between mt-3 gap-2">
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Clock className="h-3.5 w-3.5" />
+                          <span>
+                            {item.closingDate ? getTimeRemaining(item.closingDate) : "—"}
+                          </span>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-xs h-8"
+                            title="Remove from watchlist"
+                            disabled={removing === key}
+                            onClick={() => handleRemove(item)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                          <Link href={`/auction/${item.saleId}/lot/${item.itemId}`}>
+                            <Button size="sm" className="text-xs h-8">
+                              {open ? "Bid" : "View"}
+                              <ExternalLink className="h-3 w-3 ml-1" />
+                            </Button>
+                          </Link>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
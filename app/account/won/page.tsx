@@ -12,6 +12,7 @@ import {
   CheckCircle,
   AlertCircle,
   ExternalLink,
+  XCircle,
 } from "lucide-react";
 
 type WonItemView = {
@@ -68,6 +69,13 @@ function getStatusBadge(status?: string | null) {
           Payment Failed
         </Badge>
       );
+    case "CANCELLED":
+      return (
+        <Badge variant="outline" className="bg-muted text-muted-foreground">
+          <XCircle className="h-3 w-3 mr-1" />
+          Cancelled
+        </Badge>
+      );
     case "OPEN":
     default:
       return (
@@ -0,0 +1,74 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { useEffect } from "react";
+import { AuctionNav } from "@/components/auction-nav";
+import { AuctionFooter } from "@/components/auction-footer";
+
+const NAV_ITEMS = [
+  { href: "/admin/lots", label: "Lots" },
+  { href: "/admin/settings", label: "Settings" },
+];
+
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const pathname = usePathname();
+  const { status } = useSession();
+  const router = useRouter();
+
+  // Redirect if not authenticated (operator check happens in the API)
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      const callback = encodeURIComponent(pathname || "/admin/lots");
+      router.replace(`/login?callbackUrl=${callback}`);
+    }
+  }, [router, status, pathname]);
+
+  if (status === "loading" || status === "unauthenticated") {
+    return (
+      <div className="min-h-screen bg-background">
+        <AuctionNav />
+        <div className="container mx-auto px-4 py-12">
+          <div className="flex items-center justify-center">
+            <div className="h-8 w-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        </div>
+        <AuctionFooter />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AuctionNav />
+      <div className="border-b border-border bg-section-alt">
+        <div className="container mx-auto px-4 py-6">
+          <h1 className="text-2xl font-semibold">Operations</h1>
+          <p className="text-muted-foreground">Dropship pipeline console</p>
+          <nav className="mt-4 flex gap-4 text-sm">
+            {NAV_ITEMS.map((item) => (
+              <Link
+                key={item.href}
+                href={item.href}
+                className={
+                  pathname?.startsWith(item.href)
+                    ? "font-medium text-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                }
+              >
+                {item.label}
+              </Link>
+            ))}
+          </nav>
+        </div>
+      </div>
+      <main className="container mx-auto px-4 py-8">{children}</main>
+      <AuctionFooter />
+    </div>
+  );
+}
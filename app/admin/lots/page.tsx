@@ -0,0 +1,533 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, Clock, RefreshCw, ShieldAlert } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types – mirrors GET /api/admin/lots
+// ---------------------------------------------------------------------------
+
+type AdminLot = {
+  id: string;
+  supplier: string;
+  cj_product_name: string;
+  cj_variant_name: string | null;
+  basta_sale_id: string | null;
+  basta_item_id: string | null;
+  winner_user_id: string | null;
+  winning_bid_cents: number | null;
+  reserve_cents: number;
+  stripe_invoice_id: string | null;
+  cj_order_id: string | null;
+  tracking_number: string | null;
+  status: string;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+  allowed_transitions: string[];
+};
+
+type LotsResponse = {
+  total: number;
+  byStatus: Record<string, number>;
+  financials: {
+    totalRevenue: number;
+    totalProfit: number;
+    profitMargin: number;
+    refundCount: number;
+    lotsSold: number;
+  };
+  stuck: AdminLot[];
+  failed: AdminLot[];
+  lots: AdminLot[];
+};
+
+type LotEvent = {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  actor: string;
+  reason: string | null;
+  created_at: string;
+};
+
+type ActionType = "transition" | "retry_fulfillment" | "refund";
+
+const ALL_STATUSES = [
+  "SOURCED",
+  "LISTED",
+  "PUBLISHED",
+  "AUCTION_CLOSED",
+  "PAID",
+  "CJ_ORDERED",
+  "CJ_PAID",
+  "SHIPPED",
+  "DELIVERED",
+  "RESERVE_NOT_MET",
+  "PAYMENT_FAILED",
+  "CJ_OUT_OF_STOCK",
+  "CJ_PRICE_CHANGED",
+  "CANCELLED",
+];
+
+const ACTION_LABELS: Record<ActionType, string> = {
+  transition: "Force transition",
+  retry_fulfillment: "Retry fulfillment",
+  refund: "Refund",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatCurrency(cents: number | null | undefined) {
+  if (cents == null) return "--";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(cents / 100);
+}
+
+function formatAge(dateString: string) {
+  const minutes = Math.round((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = minutes / 60;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+// ---------------------------------------------------------------------------
+// Lot table
+// ---------------------------------------------------------------------------
+
+function LotTable({
+  lots,
+  onAction,
+}: {
+  lots: AdminLot[];
+  onAction: (lot: AdminLot) => void;
+}) {
+  if (lots.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No lots.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Status</TableHead>
+          <TableHead>Product</TableHead>
+          <TableHead>Winning bid</TableHead>
+          <TableHead>Last update</TableHead>
+          <TableHead>Error / note</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lots.map((lot) => (
+          <TableRow key={lot.id}>
+            <TableCell>
+              <Badge variant="outline">{lot.status}</Badge>
+            </TableCell>
+            <TableCell className="max-w-xs">
+              <p className="font-medium truncate">{lot.cj_product_name}</p>
+              <p className="text-xs text-muted-foreground font-mono">{lot.id.slice(0, 8)}</p>
+            </TableCell>
+            <TableCell>{formatCurrency(lot.winning_bid_cents)}</TableCell>
+            <TableCell className="text-muted-foreground">{formatAge(lot.updated_at)} ago</TableCell>
+            <TableCell className="max-w-sm">
+              <p className="text-xs text-muted-foreground whitespace-normal line-clamp-2">
+                {lot.error_message ?? ""}
+              </p>
+            </TableCell>
+            <TableCell className="text-right">
+              <Button variant="outline" size="sm" onClick={() => onAction(lot)}>
+                Actions
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Action dialog
+// ---------------------------------------------------------------------------
+
+function ActionDialog({
+  lot,
+  onClose,
+  onDone,
+}: {
+  lot: AdminLot | null;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const { toast } = useToast();
+  const [action, setAction] = useState<ActionType>("transition");
+  const [toStatus, setToStatus] = useState<string>("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [events, setEvents] = useState<LotEvent[] | null>(null);
+
+  useEffect(() => {
+    setAction("transition");
+    setToStatus(lot?.allowed_transitions[0] ?? "");
+    setReason("");
+    setEvents(null);
+    if (!lot) return;
+
+    let cancelled = false;
+    fetch(`/api/admin/lots/${encodeURIComponent(lot.id)}`)
+      .then((res) => (res.ok ? res.json() : { events: [] }))
+      .then((data) => {
+        if (!cancelled) setEvents(data.events ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setEvents([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [lot]);
+
+  if (!lot) return null;
+
+  const canSubmit =
+    reason.trim().length > 0 && (action !== "transition" || Boolean(toStatus));
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/admin/lots/${encodeURIComponent(lot.id)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          toStatus: action === "transition" ? toStatus : undefined,
+          reason,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Action failed");
+      }
+      toast({ title: ACTION_LABELS[action], description: data.message });
+      onDone();
+    } catch (error) {
+      toast({
+        title: `${ACTION_LABELS[action]} failed`,
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{lot.cj_product_name}</DialogTitle>
+          <DialogDescription>
+            Lot {lot.id} ({lot.supplier.toUpperCase()}) — currently{" "}
+            <span className="font-medium">{lot.status}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>History</Label>
+            {events === null ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No recorded transitions.</p>
+            ) : (
+              <ol className="max-h-48 overflow-y-auto space-y-2 text-sm">
+                {events.map((event) => (
+                  <li key={event.id} className="border-l-2 border-border pl-3">
+                    <p>
+                      <span className="font-medium">
+                        {event.from_status ?? "new"} → {event.to_status}
+                      </span>{" "}
+                      <span className="text-muted-foreground">
+                        by {event.actor}, {new Date(event.created_at).toLocaleString()}
+                      </span>
+                    </p>
+                    {event.reason && (
+                      <p className="text-xs text-muted-foreground">{event.reason}</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select value={action} onValueChange={(v) => setAction(v as ActionType)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACTION_LABELS) as ActionType[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {ACTION_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {action === "transition" && (
+            <div className="space-y-2">
+              <Label>New status</Label>
+              {lot.allowed_transitions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {lot.status} is terminal — no transitions allowed.
+                </p>
+              ) : (
+                <Select value={toStatus} onValueChange={setToStatus}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {lot.allowed_transitions.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {status}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason</Label>
+            <Textarea
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why is this change needed?"
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+            {submitting ? "Working..." : ACTION_LABELS[action]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main page component
+// ---------------------------------------------------------------------------
+
+export default function AdminLotsPage() {
+  const [data, setData] = useState<LotsResponse | null>(null);
+  const [statusFilter, setStatusFilter] = useState("ALL");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [forbidden, setForbidden] = useState(false);
+  const [selectedLot, setSelectedLot] = useState<AdminLot | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = statusFilter === "ALL" ? "" : `?status=${encodeURIComponent(statusFilter)}`;
+      const res = await fetch(`/api/admin/lots${query}`);
+      const body = await res.json().catch(() => ({}));
+      if (res.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(body.error || "Failed to load lots");
+      }
+      setData(body as LotsResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load lots");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (forbidden) {
+    return (
+      <Card className="border-border/50">
+        <CardContent className="py-12 text-center">
+          <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground/40" />
+          <h3 className="mt-4 font-medium">Operators only</h3>
+          <p className="mt-2 text-muted-foreground">
+            Your account does not have access to the operations console.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">Dropship lots</h2>
+          <p className="text-muted-foreground mt-1">
+            {data ? `${data.total} lots total` : "Loading..."}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">All statuses</SelectItem>
+              {ALL_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {status} ({data?.byStatus[status] ?? 0})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={load} disabled={loading} title="Refresh">
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-border/50">
+          <CardContent className="py-6 text-center">
+            <p className="text-sm text-destructive">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {data && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card className="border-border/50">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Revenue</p>
+                <p className="text-xl font-semibold">{formatCurrency(data.financials.totalRevenue)}</p>
+              </CardContent>
+            </Card>
+            <Card className="border-border/50">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Profit</p>
+                <p className="text-xl font-semibold">
+                  {formatCurrency(data.financials.totalProfit)}{" "}
+                  <span className="text-sm text-muted-foreground">
+                    ({data.financials.profitMargin.toFixed(1)}%)
+                  </span>
+                </p>
+              </CardContent>
+            </Card>
+            <Card className="border-border/50">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Lots sold</p>
+                <p className="text-xl font-semibold">{data.financials.lotsSold}</p>
+              </CardContent>
+            </Card>
+            <Card className="border-border/50">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Refunded</p>
+                <p className="text-xl font-semibold">{data.financials.refundCount}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Clock className="h-4 w-4 text-amber-600" />
+                Stuck ({data.stuck.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LotTable lots={data.stuck} onAction={setSelectedLot} />
+            </CardContent>
+          </Card>
+
+          <Card className="border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <AlertCircle className="h-4 w-4 text-destructive" />
+                Failed ({data.failed.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LotTable lots={data.failed} onAction={setSelectedLot} />
+            </CardContent>
+          </Card>
+
+          <Card className="border-border/50">
+            <CardHeader>
+              <CardTitle className="text-base">
+                {statusFilter === "ALL" ? "All lots" : statusFilter} ({data.lots.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LotTable lots={data.lots} onAction={setSelectedLot} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <ActionDialog
+        lot={selectedLot}
+        onClose={() => setSelectedLot(null)}
+        onDone={() => {
+          setSelectedLot(null);
+          load();
+        }}
+      />
+    </div>
+  );
+}
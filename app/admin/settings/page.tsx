@@ -0,0 +1,531 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { History, PauseCircle, RefreshCw, ShieldAlert } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types – mirrors GET /api/admin/settings
+// ---------------------------------------------------------------------------
+
+type SettingUnit = "cents" | "percent" | "minutes";
+
+type PipelineSetting = {
+  key: string;
+  label: string;
+  description: string;
+  unit: SettingUnit;
+  value: number;
+  default_value: number;
+  min: number;
+  max: number;
+  updated_by: string | null;
+  updated_at: string | null;
+};
+
+type AuditEntry = {
+  id: string;
+  key: string;
+  old_value: number | null;
+  new_value: number | null;
+  actor: string;
+  reason: string;
+  created_at: string;
+};
+
+type SettingsResponse = {
+  settings: PipelineSetting[];
+  audit: AuditEntry[];
+};
+
+// Mirrors GET /api/admin/switches
+type PipelineSwitch = {
+  stage: string;
+  description: string;
+  paused: boolean;
+  updated_by: string | null;
+  reason: string | null;
+  updated_at: string | null;
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatValue(unit: SettingUnit, value: number | null) {
+  if (value == null) return "default";
+  if (unit === "cents") {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(value / 100);
+  }
+  if (unit === "percent") return `${value}%`;
+  return `${value} min`;
+}
+
+/** Cents are edited in dollars; everything else as stored. */
+function toInput(unit: SettingUnit, value: number) {
+  return unit === "cents" ? (value / 100).toFixed(2) : String(value);
+}
+
+function fromInput(unit: SettingUnit, input: string): number {
+  const value = Number(input.trim());
+  return unit === "cents" ? Math.round(value * 100) : value;
+}
+
+// ---------------------------------------------------------------------------
+// Edit dialog
+// ---------------------------------------------------------------------------
+
+function EditDialog({
+  setting,
+  onClose,
+  onDone,
+}: {
+  setting: PipelineSetting | null;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const { toast } = useToast();
+  const [input, setInput] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setInput(setting ? toInput(setting.unit, setting.value) : "");
+    setReason("");
+  }, [setting]);
+
+  if (!setting) return null;
+
+  const isOverridden = setting.updated_at !== null;
+  const canSubmit = reason.trim().length > 0 && input.trim().length > 0;
+
+  const submit = async (reset: boolean) => {
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/admin/settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          key: setting.key,
+          value: reset ? null : fromInput(setting.unit, input),
+          reason,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Update failed");
+      }
+      toast({
+        title: setting.label,
+        description: `Now ${formatValue(setting.unit, data.setting.value)}`,
+      });
+      onDone();
+    } catch (error) {
+      toast({
+        title: `${setting.label} not changed`,
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{setting.label}</DialogTitle>
+          <DialogDescription>{setting.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="value">
+              Value ({setting.unit === "cents" ? "USD" : setting.unit})
+            </Label>
+            <Input
+              id="value"
+              type="number"
+              step="any"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Allowed {formatValue(setting.unit, setting.min)} to{" "}
+              {formatValue(setting.unit, setting.max)}. Default{" "}
+              {formatValue(setting.unit, setting.default_value)}.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason</Label>
+            <Textarea
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why is this change needed?"
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          {isOverridden && (
+            <Button
+              variant="outline"
+              onClick={() => submit(true)}
+              disabled={reason.trim().length === 0 || submitting}
+            >
+              Reset to default
+            </Button>
+          )}
+          <Button onClick={() => submit(false)} disabled={!canSubmit || submitting}>
+            {submitting ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Kill switch dialog
+// ---------------------------------------------------------------------------
+
+function SwitchDialog({
+  target,
+  onClose,
+  onDone,
+}: {
+  target: PipelineSwitch | null;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReason("");
+  }, [target]);
+
+  if (!target) return null;
+
+  const label = target.paused ? `Resume ${target.stage}` : `Pause ${target.stage}`;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/admin/switches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stage: target.stage, paused: !target.paused, reason }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Update failed");
+      }
+      toast({ title: label, description: target.paused ? "Runs again from the next cycle." : "Skipped until resumed." });
+      onDone();
+    } catch (error) {
+      toast({
+        title: `${label} failed`,
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{label}</DialogTitle>
+          <DialogDescription>{target.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="switch-reason">Reason</Label>
+          <Textarea
+            id="switch-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={target.paused ? "Why is it safe to resume?" : "What is misbehaving?"}
+            maxLength={500}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            variant={target.paused ? "default" : "destructive"}
+            onClick={handleSubmit}
+            disabled={reason.trim().length === 0 || submitting}
+          >
+            {submitting ? "Saving..." : label}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main page component
+// ---------------------------------------------------------------------------
+
+export default function AdminSettingsPage() {
+  const [data, setData] = useState<SettingsResponse | null>(null);
+  const [switches, setSwitches] = useState<PipelineSwitch[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [forbidden, setForbidden] = useState(false);
+  const [selected, setSelected] = useState<PipelineSetting | null>(null);
+  const [selectedSwitch, setSelectedSwitch] = useState<PipelineSwitch | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [res, switchRes] = await Promise.all([
+        fetch("/api/admin/settings"),
+        fetch("/api/admin/switches"),
+      ]);
+      const body = await res.json().catch(() => ({}));
+      const switchBody = await switchRes.json().catch(() => ({}));
+      if (res.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      if (!res.ok || !switchRes.ok) {
+        throw new Error(body.error || switchBody.error || "Failed to load settings");
+      }
+      setData(body as SettingsResponse);
+      setSwitches(switchBody.switches as PipelineSwitch[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load settings");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (forbidden) {
+    return (
+      <Card className="border-border/50">
+        <CardContent className="py-12 text-center">
+          <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground/40" />
+          <h3 className="mt-4 font-medium">Operators only</h3>
+          <p className="mt-2 text-muted-foreground">
+            Your account does not have access to the operations console.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const unitOf = (key: string) =>
+    data?.settings.find((s) => s.key === key)?.unit ?? "minutes";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">Pipeline settings</h2>
+          <p className="text-muted-foreground mt-1">
+            Kill switches and guardrails read by the cron, fulfillment and stuck-lot recovery. Changes apply on the next run.
+          </p>
+        </div>
+        <Button variant="outline" size="icon" onClick={load} disabled={loading} title="Refresh">
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-border/50">
+          <CardContent className="py-6 text-center">
+            <p className="text-sm text-destructive">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {switches && (
+        <Card className="border-border/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <PauseCircle className="h-4 w-4" />
+              Kill switches
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableBody>
+                {switches.map((sw) => (
+                  <TableRow key={sw.stage}>
+                    <TableCell className="max-w-sm">
+                      <p className="font-medium">{sw.stage}</p>
+                      <p className="text-xs text-muted-foreground whitespace-normal">{sw.description}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={sw.paused ? "destructive" : "outline"}>
+                        {sw.paused ? "Paused" : "Running"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-sm text-xs text-muted-foreground whitespace-normal">
+                      {sw.updated_at
+                        ? `${new Date(sw.updated_at).toLocaleString()} by ${sw.updated_by}: ${sw.reason}`
+                        : "--"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => setSelectedSwitch(sw)}>
+                        {sw.paused ? "Resume" : "Pause"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {data && (
+        <>
+          <Card className="border-border/50">
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Setting</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Default</TableHead>
+                    <TableHead>Last change</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.settings.map((setting) => (
+                    <TableRow key={setting.key}>
+                      <TableCell className="max-w-sm">
+                        <p className="font-medium">{setting.label}</p>
+                        <p className="text-xs text-muted-foreground whitespace-normal">
+                          {setting.description}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        {formatValue(setting.unit, setting.value)}
+                        {setting.updated_at && (
+                          <Badge variant="outline" className="ml-2">
+                            override
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {formatValue(setting.unit, setting.default_value)}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {setting.updated_at
+                          ? `${new Date(setting.updated_at).toLocaleString()} by ${setting.updated_by}`
+                          : "--"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => setSelected(setting)}>
+                          Edit
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <History className="h-4 w-4" />
+                Change history
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {data.audit.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4">No changes yet.</p>
+              ) : (
+                <ol className="space-y-2 text-sm">
+                  {data.audit.map((entry) => (
+                    <li key={entry.id} className="border-l-2 border-border pl-3">
+                      <p>
+                        <span className="font-medium">
+                          {entry.key}: {formatValue(unitOf(entry.key), entry.old_value)} →{" "}
+                          {formatValue(unitOf(entry.key), entry.new_value)}
+                        </span>{" "}
+                        <span className="text-muted-foreground">
+                          by {entry.actor}, {new Date(entry.created_at).toLocaleString()}
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">{entry.reason}</p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <SwitchDialog
+        target={selectedSwitch}
+        onClose={() => setSelectedSwitch(null)}
+        onDone={() => {
+          setSelectedSwitch(null);
+          load();
+        }}
+      />
+
+      <EditDialog
+        setting={selected}
+        onClose={() => setSelected(null)}
+        onDone={() => {
+          setSelected(null);
+          load();
+        }}
+      />
+    </div>
+  );
+}
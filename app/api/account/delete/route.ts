@@ -29,8 +29,14 @@ export async function POST() {
         await db.batch(
             [
                 { sql: "DELETE FROM watchlist_items WHERE user_id = ?", args: [userId] },
+                { sql: "DELETE FROM notification_deliveries WHERE user_id = ?", args: [userId] },
+                { sql: "DELETE FROM bid_events WHERE user_id = ?", args: [userId] },
                 { sql: "DELETE FROM user_preferences WHERE user_id = ?", args: [userId] },
                 { sql: "DELETE FROM user_profiles WHERE user_id = ?", args: [userId] },
+                { sql: "DELETE FROM user_roles WHERE user_id = ?", args: [userId] },
+                { sql: "DELETE FROM password_reset_tokens WHERE user_id = ?", args: [userId] },
+                { sql: "DELETE FROM email_verification_tokens WHERE user_id = ?", args: [userId] },
+                { sql: "DELETE FROM session_revocations WHERE user_id = ?", args: [userId] },
                 { sql: "DELETE FROM payment_profiles WHERE user_id = ?", args: [userId] },
                 {
                     sql: `DELETE FROM payment_order_items
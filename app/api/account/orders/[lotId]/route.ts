@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getDropshipLotById } from "@/lib/dropship";
+import { getOrderTrackingDetail } from "@/lib/order-tracking";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/account/orders/:lotId
+ *
+ * One of the authenticated user's orders with its lifecycle steps,
+ * shipment checkpoints and estimated delivery window.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ lotId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { lotId } = await params;
+
+  // Someone else's lot is indistinguishable from a missing one
+  const lot = await getDropshipLotById(lotId);
+  if (!lot || lot.winner_user_id !== session.user.id) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(await getOrderTrackingDetail(lot));
+}
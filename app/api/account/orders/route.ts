@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { getDropshipLotsByWinner } from "@/lib/dropship";
+import { toBuyerOrder } from "@/lib/order-tracking";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -20,16 +21,5 @@ export async function GET() {
 
   const lots = await getDropshipLotsByWinner(session.user.id);
 
-  // Strip fields the buyer should never see
-  const safe = lots.map(
-    ({
-      cj_cost_cents: _cjCost,
-      cj_shipping_cents: _cjShipping,
-      profit_cents: _profit,
-      error_message: _err,
-      ...rest
-    }) => rest
-  );
-
-  return NextResponse.json({ orders: safe });
+  return NextResponse.json({ orders: lots.map(toBuyerOrder) });
 }
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { authOptions } from "@/lib/auth";
 import { getUserById, updateUser } from "@/lib/user";
+import { sendVerificationEmail } from "@/lib/email-verification";
 import { getUserProfile, upsertUserProfile } from "@/lib/user-profile";
 import { getUserPreferences, updateUserPreferences } from "@/lib/user-preferences";
 
@@ -37,7 +38,7 @@ export async function GET() {
     }
 
     return NextResponse.json({
-        user: { id: user.id, name: user.name, email: user.email },
+        user: { id: user.id, name: user.name, email: user.email, emailVerified: Boolean(user.email_verified_at) },
         profile: {
             phone: profile?.phone ?? null,
             location: profile?.location ?? null,
@@ -83,8 +84,17 @@ export async function PUT(request: NextRequest) {
             return NextResponse.json({ error: "User not found" }, { status: 404 });
         }
 
+        // Changing the address clears verification (see updateUser); send a new link
+        if (updates.email && !user.email_verified_at) {
+            try {
+                await sendVerificationEmail(user, request.nextUrl.origin);
+            } catch (error) {
+                console.error("Verification email failed:", error);
+            }
+        }
+
         return NextResponse.json({
-            user: { id: user.id, name: user.name, email: user.email },
+            user: { id: user.id, name: user.name, email: user.email, emailVerified: Boolean(user.email_verified_at) },
             profile: { phone: _profile?.phone ?? null, location: _profile?.location ?? null },
             preferences: {
                 emailNotifications: _preferences.email_notifications,
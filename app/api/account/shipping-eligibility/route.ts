@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getDropshipLotByBastaItem } from "@/lib/dropship";
+import { getBastaUserShippingAddress } from "@/lib/basta-user";
+import {
+    getCountryName,
+    getLotShippingEligibility,
+    normalizeCountryCode,
+} from "@/lib/lot-shipping";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/account/shipping-eligibility?itemId= — can this lot ship to the
+ * user's shipping address, and at what surcharge? `eligible` is null when
+ * the user has no usable address on file yet.
+ */
+export async function GET(request: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const itemId = request.nextUrl.searchParams.get("itemId")?.trim();
+    if (!itemId) {
+        return NextResponse.json({ error: "itemId is required" }, { status: 400 });
+    }
+
+    const lot = await getDropshipLotByBastaItem(itemId);
+    if (!lot) {
+        return NextResponse.json({ restricted: false, eligible: true, country: null, surchargeCents: 0 });
+    }
+
+    let country: string | null = null;
+    try {
+        country = normalizeCountryCode((await getBastaUserShippingAddress(session.user.id))?.country);
+    } catch (e) {
+        console.warn("[shipping] Could not read shipping address:", e);
+    }
+
+    const eligibility = await getLotShippingEligibility(lot, country);
+    return NextResponse.json({
+        restricted: eligibility.restricted,
+        eligible: eligibility.restricted && !country ? null : eligibility.eligible,
+        country: country ? getCountryName(country) : null,
+        surchargeCents: eligibility.surchargeCents,
+    });
+}
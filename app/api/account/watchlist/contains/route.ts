@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { isWatchlisted } from "@/lib/watchlist";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET /api/account/watchlist/contains?saleId=&itemId= — is this lot watched? */
+export async function GET(request: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const saleId = request.nextUrl.searchParams.get("saleId")?.trim();
+    const itemId = request.nextUrl.searchParams.get("itemId")?.trim();
+    if (!saleId || !itemId) {
+        return NextResponse.json({ error: "saleId and itemId are required" }, { status: 400 });
+    }
+
+    return NextResponse.json({
+        watchlisted: await isWatchlisted(session.user.id, saleId, itemId),
+    });
+}
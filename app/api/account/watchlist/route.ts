@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { getClientApiClient } from "@/lib/basta-client";
+import {
+    addWatchlistItem,
+    listWatchlistItems,
+    removeWatchlistItem,
+    type WatchlistItem,
+} from "@/lib/watchlist";
+
+type WatchlistItemView = {
+    saleId: string;
+    itemId: string;
+    addedAt: string;
+    lotNumber?: number;
+    lotTitle?: string;
+    auctionTitle?: string;
+    image?: string;
+    currency?: string | null;
+    currentBid?: number | null;
+    startingBid?: number | null;
+    totalBids?: number | null;
+    bidStatus?: string | null;
+    itemStatus?: string | null;
+    closingDate?: string | null;
+};
+
+const itemSchema = z.object({
+    saleId: z.string().min(1, "Sale ID is required"),
+    itemId: z.string().min(1, "Item ID is required"),
+});
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function fetchSaleTitles(
+    client: ReturnType<typeof getClientApiClient>,
+    saleIds: string[]
+): Promise<Map<string, string | undefined>> {
+    const titles = new Map<string, string | undefined>();
+    await Promise.all(
+        saleIds.map(async (saleId) => {
+            try {
+                const res = await client.query({
+                    sale: {
+                        __args: { id: saleId },
+                        title: true,
+                    },
+                });
+                titles.set(saleId, res.sale?.title ?? undefined);
+            } catch {
+                titles.set(saleId, undefined);
+            }
+        })
+    );
+    return titles;
+}
+
+/** Live lot data from Basta; falls back to the stored ids if the lookup fails. */
+async function fetchItemView(
+    client: ReturnType<typeof getClientApiClient>,
+    entry: WatchlistItem
+): Promise<WatchlistItemView> {
+    const base: WatchlistItemView = {
+        saleId: entry.sale_id,
+        itemId: entry.item_id,
+        addedAt: entry.created_at,
+    };
+
+    try {
+        const res = await client.query({
+            saleItem: {
+                __args: { saleId: entry.sale_id, itemId: entry.item_id },
+                id: true,
+                itemNumber: true,
+                title: true,
+                status: true,
+                currency: true,
+                currentBid: true,
+                startingBid: true,
+                totalBids: true,
+                bidStatus: true,
+                images: { url: true },
+                dates: { closingEnd: true },
+            },
+        });
+
+        const item = res.saleItem;
+        if (!item) return base;
+
+        return {
+            ...base,
+            lotNumber: item.itemNumber ?? undefined,
+            lotTitle: item.title ?? undefined,
+            image: item.images?.[0]?.url ?? undefined,
+            currency: item.currency ?? null,
+            currentBid: item.currentBid ?? null,
+            startingBid: item.startingBid ?? null,
+            totalBids: item.totalBids ?? null,
+            bidStatus: item.bidStatus ?? null,
+            itemStatus: item.status ?? null,
+            closingDate: item.dates?.closingEnd ?? null,
+        };
+    } catch (error) {
+        console.warn(`Watchlist lookup failed for ${entry.sale_id}/${entry.item_id}:`, error);
+        return base;
+    }
+}
+
+/**
+ * GET /api/account/watchlist — the user's watchlist with live lot data.
+ * With `?saleId=`, returns just the watched item ids in that sale (used to
+ * mark lot cards on the auction page without a Basta round trip per lot).
+ */
+export async function GET(request: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const saleId = request.nextUrl.searchParams.get("saleId")?.trim();
+    if (saleId) {
+        const entries = await listWatchlistItems(session.user.id, saleId);
+        return NextResponse.json({ itemIds: entries.map((entry) => entry.item_id) });
+    }
+
+    const entries = await listWatchlistItems(session.user.id);
+    if (entries.length === 0) {
+        return NextResponse.json({ items: [] });
+    }
+
+    const client = getClientApiClient(session.bidderToken);
+    const [items, saleTitles] = await Promise.all([
+        Promise.all(entries.map((entry) => fetchItemView(client, entry))),
+        fetchSaleTitles(client, Array.from(new Set(entries.map((entry) => entry.sale_id)))),
+    ]);
+
+    return NextResponse.json({
+        items: items.map((item) => ({ ...item, auctionTitle: saleTitles.get(item.saleId) })),
+    });
+}
+
+export async function POST(request: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = itemSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.errors[0]?.message || "Invalid payload" }, { status: 400 });
+    }
+
+    await addWatchlistItem(session.user.id, parsed.data.saleId, parsed.data.itemId);
+    return NextResponse.json({ watchlisted: true });
+}
+
+export async function DELETE(request: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = itemSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.errors[0]?.message || "Invalid payload" }, { status: 400 });
+    }
+
+    await removeWatchlistItem(session.user.id, parsed.data.saleId, parsed.data.itemId);
+    return NextResponse.json({ watchlisted: false });
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/route-guard";
+import { applyOperatorAction, type OperatorAction } from "@/lib/dropship-admin";
+import {
+  getAllowedTransitions,
+  getDropshipLotById,
+  getDropshipLotEvents,
+  isDropshipLotStatus,
+} from "@/lib/dropship";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const actionSchema = z.object({
+  action: z.enum(["transition", "retry_fulfillment", "refund"]),
+  toStatus: z.string().optional(),
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+});
+
+/**
+ * GET /api/admin/lots/:lotId
+ *
+ * A single lot with its status timeline (oldest event first).
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ lotId: string }> }
+) {
+  const guard = await requireRole("operator");
+  if (guard.response) return guard.response;
+
+  const { lotId } = await params;
+
+  const lot = await getDropshipLotById(lotId);
+  if (!lot) {
+    return NextResponse.json({ error: "Lot not found" }, { status: 404 });
+  }
+
+  const events = await getDropshipLotEvents(lotId);
+
+  return NextResponse.json({
+    lot: { ...lot, allowed_transitions: getAllowedTransitions(lot.status) },
+    events,
+  });
+}
+
+/**
+ * POST /api/admin/lots/:lotId
+ *
+ * Body: { action: "transition" | "retry_fulfillment" | "refund", toStatus?, reason }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ lotId: string }> }
+) {
+  const guard = await requireRole("operator");
+  if (guard.response) return guard.response;
+
+  const { lotId } = await params;
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = actionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.errors[0]?.message || "Invalid payload" },
+      { status: 400 }
+    );
+  }
+
+  let action: OperatorAction;
+  if (parsed.data.action === "transition") {
+    const toStatus = parsed.data.toStatus;
+    if (!toStatus || !isDropshipLotStatus(toStatus)) {
+      return NextResponse.json({ error: "A valid toStatus is required" }, { status: 400 });
+    }
+    action = { type: "transition", toStatus };
+  } else {
+    action = { type: parsed.data.action };
+  }
+
+  const operator = guard.session.user.email ?? guard.session.user.id;
+
+  try {
+    const result = await applyOperatorAction({
+      lotId,
+      action,
+      operator,
+      reason: parsed.data.reason,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      message: result.message,
+      lot: {
+        ...result.lot,
+        allowed_transitions: getAllowedTransitions(result.lot.status),
+      },
+    });
+  } catch (error) {
+    console.error(`[admin] Action ${action.type} on lot ${lotId} failed:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Action failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/route-guard";
+import { getStatusDashboard } from "@/lib/pipeline";
+import {
+  getAllowedTransitions,
+  getDropshipLotsByStatus,
+  isDropshipLotStatus,
+  type DropshipLot,
+  type DropshipLotStatus,
+} from "@/lib/dropship";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function withTransitions(lots: DropshipLot[]) {
+  return lots.map((lot) => ({
+    ...lot,
+    allowed_transitions: getAllowedTransitions(lot.status),
+  }));
+}
+
+/**
+ * GET /api/admin/lots[?status=<DropshipLotStatus>]
+ *
+ * Operator dashboard: status counts, stuck / failed buckets, financials and
+ * the lot list (optionally filtered by status). Each lot carries the
+ * transitions an operator may force from its current status.
+ */
+export async function GET(request: NextRequest) {
+  const guard = await requireRole("operator");
+  if (guard.response) return guard.response;
+
+  const statusParam = request.nextUrl.searchParams.get("status")?.trim() || null;
+  let status: DropshipLotStatus | null = null;
+  if (statusParam) {
+    if (!isDropshipLotStatus(statusParam)) {
+      return NextResponse.json({ error: `Unknown status: ${statusParam}` }, { status: 400 });
+    }
+    status = statusParam;
+  }
+
+  const dashboard = await getStatusDashboard();
+  const lots = status ? await getDropshipLotsByStatus(status) : dashboard.lots;
+
+  return NextResponse.json({
+    total: dashboard.total,
+    byStatus: dashboard.byStatus,
+    financials: dashboard.financials,
+    stuck: withTransitions(dashboard.stuck),
+    failed: withTransitions(dashboard.failed),
+    lots: withTransitions(lots),
+  });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/route-guard";
+import {
+  getLastStepSuccesses,
+  getOverdueJobs,
+  listPipelineRuns,
+  type PipelineJob,
+} from "@/lib/pipeline-runs";
+import { listPipelineLocks } from "@/lib/pipeline-locks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const JOBS: PipelineJob[] = ["process", "source", "monitor"];
+
+/**
+ * GET /api/admin/runs[?job=<process|source|monitor>&limit=<n>]
+ *
+ * Recent pipeline runs with their steps (newest first), when each step last
+ * succeeded, any scheduled job that is overdue, and the stage locks held
+ * right now.
+ */
+export async function GET(request: NextRequest) {
+  const guard = await requireRole("operator");
+  if (guard.response) return guard.response;
+
+  const jobParam = request.nextUrl.searchParams.get("job")?.trim() || null;
+  if (jobParam && !JOBS.includes(jobParam as PipelineJob)) {
+    return NextResponse.json({ error: `Unknown job: ${jobParam}` }, { status: 400 });
+  }
+
+  const limitParam = Number(request.nextUrl.searchParams.get("limit") ?? 20);
+  const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, 100) : 20;
+
+  const [runs, lastSuccess, overdue, locks] = await Promise.all([
+    listPipelineRuns({ job: (jobParam as PipelineJob | null) ?? undefined, limit }),
+    getLastStepSuccesses(),
+    getOverdueJobs(),
+    listPipelineLocks(),
+  ]);
+
+  return NextResponse.json({ runs, lastSuccess, overdue, locks });
+}
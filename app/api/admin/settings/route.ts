@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/route-guard";
+import {
+  getPipelineSettingsAudit,
+  InvalidPipelineSettingError,
+  isPipelineSettingKey,
+  listPipelineSettings,
+  resetPipelineSetting,
+  setPipelineSetting,
+} from "@/lib/pipeline-settings";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const updateSchema = z.object({
+  key: z.string(),
+  // null resets the setting to its default
+  value: z.union([z.number(), z.string(), z.null()]),
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+});
+
+/**
+ * GET /api/admin/settings
+ *
+ * Every pipeline guardrail with its current value, default and bounds, plus
+ * the latest changes (newest first).
+ */
+export async function GET() {
+  const guard = await requireRole("operator");
+  if (guard.response) return guard.response;
+
+  const [settings, audit] = await Promise.all([
+    listPipelineSettings(),
+    getPipelineSettingsAudit(50),
+  ]);
+
+  return NextResponse.json({ settings, audit });
+}
+
+/**
+ * POST /api/admin/settings
+ *
+ * Body: { key, value, reason } — value null resets the setting to its default.
+ */
+export async function POST(request: Request) {
+  const guard = await requireRole("operator");
+  if (guard.response) return guard.response;
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = updateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.errors[0]?.message || "Invalid payload" },
+      { status: 400 }
+    );
+  }
+
+  const { key, value, reason } = parsed.data;
+  if (!isPipelineSettingKey(key)) {
+    return NextResponse.json({ error: `Unknown setting: ${key}` }, { status: 400 });
+  }
+
+  const context = {
+    actor: `operator:${guard.session.user.email ?? guard.session.user.id}` as const,
+    reason,
+  };
+
+  try {
+    const setting = value === null
+      ? await resetPipelineSetting(key, context)
+      : await setPipelineSetting(key, value, context);
+    return NextResponse.json({ setting });
+  } catch (error) {
+    if (error instanceof InvalidPipelineSettingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(`[admin] Updating pipeline setting ${key} failed:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Update failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/route-guard";
+import {
+  InvalidPipelineSwitchError,
+  isPipelineStage,
+  listPipelineSwitches,
+  pausePipelineStage,
+  resumePipelineStage,
+} from "@/lib/pipeline-switches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const toggleSchema = z.object({
+  stage: z.string(),
+  paused: z.boolean(),
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+});
+
+/**
+ * GET /api/admin/switches
+ *
+ * Every pipeline stage with its kill-switch state and last change.
+ */
+export async function GET() {
+  const guard = await requireRole("operator");
+  if (guard.response) return guard.response;
+
+  return NextResponse.json({ switches: await listPipelineSwitches() });
+}
+
+/**
+ * POST /api/admin/switches
+ *
+ * Body: { stage, paused, reason }
+ */
+export async function POST(request: Request) {
+  const guard = await requireRole("operator");
+  if (guard.response) return guard.response;
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = toggleSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.errors[0]?.message || "Invalid payload" },
+      { status: 400 }
+    );
+  }
+
+  const { stage, paused, reason } = parsed.data;
+  if (!isPipelineStage(stage)) {
+    return NextResponse.json({ error: `Unknown stage: ${stage}` }, { status: 400 });
+  }
+
+  const context = {
+    actor: `operator:${guard.session.user.email ?? guard.session.user.id}` as const,
+    reason,
+  };
+
+  try {
+    const updated = paused
+      ? await pausePipelineStage(stage, context)
+      : await resumePipelineStage(stage, context);
+    return NextResponse.json({ switch: updated });
+  } catch (error) {
+    if (error instanceof InvalidPipelineSwitchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(`[admin] ${paused ? "Pausing" : "Resuming"} ${stage} failed:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Update failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { emailExists } from "@/lib/user";
+import { getUserByEmail } from "@/lib/user";
+import { createPasswordResetToken, PASSWORD_RESET_TTL_MINUTES } from "@/lib/password-reset";
+import { sendEmail } from "@/lib/email";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -23,11 +25,22 @@ export async function POST(request: NextRequest) {
         const { email } = parsed.data;
 
         // Check if user exists (but always return success to prevent enumeration)
-        const exists = await emailExists(email);
-        if (exists) {
-            // TODO: Send actual password reset email via your email provider.
-            // For now, log that a reset was requested for a valid account.
-            console.log(`Password reset requested for: ${email}`);
+        const user = await getUserByEmail(email);
+        if (user) {
+            const token = await createPasswordResetToken(user.id);
+            // Prefer the configured URL: the Host header is caller-controlled
+            const baseUrl = process.env.NEXTAUTH_URL?.trim() || request.nextUrl.origin;
+            const resetUrl = new URL("/reset-password", baseUrl);
+            resetUrl.searchParams.set("token", token);
+
+            await sendEmail({
+                to: user.email,
+                template: "password_reset",
+                data: {
+                    resetUrl: resetUrl.toString(),
+                    expiresMinutes: PASSWORD_RESET_TTL_MINUTES,
+                },
+            });
         }
 
         // Always return success to prevent email enumeration
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { resetPasswordWithToken } from "@/lib/password-reset";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const schema = z.object({
+    token: z.string().min(1, "Reset link is missing its token."),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const parsed = schema.safeParse(body);
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: parsed.error.errors[0]?.message ?? "Invalid request." },
+                { status: 400 }
+            );
+        }
+
+        const { token, password } = parsed.data;
+
+        const userId = await resetPasswordWithToken(token, password);
+        if (!userId) {
+            return NextResponse.json(
+                { error: "This reset link is invalid or has expired. Please request a new one." },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Reset password error:", error);
+        return NextResponse.json(
+            { error: "Unable to reset your password right now." },
+            { status: 500 }
+        );
+    }
+}
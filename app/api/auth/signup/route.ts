@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createUser, emailExists } from "@/lib/user";
 import { grantUserBalance } from "@/lib/balance";
+import { sendVerificationEmail } from "@/lib/email-verification";
 import { z } from "zod";
 
 const signupSchema = z.object({
@@ -45,6 +46,13 @@ export async function POST(request: NextRequest) {
         // Create the user
         const user = await createUser(email, password, name);
 
+        // Sale registration is blocked until the address is confirmed
+        try {
+            await sendVerificationEmail(user, request.nextUrl.origin);
+        } catch (error) {
+            console.error("Verification email failed:", error);
+        }
+
         // Optional: Signup bonus balance (USD). Does not block signup if it fails.
         const amountCents = Number.parseInt(process.env.SIGNUP_BONUS_AMOUNT_CENTS || "0", 10);
         const bonusStart = parseOptionalDate(process.env.SIGNUP_BONUS_START);
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserById } from "@/lib/user";
+import { sendVerificationEmail, verifyEmailWithToken } from "@/lib/email-verification";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Confirmation link target: spend the token, then land on the sign-in page. */
+export async function GET(request: NextRequest) {
+    const token = request.nextUrl.searchParams.get("token");
+    const redirectUrl = new URL("/login", request.nextUrl.origin);
+
+    try {
+        const userId = token ? await verifyEmailWithToken(token) : null;
+        redirectUrl.searchParams.set("verified", userId ? "1" : "invalid");
+    } catch (error) {
+        console.error("Verify email error:", error);
+        redirectUrl.searchParams.set("verified", "invalid");
+    }
+
+    return NextResponse.redirect(redirectUrl);
+}
+
+/** Resend the verification link to the signed-in user's current address. */
+export async function POST(request: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized - Please log in" }, { status: 401 });
+    }
+
+    try {
+        const user = await getUserById(session.user.id);
+        if (!user) {
+            return NextResponse.json({ error: "User not found" }, { status: 404 });
+        }
+
+        if (user.email_verified_at) {
+            return NextResponse.json({ success: true, alreadyVerified: true });
+        }
+
+        await sendVerificationEmail(user, request.nextUrl.origin);
+        return NextResponse.json({ success: true, alreadyVerified: false });
+    } catch (error) {
+        console.error("Resend verification error:", error);
+        return NextResponse.json(
+            { error: "Unable to send the verification email right now." },
+            { status: 500 }
+        );
+    }
+}
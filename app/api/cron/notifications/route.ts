@@ -0,0 +1,48 @@
+/**
+ * Vercel Cron endpoint — runs every 15 minutes to send outbid, closing-soon
+ * and auction-started emails (see lib/bid-notifications.ts). Also runs the
+ * pipeline-run watchdog, so a stalled /api/cron/process is noticed.
+ *
+ * Auth: Bearer token matching CRON_SECRET env var.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { processBidNotifications } from "@/lib/bid-notifications";
+import { sendAlert } from "@/lib/alerts";
+import { checkOverdueRuns } from "@/lib/pipeline-runs";
+
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await checkOverdueRuns();
+  } catch (e) {
+    console.error("[cron/notifications] checkOverdueRuns failed (continuing):", e);
+  }
+
+  try {
+    const result = await processBidNotifications();
+
+    if (result.errors.length > 0) {
+      await sendAlert(
+        `Bid notifications failed for ${result.errors.length} sale(s): ${result.errors.join("; ")}`,
+        "warning"
+      );
+    }
+
+    return NextResponse.json({ ok: true, result });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.error("[cron/notifications] processBidNotifications failed:", e);
+    await sendAlert(`processBidNotifications failed: ${message}`);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -1,8 +1,17 @@
 /**
  * Vercel Cron endpoint — runs every 10 minutes to catch missed webhooks,
- * retry failed fulfillments, and process auto-refunds.
+ * retry failed fulfillments, process auto-refunds, time out unpaid
+ * invoices, sync shipment tracking, and queue unsold lots for relisting.
  *
  * Auth: Bearer token matching CRON_SECRET env var.
+ * The spend cap and margin floor are pipeline settings (lib/pipeline-settings.ts);
+ * if the settings can't be read, the steps that spend or invoice are skipped.
+ * Steps whose stage is paused (lib/pipeline-switches.ts) are skipped, not failed;
+ * if the switches can't be read, every stage step is skipped.
+ * Stage steps run under the stage's lock (lib/pipeline-locks.ts); a step whose
+ * lock another run holds waits (sharing LOCK_WAIT_BUDGET_MS across the run),
+ * then is skipped and left to that run.
+ * Each run and step is recorded in pipeline_runs (lib/pipeline-runs.ts).
  * Each step has independent try/catch so one failure doesn't block others.
  */
 
@@ -11,15 +20,44 @@ import {
   pollAndProcessClosedSales,
   retryFailedFulfillments,
   processRefunds,
+  processUnpaidInvoices,
   getFinancialSummary,
   checkCjQuota,
   handleStuckLots,
+  syncShipmentTracking,
+  relistUnsoldDropshipLots,
 } from "@/lib/pipeline";
 import { sendAlert } from "@/lib/alerts";
 import { db } from "@/lib/turso";
+import {
+  formatPipelineSetting,
+  getPipelineSettings,
+  type PipelineSettings,
+} from "@/lib/pipeline-settings";
+import {
+  describePause,
+  getPausedStages,
+  type PipelineStage,
+  type PipelineSwitch,
+} from "@/lib/pipeline-switches";
+import {
+  checkOverdueRuns,
+  finishPipelineRun,
+  recordSkippedStep,
+  runPipelineStep,
+  startPipelineRun,
+} from "@/lib/pipeline-runs";
+import { describeLock, withPipelineLock } from "@/lib/pipeline-locks";
 
 export const maxDuration = 60;
 
+/**
+ * Total time one run may spend waiting for stage locks. Webhooks hold a
+ * stage for seconds; a step still locked after this is skipped until the
+ * next scheduled run.
+ */
+const LOCK_WAIT_BUDGET_MS = 20_000;
+
 export async function GET(request: NextRequest) {
   // Verify cron secret
   const authHeader = request.headers.get("authorization");
@@ -30,8 +68,78 @@ export async function GET(request: NextRequest) {
   }
 
   const results: Record<string, unknown> = {};
+  const runId = await startPipelineRun("process", "cron");
+
+  // Guardrail values; if they can't be read, the steps that spend or invoice
+  // are skipped (fail closed) rather than run on defaults an operator may
+  // have tightened
+  let settings: PipelineSettings | null = null;
+  try {
+    settings = await getPipelineSettings();
+  } catch (e) {
+    console.error("[cron] Pipeline settings unavailable (skipping spend steps):", e);
+    await sendAlert(
+      `Pipeline settings could not be read — the cron skipped poll, fulfillment, refunds and unpaid invoices this run: ${e instanceof Error ? e.message : String(e)}`,
+      "critical"
+    );
+  }
 
-  // Guard: Daily spending cap ($500)
+  // Kill switches; if they can't be read, every stage is skipped (fail closed)
+  let paused: Map<PipelineStage, PipelineSwitch> | null = null;
+  try {
+    paused = await getPausedStages();
+  } catch (e) {
+    console.error("[cron] Pipeline switches unavailable (skipping every stage):", e);
+    await sendAlert(
+      `Pipeline switches could not be read — the cron skipped every stage this run: ${e instanceof Error ? e.message : String(e)}`,
+      "critical"
+    );
+  }
+  const skipIfPaused = async (stage: PipelineStage, step: string) => {
+    if (!paused) {
+      await recordSkippedStep(runId, step, "pipeline switches unavailable");
+      return { paused: true, stage, by: null, reason: "pipeline switches unavailable" };
+    }
+    const pause = paused.get(stage);
+    if (!pause) return null;
+    console.log(`[cron] ${describePause(pause)} — skipping`);
+    await recordSkippedStep(runId, step, describePause(pause));
+    return { paused: true, stage, by: pause.updated_by, reason: pause.reason };
+  };
+  let lockWaitLeftMs = LOCK_WAIT_BUDGET_MS;
+  const runStageStep = async <T>(stage: PipelineStage, step: string, fn: () => Promise<T>) => {
+    if (!settings) {
+      await recordSkippedStep(runId, step, "pipeline settings unavailable");
+      return { skipped: true, stage, reason: "pipeline settings unavailable" };
+    }
+    const skipped = await skipIfPaused(stage, step);
+    if (skipped) return skipped;
+    const waitStartedAt = Date.now();
+    let acquiredAt: number | null = null;
+    const outcome = await withPipelineLock(
+      stage,
+      "cron:process",
+      () => {
+        acquiredAt = Date.now();
+        return runPipelineStep(runId, step, fn);
+      },
+      { runId, waitMs: lockWaitLeftMs }
+    );
+    lockWaitLeftMs = Math.max(0, lockWaitLeftMs - ((acquiredAt ?? Date.now()) - waitStartedAt));
+    if (outcome.acquired) return outcome.value;
+    const detail = outcome.heldBy ? describeLock(outcome.heldBy) : `${stage} is locked`;
+    await recordSkippedStep(runId, step, detail);
+    return { locked: true, stage, holder: outcome.heldBy?.holder ?? null, since: outcome.heldBy?.acquired_at ?? null };
+  };
+
+  // Watchdog: runs that never finished, scheduled jobs that are overdue
+  try {
+    results.watchdog = await runPipelineStep(runId, "watchdog", () => checkOverdueRuns());
+  } catch (e) {
+    console.error("[cron] checkOverdueRuns failed (continuing):", e);
+  }
+
+  // Guard: Daily spending cap (without settings the spend steps are skipped)
   try {
     const todaySpend = await db.execute({
       sql: `SELECT COALESCE(SUM(total_cost_cents), 0) as total FROM dropship_lots
@@ -40,8 +148,10 @@ export async function GET(request: NextRequest) {
       args: [],
     });
     const spendTotal = Number(todaySpend.rows[0]?.total ?? 0);
-    if (spendTotal > 50000) { // $500
-      await sendAlert("Daily spending cap reached ($500). Halting operations.", "critical");
+    if (settings && spendTotal > settings.daily_spend_cap_cents) {
+      const cap = formatPipelineSetting("daily_spend_cap_cents", settings.daily_spend_cap_cents);
+      await sendAlert(`Daily spending cap reached (${cap}). Halting operations.`, "critical");
+      await finishPipelineRun(runId, { status: "halted", detail: `Daily spend ${formatPipelineSetting("daily_spend_cap_cents", spendTotal)} over the ${cap} cap` });
       return NextResponse.json({ ok: true, halted: "spending_cap", todaySpendCents: spendTotal });
     }
   } catch (e) {
@@ -50,7 +160,7 @@ export async function GET(request: NextRequest) {
 
   // Step 1: Poll for closed sales (catch missed webhooks)
   try {
-    results.poll = await pollAndProcessClosedSales();
+    results.poll = await runStageStep("closed_sales", "poll", () => pollAndProcessClosedSales({ actor: "cron" }));
   } catch (e) {
     console.error("[cron] pollAndProcessClosedSales failed:", e);
     results.poll = { error: e instanceof Error ? e.message : String(e) };
@@ -59,7 +169,7 @@ export async function GET(request: NextRequest) {
 
   // Step 2: Retry failed fulfillments (PAID lots without CJ orders)
   try {
-    results.fulfillment = await retryFailedFulfillments();
+    results.fulfillment = await runStageStep("fulfillment", "fulfillment", () => retryFailedFulfillments({ actor: "cron" }));
   } catch (e) {
     console.error("[cron] retryFailedFulfillments failed:", e);
     results.fulfillment = { error: e instanceof Error ? e.message : String(e) };
@@ -68,20 +178,36 @@ export async function GET(request: NextRequest) {
 
   // Step 3: Auto-refund CJ failures (CJ_OUT_OF_STOCK, CJ_PRICE_CHANGED)
   try {
-    results.refund = await processRefunds();
+    results.refund = await runStageStep("refunds", "refund", () => processRefunds({ actor: "cron" }));
   } catch (e) {
     console.error("[cron] processRefunds failed:", e);
     results.refund = { error: e instanceof Error ? e.message : String(e) };
     await sendAlert(`processRefunds failed: ${e instanceof Error ? e.message : String(e)}`);
   }
 
-  // Step 4: Attach financial summary + margin floor guard
+  // Step 4: Retry, remind, or void unpaid invoices (second-chance offers)
   try {
-    const financials = await getFinancialSummary();
+    results.unpaid = await runStageStep("closed_sales", "unpaid", () => processUnpaidInvoices({ actor: "cron" }));
+  } catch (e) {
+    console.error("[cron] processUnpaidInvoices failed:", e);
+    results.unpaid = { error: e instanceof Error ? e.message : String(e) };
+    await sendAlert(`processUnpaidInvoices failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // Step 5: Attach financial summary + margin floor guard
+  try {
+    const financials = await runPipelineStep(runId, "financials", () => getFinancialSummary());
     results.financials = financials;
 
-    if (financials.profitMargin < -5) {
-      await sendAlert(`Margin floor breached: ${financials.profitMargin.toFixed(1)}%. Halting operations.`, "critical");
+    if (settings && financials.profitMargin < settings.margin_floor_percent) {
+      await sendAlert(
+        `Margin floor breached: ${financials.profitMargin.toFixed(1)}% (floor ${settings.margin_floor_percent}%). Halting operations.`,
+        "critical"
+      );
+      await finishPipelineRun(runId, {
+        status: "halted",
+        detail: `Profit margin ${financials.profitMargin.toFixed(1)}% below the ${settings.margin_floor_percent}% floor`,
+      });
       return NextResponse.json({ ok: true, halted: "margin_floor", results });
     }
   } catch (e) {
@@ -89,9 +215,9 @@ export async function GET(request: NextRequest) {
     results.financials = { error: e instanceof Error ? e.message : String(e) };
   }
 
-  // Step 5: Check CJ API quota and alert if critically low
+  // Step 6: Check CJ API quota and alert if critically low
   try {
-    const quotaReport = await checkCjQuota();
+    const quotaReport = await runPipelineStep(runId, "quota", () => checkCjQuota());
     results.quota = quotaReport;
 
     if (!quotaReport.healthy) {
@@ -108,16 +234,34 @@ export async function GET(request: NextRequest) {
     results.quota = { error: e instanceof Error ? e.message : String(e) };
   }
 
-  // Step 6: Detect and recover stuck lots
+  // Step 7: Detect and recover stuck lots
   try {
-    results.stuckLots = await handleStuckLots();
+    results.stuckLots = await runPipelineStep(runId, "stuckLots", () => handleStuckLots({ actor: "cron" }));
   } catch (e) {
     console.error("[cron] handleStuckLots failed:", e);
     results.stuckLots = { error: e instanceof Error ? e.message : String(e) };
     await sendAlert(`handleStuckLots failed: ${e instanceof Error ? e.message : String(e)}`);
   }
 
-  // Step 7: Summary alert if any pipeline steps failed during this cron run
+  // Step 8: Sync carrier tracking for shipped lots (delivery, stale parcels)
+  try {
+    results.tracking = await runPipelineStep(runId, "tracking", () => syncShipmentTracking({ actor: "cron" }));
+  } catch (e) {
+    console.error("[cron] syncShipmentTracking failed:", e);
+    results.tracking = { error: e instanceof Error ? e.message : String(e) };
+    await sendAlert(`syncShipmentTracking failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // Step 9: Reprice lots that missed their reserve for the next sale
+  try {
+    results.relist = await runPipelineStep(runId, "relist", () => relistUnsoldDropshipLots({ actor: "cron" }));
+  } catch (e) {
+    console.error("[cron] relistUnsoldDropshipLots failed:", e);
+    results.relist = { error: e instanceof Error ? e.message : String(e) };
+    await sendAlert(`relistUnsoldDropshipLots failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // Step 10: Summary alert if any pipeline steps failed during this cron run
   const failedSteps = Object.entries(results)
     .filter(([, value]) => value && typeof value === "object" && "error" in (value as Record<string, unknown>))
     .map(([key]) => key);
@@ -129,5 +273,7 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  return NextResponse.json({ ok: true, results });
+  await finishPipelineRun(runId);
+
+  return NextResponse.json({ ok: true, runId, results });
 }
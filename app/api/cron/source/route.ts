@@ -1,16 +1,25 @@
 /**
  * Vercel Cron endpoint — runs daily to auto-source products using keyword rotation.
  *
- * Picks the next keyword from the sourcing_keywords table (oldest last_sourced_at,
- * highest priority), runs the sourcing pipeline, and records the result.
+ * Picks the next keyword from the sourcing_keywords table — mostly the one whose
+ * lots earn the most per listing, sometimes the next in rotation (see
+ * lib/keyword-performance.ts) — runs the sourcing pipeline, and records the result.
+ *
+ * Skipped while the sourcing stage is paused (lib/pipeline-switches.ts) or
+ * while another sourcing run holds its lock (lib/pipeline-locks.ts).
+ * Each run is recorded in pipeline_runs (lib/pipeline-runs.ts).
  *
  * Auth: Bearer token matching CRON_SECRET env var.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getNextKeyword, markKeywordSourced } from "@/lib/sourcing-keywords";
+import { markKeywordSourced } from "@/lib/sourcing-keywords";
+import { chooseNextKeyword } from "@/lib/keyword-performance";
 import { runAutoSource } from "@/lib/pipeline";
 import { sendAlert } from "@/lib/alerts";
+import { describePause, getStagePause, type PipelineSwitch } from "@/lib/pipeline-switches";
+import { finishPipelineRun, runPipelineStep, startPipelineRun } from "@/lib/pipeline-runs";
+import { describeLock, withPipelineLock } from "@/lib/pipeline-locks";
 
 export const maxDuration = 120;
 
@@ -23,11 +32,47 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  const runId = await startPipelineRun("source", "cron");
+
+  // Fail closed: if the switches can't be read, don't source. Sales are
+  // published as they are built, so a paused publishing stage skips too.
+  let pause: PipelineSwitch | null;
+  try {
+    pause = (await getStagePause("sourcing")) ?? (await getStagePause("publishing"));
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    console.error("[cron/source] Pipeline switches unavailable — skipping:", e);
+    await sendAlert(`Pipeline switches could not be read — the sourcing cron skipped this run: ${message}`, "critical");
+    await finishPipelineRun(runId, { status: "skipped", detail: `pipeline switches unavailable: ${message}` });
+    return NextResponse.json({ ok: false, skipped: true, reason: "Pipeline switches unavailable" }, { status: 503 });
+  }
+  if (pause) {
+    console.log(`[cron/source] ${describePause(pause)} — skipping.`);
+    await finishPipelineRun(runId, { status: "skipped", detail: describePause(pause) });
+    return NextResponse.json({
+      ok: true,
+      skipped: true,
+      reason: describePause(pause),
+    });
+  }
+
+  const outcome = await withPipelineLock("sourcing", "cron:source", () => sourceNextKeyword(runId), { runId });
+  if (outcome.acquired) return outcome.value;
+
+  const detail = outcome.heldBy ? describeLock(outcome.heldBy) : "sourcing is locked";
+  console.log(`[cron/source] ${detail} — skipping.`);
+  await finishPipelineRun(runId, { status: "skipped", detail });
+  return NextResponse.json({ ok: true, skipped: true, reason: detail });
+}
+
+/** Pick the next keyword and source it. Runs while holding the sourcing lock. */
+async function sourceNextKeyword(runId: string | null): Promise<NextResponse> {
   // Get next keyword to source
-  const keyword = await getNextKeyword();
+  const selection = await chooseNextKeyword();
 
-  if (!keyword) {
+  if (!selection) {
     console.log("[cron/source] No active sourcing keywords configured.");
+    await finishPipelineRun(runId, { status: "skipped", detail: "No active sourcing keywords" });
     return NextResponse.json({
       ok: true,
       skipped: true,
@@ -35,30 +80,41 @@ export async function GET(request: NextRequest) {
     });
   }
 
+  const { keyword, mode, performance } = selection;
+  const profitPerListing = performance?.profit_per_listing_cents;
   console.log(
-    `[cron/source] Selected keyword: "${keyword.keyword}" (id: ${keyword.id}, priority: ${keyword.priority}, runs: ${keyword.total_runs})`
+    `[cron/source] Selected keyword: "${keyword.keyword}" (id: ${keyword.id}, ${mode}, priority: ${keyword.priority}, runs: ${keyword.total_runs}` +
+      `${profitPerListing != null ? `, $${(profitPerListing / 100).toFixed(2)}/listing` : ""})`
   );
 
   try {
-    const result = await runAutoSource({
-      keyword: keyword.keyword,
-      maxCostUsd: keyword.max_cost_usd,
-      maxProducts: keyword.max_products,
-      publish: true,
-    });
+    const result = await runPipelineStep(runId, "source", () =>
+      runAutoSource({
+        keyword: keyword.keyword,
+        maxCostUsd: keyword.max_cost_usd,
+        maxProducts: keyword.max_products,
+        publish: true,
+        actor: "cron",
+      })
+    );
 
     // Record the sourcing run
     await markKeywordSourced(keyword.id, result.lotsCreated);
 
     console.log(
-      `[cron/source] Done: keyword="${result.keyword}" sale=${result.saleId} lots=${result.lotsCreated}`
+      `[cron/source] Done: keyword="${result.keyword}" sale=${result.saleId} lots=${result.lotsCreated} relisted=${result.lotsRelisted}`
     );
 
+    await finishPipelineRun(runId);
+
     return NextResponse.json({
       ok: true,
+      runId,
       keyword: result.keyword,
+      mode,
       saleId: result.saleId,
       lotsCreated: result.lotsCreated,
+      lotsRelisted: result.lotsRelisted,
     });
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e);
@@ -70,6 +126,7 @@ export async function GET(request: NextRequest) {
     await sendAlert(
       `Auto-source failed for keyword "${keyword.keyword}": ${message}`
     );
+    await finishPipelineRun(runId, { status: "failed", detail: message });
 
     return NextResponse.json(
       { ok: false, error: message, keyword: keyword.keyword },
@@ -3,6 +3,12 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { getManagementApiClient, getAccountId } from "@/lib/basta-client";
 import { upsertUserProfile } from "@/lib/user-profile";
+import { isEmailVerified } from "@/lib/email-verification";
+import {
+    getCountryName,
+    getSaleShippingEligibility,
+    normalizeCountryCode,
+} from "@/lib/lot-shipping";
 
 type RegisterBody = {
     saleId?: string;
@@ -31,6 +37,16 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (!(await isEmailVerified(session.user.id))) {
+            return NextResponse.json(
+                {
+                    error: "Please confirm your email address before registering for a sale. Check your inbox for the verification link.",
+                    code: "EMAIL_NOT_VERIFIED",
+                },
+                { status: 403 }
+            );
+        }
+
         const body = (await request.json()) as RegisterBody;
         const { saleId, identifier, phone, shippingAddress } = body;
 
@@ -58,6 +74,20 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Dropship lots only ship to some countries — don't register a bidder
+        // who couldn't receive anything in the sale
+        const country = normalizeCountryCode(shippingAddress.country);
+        const { dropshipLots, eligibleLots } = await getSaleShippingEligibility(saleId, country);
+        if (dropshipLots > 0 && eligibleLots === 0) {
+            return NextResponse.json(
+                {
+                    error: `Items in this auction can't be shipped to ${country ? getCountryName(country) : shippingAddress.country}.`,
+                    code: "SHIPPING_UNAVAILABLE",
+                },
+                { status: 403 }
+            );
+        }
+
         const client = getManagementApiClient();
         const accountId = getAccountId();
 
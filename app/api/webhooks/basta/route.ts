@@ -2,8 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
 import { getAccountId, getManagementApiClient } from "@/lib/basta-client";
 import { processClosedItems, clearAccountFeesCache } from "@/lib/order-service";
-import { markWebhookProcessed } from "@/lib/db";
+import { insertBidEvent, markWebhookProcessed } from "@/lib/db";
 import { getDropshipLotByBastaItem, updateDropshipLot } from "@/lib/dropship";
+import { notifyOutbidForItem } from "@/lib/bid-notifications";
+import { describePause, getStagePause } from "@/lib/pipeline-switches";
+import { describeLock, withPipelineLock } from "@/lib/pipeline-locks";
 import type { managementApiSchema } from "@bastaai/basta-js";
 
 type ItemsStatusChangedPayload = {
@@ -16,17 +19,45 @@ type SaleStatusChangedPayload = {
     saleStatus: string;
 };
 
+type BidOnItemPayload = {
+    saleId: string;
+    itemId: string;
+    bidId?: string | null;
+    userId?: string | null;
+    amount?: number | null;
+    maxAmount?: number | null;
+    bidType?: string | null;
+    date?: string | null;
+};
+
+/** Payload shape for each Basta action type this endpoint handles. */
+type BastaWebhookPayloads = {
+    SaleStatusChanged: SaleStatusChangedPayload;
+    ItemsStatusChanged: ItemsStatusChangedPayload;
+    BidOnItem: BidOnItemPayload;
+};
+
+type BastaActionType = keyof BastaWebhookPayloads;
+
 type BastaWebhook = {
     idempotencyKey: string;
     actionType: string;
-    data: ItemsStatusChangedPayload | SaleStatusChangedPayload | Record<string, unknown>;
+    data: Record<string, unknown>;
 };
 
+type BastaWebhookHandler<K extends BastaActionType> = (
+    data: BastaWebhookPayloads[K],
+    webhook: BastaWebhook
+) => Promise<void>;
+
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 const WEBHOOK_TOKEN_HEADER = "x-fastbid-webhook-token";
 
+/** How long a close waits for a running closed-sales batch (cron poll, CLI) to finish. */
+const CLOSED_SALES_LOCK_WAIT_MS = 20_000;
+
 function timingSafeEqualStrings(a: string, b: string): boolean {
     const aBuf = Buffer.from(a);
     const bBuf = Buffer.from(b);
@@ -162,43 +193,44 @@ async function fetchSaleItems(saleId: string) {
 }
 
 // ---------------------------------------------------------------------------
-// Handler: SaleStatusChanged → CLOSED
+// Closed items → dropship lots + orders
 // ---------------------------------------------------------------------------
 
-async function handleSaleClosed(saleId: string) {
+/**
+ * Record results for closed items and invoice the winners. Each dropship lot
+ * moves on as soon as its own item closes; a lot that already left PUBLISHED
+ * (an earlier item-level webhook, or the poll cron) is left alone, so the
+ * sale-level close that follows is a no-op for it. Winners are not invoiced
+ * while the closed_sales stage is paused, and invoicing runs under the
+ * closed_sales lock so it never overlaps the cron poll.
+ */
+async function closeItems(saleId: string, onlyItemIds?: Set<string>) {
     const { items, currency } = await fetchSaleItems(saleId);
 
-    // Skip and mark items where reserve was not met
-    const reserveNotMetItems = items.filter(
-        (item) =>
-            item.status === "ITEM_CLOSED" &&
-            item.leaderId &&
-            item.currentBid &&
-            item.reserveMet === false
+    const closed = items.filter(
+        (item) => item.status === "ITEM_CLOSED" && (!onlyItemIds || onlyItemIds.has(item.id))
     );
-    for (const item of reserveNotMetItems) {
+
+    // Items closed with no bids, or below reserve, go unsold
+    const unsoldItems = closed.filter(
+        (item) => !item.leaderId || !item.currentBid || item.reserveMet === false
+    );
+    for (const item of unsoldItems) {
         console.log(
-            `[webhook] Skipping item ${item.id} (${item.title}) — reserve not met (bid: ${item.currentBid})`
+            `[webhook] Skipping item ${item.id} (${item.title}) — ${item.leaderId && item.currentBid ? `reserve not met (bid: ${item.currentBid})` : "no bids"}`
         );
-        // Mark corresponding dropship lot as RESERVE_NOT_MET (fire-and-forget)
         try {
             const lot = await getDropshipLotByBastaItem(item.id);
-            if (lot) {
-                await updateDropshipLot(lot.id, { status: "RESERVE_NOT_MET" });
+            if (lot?.status === "PUBLISHED") {
+                await updateDropshipLot(lot.id, { status: "RESERVE_NOT_MET" }, { actor: "webhook:basta" });
             }
         } catch (e) {
             console.warn(`[webhook] Failed to mark dropship lot for item ${item.id}:`, e);
         }
     }
 
-    const closedItems = items
-        .filter(
-            (item) =>
-                item.status === "ITEM_CLOSED" &&
-                item.leaderId &&
-                item.currentBid &&
-                item.reserveMet !== false
-        )
+    const closedItems = closed
+        .filter((item) => item.leaderId && item.currentBid && item.reserveMet !== false)
         .map((item) => ({
             itemId: item.id,
             leaderId: item.leaderId as string,
@@ -210,94 +242,101 @@ async function handleSaleClosed(saleId: string) {
     for (const item of closedItems) {
         try {
             const lot = await getDropshipLotByBastaItem(item.itemId);
-            if (lot) {
+            if (lot?.status === "PUBLISHED") {
                 await updateDropshipLot(lot.id, {
                     winner_user_id: item.leaderId,
                     winning_bid_cents: item.currentBid,
                     status: "AUCTION_CLOSED",
-                });
+                }, { actor: "webhook:basta" });
             }
         } catch (e) {
             console.warn(`[webhook] Failed to update dropship lot winner for item ${item.itemId}:`, e);
         }
     }
 
-    // Clear fee cache so each webhook batch gets fresh data
-    clearAccountFeesCache();
+    // While closed-sale processing is paused nobody is invoiced; the lots stay
+    // AUCTION_CLOSED and the cron poll picks them up once it is resumed
+    const pause = await getStagePause("closed_sales");
+    if (pause) {
+        console.log(
+            `[webhook] ${describePause(pause)} — ${closedItems.length} item(s) in sale ${saleId} left for the cron poll`
+        );
+        return;
+    }
+
+    const outcome = await withPipelineLock(
+        "closed_sales",
+        "webhook:basta",
+        async () => {
+            // Clear fee cache so each webhook batch gets fresh data
+            clearAccountFeesCache();
 
-    await processClosedItems({ saleId, items: closedItems, currency });
+            await processClosedItems({ saleId, items: closedItems, currency });
+        },
+        { waitMs: CLOSED_SALES_LOCK_WAIT_MS }
+    );
+    if (!outcome.acquired) {
+        const detail = outcome.heldBy ? describeLock(outcome.heldBy) : "closed_sales is locked";
+        console.log(
+            `[webhook] ${detail} — ${closedItems.length} item(s) in sale ${saleId} stay AUCTION_CLOSED for the cron poll`
+        );
+    }
 }
 
 // ---------------------------------------------------------------------------
-// Handler: ItemsStatusChanged → individual ITEM_CLOSED
+// Handlers (one per Basta action type)
 // ---------------------------------------------------------------------------
 
-async function handleItemsClosed(saleId: string, closedItemIds: string[]) {
-    if (!closedItemIds.length) return;
-
-    const { items, currency } = await fetchSaleItems(saleId);
+const handleSaleStatusChanged: BastaWebhookHandler<"SaleStatusChanged"> = async (data) => {
+    if (data.saleStatus === "CLOSED") {
+        await closeItems(data.saleId);
+    }
+};
 
-    const closedSet = new Set(closedItemIds);
+const handleItemsStatusChanged: BastaWebhookHandler<"ItemsStatusChanged"> = async (data) => {
+    const closedItemIds = (data.itemStatusChanges ?? [])
+        .filter((c) => c.itemStatus === "ITEM_CLOSED")
+        .map((c) => c.itemId);
 
-    // Skip and mark items where reserve was not met
-    const reserveNotMetItems = items.filter(
-        (item) =>
-            closedSet.has(item.id) &&
-            item.status === "ITEM_CLOSED" &&
-            item.leaderId &&
-            item.currentBid &&
-            item.reserveMet === false
-    );
-    for (const item of reserveNotMetItems) {
-        console.log(
-            `[webhook] Skipping item ${item.id} (${item.title}) — reserve not met (bid: ${item.currentBid})`
-        );
-        // Mark corresponding dropship lot as RESERVE_NOT_MET (fire-and-forget)
-        try {
-            const lot = await getDropshipLotByBastaItem(item.id);
-            if (lot) {
-                await updateDropshipLot(lot.id, { status: "RESERVE_NOT_MET" });
-            }
-        } catch (e) {
-            console.warn(`[webhook] Failed to mark dropship lot for item ${item.id}:`, e);
-        }
+    if (closedItemIds.length) {
+        await closeItems(data.saleId, new Set(closedItemIds));
     }
+};
 
-    const closedItems = items
-        .filter(
-            (item) =>
-                closedSet.has(item.id) &&
-                item.status === "ITEM_CLOSED" &&
-                item.leaderId &&
-                item.currentBid &&
-                item.reserveMet !== false
-        )
-        .map((item) => ({
-            itemId: item.id,
-            leaderId: item.leaderId as string,
-            currentBid: item.currentBid as number,
-            title: item.title || "",
-        }));
+const handleBidOnItem: BastaWebhookHandler<"BidOnItem"> = async (data, webhook) => {
+    if (!data.saleId || !data.itemId) {
+        console.warn(`[webhook] BidOnItem ${webhook.idempotencyKey} without saleId/itemId, ignoring`);
+        return;
+    }
 
-    // Store winner_user_id and winning_bid on dropship lots
-    for (const item of closedItems) {
-        try {
-            const lot = await getDropshipLotByBastaItem(item.itemId);
-            if (lot) {
-                await updateDropshipLot(lot.id, {
-                    winner_user_id: item.leaderId,
-                    winning_bid_cents: item.currentBid,
-                    status: "AUCTION_CLOSED",
-                });
-            }
-        } catch (e) {
-            console.warn(`[webhook] Failed to update dropship lot winner for item ${item.itemId}:`, e);
-        }
+    await insertBidEvent({
+        idempotency_key: webhook.idempotencyKey,
+        sale_id: data.saleId,
+        item_id: data.itemId,
+        user_id: data.userId,
+        amount_cents: data.amount,
+        max_amount_cents: data.maxAmount,
+        bid_type: data.bidType,
+        bid_date: data.date,
+        payload: data,
+    });
+
+    // Best effort: the notifications cron picks up anything missed here
+    try {
+        await notifyOutbidForItem(data.saleId, data.itemId);
+    } catch (e) {
+        console.warn(`[webhook] Outbid notifications failed for item ${data.itemId}:`, e);
     }
+};
 
-    clearAccountFeesCache();
+const HANDLERS: { [K in BastaActionType]: BastaWebhookHandler<K> } = {
+    SaleStatusChanged: handleSaleStatusChanged,
+    ItemsStatusChanged: handleItemsStatusChanged,
+    BidOnItem: handleBidOnItem,
+};
 
-    await processClosedItems({ saleId, items: closedItems, currency });
+function isHandledAction(actionType: string): actionType is BastaActionType {
+    return Object.prototype.hasOwnProperty.call(HANDLERS, actionType);
 }
 
 // ---------------------------------------------------------------------------
@@ -349,23 +388,13 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ status: "ignored" });
         }
 
-        if (payload.actionType === "SaleStatusChanged") {
-            const data = payload.data as SaleStatusChangedPayload;
-            if (data.saleStatus === "CLOSED") {
-                await handleSaleClosed(data.saleId);
-            }
+        if (!isHandledAction(payload.actionType)) {
+            console.log(`[webhook] Ignoring unhandled Basta action ${payload.actionType}`);
+            return NextResponse.json({ status: "ignored" });
         }
 
-        if (payload.actionType === "ItemsStatusChanged") {
-            const data = payload.data as ItemsStatusChangedPayload;
-            const closedItemIds = data.itemStatusChanges
-                .filter((c) => c.itemStatus === "ITEM_CLOSED")
-                .map((c) => c.itemId);
-
-            if (closedItemIds.length) {
-                await handleItemsClosed(data.saleId, closedItemIds);
-            }
-        }
+        const handler = HANDLERS[payload.actionType] as BastaWebhookHandler<BastaActionType>;
+        await handler(payload.data as BastaWebhookPayloads[BastaActionType], payload);
 
         return NextResponse.json({ status: "ok" });
     } catch (error) {
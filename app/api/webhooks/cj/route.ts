@@ -22,7 +22,13 @@ import crypto from "crypto";
 import { markWebhookProcessed } from "@/lib/db";
 import {
   getDropshipLotByCjOrder,
+  InvalidTransitionError,
+  LotConflictError,
+  transitionDropshipLot,
   updateDropshipLot,
+  type DropshipLot,
+  type DropshipLotFieldUpdates,
+  type DropshipLotStatus,
 } from "@/lib/dropship";
 import { sendEmail } from "@/lib/email";
 import { getUserById } from "@/lib/user";
@@ -77,6 +83,41 @@ function verifyWebhookAuth(request: NextRequest, secret: string): boolean {
   return false;
 }
 
+// ---------------------------------------------------------------------------
+// Lot updates
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply a CJ update to a lot. The status move is a compare-and-set against
+ * the lot as it was read for this request; if the lot has moved on (the
+ * other handler, the stuck-lot cron, an operator) or the move is illegal,
+ * only the tracking fields are saved so CJ does not retry the webhook.
+ */
+async function applyCjUpdate(
+  lot: DropshipLot,
+  status: DropshipLotStatus | null,
+  fields: DropshipLotFieldUpdates,
+  payload: Record<string, unknown>
+) {
+  if (!status || status === lot.status) {
+    await updateDropshipLot(lot.id, fields);
+    return;
+  }
+
+  try {
+    await transitionDropshipLot(lot.id, {
+      from: lot.status as DropshipLotStatus,
+      to: status,
+      expectedUpdatedAt: lot.updated_at,
+      updates: fields,
+    }, { actor: "webhook:cj", payload });
+  } catch (e) {
+    if (!(e instanceof InvalidTransitionError || e instanceof LotConflictError)) throw e;
+    console.warn(`[cj-webhook] Skipping status change for lot ${lot.id}: ${e.message}`);
+    await updateDropshipLot(lot.id, fields);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // POST handler
 // ---------------------------------------------------------------------------
@@ -150,7 +191,9 @@ export async function POST(request: NextRequest) {
     }
 
     if (payload.trackNumber || payload.trackingNumber) {
-      await handleLogisticsUpdate(payload, lot);
+      // Re-read: the order handler may already have moved the lot
+      const current = (await getDropshipLotByCjOrder(orderId)) ?? lot;
+      await handleLogisticsUpdate(payload, current);
     }
 
     return NextResponse.json({ status: "ok" });
@@ -172,14 +215,15 @@ async function handleOrderUpdate(
   },
   lot: Awaited<ReturnType<typeof getDropshipLotByCjOrder>> & object
 ) {
-  const updates: Record<string, string | null> = {
+  const updates: DropshipLotFieldUpdates = {
     cj_order_status: payload.orderStatus,
   };
+  let status: DropshipLotStatus | null = null;
 
   // Map CJ status to our lot status
   switch (payload.orderStatus) {
     case "SHIPPED":
-      updates.status = "SHIPPED";
+      status = "SHIPPED";
       if (payload.trackNumber) {
         updates.tracking_number = payload.trackNumber;
       }
@@ -188,15 +232,15 @@ async function handleOrderUpdate(
       }
       break;
     case "DELIVERED":
-      updates.status = "DELIVERED";
+      status = "DELIVERED";
       break;
     case "CANCELLED":
-      updates.status = "CANCELLED";
+      status = "CANCELLED";
       updates.error_message = "CJ order was cancelled";
       break;
   }
 
-  await updateDropshipLot(lot.id, updates);
+  await applyCjUpdate(lot, status, updates, payload);
   console.log(
     `[cj-webhook] Lot ${lot.id} updated: CJ status → ${payload.orderStatus}`
   );
@@ -204,7 +248,12 @@ async function handleOrderUpdate(
   // Fire-and-forget: send lifecycle emails to buyer.
   // NOTE: Emails are ONLY sent from handleOrderUpdate (not handleLogisticsUpdate)
   // to prevent duplicate emails when both handlers fire for the same webhook.
-  if (lot.winner_user_id && (payload.orderStatus === "SHIPPED" || payload.orderStatus === "DELIVERED")) {
+  // A lot already in that status (e.g. DELIVERED by the tracking sync) was emailed then.
+  if (
+    lot.winner_user_id &&
+    lot.status !== payload.orderStatus &&
+    (payload.orderStatus === "SHIPPED" || payload.orderStatus === "DELIVERED")
+  ) {
     getUserById(lot.winner_user_id)
       .then((user) => {
         if (!user?.email) return;
@@ -255,24 +304,25 @@ async function handleLogisticsUpdate(
   const trackNum = payload.trackNumber ?? payload.trackingNumber;
   if (!trackNum) return;
 
-  const updates: Record<string, string | null> = {
+  const updates: DropshipLotFieldUpdates = {
     tracking_number: trackNum,
   };
+  let status: DropshipLotStatus | null = null;
 
   if (payload.logisticName) {
     updates.tracking_carrier = payload.logisticName;
   }
 
   if (payload.trackingStatus === "DELIVERED" || payload.deliveryTime) {
-    updates.status = "DELIVERED";
+    status = "DELIVERED";
     updates.cj_order_status = "DELIVERED";
   } else if (!lot.tracking_number) {
     // First time we get a tracking number → mark as shipped
-    updates.status = "SHIPPED";
+    status = "SHIPPED";
     updates.cj_order_status = "SHIPPED";
   }
 
-  await updateDropshipLot(lot.id, updates);
+  await applyCjUpdate(lot, status, updates, payload);
   console.log(
     `[cj-webhook] Lot ${lot.id} tracking updated: ${trackNum}`
   );
@@ -4,7 +4,10 @@
  * When a Stripe invoice is paid, checks if any of the invoice line items
  * correspond to a dropship lot. If so, triggers CJ order creation.
  *
- * This runs fire-and-forget from the Stripe webhook handler.
+ * This runs fire-and-forget from the Stripe webhook handler. While the
+ * fulfillment stage is paused — or another run keeps the fulfillment lock
+ * past FULFILLMENT_LOCK_WAIT_MS — the lot is left PAID (address stored) for
+ * the cron to fulfill.
  */
 
 import type Stripe from "stripe";
@@ -14,10 +17,13 @@ import {
   getDropshipLotByBastaItem,
   getDropshipLotByStripeInvoice,
   getDropshipLotsBySale,
+  InvalidTransitionError,
+  LotConflictError,
+  transitionDropshipLot,
   updateDropshipLot,
 } from "@/lib/dropship";
 import { fulfillDropshipLot } from "@/lib/dropship-fulfillment";
-import { getPaymentOrderByInvoiceId } from "@/lib/db";
+import { getPaymentOrderByInvoiceId, getSecondChanceOfferByInvoiceId } from "@/lib/db";
 import {
   getBastaUserShippingAddress,
   bastaAddressToShipping,
@@ -25,6 +31,11 @@ import {
 import { sendEmail } from "@/lib/email";
 import { sendAlert } from "@/lib/alerts";
 import { getUserById } from "@/lib/user";
+import { describePause, getStagePause } from "@/lib/pipeline-switches";
+import { describeLock, withPipelineLock } from "@/lib/pipeline-locks";
+
+/** How long a paid invoice waits for a running fulfillment batch to finish. */
+const FULFILLMENT_LOCK_WAIT_MS = 20_000;
 
 export async function triggerDropshipFulfillment(
   invoice: Stripe.Invoice
@@ -38,17 +49,41 @@ export async function triggerDropshipFulfillment(
     return;
   }
 
+  // A paid second-chance offer makes the underbidder the buyer, at their bid
+  const offer = await getSecondChanceOfferByInvoiceId(invoice.id);
+
   for (const { lot, bastaItemId } of lotsToFulfill) {
-    // Mark as PAID so fulfillment can proceed
-    await updateDropshipLot(lot.id, {
-      status: "PAID",
-      stripe_invoice_id: invoice.id,
-      winning_bid_cents: lot.winning_bid_cents, // already set by Basta webhook
-    });
+    const isOffer = offer?.item_id === bastaItemId;
+    const buyerId = isOffer ? offer.user_id : lot.winner_user_id;
+    const winningBidCents = isOffer ? offer.amount_cents : lot.winning_bid_cents;
+
+    // Mark as PAID so fulfillment can proceed. Only a lot still waiting for
+    // payment may move — if it was cancelled or refunded in the meantime the
+    // payment needs a human, not a CJ order.
+    try {
+      await transitionDropshipLot(lot.id, {
+        from: ["AUCTION_CLOSED", "PAYMENT_FAILED"],
+        to: "PAID",
+        expectedUpdatedAt: lot.updated_at,
+        updates: {
+          stripe_invoice_id: invoice.id,
+          winner_user_id: buyerId,
+          winning_bid_cents: winningBidCents, // set by Basta webhook unless re-offered
+        },
+      }, { actor: "webhook:stripe", payload: { stripeInvoiceId: invoice.id } });
+    } catch (e) {
+      if (!(e instanceof InvalidTransitionError || e instanceof LotConflictError)) throw e;
+      console.warn(`[dropship-hook] Not marking lot ${lot.id} PAID: ${e.message}`);
+      await sendAlert(
+        `Invoice ${invoice.id} was paid but lot ${lot.id} ("${lot.cj_product_name}") could not move to PAID: ${e.message}. Check whether the payment needs a refund.`,
+        "critical"
+      );
+      continue;
+    }
 
     // Fire-and-forget: send payment_received email to buyer
-    if (lot.winner_user_id) {
-      getUserById(lot.winner_user_id)
+    if (buyerId) {
+      getUserById(buyerId)
         .then((user) => {
           if (!user?.email) return;
           sendEmail({
@@ -56,7 +91,7 @@ export async function triggerDropshipFulfillment(
             template: "payment_received",
             data: {
               productName: lot.cj_product_name,
-              amount: lot.winning_bid_cents,
+              amount: winningBidCents,
             },
           });
         })
@@ -79,18 +114,18 @@ export async function triggerDropshipFulfillment(
     } | null = null;
 
     // 1. PRIMARY: Basta user shipping address
-    if (lot.winner_user_id) {
+    if (buyerId) {
       try {
-        const bastaAddr = await getBastaUserShippingAddress(lot.winner_user_id);
+        const bastaAddr = await getBastaUserShippingAddress(buyerId);
         if (bastaAddr?.line1) {
           shippingAddress = bastaAddressToShipping(bastaAddr);
           console.log(
-            `[dropship-hook] Got shipping address from Basta for user ${lot.winner_user_id}`
+            `[dropship-hook] Got shipping address from Basta for user ${buyerId}`
           );
         }
       } catch (e) {
         console.warn(
-          `[dropship-hook] Failed to fetch Basta address for user ${lot.winner_user_id}:`,
+          `[dropship-hook] Failed to fetch Basta address for user ${buyerId}:`,
           e
         );
       }
@@ -121,8 +156,8 @@ export async function triggerDropshipFulfillment(
         console.warn(
           `[dropship-hook] Shipping address for lot ${lot.id} is missing required fields: ${missingFields.join(", ")}`
         );
+        // Lot stays PAID; the stuck-lot check keeps alerting until it is fixed
         await updateDropshipLot(lot.id, {
-          status: "ADDRESS_INCOMPLETE",
           error_message: `Shipping address incomplete — missing: ${missingFields.join(", ")}`,
         });
         await sendAlert(
@@ -138,11 +173,10 @@ export async function triggerDropshipFulfillment(
         `[dropship-hook] No shipping address found for lot ${lot.id} (checked Basta user and Stripe invoice ${invoice.id})`
       );
       await updateDropshipLot(lot.id, {
-        status: "NO_ADDRESS",
         error_message: "No shipping address found (checked Basta user profile and Stripe invoice)",
       });
       await sendAlert(
-        `Lot ${lot.id} ("${lot.cj_product_name}"): no shipping address found for winner ${lot.winner_user_id ?? "unknown"}. Checked Basta user profile and Stripe invoice ${invoice.id}. Cannot fulfill.`,
+        `Lot ${lot.id} ("${lot.cj_product_name}"): no shipping address found for winner ${buyerId ?? "unknown"}. Checked Basta user profile and Stripe invoice ${invoice.id}. Cannot fulfill.`,
         "critical"
       );
       continue;
@@ -154,11 +188,26 @@ export async function triggerDropshipFulfillment(
       shipping_address: JSON.stringify(shippingAddress),
     });
 
-    // Trigger fulfillment
-    const result = await fulfillDropshipLot({
-      bastaItemId,
-      shippingAddress,
-    });
+    const pause = await getStagePause("fulfillment");
+    if (pause) {
+      console.log(`[dropship-hook] ${describePause(pause)} — lot ${lot.id} stays PAID for the cron`);
+      continue;
+    }
+
+    // Trigger fulfillment under the fulfillment lock so a concurrent cron or
+    // monitor retry can't place a second supplier order for the same lot
+    const outcome = await withPipelineLock(
+      "fulfillment",
+      "webhook:stripe",
+      () => fulfillDropshipLot({ bastaItemId, shippingAddress, actor: "webhook:stripe" }),
+      { waitMs: FULFILLMENT_LOCK_WAIT_MS }
+    );
+    if (!outcome.acquired) {
+      const detail = outcome.heldBy ? describeLock(outcome.heldBy) : "fulfillment is locked";
+      console.log(`[dropship-hook] ${detail} — lot ${lot.id} stays PAID for the cron`);
+      continue;
+    }
+    const result = outcome.value;
 
     if (result.success) {
       console.log(
@@ -5,8 +5,10 @@ import { getAccountId, getManagementApiClient } from "@/lib/basta-client";
 import {
     markWebhookProcessed,
     getPaymentOrderByInvoiceId,
+    getSecondChanceOfferByInvoiceId,
     updatePaymentOrder,
     updatePaymentOrderByInvoiceId,
+    updateSecondChanceOfferStatus,
 } from "@/lib/db";
 
 export const runtime = "nodejs";
@@ -70,6 +72,12 @@ export async function POST(request: NextRequest) {
             await updatePaymentOrder(bastaOrderId, { status: "PAID" });
         }
 
+        // Underbidder accepted a second-chance offer
+        const offer = await getSecondChanceOfferByInvoiceId(invoice.id);
+        if (offer) {
+            await updateSecondChanceOfferStatus(offer.id, "PAID");
+        }
+
         // Trigger dropship fulfillment if this invoice is for a CJ lot.
         // This runs regardless of bastaOrderId — the dropship-hook resolves
         // lots independently using invoice metadata, line items, and DB lookups.
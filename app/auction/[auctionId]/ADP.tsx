@@ -5,7 +5,7 @@ import { AuctionFooter } from "@/components/auction-footer";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Calendar, Clock, CheckCircle } from "lucide-react";
+import { MapPin, Calendar, Clock, CheckCircle, Heart } from "lucide-react";
 import {
   Pagination,
   PaginationContent,
@@ -19,6 +19,7 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useState, useEffect, useMemo, useCallback } from "react";
 import { useSession } from "next-auth/react";
+import { useToast } from "@/hooks/use-toast";
 
 import { DateTime } from "luxon";
 import { clientApiSchema } from "@bastaai/basta-js";
@@ -201,6 +202,76 @@ export default function AuctionDetailPage({
   const isRegistered = registrationStatus === "ACCEPTED";
   const isRegistrationPending = registrationStatus === "PENDING";
 
+  // Watchlist state for the lot cards
+  const { toast } = useToast();
+  const [watchlistedIds, setWatchlistedIds] = useState<Set<string>>(new Set());
+  const [watchlistPending, setWatchlistPending] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!session?.user) {
+        setWatchlistedIds(new Set());
+        return;
+      }
+
+      try {
+        const res = await fetch(
+          `/api/account/watchlist?saleId=${encodeURIComponent(auctionDetails.id)}`
+        );
+        const data = await res.json();
+        setWatchlistedIds(new Set(Array.isArray(data?.itemIds) ? data.itemIds : []));
+      } catch {
+        // Non-blocking
+      }
+    };
+
+    load();
+  }, [auctionDetails.id, session?.user]);
+
+  const handleToggleWatchlist = async (event: React.MouseEvent, lotId: string) => {
+    // The button sits inside the lot card link
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (!session?.user) {
+      router.push(`/login?callbackUrl=/auction/${auctionDetails.id}`);
+      return;
+    }
+
+    const watched = watchlistedIds.has(lotId);
+    setWatchlistPending(lotId);
+    try {
+      const res = await fetch("/api/account/watchlist", {
+        method: watched ? "DELETE" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ saleId: auctionDetails.id, itemId: lotId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update watchlist");
+      }
+
+      setWatchlistedIds((prev) => {
+        const next = new Set(prev);
+        if (watched) {
+          next.delete(lotId);
+        } else {
+          next.add(lotId);
+        }
+        return next;
+      });
+      toast({ title: watched ? "Removed from watchlist" : "Added to watchlist" });
+    } catch (error) {
+      toast({
+        title: "Watchlist update failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setWatchlistPending(null);
+    }
+  };
+
   // Handle register button click - redirect to login if not authenticated
   const handleRegisterClick = () => {
     if (!session?.user) {
@@ -693,6 +764,16 @@ export default function AuctionDetailPage({
                       <Badge className="absolute left-4 top-4 bg-background/90 text-foreground">
                         Lot {lot.lotNumber}
                       </Badge>
+                      <Button
+                        variant={watchlistedIds.has(lot.id) ? "default" : "secondary"}
+                        size="icon"
+                        className="absolute right-4 top-4 h-9 w-9 rounded-full shadow-sm"
+                        onClick={(event) => handleToggleWatchlist(event, lot.id)}
+                        disabled={watchlistPending === lot.id}
+                        title={watchlistedIds.has(lot.id) ? "Remove from watchlist" : "Add to watchlist"}
+                      >
+                        <Heart className={`h-4 w-4 ${watchlistedIds.has(lot.id) ? "fill-current" : ""}`} />
+                      </Button>
                     </div>
                     <CardContent className="p-4">
                       <div className="mb-2 flex items-center justify-between">
@@ -270,6 +270,11 @@ export default function LotDetailPage({
   const [isCopied, setIsCopied] = useState(false);
   const [isWatchlisted, setIsWatchlisted] = useState(false);
   const [watchlistLoading, setWatchlistLoading] = useState(false);
+  const [shippingEligibility, setShippingEligibility] = useState<{
+    eligible: boolean | null;
+    country: string | null;
+    surchargeCents: number;
+  } | null>(null);
 
   const registrationStatus = saleData?.userSaleRegistrations?.[0]?.status ?? null;
   const isRegistered = registrationStatus === "ACCEPTED";
@@ -326,6 +331,31 @@ export default function LotDetailPage({
     load();
   }, [auctionId, lotId, session?.user]);
 
+  // Dropship lots only ship to some countries — check the bidder's address
+  useEffect(() => {
+    const load = async () => {
+      if (!session?.user) {
+        setShippingEligibility(null);
+        return;
+      }
+
+      try {
+        const res = await fetch(
+          `/api/account/shipping-eligibility?itemId=${encodeURIComponent(lotId)}`
+        );
+        if (!res.ok) return;
+        const data = await res.json();
+        setShippingEligibility(data?.restricted ? data : null);
+      } catch {
+        // Non-blocking
+      }
+    };
+
+    load();
+  }, [lotId, session?.user]);
+
+  const cannotShip = shippingEligibility?.eligible === false;
+
   // Memoize the callback to prevent unnecessary re-renders
   const handleExpiredChange = useCallback((expired: boolean) => {
     setIsExpired(expired);
@@ -435,6 +465,15 @@ export default function LotDetailPage({
       return;
     }
 
+    if (cannotShip) {
+      toast({
+        title: "Can't ship to your address",
+        description: `This item doesn't ship to ${shippingEligibility?.country ?? "your country"}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!session.bidderToken) {
       toast({
         title: "Bidding unavailable",
@@ -902,6 +941,7 @@ export default function LotDetailPage({
                     paymentStatusLoading ||
                     isPlacingBid ||
                     isExpired ||
+                    cannotShip ||
                     lotData.status === "ITEM_CLOSED" ||
                     lotData.status === "ITEM_NOT_OPEN"
                   }
@@ -915,6 +955,8 @@ export default function LotDetailPage({
                       ? "Not Yet Open"
                       : lotData.status === "ITEM_CLOSED" || isExpired
                         ? "Bidding Closed"
+                        : cannotShip
+                          ? "Doesn't Ship to Your Country"
                         : session?.user && isRegistrationPending
                           ? "Registration Pending"
                           : session?.user && !isRegistered
@@ -925,6 +967,14 @@ export default function LotDetailPage({
                               ? "Add Card to Bid"
                               : "Place Bid"}
                 </Button>
+                {shippingEligibility && (cannotShip || shippingEligibility.surchargeCents > 0) && (
+                  <p className="mt-2 flex items-start gap-1.5 text-xs text-muted-foreground">
+                    <Truck className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                    {cannotShip
+                      ? `This item can't be shipped to ${shippingEligibility.country ?? "your country"}.`
+                      : `Shipping to ${shippingEligibility.country} adds ${formatCurrency(shippingEligibility.surchargeCents, "USD", true)} to your invoice.`}
+                  </p>
+                )}
               </div>
 
               {/* Bid History */}
@@ -48,7 +48,7 @@ export default function ForgotPasswordPage() {
             <div className="space-y-2">
               <h1 className="text-2xl font-semibold">Reset your password</h1>
               <p className="text-sm text-muted-foreground">
-                Enter your email and we’ll show you the next step.
+                Enter your email and we’ll send you a link to choose a new password.
               </p>
             </div>
 
@@ -57,7 +57,7 @@ export default function ForgotPasswordPage() {
                 <AlertTitle>Check your inbox</AlertTitle>
                 <AlertDescription>
                   If an account exists for <span className="font-medium">{email || "that email"}</span>, you’ll
-                  receive password reset instructions shortly.
+                  receive a reset link shortly. It expires in an hour.
                   <div className="mt-3">
                     <Link href="/login">
                       <Button variant="outline" size="sm">
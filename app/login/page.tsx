@@ -39,6 +39,8 @@ function LoginContent() {
 
   const callbackUrl = searchParams.get("callbackUrl") || "/";
   const registered = searchParams.get("registered");
+  const passwordReset = searchParams.get("reset");
+  const emailVerified = searchParams.get("verified");
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -170,7 +172,38 @@ function LoginContent() {
               <CheckCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
               <div>
                 <p className="font-medium">Account created successfully!</p>
-                <p className="text-sm mt-1">Please sign in with your credentials.</p>
+                <p className="text-sm mt-1">Please sign in with your credentials, and check your inbox for a link to confirm your email.</p>
+              </div>
+            </div>
+          )}
+
+          {/* Success message after a password reset */}
+          {passwordReset && (
+            <div className="mb-6 flex items-start gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-green-800">
+              <CheckCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium">Password updated</p>
+                <p className="text-sm mt-1">Sign in with your new password.</p>
+              </div>
+            </div>
+          )}
+
+          {/* Result of following an email verification link */}
+          {emailVerified === "1" && (
+            <div className="mb-6 flex items-start gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-green-800">
+              <CheckCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium">Email confirmed</p>
+                <p className="text-sm mt-1">You can now register for sales.</p>
+              </div>
+            </div>
+          )}
+          {emailVerified === "invalid" && (
+            <div className="mb-6 flex items-start gap-3 rounded-lg border border-destructive/20 bg-destructive/10 p-4 text-destructive">
+              <AlertCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium">Verification link invalid or expired</p>
+                <p className="text-sm mt-1">Sign in and register for a sale to get a new link.</p>
               </div>
             </div>
           )}
@@ -14,6 +14,7 @@ import {
   CreditCard,
   ChevronDown,
   Shield,
+  Wrench,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger, SheetHeader, SheetTitle, SheetClose } from "@/components/ui/sheet";
@@ -60,6 +61,7 @@ export function AuctionNav() {
 
   const isLoading = status === "loading";
   const user = session?.user;
+  const isOperator = user?.role === "operator" || user?.role === "admin";
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80">
@@ -169,6 +171,14 @@ export function AuctionNav() {
                         Settings
                       </Link>
                     </DropdownMenuItem>
+                    {isOperator && (
+                      <DropdownMenuItem asChild>
+                        <Link href="/admin/lots" className="cursor-pointer">
+                          <Wrench className="mr-2 h-4 w-4" />
+                          Operations
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuSeparator />
                     <DropdownMenuItem
                       onClick={handleLogout}
@@ -278,6 +288,17 @@ export function AuctionNav() {
                               Payment Methods
                             </Link>
                           </SheetClose>
+                          {isOperator && (
+                            <SheetClose asChild>
+                              <Link
+                                href="/admin/lots"
+                                className="flex items-center gap-3 px-3 py-2.5 text-sm rounded-md hover:bg-accent"
+                              >
+                                <Wrench className="h-4 w-4 text-muted-foreground" />
+                                Operations
+                              </Link>
+                            </SheetClose>
+                          )}
                         </div>
 
                         <div className="mt-4 pt-4 border-t border-border">
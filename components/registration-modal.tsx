@@ -81,6 +81,8 @@ export function RegistrationModal({
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState(false);
+    const [needsVerification, setNeedsVerification] = useState(false);
+    const [verificationSent, setVerificationSent] = useState(false);
 
     const form = useForm<RegistrationFormValues>({
         resolver: zodResolver(registrationFormSchema),
@@ -97,8 +99,31 @@ export function RegistrationModal({
         },
     });
 
+    const resendVerification = async () => {
+        try {
+            const response = await fetch("/api/auth/verify-email", {
+                method: "POST",
+                credentials: "include",
+            });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to send verification email");
+            }
+            if (data.alreadyVerified) {
+                setNeedsVerification(false);
+                setError(null);
+                return;
+            }
+            setVerificationSent(true);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to send verification email");
+        }
+    };
+
     const onSubmit = async (values: RegistrationFormValues) => {
         setError(null);
+        setNeedsVerification(false);
+        setVerificationSent(false);
 
         if (!session?.user) {
             router.push("/login");
@@ -133,6 +158,7 @@ export function RegistrationModal({
             const data = await response.json();
 
             if (!response.ok) {
+                setNeedsVerification(data.code === "EMAIL_NOT_VERIFIED");
                 throw new Error(data.error || "Failed to register");
             }
 
@@ -409,7 +435,25 @@ export function RegistrationModal({
                         {error && (
                             <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
                                 <AlertCircle className="h-4 w-4 shrink-0" />
-                                {error}
+                                <span>
+                                    {error}
+                                    {needsVerification && (
+                                        <>
+                                            {" "}
+                                            {verificationSent ? (
+                                                "Verification email sent."
+                                            ) : (
+                                                <button
+                                                    type="button"
+                                                    className="underline"
+                                                    onClick={resendVerification}
+                                                >
+                                                    Resend verification email
+                                                </button>
+                                            )}
+                                        </>
+                                    )}
+                                </span>
                             </div>
                         )}
 
@@ -4,6 +4,7 @@ CREATE TABLE IF NOT EXISTS users (
   email TEXT UNIQUE NOT NULL,
   password_hash TEXT NOT NULL,
   name TEXT NOT NULL,
+  email_verified_at TEXT,
   created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
   updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
 );
@@ -75,6 +76,24 @@ CREATE TABLE IF NOT EXISTS webhook_events (
   UNIQUE (provider, idempotency_key)
 );
 
+-- Bids received via the Basta BidOnItem webhook (analytics)
+CREATE TABLE IF NOT EXISTS bid_events (
+  id TEXT PRIMARY KEY,
+  idempotency_key TEXT UNIQUE NOT NULL,
+  sale_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  user_id TEXT,
+  amount_cents INTEGER,
+  max_amount_cents INTEGER,
+  bid_type TEXT,
+  bid_date TEXT,
+  payload TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_bid_events_item ON bid_events(sale_id, item_id);
+CREATE INDEX IF NOT EXISTS idx_bid_events_user ON bid_events(user_id);
+
 -- Index for faster email lookups
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 
@@ -97,6 +116,46 @@ CREATE TABLE IF NOT EXISTS user_preferences (
   updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
 );
 
+-- User roles (absent row = bidder)
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id TEXT PRIMARY KEY REFERENCES users(id),
+  role TEXT NOT NULL CHECK (role IN ('bidder', 'operator', 'admin')),
+  granted_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+-- Password reset tokens (only the SHA-256 of the emailed token is stored; single use)
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id);
+
+-- Email verification tokens (SHA-256 of the emailed token; bound to the address it was sent to)
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  email TEXT NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user ON email_verification_tokens(user_id);
+
+-- Sessions issued before revoked_at are rejected (set on password change)
+CREATE TABLE IF NOT EXISTS session_revocations (
+  user_id TEXT PRIMARY KEY REFERENCES users(id),
+  revoked_at TEXT NOT NULL
+);
+
 -- Watchlist (items a user is following)
 CREATE TABLE IF NOT EXISTS watchlist_items (
   id TEXT PRIMARY KEY,
@@ -108,6 +167,20 @@ CREATE TABLE IF NOT EXISTS watchlist_items (
 );
 
 CREATE INDEX IF NOT EXISTS idx_watchlist_user ON watchlist_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_watchlist_sale ON watchlist_items(sale_id);
+
+-- Bid notification emails already sent; one per user, kind, lot and ref
+-- (ref distinguishes repeat outbids; sale-level notices use item_id = '')
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  kind TEXT NOT NULL,
+  sale_id TEXT NOT NULL,
+  item_id TEXT NOT NULL DEFAULT '',
+  ref TEXT NOT NULL DEFAULT '',
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+  UNIQUE (user_id, kind, sale_id, item_id, ref)
+);
 
 -- Marketing / lead capture (contact, newsletter, consultations, valuations)
 CREATE TABLE IF NOT EXISTS lead_submissions (
@@ -181,7 +254,9 @@ CREATE INDEX IF NOT EXISTS idx_balance_redemptions_user ON balance_promotion_red
 -- Dropship lots (CJ Dropshipping <-> Basta <-> Stripe fulfillment mapping)
 CREATE TABLE IF NOT EXISTS dropship_lots (
   id TEXT PRIMARY KEY,
-  -- CJ source data
+  -- Supplier the lot was sourced from (lib/supplier.ts); cj_* columns hold its IDs
+  supplier TEXT NOT NULL DEFAULT 'cj',
+  -- Source data
   cj_pid TEXT NOT NULL,
   cj_vid TEXT NOT NULL,
   cj_product_name TEXT NOT NULL,
@@ -189,13 +264,18 @@ CREATE TABLE IF NOT EXISTS dropship_lots (
   cj_cost_cents INTEGER NOT NULL,
   cj_shipping_cents INTEGER NOT NULL DEFAULT 0,
   cj_logistic_name TEXT,
+  cj_delivery_days TEXT,
   cj_from_country TEXT DEFAULT 'CN',
   cj_images TEXT,
+  -- Search keyword the lot was auto-sourced for (joined to sourcing_keywords.keyword)
+  source_keyword TEXT,
   -- Basta mapping
   basta_sale_id TEXT,
   basta_item_id TEXT,
   starting_bid_cents INTEGER NOT NULL,
   reserve_cents INTEGER NOT NULL,
+  -- Times the lot was put back up after missing its reserve (lib/relist.ts)
+  relist_count INTEGER NOT NULL DEFAULT 0,
   -- Auction result
   winner_user_id TEXT,
   winning_bid_cents INTEGER,
@@ -228,6 +308,40 @@ CREATE INDEX IF NOT EXISTS idx_dropship_lots_basta_sale ON dropship_lots(basta_s
 CREATE INDEX IF NOT EXISTS idx_dropship_lots_cj_order ON dropship_lots(cj_order_id);
 CREATE UNIQUE INDEX IF NOT EXISTS idx_dropship_lots_cj_vid_sale ON dropship_lots(cj_vid, basta_sale_id);
 
+-- Append-only audit trail of dropship lot status transitions
+CREATE TABLE IF NOT EXISTS dropship_lot_events (
+  id TEXT PRIMARY KEY,
+  lot_id TEXT NOT NULL REFERENCES dropship_lots(id),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  reason TEXT,
+  payload TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_dropship_lot_events_lot ON dropship_lot_events(lot_id, created_at);
+
+-- Second-chance offers: an item whose winner never paid, re-offered to the underbidder
+CREATE TABLE IF NOT EXISTS second_chance_offers (
+  id TEXT PRIMARY KEY,
+  sale_id TEXT NOT NULL,
+  item_id TEXT UNIQUE NOT NULL,
+  original_order_id TEXT NOT NULL,
+  original_user_id TEXT NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  amount_cents INTEGER NOT NULL,
+  basta_order_id TEXT NOT NULL,
+  stripe_invoice_id TEXT NOT NULL,
+  stripe_invoice_url TEXT,
+  status TEXT NOT NULL DEFAULT 'OFFERED',
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_second_chance_offers_status ON second_chance_offers(status);
+CREATE INDEX IF NOT EXISTS idx_second_chance_offers_invoice ON second_chance_offers(stripe_invoice_id);
+
 -- Sourcing keywords for scheduled auto-sourcing with keyword rotation
 CREATE TABLE IF NOT EXISTS sourcing_keywords (
   id TEXT PRIMARY KEY,
@@ -239,9 +353,197 @@ CREATE TABLE IF NOT EXISTS sourcing_keywords (
   last_sourced_at TEXT,
   total_runs INTEGER NOT NULL DEFAULT 0,
   total_lots_created INTEGER NOT NULL DEFAULT 0,
+  -- Set when rotation turned the keyword off for losing money (lib/keyword-performance.ts)
+  deactivated_at TEXT,
+  deactivated_reason TEXT,
   created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
   updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
 );
 
 CREATE INDEX IF NOT EXISTS idx_sourcing_keywords_active ON sourcing_keywords(active);
 CREATE UNIQUE INDEX IF NOT EXISTS idx_sourcing_keywords_keyword ON sourcing_keywords(keyword COLLATE NOCASE);
+
+-- Supplier images mirrored to our own Cloudinary account (deduped by content hash)
+CREATE TABLE IF NOT EXISTS media_assets (
+  id TEXT PRIMARY KEY,
+  original_url TEXT UNIQUE NOT NULL,
+  content_hash TEXT NOT NULL,
+  mirrored_url TEXT NOT NULL,
+  public_id TEXT NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  bytes INTEGER,
+  format TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_assets_hash ON media_assets(content_hash);
+
+-- CJ access tokens shared by every instance, with a lease so only one refreshes at a time
+CREATE TABLE IF NOT EXISTS cj_tokens (
+  id TEXT PRIMARY KEY,
+  open_id TEXT,
+  access_token TEXT,
+  refresh_token TEXT,
+  access_token_expires_at TEXT,
+  refresh_token_expires_at TEXT,
+  created_date TEXT,
+  lease_holder TEXT,
+  lease_expires_at TEXT,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+-- Carrier tracking for SHIPPED dropship lots, synced by cron (see lib/shipment-tracking.ts)
+CREATE TABLE IF NOT EXISTS shipment_tracking (
+  lot_id TEXT PRIMARY KEY REFERENCES dropship_lots(id),
+  tracking_number TEXT NOT NULL,
+  carrier TEXT,
+  status TEXT,
+  delivery_days TEXT,
+  last_event_at TEXT,
+  checked_at TEXT,
+  stale_alerted_at TEXT,
+  delivered_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+-- Checkpoint timeline for a shipment, oldest first by occurred_at
+CREATE TABLE IF NOT EXISTS shipment_events (
+  id TEXT PRIMARY KEY,
+  lot_id TEXT NOT NULL REFERENCES dropship_lots(id),
+  tracking_number TEXT NOT NULL,
+  status TEXT NOT NULL,
+  description TEXT,
+  location TEXT,
+  occurred_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+  UNIQUE(lot_id, occurred_at, status)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipment_events_lot ON shipment_events(lot_id, occurred_at);
+
+-- Freight quote per destination country for each dropship lot (see lib/lot-shipping.ts)
+CREATE TABLE IF NOT EXISTS dropship_lot_shipping (
+  lot_id TEXT NOT NULL REFERENCES dropship_lots(id),
+  country TEXT NOT NULL,
+  shipping_method TEXT,
+  shipping_cents INTEGER,
+  delivery_days TEXT,
+  surcharge_cents INTEGER NOT NULL DEFAULT 0,
+  eligible INTEGER NOT NULL DEFAULT 0,
+  ineligible_reason TEXT,
+  quoted_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+  PRIMARY KEY (lot_id, country)
+);
+
+-- Quality and compliance rules applied to sourcing candidates (see lib/sourcing-rules.ts)
+CREATE TABLE IF NOT EXISTS sourcing_rules (
+  id TEXT PRIMARY KEY,
+  rule_type TEXT NOT NULL,
+  value TEXT NOT NULL,
+  active INTEGER NOT NULL DEFAULT 1,
+  note TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sourcing_rules_type_value ON sourcing_rules(rule_type, value COLLATE NOCASE);
+
+-- Every product/variant a sourcing run passed over, and why
+CREATE TABLE IF NOT EXISTS sourcing_rejections (
+  id TEXT PRIMARY KEY,
+  keyword TEXT NOT NULL,
+  supplier TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  variant_id TEXT,
+  product_name TEXT,
+  rule_id TEXT,
+  rule_type TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sourcing_rejections_created ON sourcing_rejections(created_at);
+
+-- Runtime overrides for pipeline guardrails; defaults live in lib/pipeline-settings.ts
+CREATE TABLE IF NOT EXISTS pipeline_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_by TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+-- Every pipeline setting change; new_value NULL = reset to the default
+CREATE TABLE IF NOT EXISTS pipeline_settings_audit (
+  id TEXT PRIMARY KEY,
+  key TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  actor TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_settings_audit_created ON pipeline_settings_audit(created_at);
+
+-- Per-stage kill switches; a missing row means the stage runs (lib/pipeline-switches.ts)
+CREATE TABLE IF NOT EXISTS pipeline_switches (
+  stage TEXT PRIMARY KEY,
+  paused INTEGER NOT NULL DEFAULT 0,
+  updated_by TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now'))
+);
+
+-- One row per pipeline run (cron or CLI); see lib/pipeline-runs.ts
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id TEXT PRIMARY KEY,
+  job TEXT NOT NULL,
+  trigger TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',
+  detail TEXT,
+  started_at TEXT NOT NULL,
+  finished_at TEXT,
+  duration_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_job_started ON pipeline_runs(job, started_at);
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_status ON pipeline_runs(status);
+
+-- Per-step timing, result counts (JSON) and errors for each run; detail
+-- holds why a skipped step was not run
+CREATE TABLE IF NOT EXISTS pipeline_run_steps (
+  id TEXT PRIMARY KEY,
+  run_id TEXT NOT NULL REFERENCES pipeline_runs(id),
+  step TEXT NOT NULL,
+  status TEXT NOT NULL,
+  counts TEXT,
+  error TEXT,
+  detail TEXT,
+  started_at TEXT NOT NULL,
+  finished_at TEXT NOT NULL,
+  duration_ms INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_run_steps_run ON pipeline_run_steps(run_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_run_steps_step_status ON pipeline_run_steps(step, status, finished_at);
+
+-- Last overdue alert per scheduled job, so each lapse (keyed by the job's
+-- last completed run) alerts once (lib/pipeline-runs.ts)
+CREATE TABLE IF NOT EXISTS pipeline_overdue_alerts (
+  job TEXT PRIMARY KEY,
+  last_completed_at TEXT NOT NULL,
+  alerted_at TEXT NOT NULL
+);
+
+-- Stage lease locks so cron, CLI and webhook runs never overlap; a row
+-- exists only while held (lib/pipeline-locks.ts)
+CREATE TABLE IF NOT EXISTS pipeline_locks (
+  name TEXT PRIMARY KEY,
+  holder TEXT NOT NULL,
+  run_id TEXT,
+  acquired_at TEXT NOT NULL,
+  heartbeat_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
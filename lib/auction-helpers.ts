@@ -96,7 +96,8 @@ type BastaClient = {
 /**
  * Upload images for an auction item via Basta's signed URL flow.
  *
- * For each image URL: createUploadUrl → fetch from CJ → PUT to S3.
+ * For each image URL: createUploadUrl → fetch the image (our Cloudinary
+ * mirror, or the CJ URL if mirroring failed) → PUT to S3.
  * Failures are non-blocking (individual images may fail without aborting).
  */
 export async function uploadItemImages(
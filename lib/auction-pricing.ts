@@ -271,6 +271,64 @@ export function computePricing(params: PricingParams): PricingResult {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Destination shipping surcharge
+// ---------------------------------------------------------------------------
+
+/**
+ * Shipping surcharge for a destination that costs more to ship to than the
+ * base country the reserve was priced on. The reserve already covers the
+ * base shipping; the surcharge covers the difference with the same buffers:
+ *
+ *   surcharge * (1 - S_pct) >= (S_dest - S_base) * (1 + F) * (1 + M)
+ *
+ * It is charged as its own invoice line, so the buyer premium doesn't apply.
+ * Returns 0 when the destination is no dearer than the base.
+ */
+export function computeShippingSurcharge(params: {
+  baseShippingCents: number;
+  destinationShippingCents: number;
+  safetyMargin?: number;
+  priceFluctuationBuffer?: number;
+}): number {
+  const {
+    baseShippingCents,
+    destinationShippingCents,
+    safetyMargin = DEFAULT_SAFETY_MARGIN,
+    priceFluctuationBuffer = CJ_PRICE_FLUCTUATION_BUFFER,
+  } = params;
+
+  const extraCents = destinationShippingCents - baseShippingCents;
+  if (extraCents <= 0) return 0;
+
+  return Math.ceil(
+    (extraCents * (1 + priceFluctuationBuffer) * (1 + safetyMargin)) / (1 - STRIPE_PERCENTAGE)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Relist discount
+// ---------------------------------------------------------------------------
+
+/**
+ * How a lot that missed its reserve is repriced when it's relisted:
+ *   none   — same model as the first listing, on the current cost
+ *   margin — safety margin halved on every relist (5% → 2.5% → 1.25%),
+ *            so the reserve moves towards break-even but never below it
+ */
+export type RelistDiscountStrategy = "none" | "margin";
+
+export const RELIST_DISCOUNT_STRATEGIES: readonly RelistDiscountStrategy[] = ["none", "margin"];
+
+/** Safety margin for the `relistNumber`-th relist (1 = first relist). */
+export function getRelistSafetyMargin(
+  strategy: RelistDiscountStrategy,
+  relistNumber: number
+): number {
+  if (strategy === "none") return DEFAULT_SAFETY_MARGIN;
+  return DEFAULT_SAFETY_MARGIN / 2 ** Math.max(0, relistNumber);
+}
+
 // ---------------------------------------------------------------------------
 // Diagnostic: print pricing table for a set of test costs
 // ---------------------------------------------------------------------------
@@ -1,6 +1,7 @@
 import { NextAuthOptions } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
-import { verifyPassword } from "@/lib/user";
+import { getSessionsRevokedAt, verifyPassword } from "@/lib/user";
+import { getUserRole } from "@/lib/roles";
 import { getManagementApiClient, getAccountId } from "@/lib/basta-client";
 
 type BidderTokenData = {
@@ -51,6 +52,9 @@ async function createBidderToken(userId: string): Promise<BidderTokenData | null
     }
 }
 
+/** How often a signed-in session is checked against session_revocations. */
+const REVOCATION_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
 function isTokenExpired(expiration: string | undefined): boolean {
     if (!expiration) return true;
     const expirationTime = new Date(expiration).getTime();
@@ -89,6 +93,7 @@ export const authOptions: NextAuthOptions = {
                     id: user.id,
                     name: user.name,
                     email: user.email,
+                    role: await getUserRole(user.id),
                 };
             },
         }),
@@ -99,6 +104,9 @@ export const authOptions: NextAuthOptions = {
                 token.id = user.id;
                 token.name = user.name;
                 token.email = user.email;
+                token.role = user.role;
+                token.signedInAt = Date.now();
+                token.revocationCheckedAt = Date.now();
                 // Fetch bidder token on login
                 const bidderTokenData = await createBidderToken(user.id);
                 if (bidderTokenData) {
@@ -107,6 +115,25 @@ export const authOptions: NextAuthOptions = {
                 }
             }
 
+            // Reject sessions issued before a password change. Throwing makes
+            // NextAuth clear the cookie, which signs this browser out, so only
+            // a confirmed revocation throws; a failed lookup keeps the session
+            // and is retried on the next callback.
+            const revocationDue =
+                Date.now() - (token.revocationCheckedAt ?? 0) >= REVOCATION_CHECK_INTERVAL_MS;
+            if (!user && token.id && revocationDue) {
+                let revokedAt: string | null = null;
+                try {
+                    revokedAt = await getSessionsRevokedAt(token.id as string);
+                    token.revocationCheckedAt = Date.now();
+                } catch (error) {
+                    console.error("Failed to check session revocation:", error);
+                }
+                if (revokedAt && (token.signedInAt ?? 0) < new Date(revokedAt).getTime()) {
+                    throw new Error("Session revoked");
+                }
+            }
+
             // Allow client-side `session.update()` to refresh name/email in the JWT
             if (trigger === "update" && session?.user) {
                 token.name = session.user.name ?? token.name;
@@ -127,6 +154,13 @@ export const authOptions: NextAuthOptions = {
                 }
                 // If refresh failed but we had a non-expired token, keep the existing one
                 // (don't clear it just because refresh failed)
+
+                // Pick up role grants/revocations on the same cadence
+                try {
+                    token.role = await getUserRole(token.id as string);
+                } catch (error) {
+                    console.error("Failed to refresh user role:", error);
+                }
             }
 
             return token;
@@ -136,6 +170,7 @@ export const authOptions: NextAuthOptions = {
                 if (token.id) session.user.id = token.id;
                 session.user.name = token.name;
                 session.user.email = token.email;
+                session.user.role = token.role ?? "bidder";
             }
             if (token.bidderToken) {
                 session.bidderToken = token.bidderToken as string;
@@ -0,0 +1,511 @@
+/**
+ * Bid Notifications
+ *
+ * Emails bidders and watchers about lots they care about:
+ * - outbid:          another bidder now leads a lot the user bid on
+ * - closing_soon:    a watched lot closes within the hour
+ * - auction_started: a sale with watched lots has opened for bidding
+ *
+ * processBidNotifications() sweeps open sales via the Basta management API
+ * (bids, leader, closing times) together with `watchlist_items`. The Basta
+ * BidOnItem webhook calls notifyOutbidForItem() so outbid alerts go out as
+ * soon as a bid lands; the sweep catches anything the webhook missed.
+ *
+ * Each email is claimed in `notification_deliveries` before it is sent, so a
+ * user hears about a lot at most once per kind. Outbid claims also carry the
+ * beaten bid amount: raising your bid and losing the lead again is a new alert.
+ *
+ * Preferences (`user_preferences`): `email_notifications` off silences all of
+ * these; `bid_alerts` off silences outbid and closing-soon emails.
+ *
+ * Env vars:
+ *   NOTIFY_CLOSING_SOON_MINUTES — optional; default 60
+ *   NEXTAUTH_URL                — site URL for links; links are left out if unset
+ */
+
+import { getManagementApiClient, getAccountId } from "@/lib/basta-client";
+import { db, generateId } from "@/lib/turso";
+import { sendEmail } from "@/lib/email";
+import { getUserById } from "@/lib/user";
+import { getUserPreferences } from "@/lib/user-preferences";
+import { listWatchlistItemsForSale } from "@/lib/watchlist";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type NotificationKind = "outbid" | "closing_soon" | "auction_started";
+
+export type BidNotificationResult = {
+  salesScanned: number;
+  outbid: number;
+  closingSoon: number;
+  auctionStarted: number;
+  errors: string[];
+};
+
+type OpenSaleNode = {
+  id: string;
+  title?: string | null;
+  status?: string | null;
+  dates?: { openDate?: string | null } | null;
+};
+
+type BidNode = {
+  userId?: string | null;
+  amount?: number | null;
+  maxAmount?: number | null;
+};
+
+type NotifiableItem = {
+  id: string;
+  title?: string | null;
+  status?: string | null;
+  currentBid?: number | null;
+  leaderId?: string | null;
+  dates?: { closingEnd?: string | null } | null;
+  bids?: Array<BidNode | null> | null;
+};
+
+type OpenSalesResponse = {
+  sales?: {
+    edges?: Array<{ node?: OpenSaleNode | null } | null> | null;
+    pageInfo?: { hasNextPage: boolean; endCursor?: string | null } | null;
+  } | null;
+};
+
+type SaleItemResponse = {
+  saleItem?: NotifiableItem | null;
+};
+
+type SaleItemsResponse = {
+  sale?: {
+    items?: {
+      edges?: Array<{ node?: NotifiableItem | null } | null> | null;
+      pageInfo?: { hasNextPage: boolean; endCursor?: string | null } | null;
+    } | null;
+  } | null;
+};
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const MINUTE_MS = 60 * 1000;
+const OPEN_ITEM_STATUSES = new Set(["ITEM_OPEN", "ITEM_CLOSING"]);
+
+function getClosingSoonMinutes(): number {
+  const raw = process.env.NOTIFY_CLOSING_SOON_MINUTES?.trim();
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : 60;
+}
+
+function siteUrl(path: string): string | null {
+  const base = process.env.NEXTAUTH_URL?.trim();
+  return base ? new URL(path, base).toString() : null;
+}
+
+function formatClosingTime(iso: string): string {
+  return `${new Date(iso).toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "UTC",
+  })} UTC`;
+}
+
+// ---------------------------------------------------------------------------
+// Delivery log + preferences
+// ---------------------------------------------------------------------------
+
+/**
+ * Record that a notification is going out. Returns false if the same one was
+ * already sent, in which case the caller must not send it again.
+ */
+async function claimNotification(params: {
+  userId: string;
+  kind: NotificationKind;
+  saleId: string;
+  itemId?: string;
+  ref?: string;
+}): Promise<boolean> {
+  const result = await db.execute({
+    sql: `INSERT INTO notification_deliveries (id, user_id, kind, sale_id, item_id, ref, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(user_id, kind, sale_id, item_id, ref) DO NOTHING`,
+    args: [
+      generateId(),
+      params.userId,
+      params.kind,
+      params.saleId,
+      params.itemId ?? "",
+      params.ref ?? "",
+      new Date().toISOString(),
+    ],
+  });
+  return result.rowsAffected > 0;
+}
+
+/** The user's email address if they want this kind of notification, else null. */
+async function getRecipientEmail(userId: string, kind: NotificationKind): Promise<string | null> {
+  const user = await getUserById(userId);
+  if (!user?.email) return null;
+
+  const prefs = await getUserPreferences(userId);
+  if (!prefs.email_notifications) return null;
+  if (kind !== "auction_started" && !prefs.bid_alerts) return null;
+
+  return user.email;
+}
+
+// ---------------------------------------------------------------------------
+// Senders
+// ---------------------------------------------------------------------------
+
+/**
+ * Tell a bidder they've lost the lead on a lot. `beatenAmount` is the bid of
+ * theirs that was overtaken (in cents) and is part of the dedupe key.
+ * Returns true if an email was sent.
+ */
+export async function notifyOutbid(params: {
+  userId: string;
+  saleId: string;
+  itemId: string;
+  itemTitle?: string | null;
+  currentBid?: number | null;
+  beatenAmount: number;
+}): Promise<boolean> {
+  const email = await getRecipientEmail(params.userId, "outbid");
+  if (!email) return false;
+
+  const claimed = await claimNotification({
+    userId: params.userId,
+    kind: "outbid",
+    saleId: params.saleId,
+    itemId: params.itemId,
+    ref: String(params.beatenAmount),
+  });
+  if (!claimed) return false;
+
+  await sendEmail({
+    to: email,
+    template: "outbid",
+    data: {
+      productName: params.itemTitle || "Auction lot",
+      currentBid: params.currentBid ?? null,
+      lotUrl: siteUrl(`/auction/${params.saleId}/lot/${params.itemId}`),
+    },
+  });
+  return true;
+}
+
+async function notifyClosingSoon(params: {
+  userId: string;
+  saleId: string;
+  item: NotifiableItem;
+  closingEnd: string;
+}): Promise<boolean> {
+  const { userId, saleId, item, closingEnd } = params;
+  const email = await getRecipientEmail(userId, "closing_soon");
+  if (!email) return false;
+
+  const claimed = await claimNotification({
+    userId,
+    kind: "closing_soon",
+    saleId,
+    itemId: item.id,
+  });
+  if (!claimed) return false;
+
+  await sendEmail({
+    to: email,
+    template: "closing_soon",
+    data: {
+      productName: item.title || "Auction lot",
+      currentBid: item.currentBid ?? null,
+      closingTime: formatClosingTime(closingEnd),
+      lotUrl: siteUrl(`/auction/${saleId}/lot/${item.id}`),
+    },
+  });
+  return true;
+}
+
+async function notifyAuctionStarted(params: {
+  userId: string;
+  sale: OpenSaleNode;
+  lotCount: number;
+}): Promise<boolean> {
+  const { userId, sale, lotCount } = params;
+  const email = await getRecipientEmail(userId, "auction_started");
+  if (!email) return false;
+
+  const claimed = await claimNotification({ userId, kind: "auction_started", saleId: sale.id });
+  if (!claimed) return false;
+
+  await sendEmail({
+    to: email,
+    template: "auction_started",
+    data: {
+      auctionTitle: sale.title || "Auction",
+      lotCount,
+      auctionUrl: siteUrl(`/auction/${sale.id}`),
+    },
+  });
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Basta queries
+// ---------------------------------------------------------------------------
+
+async function fetchOpenSales(): Promise<OpenSaleNode[]> {
+  const client = getManagementApiClient();
+  const accountId = getAccountId();
+
+  const sales: OpenSaleNode[] = [];
+  let after: string | undefined = undefined;
+
+  while (true) {
+    const response: OpenSalesResponse = (await client.query({
+      sales: {
+        __args: {
+          accountId,
+          first: 50,
+          after,
+          filter: { statuses: ["OPENED", "CLOSING"] },
+        },
+        edges: {
+          node: {
+            id: true,
+            title: true,
+            status: true,
+            dates: { openDate: true },
+          },
+        },
+        pageInfo: {
+          hasNextPage: true,
+          endCursor: true,
+        },
+      },
+    })) as unknown as OpenSalesResponse;
+
+    const connection = response.sales;
+    for (const edge of connection?.edges ?? []) {
+      if (edge?.node) sales.push(edge.node);
+    }
+
+    if (!connection?.pageInfo?.hasNextPage) break;
+    after = connection.pageInfo.endCursor ?? undefined;
+  }
+
+  return sales;
+}
+
+async function fetchNotifiableItems(saleId: string): Promise<NotifiableItem[]> {
+  const client = getManagementApiClient();
+  const accountId = getAccountId();
+
+  const items: NotifiableItem[] = [];
+  let after: string | undefined = undefined;
+
+  while (true) {
+    const response: SaleItemsResponse = (await client.query({
+      sale: {
+        __args: { accountId, id: saleId },
+        items: {
+          __args: { first: 50, after },
+          edges: {
+            node: NOTIFIABLE_ITEM_FIELDS,
+          },
+          pageInfo: {
+            hasNextPage: true,
+            endCursor: true,
+          },
+        },
+      },
+    })) as unknown as SaleItemsResponse;
+
+    const connection = response.sale?.items;
+    for (const edge of connection?.edges ?? []) {
+      if (edge?.node) items.push(edge.node);
+    }
+
+    if (!connection?.pageInfo?.hasNextPage) break;
+    after = connection.pageInfo.endCursor ?? undefined;
+  }
+
+  return items;
+}
+
+const NOTIFIABLE_ITEM_FIELDS = {
+  id: true,
+  title: true,
+  status: true,
+  currentBid: true,
+  leaderId: true,
+  dates: { closingEnd: true },
+  bids: {
+    __args: { collapseSequentialUserBids: true },
+    userId: true,
+    amount: true,
+    maxAmount: true,
+  },
+} as const;
+
+async function fetchNotifiableItem(saleId: string, itemId: string): Promise<NotifiableItem | null> {
+  const client = getManagementApiClient();
+  const accountId = getAccountId();
+
+  const response = (await client.query({
+    saleItem: {
+      __args: { accountId, saleId, itemId },
+      ...NOTIFIABLE_ITEM_FIELDS,
+    },
+  })) as unknown as SaleItemResponse;
+
+  return response.saleItem ?? null;
+}
+
+/** Each non-leading bidder on an item with their highest bid (max bid if set). */
+function findOutbidBidders(item: NotifiableItem): Map<string, number> {
+  const outbid = new Map<string, number>();
+  if (!item.leaderId) return outbid;
+
+  for (const bid of item.bids ?? []) {
+    if (!bid?.userId || bid.userId === item.leaderId) continue;
+    const amount = bid.maxAmount ?? bid.amount ?? 0;
+    if (amount > (outbid.get(bid.userId) ?? 0)) {
+      outbid.set(bid.userId, amount);
+    }
+  }
+  return outbid;
+}
+
+/**
+ * Send outbid alerts for one item right after a bid (BidOnItem webhook).
+ * Returns how many emails went out.
+ */
+export async function notifyOutbidForItem(saleId: string, itemId: string): Promise<number> {
+  const item = await fetchNotifiableItem(saleId, itemId);
+  if (!item?.status || !OPEN_ITEM_STATUSES.has(item.status)) return 0;
+
+  let sent = 0;
+  for (const [userId, beatenAmount] of findOutbidBidders(item)) {
+    const delivered = await notifyOutbid({
+      userId,
+      saleId,
+      itemId,
+      itemTitle: item.title,
+      currentBid: item.currentBid,
+      beatenAmount,
+    });
+    if (delivered) sent++;
+  }
+  return sent;
+}
+
+// ---------------------------------------------------------------------------
+// Sweep
+// ---------------------------------------------------------------------------
+
+/**
+ * One pass over every open sale: outbid alerts for non-leading bidders,
+ * closing-soon alerts for watchers, and an "auction started" notice to
+ * watchers of sales that opened within the last closing-soon window.
+ * With dryRun, reports counts of candidates without sending or claiming.
+ */
+export async function processBidNotifications(options?: {
+  dryRun?: boolean;
+}): Promise<BidNotificationResult> {
+  const dryRun = options?.dryRun ?? false;
+  const windowMs = getClosingSoonMinutes() * MINUTE_MS;
+  const now = Date.now();
+
+  const result: BidNotificationResult = {
+    salesScanned: 0,
+    outbid: 0,
+    closingSoon: 0,
+    auctionStarted: 0,
+    errors: [],
+  };
+
+  const sales = await fetchOpenSales();
+
+  for (const sale of sales) {
+    try {
+      const [items, watchlist] = await Promise.all([
+        fetchNotifiableItems(sale.id),
+        listWatchlistItemsForSale(sale.id),
+      ]);
+      result.salesScanned++;
+
+      const watchersByItem = new Map<string, string[]>();
+      for (const entry of watchlist) {
+        const watchers = watchersByItem.get(entry.item_id) ?? [];
+        watchers.push(entry.user_id);
+        watchersByItem.set(entry.item_id, watchers);
+      }
+
+      for (const item of items) {
+        if (!item.status || !OPEN_ITEM_STATUSES.has(item.status)) continue;
+
+        for (const [userId, beatenAmount] of findOutbidBidders(item)) {
+          if (dryRun) {
+            result.outbid++;
+            continue;
+          }
+          const sent = await notifyOutbid({
+            userId,
+            saleId: sale.id,
+            itemId: item.id,
+            itemTitle: item.title,
+            currentBid: item.currentBid,
+            beatenAmount,
+          });
+          if (sent) result.outbid++;
+        }
+
+        const closingEnd = item.dates?.closingEnd;
+        const msLeft = closingEnd ? new Date(closingEnd).getTime() - now : NaN;
+        if (closingEnd && msLeft > 0 && msLeft <= windowMs) {
+          for (const userId of watchersByItem.get(item.id) ?? []) {
+            if (dryRun) {
+              result.closingSoon++;
+              continue;
+            }
+            const sent = await notifyClosingSoon({ userId, saleId: sale.id, item, closingEnd });
+            if (sent) result.closingSoon++;
+          }
+        }
+      }
+
+      // Only sales that opened recently, so a first run doesn't announce old sales
+      const openedAt = sale.dates?.openDate ? new Date(sale.dates.openDate).getTime() : NaN;
+      if (sale.status === "OPENED" && now - openedAt >= 0 && now - openedAt <= windowMs) {
+        const lotCounts = new Map<string, number>();
+        for (const entry of watchlist) {
+          lotCounts.set(entry.user_id, (lotCounts.get(entry.user_id) ?? 0) + 1);
+        }
+
+        for (const [userId, lotCount] of lotCounts) {
+          if (dryRun) {
+            result.auctionStarted++;
+            continue;
+          }
+          const sent = await notifyAuctionStarted({ userId, sale, lotCount });
+          if (sent) result.auctionStarted++;
+        }
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.error(`[notify] Sale ${sale.id} failed:`, message);
+      result.errors.push(`${sale.id}: ${message}`);
+    }
+  }
+
+  console.log(
+    `[notify] ${dryRun ? "[dry run] " : ""}Scanned ${result.salesScanned} open sale(s): ` +
+      `${result.outbid} outbid, ${result.closingSoon} closing soon, ${result.auctionStarted} auction started`
+  );
+
+  return result;
+}
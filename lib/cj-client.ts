@@ -5,19 +5,34 @@
  * Handles authentication, token refresh, product search, inventory,
  * freight calculation, order creation, payment, and tracking.
  *
+ * Every request goes through a token-bucket rate limiter (CJ free tier:
+ * 1 req/s), retries transient failures with exponential backoff + jitter,
+ * counts calls per endpoint, and trips a circuit breaker after repeated
+ * failures so bulk runs fail fast instead of hammering CJ.
+ *
+ * Env (all optional):
+ *   CJ_RATE_LIMIT_PER_SEC         — sustained request rate (default 1)
+ *   CJ_RATE_LIMIT_BURST           — bucket capacity (default 1)
+ *   CJ_MAX_RETRIES                — retries per call (default 3)
+ *   CJ_CIRCUIT_FAILURE_THRESHOLD  — consecutive failures before opening (default 5)
+ *   CJ_CIRCUIT_COOLDOWN_MS        — how long the circuit stays open (default 60000)
+ *
  * Base URL: https://developers.cjdropshipping.com/api2.0/v1
  * Auth: CJ-Access-Token header (obtained via API key exchange)
  */
 
-import { readFileSync, writeFileSync, existsSync } from "fs";
-import { resolve } from "path";
+import { createTokenStore, type CJTokenStore } from "@/lib/cj-token-store";
+import { readNumberEnv } from "@/lib/env";
 
 const CJ_BASE_URL = "https://developers.cjdropshipping.com/api2.0/v1";
 
-// Token is persisted here so we don't re-auth on every script/server restart.
-// getAccessToken is rate-limited to 1 call per 5 minutes, but the token lasts
-// 15 days and the refresh token lasts 180 days.
-const TOKEN_FILE = resolve(process.cwd(), ".cj-token.json");
+// Tokens are shared through a CJTokenStore (DB by default) so we don't re-auth
+// on every cold start. getAccessToken is rate-limited to 1 call per 5 minutes,
+// but the token lasts 15 days and the refresh token lasts 180 days.
+const TOKEN_REFRESH_BUFFER_MS = 60 * 60 * 1000;
+/** How long one caller may hold the refresh lease before others take over. */
+const TOKEN_LEASE_MS = 30_000;
+const TOKEN_LEASE_POLL_MS = 1000;
 
 // ---------------------------------------------------------------------------
 // Types
@@ -205,6 +220,151 @@ export type CJTrackInfo = {
   lastTrackNumber?: string;
 };
 
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** A failed CJ call: HTTP status, or CJ's `code` when the body reports an error. */
+export class CJApiError extends Error {
+  constructor(
+    readonly endpoint: string,
+    readonly status: number,
+    readonly code: number | null,
+    readonly retryable: boolean,
+    message: string
+  ) {
+    super(message);
+    this.name = "CJApiError";
+  }
+}
+
+/** Thrown without calling CJ while the circuit breaker is open. */
+export class CJCircuitOpenError extends Error {
+  constructor(readonly retryAt: Date) {
+    super(`CJ API circuit open after repeated failures — retry after ${retryAt.toISOString()}`);
+    this.name = "CJCircuitOpenError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting, retries and circuit breaker
+// ---------------------------------------------------------------------------
+
+/** CJ body codes that mean "too many requests" — the call was not processed. */
+const CJ_RATE_LIMIT_CODES = new Set([429, 1600200]);
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Token bucket: `ratePerSec` tokens refill continuously up to `capacity`.
+ * With the defaults (1 req/s, capacity 1) calls are spaced one second apart.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ratePerSec: number,
+    private readonly capacity: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  /** Wait for a token. Callers are served in order. */
+  take(): Promise<void> {
+    const next = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep(((1 - this.tokens) / this.ratePerSec) * 1000);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSec
+    );
+    this.lastRefill = now;
+  }
+}
+
+type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+/**
+ * Opens after `threshold` consecutive transient failures (retries exhausted).
+ * While open every call fails fast; after `cooldownMs` one trial call is let
+ * through — success closes the circuit, failure re-opens it.
+ */
+class CircuitBreaker {
+  private state: CircuitState = "CLOSED";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  /** Throws CJCircuitOpenError if calls are currently blocked. */
+  check(): void {
+    if (this.state === "CLOSED") return;
+    if (this.state === "OPEN" && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = "HALF_OPEN";
+      return;
+    }
+    throw new CJCircuitOpenError(new Date(this.openedAt + this.cooldownMs));
+  }
+
+  isOpen(): boolean {
+    return this.state === "OPEN" && Date.now() - this.openedAt < this.cooldownMs;
+  }
+
+  recordSuccess(): void {
+    this.state = "CLOSED";
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === "HALF_OPEN" || this.consecutiveFailures >= this.threshold) {
+      if (this.state !== "OPEN") {
+        console.warn(
+          `[cj-client] Circuit opened after ${this.consecutiveFailures} consecutive failure(s); pausing CJ calls for ${Math.round(this.cooldownMs / 1000)}s`
+        );
+      }
+      this.state = "OPEN";
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+/** Per-endpoint call accounting for the lifetime of the client. */
+export type CJEndpointStats = {
+  endpoint: string;
+  calls: number;
+  retries: number;
+  failures: number;
+  rateLimited: number;
+  lastStatus: number | null;
+  lastCalledAt: string | null;
+};
+
+/** Exponential backoff with full jitter, capped at RETRY_MAX_DELAY_MS. */
+function backoffDelayMs(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
 // ---------------------------------------------------------------------------
 // Client
 // ---------------------------------------------------------------------------
@@ -215,51 +375,59 @@ export class CJClient {
   private refreshTokenExpiry: Date | null = null;
   private tokenExpiry: Date | null = null;
   private apiKey: string;
-
-  constructor(apiKey: string) {
+  private bucket = new TokenBucket(
+    readNumberEnv("CJ_RATE_LIMIT_PER_SEC", 1),
+    readNumberEnv("CJ_RATE_LIMIT_BURST", 1)
+  );
+  private breaker = new CircuitBreaker(
+    readNumberEnv("CJ_CIRCUIT_FAILURE_THRESHOLD", 5),
+    readNumberEnv("CJ_CIRCUIT_COOLDOWN_MS", 60_000)
+  );
+  private maxRetries = readNumberEnv("CJ_MAX_RETRIES", 3);
+  private endpointStats = new Map<string, CJEndpointStats>();
+
+  private tokenStore: CJTokenStore;
+  private leaseHolder = globalThis.crypto.randomUUID();
+  private authInFlight: Promise<void> | null = null;
+
+  constructor(apiKey: string, tokenStore?: CJTokenStore) {
     this.apiKey = apiKey;
-    this.loadPersistedToken();
+    this.tokenStore = tokenStore ?? createTokenStore(apiKey);
   }
 
   // -- Token persistence --------------------------------------------------
 
-  private loadPersistedToken(): void {
-    try {
-      if (!existsSync(TOKEN_FILE)) return;
-      const raw = readFileSync(TOKEN_FILE, "utf-8");
-      const data = JSON.parse(raw) as CJTokenData;
-
-      const expiry = new Date(data.accessTokenExpiryDate);
-      const refreshExpiry = new Date(data.refreshTokenExpiryDate);
-
-      // Token still valid (with 1-hour buffer)?
-      if (expiry > new Date(Date.now() + 60 * 60 * 1000)) {
-        this.accessToken = data.accessToken;
-        this.refreshTokenValue = data.refreshToken;
-        this.tokenExpiry = expiry;
-        this.refreshTokenExpiry = refreshExpiry;
-        console.log(
-          `[cj-client] Loaded persisted token (expires ${expiry.toISOString()})`
-        );
-        return;
-      }
+  /**
+   * Take the refresh token from stored data, and the access token too if it
+   * is still valid (with a 1-hour buffer). Returns whether the access token
+   * is usable.
+   */
+  private adoptToken(data: CJTokenData | null): boolean {
+    if (!data) return false;
 
-      // Access token expired but refresh token still valid?
-      if (refreshExpiry > new Date()) {
-        this.refreshTokenValue = data.refreshToken;
-        this.refreshTokenExpiry = refreshExpiry;
-        console.log(
-          "[cj-client] Access token expired, will use refresh token"
-        );
-      }
-    } catch {
-      // Corrupt file — ignore, will re-auth
+    const expiry = new Date(data.accessTokenExpiryDate);
+    const refreshExpiry = new Date(data.refreshTokenExpiryDate);
+
+    if (refreshExpiry > new Date()) {
+      this.refreshTokenValue = data.refreshToken;
+      this.refreshTokenExpiry = refreshExpiry;
+    }
+
+    if (expiry > new Date(Date.now() + TOKEN_REFRESH_BUFFER_MS)) {
+      this.accessToken = data.accessToken;
+      this.tokenExpiry = expiry;
+      return true;
     }
+    return false;
   }
 
-  private persistToken(data: CJTokenData): void {
+  private async storeToken(data: CJTokenData): Promise<void> {
+    this.accessToken = data.accessToken;
+    this.refreshTokenValue = data.refreshToken;
+    this.tokenExpiry = new Date(data.accessTokenExpiryDate);
+    this.refreshTokenExpiry = new Date(data.refreshTokenExpiryDate);
     try {
-      writeFileSync(TOKEN_FILE, JSON.stringify(data, null, 2));
+      await this.tokenStore.save(data);
     } catch (e) {
       console.warn("[cj-client] Failed to persist token:", e);
     }
@@ -274,6 +442,13 @@ export class CJClient {
       body?: Record<string, unknown>;
       params?: Record<string, string | number | boolean | undefined>;
       skipAuth?: boolean;
+      /**
+       * "always" retries network errors, 5xx and rate limits; "rate-limit-only"
+       * retries only when CJ rejected the call unprocessed (429 / QPS codes).
+       * Defaults to "always" for GET and "rate-limit-only" for writes, so
+       * orders and payments are never sent twice.
+       */
+      retry?: "always" | "rate-limit-only";
     }
   ): Promise<CJResponse<T>> {
     if (!options?.skipAuth) {
@@ -289,31 +464,125 @@ export class CJClient {
       }
     }
 
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-    if (this.accessToken && !options?.skipAuth) {
-      headers["CJ-Access-Token"] = this.accessToken;
-    }
+    const retryPolicy = options?.retry ?? (method === "GET" ? "always" : "rate-limit-only");
+    const stats = this.statsFor(path);
 
-    const response = await fetch(url.toString(), {
-      method,
-      headers,
-      body: options?.body ? JSON.stringify(options.body) : undefined,
-    });
+    for (let attempt = 0; ; attempt++) {
+      this.breaker.check();
+      await this.bucket.take();
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (this.accessToken && !options?.skipAuth) {
+        headers["CJ-Access-Token"] = this.accessToken;
+      }
+
+      stats.calls++;
+      stats.lastCalledAt = new Date().toISOString();
 
-    if (!response.ok) {
-      throw new Error(
-        `CJ API error: ${response.status} ${response.statusText}`
+      let error: CJApiError;
+      let retryAfterMs: number | null = null;
+      try {
+        const response = await fetch(url.toString(), {
+          method,
+          headers,
+          body: options?.body ? JSON.stringify(options.body) : undefined,
+        });
+        stats.lastStatus = response.status;
+
+        if (!response.ok) {
+          const rateLimited = response.status === 429;
+          if (rateLimited) {
+            stats.rateLimited++;
+            const retryAfter = Number(response.headers.get("retry-after"));
+            if (retryAfter > 0) retryAfterMs = retryAfter * 1000;
+          }
+          error = new CJApiError(
+            path,
+            response.status,
+            null,
+            rateLimited || response.status >= 500,
+            `CJ API error: ${response.status} ${response.statusText}`
+          );
+        } else {
+          const data = (await response.json()) as CJResponse<T>;
+          if (data.code === 200) {
+            this.breaker.recordSuccess();
+            return data;
+          }
+
+          const rateLimited = CJ_RATE_LIMIT_CODES.has(data.code);
+          if (rateLimited) stats.rateLimited++;
+          error = new CJApiError(
+            path,
+            response.status,
+            data.code,
+            rateLimited,
+            `CJ API error ${data.code}: ${data.message}`
+          );
+        }
+      } catch (e) {
+        // Network failure / unparseable body — CJ may or may not have seen it
+        error = new CJApiError(
+          path,
+          0,
+          null,
+          true,
+          `CJ API request failed: ${e instanceof Error ? e.message : String(e)}`
+        );
+      }
+
+      const rejectedUnprocessed = error.status === 429 || CJ_RATE_LIMIT_CODES.has(error.code ?? -1);
+      const canRetry =
+        error.retryable &&
+        (retryPolicy === "always" || rejectedUnprocessed) &&
+        attempt < this.maxRetries;
+
+      if (!canRetry) {
+        stats.failures++;
+        // Business errors (bad pid, insufficient balance…) mean CJ is up
+        if (error.retryable) this.breaker.recordFailure();
+        else this.breaker.recordSuccess();
+        throw error;
+      }
+
+      stats.retries++;
+      const delay = retryAfterMs ?? backoffDelayMs(attempt);
+      console.warn(
+        `[cj-client] ${method} ${path} failed (${error.message}); retry ${attempt + 1}/${this.maxRetries} in ${delay}ms`
       );
+      await sleep(delay);
     }
+  }
 
-    const data = (await response.json()) as CJResponse<T>;
-    if (data.code !== 200) {
-      throw new Error(`CJ API error ${data.code}: ${data.message}`);
+  private statsFor(path: string): CJEndpointStats {
+    let stats = this.endpointStats.get(path);
+    if (!stats) {
+      stats = {
+        endpoint: path,
+        calls: 0,
+        retries: 0,
+        failures: 0,
+        rateLimited: 0,
+        lastStatus: null,
+        lastCalledAt: null,
+      };
+      this.endpointStats.set(path, stats);
     }
+    return stats;
+  }
+
+  /** Calls made by this client (this process) per endpoint, busiest first. */
+  getCallStats(): CJEndpointStats[] {
+    return [...this.endpointStats.values()]
+      .map((s) => ({ ...s }))
+      .sort((a, b) => b.calls - a.calls);
+  }
 
-    return data;
+  /** True while the circuit breaker is rejecting calls. */
+  isCircuitOpen(): boolean {
+    return this.breaker.isOpen();
   }
 
   private async ensureAuthenticated(): Promise<void> {
@@ -321,11 +590,52 @@ export class CJClient {
     if (
       this.accessToken &&
       this.tokenExpiry &&
-      this.tokenExpiry > new Date(Date.now() + 60 * 60 * 1000)
+      this.tokenExpiry > new Date(Date.now() + TOKEN_REFRESH_BUFFER_MS)
     ) {
       return;
     }
 
+    // Concurrent calls in this process share one token fetch
+    if (!this.authInFlight) {
+      this.authInFlight = this.loadOrRefreshToken().finally(() => {
+        this.authInFlight = null;
+      });
+    }
+    await this.authInFlight;
+  }
+
+  /**
+   * Use the stored token if another instance already refreshed it; otherwise
+   * take the refresh lease and fetch a new one. Callers that lose the lease
+   * poll the store until the holder has saved its token.
+   */
+  private async loadOrRefreshToken(): Promise<void> {
+    const deadline = Date.now() + TOKEN_LEASE_MS + TOKEN_LEASE_POLL_MS * 5;
+
+    for (;;) {
+      if (this.adoptToken(await this.tokenStore.load())) return;
+
+      if (await this.tokenStore.acquireRefreshLease(this.leaseHolder, TOKEN_LEASE_MS)) {
+        try {
+          // The previous holder may have saved just before releasing
+          if (this.adoptToken(await this.tokenStore.load())) return;
+          await this.obtainNewToken();
+          return;
+        } finally {
+          await this.tokenStore.releaseRefreshLease(this.leaseHolder).catch((e) => {
+            console.warn("[cj-client] Failed to release token lease:", e);
+          });
+        }
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error("Timed out waiting for another instance to refresh the CJ access token");
+      }
+      await sleep(TOKEN_LEASE_POLL_MS);
+    }
+  }
+
+  private async obtainNewToken(): Promise<void> {
     // Try refresh first (5 calls/min limit — very generous)
     if (
       this.refreshTokenValue &&
@@ -356,11 +666,7 @@ export class CJClient {
       }
     );
 
-    this.accessToken = response.data.accessToken;
-    this.refreshTokenValue = response.data.refreshToken;
-    this.tokenExpiry = new Date(response.data.accessTokenExpiryDate);
-    this.refreshTokenExpiry = new Date(response.data.refreshTokenExpiryDate);
-    this.persistToken(response.data);
+    await this.storeToken(response.data);
 
     return response.data;
   }
@@ -379,11 +685,7 @@ export class CJClient {
       }
     );
 
-    this.accessToken = response.data.accessToken;
-    this.refreshTokenValue = response.data.refreshToken;
-    this.tokenExpiry = new Date(response.data.accessTokenExpiryDate);
-    this.refreshTokenExpiry = new Date(response.data.refreshTokenExpiryDate);
-    this.persistToken(response.data);
+    await this.storeToken(response.data);
 
     return response.data;
   }
@@ -511,6 +813,8 @@ export class CJClient {
           products: params.products,
           zip: params.zip,
         },
+        // Read-only quote — safe to retry despite being a POST
+        retry: "always",
       }
     );
 
@@ -0,0 +1,261 @@
+/**
+ * CJ Dropshipping as a `Supplier` (see lib/supplier-types.ts; registered in lib/supplier.ts).
+ *
+ * Thin adapter over `CJClient`: converts CJ's dollar prices to cents, picks
+ * the in-stock warehouse (and lists stock per warehouse), sorts freight options and maps CJ order statuses
+ * onto the pipeline's normalized states.
+ */
+
+import {
+  CJCircuitOpenError,
+  getCJClient,
+  type CJClient,
+  type CJProductVariant,
+} from "@/lib/cj-client";
+import { SupplierUnavailableError } from "@/lib/supplier-errors";
+import type {
+  ShippingAddress,
+  Supplier,
+  SupplierFreightQuote,
+  SupplierInventory,
+  SupplierOrder,
+  SupplierOrderState,
+  SupplierOrderStatus,
+  SupplierProduct,
+  SupplierSearchResult,
+  SupplierTracking,
+} from "@/lib/supplier-types";
+
+const toCents = (usd: number) => Math.round(usd * 100);
+
+/** CJ weights are grams, as a number or a string like "100.0" / "80.0-120.0" (heaviest wins). */
+function toGrams(value: number | string | null | undefined): number | null {
+  const numbers = String(value ?? "").match(/\d+(\.\d+)?/g)?.map(Number) ?? [];
+  const max = numbers.length ? Math.max(...numbers) : 0;
+  return max > 0 ? max : null;
+}
+
+/** CJ timestamps come as "YYYY-MM-DD HH:mm:ss" (read as UTC) or ISO; null if unparseable. */
+function toIsoTimestamp(value: string | undefined): string | null {
+  if (!value) return null;
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value)
+    ? `${value.replace(" ", "T")}Z`
+    : value;
+  const time = new Date(normalized).getTime();
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/** CJ order statuses → pipeline state. Anything else is still in progress. */
+function toOrderState(cjStatus: string): SupplierOrderState {
+  switch (cjStatus.toUpperCase()) {
+    case "UNSHIPPED":
+    case "PAID":
+      return "PAID";
+    case "SHIPPED":
+    case "IN_TRANSIT":
+      return "SHIPPED";
+    case "CANCELLED":
+    case "FAILED":
+    case "REFUNDED":
+      return "CANCELLED";
+    default:
+      return "PENDING";
+  }
+}
+
+/** Surface CJ's circuit-open error as the supplier-neutral one. */
+async function translateErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (e) {
+    if (e instanceof CJCircuitOpenError) {
+      throw new SupplierUnavailableError("cj", e.message);
+    }
+    throw e;
+  }
+}
+
+export class CJSupplier implements Supplier {
+  readonly id = "cj" as const;
+  readonly name = "CJ Dropshipping";
+
+  // Resolved lazily so importing the registry doesn't require CJ_API_KEY
+  private get cj(): CJClient {
+    return getCJClient();
+  }
+
+  async searchProducts(params: {
+    keyword: string;
+    limit: number;
+    countryCode?: string;
+  }): Promise<SupplierSearchResult[]> {
+    const result = await translateErrors(() => this.cj.searchProducts({
+      keyWord: params.keyword,
+      size: params.limit,
+      countryCode: params.countryCode,
+      orderBy: 1,
+    }));
+
+    return result.products.map((p) => {
+      // sellPrice is "1.65" or a range like "8.7 -- 10.19"
+      const minUsd = parseFloat(p.sellPrice.split(/\s*--\s*/)[0]);
+      return {
+        productId: p.id,
+        name: p.nameEn,
+        imageUrl: p.bigImage || null,
+        minCostCents: isNaN(minUsd) ? null : toCents(minUsd),
+        inventory: p.warehouseInventoryNum,
+      };
+    });
+  }
+
+  async getProduct(productId: string): Promise<SupplierProduct> {
+    const product = await translateErrors(() => this.cj.getProduct({ pid: productId }));
+
+    // The variant endpoint is the complete list; detail's copy is the fallback
+    let variants: CJProductVariant[];
+    try {
+      variants = await this.cj.getVariants({ pid: product.pid });
+    } catch {
+      variants = [];
+    }
+    if (!variants.length) variants = product.variants ?? [];
+
+    return {
+      productId: product.pid,
+      name: product.productNameEn,
+      description: product.description || "",
+      images: product.productImageSet ?? [],
+      category: product.categoryName || null,
+      weightGrams: toGrams(product.productWeight),
+      variants: variants.map((v) => ({
+        variantId: v.vid,
+        name: v.variantNameEn || "",
+        sku: v.variantSku || null,
+        costCents: toCents(v.variantSellPrice),
+        imageUrl: v.variantImage || null,
+        weightGrams: toGrams(v.variantWeight),
+        dimensionsMm: v.variantLength > 0 && v.variantWidth > 0 && v.variantHeight > 0
+          ? { length: v.variantLength, width: v.variantWidth, height: v.variantHeight }
+          : null,
+      })),
+    };
+  }
+
+  async getInventory(variantId: string): Promise<SupplierInventory> {
+    const inventory = await translateErrors(() => this.cj.getInventoryByVariant(variantId));
+    const byCountry = new Map<string, number>();
+    for (const inv of inventory) {
+      if (inv.totalInventoryNum > 0 && inv.countryCode) {
+        byCountry.set(inv.countryCode, (byCountry.get(inv.countryCode) ?? 0) + inv.totalInventoryNum);
+      }
+    }
+
+    return {
+      totalStock: inventory.reduce((sum, inv) => sum + inv.totalInventoryNum, 0),
+      fromCountry: inventory.find((i) => i.totalInventoryNum > 0)?.countryCode ?? null,
+      warehouses: [...byCountry]
+        .map(([countryCode, stock]) => ({ countryCode, stock }))
+        .sort((a, b) => b.stock - a.stock),
+    };
+  }
+
+  async quoteFreight(params: {
+    variantId: string;
+    fromCountry: string;
+    toCountry: string;
+  }): Promise<SupplierFreightQuote[]> {
+    const options = await translateErrors(() => this.cj.calculateFreight({
+      startCountryCode: params.fromCountry,
+      endCountryCode: params.toCountry,
+      products: [{ vid: params.variantId, quantity: 1 }],
+    }));
+
+    return options
+      .map((o) => ({
+        method: o.logisticName,
+        costCents: toCents(o.logisticPrice),
+        deliveryDays: o.logisticAging || null,
+      }))
+      .sort((a, b) => a.costCents - b.costCents);
+  }
+
+  async createOrder(params: {
+    orderNumber: string;
+    variantId: string;
+    quantity: number;
+    shippingMethod: string;
+    fromCountry: string;
+    shippingAddress: ShippingAddress;
+  }): Promise<SupplierOrder> {
+    const address = params.shippingAddress;
+    const order = await translateErrors(() => this.cj.createOrder({
+      orderNumber: params.orderNumber,
+      shippingCountryCode: address.country,
+      shippingCustomerName: address.name,
+      shippingAddress: [address.line1, address.line2].filter(Boolean).join(", "),
+      shippingCity: address.city,
+      shippingProvince: address.state,
+      shippingZip: address.postal_code,
+      shippingPhone: address.phone,
+      logisticName: params.shippingMethod,
+      fromCountryCode: params.fromCountry,
+      products: [{ vid: params.variantId, quantity: params.quantity }],
+    }));
+
+    return {
+      orderId: order.orderId,
+      orderNumber: order.orderNumber || params.orderNumber,
+      status: order.orderStatus,
+    };
+  }
+
+  async payOrder(orderId: string): Promise<void> {
+    await translateErrors(() => this.cj.payOrder(orderId));
+
+    // Confirm failure is non-fatal — the order is created and paid
+    try {
+      await this.cj.confirmOrder(orderId);
+      console.log(`[cj-supplier] CJ order confirmed: ${orderId}`);
+    } catch (e) {
+      console.warn(`[cj-supplier] CJ confirm failed (non-blocking): ${e}`);
+    }
+  }
+
+  async getOrderStatus(orderId: string): Promise<SupplierOrderStatus> {
+    const detail = await translateErrors(() => this.cj.getOrderDetail(orderId));
+    const raw = detail.orderStatus ?? "";
+    return {
+      orderId,
+      state: toOrderState(raw),
+      raw,
+      trackingNumber: detail.trackNumber ?? null,
+      carrier: detail.logisticName ?? null,
+    };
+  }
+
+  async getTracking(trackingNumber: string): Promise<SupplierTracking> {
+    const info = await translateErrors(() => this.cj.getTracking(trackingNumber));
+    const status = info.trackingStatus ?? "";
+    const delivered = status.toUpperCase() === "DELIVERED" || !!info.deliveryTime;
+    return {
+      trackingNumber: info.trackingNumber || trackingNumber,
+      carrier: info.lastMileCarrier || info.logisticName,
+      status,
+      delivered,
+      deliveredAt: delivered ? toIsoTimestamp(info.deliveryTime) : null,
+      deliveryDays: info.deliveryDay ?? null,
+      // trackInfo only reports the latest status, not individual scans
+      events: [],
+    };
+  }
+
+  isAvailable(): boolean {
+    return !this.cj.isCircuitOpen();
+  }
+
+  /** Per-endpoint CJ call counts for this process (see CJClient.getCallStats). */
+  getCallStats() {
+    return this.cj.getCallStats();
+  }
+}
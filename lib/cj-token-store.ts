@@ -0,0 +1,167 @@
+/**
+ * CJ access token storage.
+ *
+ * CJ's getAccessToken endpoint allows one call per 5 minutes, so the token
+ * must outlive a single process. Serverless instances have no durable disk,
+ * so tokens live in the database by default and every instance (cron,
+ * webhooks, CLI) shares one. A refresh lease makes sure only one caller
+ * talks to CJ's auth endpoints at a time; the others wait for its result.
+ *
+ * Env:
+ *   CJ_TOKEN_STORE — "db" (default) or "file" (.cj-token.json in the
+ *                    project root; single process only, handy offline)
+ */
+
+import { createHash } from "crypto";
+import { readFileSync, writeFileSync, existsSync } from "fs";
+import { resolve } from "path";
+import { db } from "@/lib/turso";
+import type { CJTokenData } from "@/lib/cj-client";
+
+// ---------------------------------------------------------------------------
+// Interface
+// ---------------------------------------------------------------------------
+
+export interface CJTokenStore {
+  /** The stored token, or null if none has been saved yet. */
+  load(): Promise<CJTokenData | null>;
+  save(data: CJTokenData): Promise<void>;
+  /**
+   * Try to become the only caller allowed to refresh the token for `ttlMs`.
+   * Returns false while another holder's lease is still live.
+   */
+  acquireRefreshLease(holder: string, ttlMs: number): Promise<boolean>;
+  releaseRefreshLease(holder: string): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Database store (default)
+// ---------------------------------------------------------------------------
+
+/**
+ * Tokens in the `cj_tokens` table, one row per CJ API key (keyed by a hash
+ * of the key so rotating CJ_API_KEY never reuses another account's token).
+ */
+export class DbTokenStore implements CJTokenStore {
+  private readonly id: string;
+
+  constructor(apiKey: string) {
+    this.id = createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
+  }
+
+  async load(): Promise<CJTokenData | null> {
+    const result = await db.execute({
+      sql: "SELECT * FROM cj_tokens WHERE id = ?",
+      args: [this.id],
+    });
+    const row = result.rows[0] as unknown as Record<string, unknown> | undefined;
+    if (!row?.access_token) return null;
+
+    return {
+      openId: (row.open_id as string | null) ?? "",
+      accessToken: row.access_token as string,
+      refreshToken: row.refresh_token as string,
+      accessTokenExpiryDate: row.access_token_expires_at as string,
+      refreshTokenExpiryDate: row.refresh_token_expires_at as string,
+      createDate: (row.created_date as string | null) ?? "",
+    };
+  }
+
+  async save(data: CJTokenData): Promise<void> {
+    await db.execute({
+      sql: `INSERT INTO cj_tokens
+              (id, open_id, access_token, refresh_token, access_token_expires_at,
+               refresh_token_expires_at, created_date, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET
+              open_id = excluded.open_id,
+              access_token = excluded.access_token,
+              refresh_token = excluded.refresh_token,
+              access_token_expires_at = excluded.access_token_expires_at,
+              refresh_token_expires_at = excluded.refresh_token_expires_at,
+              created_date = excluded.created_date,
+              updated_at = excluded.updated_at`,
+      args: [
+        this.id,
+        data.openId,
+        data.accessToken,
+        data.refreshToken,
+        data.accessTokenExpiryDate,
+        data.refreshTokenExpiryDate,
+        data.createDate,
+        new Date().toISOString(),
+      ],
+    });
+  }
+
+  async acquireRefreshLease(holder: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+
+    // Single statement: insert the row, or take over a free/expired lease
+    const result = await db.execute({
+      sql: `INSERT INTO cj_tokens (id, lease_holder, lease_expires_at, updated_at)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET
+              lease_holder = excluded.lease_holder,
+              lease_expires_at = excluded.lease_expires_at,
+              updated_at = excluded.updated_at
+            WHERE cj_tokens.lease_holder IS NULL
+               OR cj_tokens.lease_holder = excluded.lease_holder
+               OR cj_tokens.lease_expires_at < ?`,
+      args: [this.id, holder, expiresAt, now.toISOString(), now.toISOString()],
+    });
+    return result.rowsAffected > 0;
+  }
+
+  async releaseRefreshLease(holder: string): Promise<void> {
+    await db.execute({
+      sql: `UPDATE cj_tokens SET lease_holder = NULL, lease_expires_at = NULL, updated_at = ?
+            WHERE id = ? AND lease_holder = ?`,
+      args: [new Date().toISOString(), this.id, holder],
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// File store (single process)
+// ---------------------------------------------------------------------------
+
+/** The original `.cj-token.json` storage. Leases are always granted. */
+export class FileTokenStore implements CJTokenStore {
+  constructor(private readonly path = resolve(process.cwd(), ".cj-token.json")) {}
+
+  async load(): Promise<CJTokenData | null> {
+    try {
+      if (!existsSync(this.path)) return null;
+      return JSON.parse(readFileSync(this.path, "utf-8")) as CJTokenData;
+    } catch {
+      // Corrupt file — ignore, will re-auth
+      return null;
+    }
+  }
+
+  async save(data: CJTokenData): Promise<void> {
+    try {
+      writeFileSync(this.path, JSON.stringify(data, null, 2));
+    } catch (e) {
+      console.warn("[cj-token] Failed to persist token file:", e);
+    }
+  }
+
+  async acquireRefreshLease(): Promise<boolean> {
+    return true;
+  }
+
+  async releaseRefreshLease(): Promise<void> {}
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+export function createTokenStore(apiKey: string): CJTokenStore {
+  return process.env.CJ_TOKEN_STORE?.trim() === "file"
+    ? new FileTokenStore()
+    : new DbTokenStore(apiKey);
+}
@@ -1,11 +1,13 @@
 /**
  * Cloudinary image transformation utility
- * Uses fetch mode to proxy and transform external images (like Basta CDN)
+ * Uses fetch mode to proxy and transform external images (like Basta CDN).
+ * Images already uploaded to our cloud (mirrored supplier images, see
+ * lib/media-mirror.ts) are transformed in place via their upload URL.
  */
 
 const DEFAULT_CLOUD_NAME = "dqcs8uqsq";
 
-function getCloudName(): string | null {
+export function getCloudName(): string | null {
   const name =
     process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME ||
     process.env.CLOUDINARY_CLOUD_NAME ||
@@ -55,8 +57,11 @@ export function getOptimizedImageUrl(
     return imageUrl;
   }
 
+  const uploadPrefix = `https://res.cloudinary.com/${cloudName}/image/upload/`;
+  const isOwnUpload = imageUrl.startsWith(uploadPrefix);
+
   // Avoid double-proxying Cloudinary URLs.
-  if (imageUrl.includes("res.cloudinary.com/")) {
+  if (!isOwnUpload && imageUrl.includes("res.cloudinary.com/")) {
     return imageUrl;
   }
 
@@ -86,6 +91,11 @@ export function getOptimizedImageUrl(
 
   const transformString = transforms.join(",");
 
+  // Assets in our own cloud: insert the transformation after /upload/
+  if (isOwnUpload) {
+    return `${uploadPrefix}${transformString}/${imageUrl.slice(uploadPrefix.length)}`;
+  }
+
   // Encode remote URL (Cloudinary fetch treats it as part of the path).
   const encodedRemote = encodeURIComponent(imageUrl);
 
@@ -28,6 +28,39 @@ export async function markWebhookProcessed(
     }
 }
 
+// Bid Events
+export async function insertBidEvent(event: {
+    idempotency_key: string;
+    sale_id: string;
+    item_id: string;
+    user_id?: string | null;
+    amount_cents?: number | null;
+    max_amount_cents?: number | null;
+    bid_type?: string | null;
+    bid_date?: string | null;
+    payload?: unknown;
+}): Promise<void> {
+    await db.execute({
+        sql: `INSERT OR IGNORE INTO bid_events (
+                id, idempotency_key, sale_id, item_id, user_id, amount_cents, max_amount_cents,
+                bid_type, bid_date, payload, created_at
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+            generateId(),
+            event.idempotency_key,
+            event.sale_id,
+            event.item_id,
+            event.user_id ?? null,
+            event.amount_cents ?? null,
+            event.max_amount_cents ?? null,
+            event.bid_type ?? null,
+            event.bid_date ?? null,
+            event.payload === undefined ? null : JSON.stringify(event.payload),
+            new Date().toISOString(),
+        ],
+    });
+}
+
 // Payment Orders
 export type PaymentOrder = {
     id: string;
@@ -41,18 +74,7 @@ export type PaymentOrder = {
     updated_at: string;
 };
 
-export async function getPaymentOrderBySaleAndUser(
-    saleId: string,
-    userId: string
-): Promise<PaymentOrder | null> {
-    const result = await db.execute({
-        sql: "SELECT * FROM payment_orders WHERE sale_id = ? AND user_id = ?",
-        args: [saleId, userId],
-    });
-
-    if (result.rows.length === 0) return null;
-
-    const row = result.rows[0];
+function rowToPaymentOrder(row: Record<string, unknown>): PaymentOrder {
     return {
         id: row.id as string,
         basta_order_id: row.basta_order_id as string,
@@ -66,6 +88,19 @@ export async function getPaymentOrderBySaleAndUser(
     };
 }
 
+export async function getPaymentOrderBySaleAndUser(
+    saleId: string,
+    userId: string
+): Promise<PaymentOrder | null> {
+    const result = await db.execute({
+        sql: "SELECT * FROM payment_orders WHERE sale_id = ? AND user_id = ?",
+        args: [saleId, userId],
+    });
+
+    if (result.rows.length === 0) return null;
+    return rowToPaymentOrder(result.rows[0]);
+}
+
 export async function getPaymentOrderByInvoiceId(invoiceId: string): Promise<PaymentOrder | null> {
     const result = await db.execute({
         sql: "SELECT * FROM payment_orders WHERE stripe_invoice_id = ?",
@@ -73,19 +108,25 @@ export async function getPaymentOrderByInvoiceId(invoiceId: string): Promise<Pay
     });
 
     if (result.rows.length === 0) return null;
+    return rowToPaymentOrder(result.rows[0]);
+}
 
-    const row = result.rows[0];
-    return {
-        id: row.id as string,
-        basta_order_id: row.basta_order_id as string,
-        sale_id: row.sale_id as string,
-        user_id: row.user_id as string,
-        stripe_invoice_id: row.stripe_invoice_id as string | null,
-        stripe_invoice_url: row.stripe_invoice_url as string | null,
-        status: row.status as string | null,
-        created_at: row.created_at as string,
-        updated_at: row.updated_at as string,
-    };
+/**
+ * Invoiced orders still waiting on payment that were created before
+ * `createdBefore`. Orders behind a second-chance offer are left out: they are
+ * swept separately and must never be charged without the buyer acting.
+ */
+export async function getUnpaidPaymentOrders(createdBefore: string): Promise<PaymentOrder[]> {
+    const result = await db.execute({
+        sql: `SELECT * FROM payment_orders
+              WHERE status IN ('INVOICE_ISSUED', 'PAYMENT_FAILED')
+                AND stripe_invoice_id IS NOT NULL
+                AND created_at <= ?
+                AND basta_order_id NOT IN (SELECT basta_order_id FROM second_chance_offers)
+              ORDER BY created_at ASC`,
+        args: [createdBefore],
+    });
+    return result.rows.map(rowToPaymentOrder);
 }
 
 export async function insertPaymentOrder(order: {
@@ -173,6 +214,14 @@ export async function upsertPaymentOrderItem(bastaOrderId: string, itemId: strin
     }
 }
 
+export async function getPaymentOrderItemIds(bastaOrderId: string): Promise<string[]> {
+    const result = await db.execute({
+        sql: "SELECT item_id FROM payment_order_items WHERE basta_order_id = ?",
+        args: [bastaOrderId],
+    });
+    return result.rows.map((row) => row.item_id as string);
+}
+
 // Invoice Attempt Logging
 export async function logInvoiceAttempt(params: {
     basta_order_id: string;
@@ -203,3 +252,120 @@ export async function logInvoiceAttempt(params: {
     }
 }
 
+export async function hasInvoiceAttempt(bastaOrderId: string, status: string): Promise<boolean> {
+    const result = await db.execute({
+        sql: "SELECT id FROM invoice_attempts WHERE basta_order_id = ? AND status = ? LIMIT 1",
+        args: [bastaOrderId, status],
+    });
+    return result.rows.length > 0;
+}
+
+// Second-Chance Offers
+export type SecondChanceOfferStatus = "OFFERED" | "PAID" | "EXPIRED";
+
+export type SecondChanceOffer = {
+    id: string;
+    sale_id: string;
+    item_id: string;
+    original_order_id: string;
+    original_user_id: string;
+    user_id: string;
+    amount_cents: number;
+    basta_order_id: string;
+    stripe_invoice_id: string;
+    stripe_invoice_url: string | null;
+    status: SecondChanceOfferStatus;
+    created_at: string;
+    updated_at: string;
+};
+
+function rowToSecondChanceOffer(row: Record<string, unknown>): SecondChanceOffer {
+    return {
+        id: row.id as string,
+        sale_id: row.sale_id as string,
+        item_id: row.item_id as string,
+        original_order_id: row.original_order_id as string,
+        original_user_id: row.original_user_id as string,
+        user_id: row.user_id as string,
+        amount_cents: Number(row.amount_cents),
+        basta_order_id: row.basta_order_id as string,
+        stripe_invoice_id: row.stripe_invoice_id as string,
+        stripe_invoice_url: row.stripe_invoice_url as string | null,
+        status: row.status as SecondChanceOfferStatus,
+        created_at: row.created_at as string,
+        updated_at: row.updated_at as string,
+    };
+}
+
+export async function insertSecondChanceOffer(
+    offer: Omit<SecondChanceOffer, "id" | "status" | "created_at" | "updated_at">
+): Promise<SecondChanceOffer> {
+    const now = new Date().toISOString();
+    const created: SecondChanceOffer = {
+        ...offer,
+        id: generateId(),
+        status: "OFFERED",
+        created_at: now,
+        updated_at: now,
+    };
+    await db.execute({
+        sql: `INSERT INTO second_chance_offers (
+                id, sale_id, item_id, original_order_id, original_user_id, user_id, amount_cents,
+                basta_order_id, stripe_invoice_id, stripe_invoice_url, status, created_at, updated_at
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+            created.id,
+            created.sale_id,
+            created.item_id,
+            created.original_order_id,
+            created.original_user_id,
+            created.user_id,
+            created.amount_cents,
+            created.basta_order_id,
+            created.stripe_invoice_id,
+            created.stripe_invoice_url,
+            created.status,
+            created.created_at,
+            created.updated_at,
+        ],
+    });
+    return created;
+}
+
+export async function getSecondChanceOfferByItemId(itemId: string): Promise<SecondChanceOffer | null> {
+    const result = await db.execute({
+        sql: "SELECT * FROM second_chance_offers WHERE item_id = ?",
+        args: [itemId],
+    });
+    if (result.rows.length === 0) return null;
+    return rowToSecondChanceOffer(result.rows[0]);
+}
+
+export async function getSecondChanceOfferByInvoiceId(invoiceId: string): Promise<SecondChanceOffer | null> {
+    const result = await db.execute({
+        sql: "SELECT * FROM second_chance_offers WHERE stripe_invoice_id = ?",
+        args: [invoiceId],
+    });
+    if (result.rows.length === 0) return null;
+    return rowToSecondChanceOffer(result.rows[0]);
+}
+
+export async function getSecondChanceOffersByStatus(
+    status: SecondChanceOfferStatus
+): Promise<SecondChanceOffer[]> {
+    const result = await db.execute({
+        sql: "SELECT * FROM second_chance_offers WHERE status = ? ORDER BY created_at ASC",
+        args: [status],
+    });
+    return result.rows.map(rowToSecondChanceOffer);
+}
+
+export async function updateSecondChanceOfferStatus(
+    id: string,
+    status: SecondChanceOfferStatus
+): Promise<void> {
+    await db.execute({
+        sql: "UPDATE second_chance_offers SET status = ?, updated_at = ? WHERE id = ?",
+        args: [status, new Date().toISOString(), id],
+    });
+}
@@ -0,0 +1,219 @@
+/**
+ * Dropship Admin — operator actions on individual lots.
+ *
+ * Backs the /admin/lots console. Every action requires a reason, which is
+ * written to the lot's error_message and event trail (actor
+ * `operator:<email>`) and echoed as an info alert so manual interventions
+ * are visible alongside automated pipeline alerts.
+ *
+ * Actions:
+ * - transition        — force a status change permitted by validateTransition()
+ * - retry_fulfillment — re-run fulfillDropshipLot() for a PAID lot, under the
+ *                       fulfillment lock so it can't race the cron or webhook
+ * - refund            — refund / void via refundDropshipLot()
+ */
+
+import {
+  getDropshipLotById,
+  InvalidTransitionError,
+  LotConflictError,
+  transitionDropshipLot,
+  updateDropshipLot,
+  type DropshipLot,
+  type DropshipLotStatus,
+} from "@/lib/dropship";
+import { fulfillDropshipLot } from "@/lib/dropship-fulfillment";
+import { refundDropshipLot } from "@/lib/dropship-refund";
+import { sendAlert } from "@/lib/alerts";
+import { describeLock, withPipelineLock } from "@/lib/pipeline-locks";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type OperatorAction =
+  | { type: "transition"; toStatus: DropshipLotStatus }
+  | { type: "retry_fulfillment" }
+  | { type: "refund" };
+
+export type OperatorActionResult =
+  | { ok: true; lot: DropshipLot; message: string }
+  | { ok: false; error: string; status: number };
+
+type ShippingAddress = Parameters<typeof fulfillDropshipLot>[0]["shippingAddress"];
+
+/** How long a retry waits for a running fulfillment batch before giving up. */
+const FULFILLMENT_LOCK_WAIT_MS = 10_000;
+
+function operatorNote(operator: string, reason: string): string {
+  return `[operator ${operator}] ${reason}`;
+}
+
+// ---------------------------------------------------------------------------
+// Individual actions
+// ---------------------------------------------------------------------------
+
+async function forceTransition(
+  lot: DropshipLot,
+  toStatus: DropshipLotStatus,
+  operator: string,
+  reason: string
+): Promise<OperatorActionResult> {
+  // Compare-and-set against the lot as read for this action
+  try {
+    await transitionDropshipLot(lot.id, {
+      from: lot.status as DropshipLotStatus,
+      expectedUpdatedAt: lot.updated_at,
+      to: toStatus,
+      updates: { error_message: operatorNote(operator, reason) },
+    }, { actor: `operator:${operator}`, reason });
+  } catch (e) {
+    if (e instanceof InvalidTransitionError) {
+      return {
+        ok: false,
+        error: `Transition ${lot.status} → ${toStatus} is not allowed`,
+        status: 409,
+      };
+    }
+    if (e instanceof LotConflictError) {
+      return { ok: false, error: `${e.message}; reload and try again`, status: 409 };
+    }
+    throw e;
+  }
+
+  return { ok: true, lot, message: `Lot moved ${lot.status} → ${toStatus}` };
+}
+
+async function retryFulfillment(
+  lot: DropshipLot,
+  operator: string,
+  reason: string
+): Promise<OperatorActionResult> {
+  if (lot.status !== "PAID") {
+    return {
+      ok: false,
+      error: `Lot is in status ${lot.status}; only PAID lots can be re-fulfilled`,
+      status: 409,
+    };
+  }
+  if (!lot.basta_item_id) {
+    return { ok: false, error: "Lot has no Basta item", status: 409 };
+  }
+  if (!lot.shipping_address) {
+    return { ok: false, error: "Lot has no shipping address on file", status: 409 };
+  }
+
+  const bastaItemId = lot.basta_item_id;
+  const shippingAddress = JSON.parse(lot.shipping_address) as ShippingAddress;
+
+  const outcome = await withPipelineLock(
+    "fulfillment",
+    `operator:${operator}`,
+    async () => {
+      await updateDropshipLot(lot.id, {
+        error_message: operatorNote(operator, reason),
+      });
+      return fulfillDropshipLot({ bastaItemId, shippingAddress, actor: `operator:${operator}` });
+    },
+    { waitMs: FULFILLMENT_LOCK_WAIT_MS }
+  );
+
+  if (!outcome.acquired) {
+    const detail = outcome.heldBy ? describeLock(outcome.heldBy) : "fulfillment is locked";
+    return { ok: false, error: `${detail}; try again once it finishes`, status: 409 };
+  }
+
+  const result = outcome.value;
+  if (!result.success) {
+    return {
+      ok: false,
+      error: `Fulfillment failed: ${result.reason}`,
+      status: 502,
+    };
+  }
+
+  return {
+    ok: true,
+    lot,
+    message: `CJ order ${result.cjOrderId} created`,
+  };
+}
+
+async function refund(
+  lot: DropshipLot,
+  operator: string,
+  reason: string
+): Promise<OperatorActionResult> {
+  const result = await refundDropshipLot(lot, {
+    operatorReason: operatorNote(operator, reason),
+    actor: `operator:${operator}`,
+  });
+
+  if (!result.success) {
+    return { ok: false, error: result.reason, status: 409 };
+  }
+
+  return {
+    ok: true,
+    lot,
+    message: result.stripeRefundId
+      ? `Refunded (Stripe refund ${result.stripeRefundId})`
+      : "Cancelled (no charge to refund)",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply an operator action to a single lot. The returned `lot` is re-read
+ * after the action so callers can render the new state.
+ */
+export async function applyOperatorAction(params: {
+  lotId: string;
+  action: OperatorAction;
+  operator: string;
+  reason: string;
+}): Promise<OperatorActionResult> {
+  const { lotId, action, operator } = params;
+  const reason = params.reason.trim();
+
+  if (!reason) {
+    return { ok: false, error: "A reason is required", status: 400 };
+  }
+
+  const lot = await getDropshipLotById(lotId);
+  if (!lot) {
+    return { ok: false, error: "Lot not found", status: 404 };
+  }
+
+  let result: OperatorActionResult;
+  switch (action.type) {
+    case "transition":
+      result = await forceTransition(lot, action.toStatus, operator, reason);
+      break;
+    case "retry_fulfillment":
+      result = await retryFulfillment(lot, operator, reason);
+      break;
+    case "refund":
+      result = await refund(lot, operator, reason);
+      break;
+  }
+
+  console.log(
+    `[admin] ${operator} ${action.type} on lot ${lotId}: ` +
+      (result.ok ? result.message : `FAILED — ${result.error}`)
+  );
+
+  await sendAlert(
+    `Operator ${operator} ran ${action.type} on lot ${lotId} ("${lot.cj_product_name}"): ` +
+      `${result.ok ? result.message : `failed — ${result.error}`}. Reason: ${reason}`,
+    "info"
+  );
+
+  if (!result.ok) return result;
+
+  const updated = await getDropshipLotById(lotId);
+  return { ...result, lot: updated ?? lot };
+}
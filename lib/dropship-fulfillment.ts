@@ -2,39 +2,40 @@
  * Dropship Fulfillment Service
  *
  * After a Stripe invoice is paid for a dropship lot:
- * 1. Re-checks CJ inventory (guard: item still in stock)
- * 2. Re-checks CJ price (guard: cost hasn't increased beyond margin)
- * 3. Creates CJ order with winner's shipping address
- * 4. Pays for the CJ order from CJ balance
- * 5. Confirms the CJ order
- * 6. Updates local DB with CJ order details
+ * 1. Re-checks supplier inventory (guard: item still in stock)
+ * 2. Re-checks supplier price (guard: cost hasn't risen past the
+ *    max_price_increase_percent pipeline setting)
+ * 3. Creates the supplier order with winner's shipping address
+ * 4. Pays for (and confirms) the order — CJ pays from the CJ balance
+ * 5. Updates local DB with the order details
+ *
+ * The supplier is the one recorded on the lot (see lib/supplier.ts).
  *
  * Called from the Stripe webhook handler or manually via script.
  */
 
-import { getCJClient } from "@/lib/cj-client";
+import {
+  getSupplier,
+  SupplierUnavailableError,
+  type ShippingAddress,
+} from "@/lib/supplier";
 import {
   getDropshipLotByBastaItem,
+  InvalidTransitionError,
+  LotConflictError,
+  transitionDropshipLot,
   updateDropshipLot,
   type DropshipLot,
+  type LotEventActor,
 } from "@/lib/dropship";
 import { sendAlert } from "@/lib/alerts";
+import { getPipelineSettings } from "@/lib/pipeline-settings";
+import { getLotShippingEligibility, normalizeCountryCode } from "@/lib/lot-shipping";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-type ShippingAddress = {
-  name: string;
-  line1: string;
-  line2?: string;
-  city: string;
-  state: string;
-  postal_code: string;
-  country: string;
-  phone?: string;
-};
-
 type FulfillmentResult =
   | { success: true; cjOrderId: string; cjOrderNumber: string }
   | { success: false; reason: string; status: string };
@@ -46,8 +47,10 @@ type FulfillmentResult =
 export async function fulfillDropshipLot(params: {
   bastaItemId: string;
   shippingAddress: ShippingAddress;
+  /** Recorded on the lot's events; defaults to "system". */
+  actor?: LotEventActor;
 }): Promise<FulfillmentResult> {
-  const { bastaItemId, shippingAddress } = params;
+  const { bastaItemId, shippingAddress, actor = "system" } = params;
 
   // Look up the lot
   const lot = await getDropshipLotByBastaItem(bastaItemId);
@@ -60,7 +63,7 @@ export async function fulfillDropshipLot(params: {
   }
 
   // Guard: only fulfill lots in PAID status
-  if (lot.status !== "PAID" && lot.status !== "AUCTION_CLOSED") {
+  if (lot.status !== "PAID") {
     return {
       success: false,
       reason: `Lot ${lot.id} is in status ${lot.status}, expected PAID`,
@@ -68,58 +71,78 @@ export async function fulfillDropshipLot(params: {
     };
   }
 
-  const cj = getCJClient();
+  const supplier = getSupplier(lot.supplier);
+
+  // Supplier is down — leave the lot PAID for the next fulfillment run
+  if (!supplier.isAvailable()) {
+    return {
+      success: false,
+      reason: `${supplier.name} API unavailable — will retry`,
+      status: lot.status,
+    };
+  }
 
   // ── Guard 1: Re-check inventory ──────────────────────────────────────
   try {
-    const inventory = await cj.getInventoryByVariant(lot.cj_vid);
-    const totalStock = inventory.reduce(
-      (sum, inv) => sum + inv.totalInventoryNum,
-      0
-    );
+    const inventory = await supplier.getInventory(lot.cj_vid);
 
-    if (totalStock < 1) {
+    if (inventory.totalStock < 1) {
       await updateDropshipLot(lot.id, {
         status: "CJ_OUT_OF_STOCK",
         error_message: `Variant ${lot.cj_vid} out of stock at fulfillment time`,
-      });
+      }, { actor });
 
       await sendAlert(
-        `Lot ${lot.id}: CJ variant ${lot.cj_vid} out of stock at fulfillment time — needs refund`
+        `Lot ${lot.id}: ${supplier.name} variant ${lot.cj_vid} out of stock at fulfillment time — needs refund`
       );
 
       return {
         success: false,
-        reason: "CJ product out of stock",
+        reason: `${supplier.name} product out of stock`,
         status: "CJ_OUT_OF_STOCK",
       };
     }
   } catch (e) {
     console.error(`[fulfillment] Inventory check failed for lot ${lot.id}:`, e);
-    // Don't block — CJ inventory API can be flaky
+    // Don't block — supplier inventory APIs can be flaky
   }
 
   // ── Guard 2: Re-check price ──────────────────────────────────────────
+  // The limit comes from the pipeline settings; if they can't be read the
+  // lot is left PAID for the next fulfillment run rather than checked
+  // against a default an operator may have tightened
+  let maxIncrease: number;
   try {
-    const product = await cj.getProduct({ pid: lot.cj_pid });
-    const variant = product.variants?.find((v) => v.vid === lot.cj_vid);
+    maxIncrease = (await getPipelineSettings()).max_price_increase_percent;
+  } catch (e) {
+    console.error(`[fulfillment] Pipeline settings unavailable — leaving lot ${lot.id} PAID:`, e);
+    return {
+      success: false,
+      reason: "Pipeline settings unavailable — will retry",
+      status: lot.status,
+    };
+  }
+
+  try {
+    const product = await supplier.getProduct(lot.cj_pid);
+    const variant = product.variants.find((v) => v.variantId === lot.cj_vid);
     if (variant) {
-      const currentCostCents = Math.round(variant.variantSellPrice * 100);
+      const currentCostCents = variant.costCents;
 
-      // If CJ price increased by more than 20%, abort
-      if (currentCostCents > lot.cj_cost_cents * 1.2) {
+      // If the supplier price increased by more than the limit, abort
+      if (currentCostCents > lot.cj_cost_cents * (1 + maxIncrease / 100)) {
         await updateDropshipLot(lot.id, {
           status: "CJ_PRICE_CHANGED",
-          error_message: `CJ price increased from ${lot.cj_cost_cents} to ${currentCostCents} cents`,
-        });
+          error_message: `${supplier.name} price increased from ${lot.cj_cost_cents} to ${currentCostCents} cents`,
+        }, { actor });
 
         await sendAlert(
-          `Lot ${lot.id}: CJ price increased from $${(lot.cj_cost_cents / 100).toFixed(2)} to $${(currentCostCents / 100).toFixed(2)} (>20% threshold) — needs refund`
+          `Lot ${lot.id}: ${supplier.name} price increased from $${(lot.cj_cost_cents / 100).toFixed(2)} to $${(currentCostCents / 100).toFixed(2)} (>${maxIncrease}% threshold) — needs refund`
         );
 
         return {
           success: false,
-          reason: `CJ price increased from $${(lot.cj_cost_cents / 100).toFixed(2)} to $${(currentCostCents / 100).toFixed(2)}`,
+          reason: `${supplier.name} price increased from $${(lot.cj_cost_cents / 100).toFixed(2)} to $${(currentCostCents / 100).toFixed(2)}`,
           status: "CJ_PRICE_CHANGED",
         };
       }
@@ -129,97 +152,111 @@ export async function fulfillDropshipLot(params: {
     // Don't block — proceed with original cost
   }
 
-  // ── Create CJ order ──────────────────────────────────────────────────
+  // ── Create supplier order ────────────────────────────────────────────
   const orderNumber = `PLACER-${lot.basta_item_id}-${Date.now()}`;
 
+  // Use the freight line quoted for the buyer's country when there is one
+  const destination = await getLotShippingEligibility(
+    lot,
+    normalizeCountryCode(shippingAddress.country)
+  );
+  const shippingMethod =
+    destination.quote?.shipping_method || lot.cj_logistic_name || "CJPacket";
+  // What the order actually costs to ship, and the surcharge the buyer paid for it
+  const destinationQuote = destination.quote?.eligible ? destination.quote : null;
+  const shippingCents = destinationQuote?.shipping_cents ?? lot.cj_shipping_cents;
+  const surchargeCents = destinationQuote?.surcharge_cents ?? 0;
+  const totalCost = lot.cj_cost_cents + shippingCents;
+
   try {
-    const orderResult = await cj.createOrder({
+    const orderResult = await supplier.createOrder({
       orderNumber,
-      shippingCountryCode: shippingAddress.country,
-      shippingCustomerName: shippingAddress.name,
-      shippingAddress: [shippingAddress.line1, shippingAddress.line2]
-        .filter(Boolean)
-        .join(", "),
-      shippingCity: shippingAddress.city,
-      shippingProvince: shippingAddress.state,
-      shippingZip: shippingAddress.postal_code,
-      shippingPhone: shippingAddress.phone,
-      logisticName: lot.cj_logistic_name || "CJPacket",
-      fromCountryCode: lot.cj_from_country || "CN",
-      products: [{ vid: lot.cj_vid, quantity: 1 }],
+      variantId: lot.cj_vid,
+      quantity: 1,
+      shippingMethod,
+      fromCountry: lot.cj_from_country || "CN",
+      shippingAddress,
     });
 
-    // Validate that CJ returned a usable order ID
+    // Validate that the supplier returned a usable order ID
     if (!orderResult.orderId || typeof orderResult.orderId !== "string" || orderResult.orderId.trim() === "") {
       console.error(
-        `[fulfillment] CJ createOrder returned no orderId for lot ${lot.id}:`,
+        `[fulfillment] ${supplier.name} createOrder returned no orderId for lot ${lot.id}:`,
         JSON.stringify(orderResult)
       );
       await updateDropshipLot(lot.id, {
-        error_message: `CJ order creation returned no order ID. Response: ${JSON.stringify(orderResult)}`,
+        error_message: `${supplier.name} order creation returned no order ID. Response: ${JSON.stringify(orderResult)}`,
       });
       return {
         success: false,
-        reason: "CJ order creation returned no order ID",
+        reason: `${supplier.name} order creation returned no order ID`,
         status: lot.status,
       };
     }
 
-    await updateDropshipLot(lot.id, {
-      cj_order_id: orderResult.orderId,
-      cj_order_number: orderNumber,
-      cj_order_status: orderResult.orderStatus,
-      shipping_name: shippingAddress.name,
-      shipping_address: JSON.stringify(shippingAddress),
-      total_cost_cents: lot.cj_cost_cents + lot.cj_shipping_cents,
-      status: "CJ_ORDERED",
-    });
+    // Compare-and-set: if the lot was cancelled/refunded or fulfilled by a
+    // concurrent run while we were talking to the supplier, do not pay for this order.
+    try {
+      await transitionDropshipLot(lot.id, {
+        from: "PAID",
+        expectedUpdatedAt: lot.updated_at,
+        to: "CJ_ORDERED",
+        updates: {
+          cj_order_id: orderResult.orderId,
+          cj_order_number: orderNumber,
+          cj_order_status: orderResult.status,
+          shipping_name: shippingAddress.name,
+          shipping_address: JSON.stringify(shippingAddress),
+          total_cost_cents: totalCost,
+        },
+      }, { actor, payload: { cjOrderId: orderResult.orderId } });
+    } catch (e) {
+      if (!(e instanceof InvalidTransitionError || e instanceof LotConflictError)) throw e;
+      await sendAlert(
+        `Lot ${lot.id} ("${lot.cj_product_name}"): ${supplier.name} order ${orderResult.orderId} was created but the lot changed meanwhile (${e.message}). ` +
+          `The order was NOT paid — cancel it in the ${supplier.name} dashboard.`,
+        "critical"
+      );
+      return {
+        success: false,
+        reason: `Lot changed during fulfillment: ${e.message}`,
+        status: e instanceof LotConflictError ? e.actualStatus : lot.status,
+      };
+    }
 
     console.log(
-      `[fulfillment] CJ order created: ${orderResult.orderId} for lot ${lot.id}`
+      `[fulfillment] ${supplier.name} order created: ${orderResult.orderId} for lot ${lot.id}`
     );
 
     // ── Pay for the order ──────────────────────────────────────────────
     try {
-      await cj.payOrder(orderResult.orderId);
+      await supplier.payOrder(orderResult.orderId);
       await updateDropshipLot(lot.id, {
         cj_paid_at: new Date().toISOString(),
         cj_order_status: "UNSHIPPED",
         status: "CJ_PAID",
-      });
-      console.log(`[fulfillment] CJ order paid: ${orderResult.orderId}`);
+      }, { actor });
+      console.log(`[fulfillment] ${supplier.name} order paid: ${orderResult.orderId}`);
     } catch (payErr) {
       const payReason = payErr instanceof Error ? payErr.message : String(payErr);
       console.error(
-        `[fulfillment] CJ payment failed for order ${orderResult.orderId}:`,
+        `[fulfillment] ${supplier.name} payment failed for order ${orderResult.orderId}:`,
         payErr
       );
       await updateDropshipLot(lot.id, {
-        error_message: `CJ payment failed: ${payReason}`,
+        error_message: `${supplier.name} payment failed: ${payReason}`,
         // Keep status as CJ_ORDERED so retry logic can pick it up
       });
       return {
         success: false,
-        reason: `CJ payment failed: ${payReason}`,
+        reason: `${supplier.name} payment failed: ${payReason}`,
         status: "CJ_ORDERED",
       };
     }
 
-    // ── Confirm the order (non-blocking) ─────────────────────────────
-    try {
-      await cj.confirmOrder(orderResult.orderId);
-      console.log(`[fulfillment] CJ order confirmed: ${orderResult.orderId}`);
-    } catch (confirmErr) {
-      console.warn(
-        `[fulfillment] CJ confirm failed (non-blocking): ${confirmErr}`
-      );
-      // Confirm failure is non-fatal — order is created and paid
-    }
-
     // Calculate profit (only if winning bid is known)
-    const totalCost = lot.cj_cost_cents + lot.cj_shipping_cents;
     if (lot.winning_bid_cents != null && lot.winning_bid_cents > 0) {
-      const profit = lot.winning_bid_cents - totalCost;
+      const profit = lot.winning_bid_cents + surchargeCents - totalCost;
       await updateDropshipLot(lot.id, { profit_cents: profit });
     }
 
@@ -230,14 +267,19 @@ export async function fulfillDropshipLot(params: {
     };
   } catch (e) {
     const reason = e instanceof Error ? e.message : String(e);
-    console.error(`[fulfillment] CJ order creation failed for lot ${lot.id}:`, e);
+    console.error(`[fulfillment] ${supplier.name} order creation failed for lot ${lot.id}:`, e);
 
     await updateDropshipLot(lot.id, {
-      error_message: `CJ order failed: ${reason}`,
+      error_message: `${supplier.name} order failed: ${reason}`,
     });
 
+    // Supplier refused the call unsent: the next run retries
+    if (e instanceof SupplierUnavailableError) {
+      return { success: false, reason, status: lot.status };
+    }
+
     await sendAlert(
-      `Lot ${lot.id} ("${lot.cj_product_name}"): CJ order creation failed — ${reason}`,
+      `Lot ${lot.id} ("${lot.cj_product_name}"): ${supplier.name} order creation failed — ${reason}`,
       "critical"
     );
 
@@ -249,15 +291,33 @@ export async function fulfillDropshipLot(params: {
 // Batch: process all PAID dropship lots
 // ---------------------------------------------------------------------------
 
-export async function fulfillAllPaidLots(): Promise<void> {
+export async function fulfillAllPaidLots(
+  actor: LotEventActor = "system"
+): Promise<void> {
   const { getDropshipLotsByStatus } = await import("@/lib/dropship");
 
   const paidLots = await getDropshipLotsByStatus("PAID");
   console.log(`[fulfillment] Found ${paidLots.length} lots to fulfill`);
 
+  const pausedSuppliers = new Set<string>();
+
   for (const lot of paidLots) {
     if (!lot.basta_item_id) continue;
 
+    // Supplier API failing — leave its lots PAID for the next run
+    if (pausedSuppliers.has(lot.supplier)) continue;
+    const supplier = getSupplier(lot.supplier);
+    if (!supplier.isAvailable()) {
+      pausedSuppliers.add(lot.supplier);
+      console.warn(
+        `[fulfillment] ${supplier.name} unavailable — leaving its remaining lots PAID for the next run`
+      );
+      await sendAlert(
+        `${supplier.name} API is failing repeatedly; fulfillment of its lots paused until the next run`
+      );
+      continue;
+    }
+
     // We need a shipping address — check if it's stored
     if (!lot.shipping_address) {
       console.warn(
@@ -273,11 +333,12 @@ export async function fulfillAllPaidLots(): Promise<void> {
     const result = await fulfillDropshipLot({
       bastaItemId: lot.basta_item_id,
       shippingAddress: address,
+      actor,
     });
 
     if (result.success) {
       console.log(
-        `[fulfillment] Lot ${lot.id} → CJ order ${result.cjOrderId}`
+        `[fulfillment] Lot ${lot.id} → ${supplier.name} order ${result.cjOrderId}`
       );
     } else {
       console.error(
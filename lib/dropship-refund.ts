@@ -21,8 +21,10 @@ import { getManagementApiClient, getAccountId } from "@/lib/basta-client";
 import {
   getDropshipLotsByStatus,
   updateDropshipLot,
+  validateTransition,
   type DropshipLot,
   type DropshipLotStatus,
+  type LotEventActor,
 } from "@/lib/dropship";
 import { updatePaymentOrder, getPaymentOrderByInvoiceId } from "@/lib/db";
 import { sendAlert } from "@/lib/alerts";
@@ -158,7 +160,7 @@ async function refundStripeInvoice(
  * Non-throwing — logs a warning on failure so the rest of the refund flow
  * can continue.
  */
-async function cancelBastaPaymentOrder(orderId: string): Promise<boolean> {
+export async function cancelBastaPaymentOrder(orderId: string): Promise<boolean> {
   try {
     const client = getManagementApiClient();
     const accountId = getAccountId();
@@ -207,16 +209,33 @@ async function cancelBastaPaymentOrder(orderId: string): Promise<boolean> {
  * 4. Update the dropship lot status to CANCELLED
  * 5. Update the local payment_orders record
  * 6. Send refund notification email to the buyer
+ *
+ * When `operatorReason` is given the refund was requested by an operator:
+ * any lot that can still move to CANCELLED is accepted, and the reason is
+ * recorded on the lot instead of the original error.
  */
-export async function refundDropshipLot(lot: DropshipLot): Promise<RefundResult> {
+export async function refundDropshipLot(
+  lot: DropshipLot,
+  options?: { operatorReason?: string; actor?: LotEventActor }
+): Promise<RefundResult> {
   const lotId = lot.id;
+  const operatorReason = options?.operatorReason?.trim() || null;
+  const actor = options?.actor ?? "system";
 
   console.log(
     `[refund] Processing refund for lot ${lotId} (status: ${lot.status})`
   );
 
   // ── Step 1: Validate refundable state ──────────────────────────────────
-  if (
+  if (operatorReason) {
+    if (!validateTransition(lot.status as DropshipLotStatus, "CANCELLED")) {
+      return {
+        success: false,
+        reason: `Lot ${lotId} is in status "${lot.status}" and cannot be cancelled`,
+        lotId,
+      };
+    }
+  } else if (
     !REFUNDABLE_STATUSES.includes(lot.status as DropshipLotStatus) &&
     lot.status !== "PAID" // PAID with error_message indicates CJ order creation failure
   ) {
@@ -228,7 +247,7 @@ export async function refundDropshipLot(lot: DropshipLot): Promise<RefundResult>
   }
 
   // For PAID lots, only refund if there's an error message (CJ order failure)
-  if (lot.status === "PAID" && !lot.error_message) {
+  if (!operatorReason && lot.status === "PAID" && !lot.error_message) {
     return {
       success: false,
       reason: `Lot ${lotId} is PAID with no error — not a failed fulfillment`,
@@ -283,9 +302,21 @@ export async function refundDropshipLot(lot: DropshipLot): Promise<RefundResult>
       ? `Invoice voided (${lot.stripe_invoice_id})`
       : "Cancelled (no invoice)";
 
+  const priorNote = operatorReason
+    ? `Operator refund: ${operatorReason}`
+    : lot.error_message ?? lot.status;
+
   await updateDropshipLot(lotId, {
     status: "CANCELLED",
-    error_message: `${lot.error_message ?? lot.status} → ${refundNote}`,
+    error_message: `${priorNote} → ${refundNote}`,
+  }, {
+    actor,
+    reason: operatorReason ?? refundReasonForBuyer(lot),
+    payload: {
+      stripeInvoiceId: lot.stripe_invoice_id,
+      stripeRefundId,
+      bastaOrderId: lot.basta_order_id,
+    },
   });
 
   // ── Step 5: Update local payment_orders record ─────────────────────────
@@ -354,7 +385,9 @@ export async function refundDropshipLot(lot: DropshipLot): Promise<RefundResult>
  * Collects lots with status CJ_OUT_OF_STOCK and CJ_PRICE_CHANGED, then
  * processes refunds sequentially. One lot's failure does not block others.
  */
-export async function refundAllFailedLots(): Promise<BatchRefundSummary> {
+export async function refundAllFailedLots(
+  actor: LotEventActor = "system"
+): Promise<BatchRefundSummary> {
   const failedLots: DropshipLot[] = [];
 
   for (const status of REFUNDABLE_STATUSES) {
@@ -372,7 +405,7 @@ export async function refundAllFailedLots(): Promise<BatchRefundSummary> {
 
   for (const lot of failedLots) {
     try {
-      const result = await refundDropshipLot(lot);
+      const result = await refundDropshipLot(lot, { actor });
       results.push(result);
 
       if (result.success) {
@@ -1,5 +1,11 @@
 /**
- * Dropship Lots — DB operations for CJ ↔ Basta ↔ Fulfillment mapping
+ * Dropship Lots — DB operations for Supplier ↔ Basta ↔ Fulfillment mapping
+ *
+ * `supplier` records which source a lot came from (see lib/supplier.ts). The
+ * `cj_*` columns predate that and hold the lot supplier's IDs and costs.
+ *
+ * Every status change is also appended to `dropship_lot_events` together
+ * with who made it and why (see getDropshipLotEvents()).
  */
 
 import { db, generateId } from "@/lib/turso";
@@ -10,6 +16,7 @@ import { db, generateId } from "@/lib/turso";
 
 export type DropshipLot = {
   id: string;
+  supplier: string;
   cj_pid: string;
   cj_vid: string;
   cj_product_name: string;
@@ -17,12 +24,18 @@ export type DropshipLot = {
   cj_cost_cents: number;
   cj_shipping_cents: number;
   cj_logistic_name: string | null;
+  /** Delivery estimate of the logistic line in days, e.g. "7-15". */
+  cj_delivery_days: string | null;
   cj_from_country: string;
   cj_images: string | null;
+  /** Search keyword the lot was auto-sourced for, if any. */
+  source_keyword: string | null;
   basta_sale_id: string | null;
   basta_item_id: string | null;
   starting_bid_cents: number;
   reserve_cents: number;
+  /** Times the lot was put back up after missing its reserve. */
+  relist_count: number;
   winner_user_id: string | null;
   winning_bid_cents: number | null;
   basta_order_id: string | null;
@@ -59,6 +72,41 @@ export type DropshipLotStatus =
   | "CJ_PRICE_CHANGED"
   | "CANCELLED";
 
+/**
+ * Who changed a lot. Pipeline code that runs from several entry points
+ * takes the actor from its caller; "system" is the fallback when none is
+ * supplied.
+ */
+export type LotEventActor =
+  | "system"
+  | "cron"
+  | "cli"
+  | "webhook:basta"
+  | "webhook:stripe"
+  | "webhook:cj"
+  | `operator:${string}`;
+
+export type LotEventContext = {
+  actor: LotEventActor;
+  reason?: string;
+  /** Extra evidence to keep with the event (webhook ids, CJ responses, ...). */
+  payload?: Record<string, unknown>;
+};
+
+export type DropshipLotEvent = {
+  id: string;
+  lot_id: string;
+  from_status: string | null;
+  to_status: string;
+  actor: string;
+  reason: string | null;
+  /** JSON: { changes, lot, data } — the update, the resulting lot snapshot and context.payload. */
+  payload: string | null;
+  created_at: string;
+};
+
+const DEFAULT_EVENT_CONTEXT: LotEventContext = { actor: "system" };
+
 // ---------------------------------------------------------------------------
 // State Machine — valid status transitions
 // ---------------------------------------------------------------------------
@@ -73,7 +121,7 @@ const VALID_TRANSITIONS: Record<DropshipLotStatus, DropshipLotStatus[]> = {
   CJ_PAID: ["SHIPPED", "CANCELLED"],
   SHIPPED: ["DELIVERED", "CANCELLED"],
   DELIVERED: [],
-  RESERVE_NOT_MET: [],
+  RESERVE_NOT_MET: ["SOURCED", "CANCELLED"],
   PAYMENT_FAILED: ["PAID", "CANCELLED"],
   CJ_OUT_OF_STOCK: ["CANCELLED"],
   CJ_PRICE_CHANGED: ["CANCELLED"],
@@ -89,34 +137,51 @@ export function validateTransition(
   return allowed.includes(to);
 }
 
+/** Statuses a lot in `from` may move to (empty for terminal or unknown statuses). */
+export function getAllowedTransitions(from: string): DropshipLotStatus[] {
+  return [...(VALID_TRANSITIONS[from as DropshipLotStatus] ?? [])];
+}
+
+export function isDropshipLotStatus(value: string): value is DropshipLotStatus {
+  return Object.prototype.hasOwnProperty.call(VALID_TRANSITIONS, value);
+}
+
 // ---------------------------------------------------------------------------
 // Insert
 // ---------------------------------------------------------------------------
 
-export async function insertDropshipLot(lot: {
-  cj_pid: string;
-  cj_vid: string;
-  cj_product_name: string;
-  cj_variant_name?: string;
-  cj_cost_cents: number;
-  cj_shipping_cents: number;
-  cj_logistic_name?: string;
-  cj_from_country?: string;
-  cj_images?: string[];
-  starting_bid_cents: number;
-  reserve_cents: number;
-}): Promise<string> {
+export async function insertDropshipLot(
+  lot: {
+    /** Supplier the lot is sourced from; defaults to CJ. */
+    supplier?: string;
+    cj_pid: string;
+    cj_vid: string;
+    cj_product_name: string;
+    cj_variant_name?: string;
+    cj_cost_cents: number;
+    cj_shipping_cents: number;
+    cj_logistic_name?: string;
+    cj_delivery_days?: string | null;
+    cj_from_country?: string;
+    cj_images?: string[];
+    source_keyword?: string | null;
+    starting_bid_cents: number;
+    reserve_cents: number;
+  },
+  context: LotEventContext = DEFAULT_EVENT_CONTEXT
+): Promise<string> {
   const id = generateId();
   const now = new Date().toISOString();
 
-  await db.execute({
+  const insertStatement = {
     sql: `INSERT INTO dropship_lots (
-      id, cj_pid, cj_vid, cj_product_name, cj_variant_name,
-      cj_cost_cents, cj_shipping_cents, cj_logistic_name, cj_from_country, cj_images,
-      starting_bid_cents, reserve_cents, status, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'SOURCED', ?, ?)`,
+      id, supplier, cj_pid, cj_vid, cj_product_name, cj_variant_name,
+      cj_cost_cents, cj_shipping_cents, cj_logistic_name, cj_delivery_days, cj_from_country,
+      cj_images, source_keyword, starting_bid_cents, reserve_cents, status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'SOURCED', ?, ?)`,
     args: [
       id,
+      lot.supplier ?? "cj",
       lot.cj_pid,
       lot.cj_vid,
       lot.cj_product_name,
@@ -124,14 +189,29 @@ export async function insertDropshipLot(lot: {
       lot.cj_cost_cents,
       lot.cj_shipping_cents,
       lot.cj_logistic_name ?? null,
+      lot.cj_delivery_days ?? null,
       lot.cj_from_country ?? "CN",
       lot.cj_images ? JSON.stringify(lot.cj_images) : null,
+      lot.source_keyword ?? null,
       lot.starting_bid_cents,
       lot.reserve_cents,
       now,
       now,
     ],
-  });
+  };
+
+  await db.batch([
+    insertStatement,
+    lotEventStatement({
+      lotId: id,
+      fromStatus: null,
+      toStatus: "SOURCED",
+      context,
+      changes: lot,
+      snapshot: null,
+      now,
+    }),
+  ], "write");
 
   return id;
 }
@@ -140,42 +220,71 @@ export async function insertDropshipLot(lot: {
 // Update helpers
 // ---------------------------------------------------------------------------
 
-export async function updateDropshipLot(
-  id: string,
-  updates: Partial<
-    Pick<
-      DropshipLot,
-      | "basta_sale_id"
-      | "basta_item_id"
-      | "winner_user_id"
-      | "winning_bid_cents"
-      | "basta_order_id"
-      | "stripe_invoice_id"
-      | "cj_order_id"
-      | "cj_order_number"
-      | "cj_order_status"
-      | "cj_paid_at"
-      | "shipping_name"
-      | "shipping_address"
-      | "tracking_number"
-      | "tracking_carrier"
-      | "total_cost_cents"
-      | "profit_cents"
-      | "status"
-      | "error_message"
-    >
+/** Non-status columns callers may write. */
+export type DropshipLotFieldUpdates = Partial<
+  Pick<
+    DropshipLot,
+    | "cj_cost_cents"
+    | "cj_shipping_cents"
+    | "cj_logistic_name"
+    | "cj_delivery_days"
+    | "cj_from_country"
+    | "basta_sale_id"
+    | "basta_item_id"
+    | "starting_bid_cents"
+    | "reserve_cents"
+    | "relist_count"
+    | "winner_user_id"
+    | "winning_bid_cents"
+    | "basta_order_id"
+    | "stripe_invoice_id"
+    | "cj_order_id"
+    | "cj_order_number"
+    | "cj_order_status"
+    | "cj_paid_at"
+    | "shipping_name"
+    | "shipping_address"
+    | "tracking_number"
+    | "tracking_carrier"
+    | "total_cost_cents"
+    | "profit_cents"
+    | "error_message"
   >
-): Promise<void> {
-  // Validate status transition if status is being changed
-  if (updates.status) {
-    const currentLot = await getDropshipLotById(id);
-    if (currentLot && !validateTransition(currentLot.status as DropshipLotStatus, updates.status as DropshipLotStatus)) {
-      throw new Error(`Invalid status transition: ${currentLot.status} → ${updates.status}`);
-    }
+>;
+
+/** The requested move is not in VALID_TRANSITIONS. */
+export class InvalidTransitionError extends Error {
+  constructor(
+    readonly lotId: string,
+    readonly from: string,
+    readonly to: string
+  ) {
+    super(`Invalid status transition for lot ${lotId}: ${from} → ${to}`);
+    this.name = "InvalidTransitionError";
   }
+}
 
+/**
+ * The lot is not in the state the caller read — another writer (cron,
+ * webhook, operator) got there first. Re-read the lot before retrying.
+ */
+export class LotConflictError extends Error {
+  constructor(
+    readonly lotId: string,
+    readonly actualStatus: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "LotConflictError";
+  }
+}
+
+function buildSetClause(
+  updates: Record<string, unknown>,
+  now: string
+): { sql: string; args: (string | number | null)[] } {
   const setClauses: string[] = ["updated_at = ?"];
-  const args: (string | number | null)[] = [new Date().toISOString()];
+  const args: (string | number | null)[] = [now];
 
   for (const [key, value] of Object.entries(updates)) {
     if (value !== undefined) {
@@ -184,14 +293,204 @@ export async function updateDropshipLot(
     }
   }
 
-  args.push(id);
+  return { sql: setClauses.join(", "), args };
+}
+
+/**
+ * Move a lot from one status to another inside a write transaction.
+ *
+ * - `from` is the status (or statuses) the caller expects the lot to be in;
+ *   anything else throws LotConflictError.
+ * - `expectedUpdatedAt`, when given, must match the lot's `updated_at`
+ *   (the caller's read is still current); otherwise LotConflictError.
+ * - The move itself must be allowed by validateTransition(), otherwise
+ *   InvalidTransitionError.
+ *
+ * The UPDATE is a compare-and-set on (status, updated_at) and is committed
+ * together with its dropship_lot_events row. Returns the updated lot.
+ */
+export async function transitionDropshipLot(
+  id: string,
+  transition: {
+    from: DropshipLotStatus | readonly DropshipLotStatus[];
+    to: DropshipLotStatus;
+    expectedUpdatedAt?: string;
+    updates?: DropshipLotFieldUpdates;
+  },
+  context: LotEventContext = DEFAULT_EVENT_CONTEXT
+): Promise<DropshipLot> {
+  const { to, expectedUpdatedAt, updates = {} } = transition;
+  const expected: readonly string[] =
+    typeof transition.from === "string" ? [transition.from] : transition.from;
+
+  const tx = await db.transaction("write");
+  try {
+    const current = await tx.execute({
+      sql: "SELECT * FROM dropship_lots WHERE id = ?",
+      args: [id],
+    });
+    if (current.rows.length === 0) {
+      throw new Error(`Dropship lot ${id} not found`);
+    }
+    const lot = rowToLot(current.rows[0] as unknown as Record<string, unknown>);
+
+    if (!expected.includes(lot.status)) {
+      throw new LotConflictError(
+        id,
+        lot.status,
+        `Lot ${id} is ${lot.status}, expected ${expected.join(" or ")} (wanted → ${to})`
+      );
+    }
+    if (expectedUpdatedAt && lot.updated_at !== expectedUpdatedAt) {
+      throw new LotConflictError(
+        id,
+        lot.status,
+        `Lot ${id} was modified at ${lot.updated_at} after it was read (${expectedUpdatedAt})`
+      );
+    }
+    if (!validateTransition(lot.status as DropshipLotStatus, to)) {
+      throw new InvalidTransitionError(id, lot.status, to);
+    }
+
+    const now = new Date().toISOString();
+    const set = buildSetClause({ ...updates, status: to }, now);
+    const result = await tx.execute({
+      sql: `UPDATE dropship_lots SET ${set.sql} WHERE id = ? AND status = ? AND updated_at = ?`,
+      args: [...set.args, id, lot.status, lot.updated_at],
+    });
+    if (result.rowsAffected !== 1) {
+      throw new LotConflictError(id, lot.status, `Lot ${id} changed while transitioning → ${to}`);
+    }
+
+    const next: DropshipLot = { ...lot, ...updates, status: to, updated_at: now };
+    await tx.execute(
+      lotEventStatement({
+        lotId: id,
+        fromStatus: lot.status,
+        toStatus: to,
+        context,
+        changes: { ...updates, status: to },
+        snapshot: next,
+        now,
+      })
+    );
+
+    await tx.commit();
+    return next;
+  } catch (error) {
+    try {
+      await tx.rollback();
+    } catch {
+      // Ignore rollback errors and surface the original failure.
+    }
+    throw error;
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Update a lot's columns. A `status` in `updates` is applied through
+ * transitionDropshipLot() from whatever status the lot is in right now, so
+ * illegal moves throw InvalidTransitionError. Callers that decided on the
+ * move from an earlier read should call transitionDropshipLot() with `from`
+ * / `expectedUpdatedAt` instead.
+ */
+export async function updateDropshipLot(
+  id: string,
+  updates: DropshipLotFieldUpdates & { status?: DropshipLotStatus },
+  context: LotEventContext = DEFAULT_EVENT_CONTEXT
+): Promise<void> {
+  const { status, ...fields } = updates;
+
+  if (status) {
+    const currentLot = await getDropshipLotById(id);
+    if (!currentLot) {
+      throw new Error(`Dropship lot ${id} not found`);
+    }
+    await transitionDropshipLot(
+      id,
+      {
+        from: currentLot.status as DropshipLotStatus,
+        to: status,
+        expectedUpdatedAt: currentLot.updated_at,
+        updates: fields,
+      },
+      context
+    );
+    return;
+  }
 
+  const set = buildSetClause(fields, new Date().toISOString());
   await db.execute({
-    sql: `UPDATE dropship_lots SET ${setClauses.join(", ")} WHERE id = ?`,
-    args,
+    sql: `UPDATE dropship_lots SET ${set.sql} WHERE id = ?`,
+    args: [...set.args, id],
   });
 }
 
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+function lotEventStatement(params: {
+  lotId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  context: LotEventContext;
+  changes: object;
+  snapshot: DropshipLot | null;
+  now: string;
+}) {
+  const { lotId, fromStatus, toStatus, context, changes, snapshot, now } = params;
+  const reason =
+    context.reason ??
+    ("error_message" in changes ? (changes.error_message as string | null) : null) ??
+    null;
+
+  return {
+    sql: `INSERT INTO dropship_lot_events (
+      id, lot_id, from_status, to_status, actor, reason, payload, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      generateId(),
+      lotId,
+      fromStatus,
+      toStatus,
+      context.actor,
+      reason,
+      JSON.stringify({ changes, lot: snapshot, data: context.payload ?? null }),
+      now,
+    ],
+  };
+}
+
+function rowToEvent(row: Record<string, unknown>): DropshipLotEvent {
+  return {
+    id: row.id as string,
+    lot_id: row.lot_id as string,
+    from_status: row.from_status as string | null,
+    to_status: row.to_status as string,
+    actor: row.actor as string,
+    reason: row.reason as string | null,
+    payload: row.payload as string | null,
+    created_at: row.created_at as string,
+  };
+}
+
+/** A lot's status history, oldest first. */
+export async function getDropshipLotEvents(
+  lotId: string
+): Promise<DropshipLotEvent[]> {
+  const result = await db.execute({
+    sql: "SELECT * FROM dropship_lot_events WHERE lot_id = ? ORDER BY created_at ASC, rowid ASC",
+    args: [lotId],
+  });
+
+  return result.rows.map((row) =>
+    rowToEvent(row as unknown as Record<string, unknown>)
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Queries
 // ---------------------------------------------------------------------------
@@ -199,6 +498,7 @@ export async function updateDropshipLot(
 function rowToLot(row: Record<string, unknown>): DropshipLot {
   return {
     id: row.id as string,
+    supplier: (row.supplier as string | null) ?? "cj",
     cj_pid: row.cj_pid as string,
     cj_vid: row.cj_vid as string,
     cj_product_name: row.cj_product_name as string,
@@ -206,12 +506,15 @@ function rowToLot(row: Record<string, unknown>): DropshipLot {
     cj_cost_cents: row.cj_cost_cents as number,
     cj_shipping_cents: row.cj_shipping_cents as number,
     cj_logistic_name: row.cj_logistic_name as string | null,
+    cj_delivery_days: (row.cj_delivery_days as string | null) ?? null,
     cj_from_country: (row.cj_from_country as string) ?? "CN",
     cj_images: row.cj_images as string | null,
+    source_keyword: (row.source_keyword as string | null) ?? null,
     basta_sale_id: row.basta_sale_id as string | null,
     basta_item_id: row.basta_item_id as string | null,
     starting_bid_cents: row.starting_bid_cents as number,
     reserve_cents: row.reserve_cents as number,
+    relist_count: Number(row.relist_count ?? 0),
     winner_user_id: row.winner_user_id as string | null,
     winning_bid_cents: row.winning_bid_cents as number | null,
     basta_order_id: row.basta_order_id as string | null,
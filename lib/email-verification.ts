@@ -0,0 +1,104 @@
+import { createHash, randomBytes } from "crypto";
+import { db, generateId } from "@/lib/turso";
+import { sendEmail } from "@/lib/email";
+import type { User } from "@/lib/user";
+
+/**
+ * Email verification tokens. Like password reset tokens, only the SHA-256 is
+ * stored and each token works once. A token is bound to the address it was
+ * sent to, so changing the account email strands any link still in flight.
+ */
+
+export const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issue a fresh verification token for the user's current address, retiring
+ * any earlier unused ones. Returns the raw token to put in the email link.
+ */
+export async function createEmailVerificationToken(userId: string, email: string): Promise<string> {
+    const token = randomBytes(32).toString("base64url");
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+
+    await db.batch(
+        [
+            {
+                sql: "UPDATE email_verification_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL",
+                args: [now.toISOString(), userId],
+            },
+            {
+                sql: `INSERT INTO email_verification_tokens (id, user_id, email, token_hash, expires_at, created_at)
+                      VALUES (?, ?, ?, ?, ?, ?)`,
+                args: [generateId(), userId, email, hashToken(token), expiresAt.toISOString(), now.toISOString()],
+            },
+        ],
+        "write"
+    );
+
+    return token;
+}
+
+/**
+ * Create a token and email the confirmation link. `origin` is only used when
+ * NEXTAUTH_URL isn't configured (the Host header is caller-controlled).
+ */
+export async function sendVerificationEmail(
+    user: Pick<User, "id" | "email">,
+    origin: string
+): Promise<void> {
+    const token = await createEmailVerificationToken(user.id, user.email);
+    const baseUrl = process.env.NEXTAUTH_URL?.trim() || origin;
+    const verifyUrl = new URL("/api/auth/verify-email", baseUrl);
+    verifyUrl.searchParams.set("token", token);
+
+    await sendEmail({
+        to: user.email,
+        template: "email_verification",
+        data: {
+            verifyUrl: verifyUrl.toString(),
+            expiresHours: EMAIL_VERIFICATION_TTL_HOURS,
+        },
+    });
+}
+
+/**
+ * Spend a verification token and mark the address verified. The token is
+ * claimed with a single conditional UPDATE; the user row is only touched if
+ * its email still matches the one the token was sent to.
+ *
+ * Returns the user id, or null if the token is unknown, used, expired, or
+ * was issued for an address the account no longer uses.
+ */
+export async function verifyEmailWithToken(token: string): Promise<string | null> {
+    const now = new Date().toISOString();
+    const claimed = await db.execute({
+        sql: `UPDATE email_verification_tokens SET used_at = ?
+              WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+              RETURNING user_id, email`,
+        args: [now, hashToken(token), now],
+    });
+
+    const row = claimed.rows[0];
+    if (!row) return null;
+
+    const updated = await db.execute({
+        sql: `UPDATE users SET email_verified_at = COALESCE(email_verified_at, ?), updated_at = ?
+              WHERE id = ? AND email = ?`,
+        args: [now, now, row.user_id as string, row.email as string],
+    });
+
+    return updated.rowsAffected > 0 ? (row.user_id as string) : null;
+}
+
+/** Whether the user has confirmed their current email address. */
+export async function isEmailVerified(userId: string): Promise<boolean> {
+    const result = await db.execute({
+        sql: "SELECT 1 FROM users WHERE id = ? AND email_verified_at IS NOT NULL",
+        args: [userId],
+    });
+    return result.rows.length > 0;
+}
@@ -7,6 +7,13 @@
  * - order_shipped: Tracking info
  * - order_delivered: Delivery confirmation
  * - order_refunded: Refund issued with reason and amount
+ * - payment_reminder: Card charge failed, pay before the deadline
+ * - second_chance_offer: Winner didn't pay, item offered to the underbidder
+ * - password_reset: Single-use link to choose a new password
+ * - email_verification: Confirm the address before registering for sales
+ * - outbid: Another bidder now leads a lot the user bid on
+ * - closing_soon: A watched lot closes within the hour
+ * - auction_started: A sale with watched lots is open for bidding
  *
  * Uses the Resend API (https://api.resend.com/emails).
  * Env vars:
@@ -25,7 +32,14 @@ export type EmailTemplate =
   | "payment_received"
   | "order_shipped"
   | "order_delivered"
-  | "order_refunded";
+  | "order_refunded"
+  | "payment_reminder"
+  | "second_chance_offer"
+  | "password_reset"
+  | "email_verification"
+  | "outbid"
+  | "closing_soon"
+  | "auction_started";
 
 type EmailData = Record<string, string | number | null>;
 
@@ -86,6 +100,79 @@ const TEMPLATES: Record<
        <p>We apologize for the inconvenience. If you have any questions, please reply to this email.</p>`
     ),
   }),
+
+  payment_reminder: (data) => ({
+    subject: `Action needed: payment for your auction win`,
+    html: buildHtml(
+      "We Couldn&rsquo;t Collect Payment",
+      `<p>We tried to charge your card on file for your winning bid, but the payment didn&rsquo;t go through.</p>
+       <p>Please update your payment method and <a href="${esc(data.invoiceUrl)}">pay your invoice</a> by <strong>${esc(data.deadline)}</strong>.</p>
+       <p>If the invoice is still unpaid after that, it will be cancelled and the item offered to the next-highest bidder.</p>`
+    ),
+  }),
+
+  second_chance_offer: (data) => ({
+    subject: `Second chance: ${data.productName ?? "an item you bid on"}`,
+    html: buildHtml(
+      "It&rsquo;s Still Available",
+      `<p>The winning bidder didn&rsquo;t complete payment for <strong>${esc(data.productName)}</strong>.</p>
+       <p>You can buy it for your last bid of <strong>${formatDollars(data.amount)}</strong> (plus any buyer&rsquo;s premium shown on the invoice).</p>
+       <p><a href="${esc(data.invoiceUrl)}">Pay the invoice</a> by <strong>${esc(data.deadline)}</strong> to claim it. If you&rsquo;d rather pass, simply ignore this email &mdash; you won&rsquo;t be charged.</p>`
+    ),
+  }),
+
+  password_reset: (data) => ({
+    subject: `Reset your password`,
+    html: buildHtml(
+      "Reset Your Password",
+      `<p>We received a request to reset the password for your account.</p>
+       <p><a href="${esc(data.resetUrl)}">Choose a new password</a></p>
+       <p>This link works once and expires in ${esc(data.expiresMinutes)} minutes. Resetting your password signs you out on every device.</p>
+       <p>If you didn&rsquo;t ask for this, you can ignore this email &mdash; your password won&rsquo;t change.</p>`
+    ),
+  }),
+
+  email_verification: (data) => ({
+    subject: `Confirm your email address`,
+    html: buildHtml(
+      "Confirm Your Email",
+      `<p>Please confirm this is your email address so you can register for sales and bid.</p>
+       <p><a href="${esc(data.verifyUrl)}">Confirm my email</a></p>
+       <p>This link expires in ${esc(data.expiresHours)} hours. If you didn&rsquo;t create an account, you can ignore this email.</p>`
+    ),
+  }),
+
+  outbid: (data) => ({
+    subject: `You've been outbid: ${data.productName ?? "a lot you bid on"}`,
+    html: buildHtml(
+      "You&rsquo;ve Been Outbid",
+      `<p>Another bidder has taken the lead on <strong>${esc(data.productName)}</strong>.</p>
+       <p>The current bid is now <strong>${formatDollars(data.currentBid)}</strong>.</p>
+       ${data.lotUrl ? `<p><a href="${esc(data.lotUrl)}">Place a higher bid</a></p>` : ""}
+       <p>You can turn off bid alerts in your account settings.</p>`
+    ),
+  }),
+
+  closing_soon: (data) => ({
+    subject: `Closing soon: ${data.productName ?? "a lot you're watching"}`,
+    html: buildHtml(
+      "Bidding Ends Soon",
+      `<p><strong>${esc(data.productName)}</strong>, on your watchlist, closes at <strong>${esc(data.closingTime)}</strong>.</p>
+       <p>Current bid: <strong>${formatDollars(data.currentBid)}</strong></p>
+       ${data.lotUrl ? `<p><a href="${esc(data.lotUrl)}">View the lot</a></p>` : ""}
+       <p>You can turn off bid alerts in your account settings.</p>`
+    ),
+  }),
+
+  auction_started: (data) => ({
+    subject: `Now open: ${data.auctionTitle ?? "an auction you're watching"}`,
+    html: buildHtml(
+      "Bidding Is Open",
+      `<p><strong>${esc(data.auctionTitle)}</strong> is now open for bidding, including ${esc(data.lotCount)} ${data.lotCount === 1 ? "lot" : "lots"} on your watchlist.</p>
+       ${data.auctionUrl ? `<p><a href="${esc(data.auctionUrl)}">Go to the auction</a></p>` : ""}
+       <p>You can turn off email notifications in your account settings.</p>`
+    ),
+  }),
 };
 
 // ---------------------------------------------------------------------------
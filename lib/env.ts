@@ -0,0 +1,22 @@
+/**
+ * Env — numeric settings read from environment variables.
+ *
+ * An unset variable uses its fallback. So does one that isn't a number or
+ * fails `isValid` (default: positive), with a warning naming the variable
+ * so a typo in the deployment config doesn't go unnoticed.
+ */
+
+export function readNumberEnv(
+  name: string,
+  fallback: number,
+  isValid: (value: number) => boolean = (value) => value > 0
+): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || !isValid(value)) {
+    console.warn(`[env] Ignoring invalid ${name}="${raw}", using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
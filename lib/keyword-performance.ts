@@ -0,0 +1,261 @@
+/**
+ * Keyword Performance — how the lots each sourcing keyword produced did at
+ * auction, and the explore/exploit rotation built on it.
+ *
+ * Outcomes are joined from `dropship_lots.source_keyword`:
+ *   - sell-through      sold listings / all listings (a relist counts as a
+ *                       new listing, each RESERVE_NOT_MET as a miss)
+ *   - hammer / reserve  average winning bid over the lot's reserve
+ *   - profit            sum of `profit_cents` (set once a lot is fulfilled)
+ *   - refund rate       lots cancelled after payment / lots sold
+ *
+ * chooseNextKeyword() first turns off keywords whose last
+ * KEYWORD_LOSS_WINDOW fulfilled lots lost money in total, then picks:
+ *   - explore (KEYWORD_EXPLORE_RATE of runs, or while no keyword has
+ *     KEYWORD_MIN_LISTINGS listings with a positive profit per listing):
+ *     the usual rotation — never sourced first, then least recently sourced
+ *   - exploit: the keyword with the highest profit per listing
+ *
+ * Env vars:
+ *   KEYWORD_EXPLORE_RATE  — optional; share of runs that explore, default 0.2
+ *   KEYWORD_MIN_LISTINGS  — optional; listings before a keyword is scored, default 3
+ *   KEYWORD_LOSS_WINDOW   — optional; fulfilled lots judged for auto-deactivation, default 5
+ */
+
+import { db } from "@/lib/turso";
+import {
+  deactivateKeyword,
+  listKeywords,
+  type SourcingKeyword,
+} from "@/lib/sourcing-keywords";
+import { sendAlert } from "@/lib/alerts";
+import { readNumberEnv } from "@/lib/env";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type KeywordPerformance = {
+  keyword_id: string;
+  keyword: string;
+  lots: number;
+  /** Times a lot of this keyword was put up for auction (sold + unsold). */
+  listings: number;
+  sold: number;
+  unsold: number;
+  /** sold / listings; null before the first listing closes. */
+  sell_through: number | null;
+  /** Average winning bid ÷ reserve over sold lots; null when none sold. */
+  avg_hammer_over_reserve: number | null;
+  profit_cents: number;
+  /** Lots with a recorded profit (fulfilled). */
+  profit_lots: number;
+  refunded: number;
+  /** refunded / sold; null when none sold. */
+  refund_rate: number | null;
+  /** profit_cents / listings; null before the first listing closes. */
+  profit_per_listing_cents: number | null;
+};
+
+export type KeywordSelection = {
+  keyword: SourcingKeyword;
+  mode: "explore" | "exploit";
+  performance: KeywordPerformance | null;
+};
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export function getKeywordExploreRate(): number {
+  return readNumberEnv("KEYWORD_EXPLORE_RATE", 0.2, (v) => v >= 0 && v <= 1);
+}
+
+export function getKeywordMinListings(): number {
+  return readNumberEnv("KEYWORD_MIN_LISTINGS", 3, (v) => Number.isInteger(v) && v >= 1);
+}
+
+export function getKeywordLossWindow(): number {
+  return readNumberEnv("KEYWORD_LOSS_WINDOW", 5, (v) => Number.isInteger(v) && v >= 1);
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+/** Outcome metrics for every keyword (active or not). */
+export async function getKeywordPerformance(): Promise<KeywordPerformance[]> {
+  const result = await db.execute(`
+    SELECT
+      k.id AS keyword_id,
+      k.keyword AS keyword,
+      COUNT(l.id) AS lots,
+      COALESCE(SUM(CASE WHEN l.winning_bid_cents IS NOT NULL THEN 1 ELSE 0 END), 0) AS sold,
+      COALESCE(SUM((
+        SELECT COUNT(*) FROM dropship_lot_events e
+        WHERE e.lot_id = l.id AND e.to_status = 'RESERVE_NOT_MET'
+      )), 0) AS unsold,
+      AVG(CASE
+        WHEN l.winning_bid_cents IS NOT NULL AND l.reserve_cents > 0
+        THEN l.winning_bid_cents * 1.0 / l.reserve_cents
+      END) AS avg_hammer_over_reserve,
+      COALESCE(SUM(l.profit_cents), 0) AS profit_cents,
+      COALESCE(SUM(CASE WHEN l.profit_cents IS NOT NULL THEN 1 ELSE 0 END), 0) AS profit_lots,
+      COALESCE(SUM(CASE
+        WHEN l.status = 'CANCELLED' AND EXISTS (
+          SELECT 1 FROM dropship_lot_events e
+          WHERE e.lot_id = l.id AND e.to_status = 'PAID'
+        ) THEN 1 ELSE 0
+      END), 0) AS refunded
+    FROM sourcing_keywords k
+    LEFT JOIN dropship_lots l ON l.source_keyword = k.keyword COLLATE NOCASE
+    GROUP BY k.id, k.keyword
+  `);
+
+  return result.rows.map((row) => {
+    const sold = Number(row.sold);
+    const unsold = Number(row.unsold);
+    const listings = sold + unsold;
+    const profitCents = Number(row.profit_cents);
+    const refunded = Number(row.refunded);
+    const hammerRatio = row.avg_hammer_over_reserve as number | null;
+
+    return {
+      keyword_id: row.keyword_id as string,
+      keyword: row.keyword as string,
+      lots: Number(row.lots),
+      listings,
+      sold,
+      unsold,
+      sell_through: listings > 0 ? sold / listings : null,
+      avg_hammer_over_reserve: hammerRatio == null ? null : Number(hammerRatio),
+      profit_cents: profitCents,
+      profit_lots: Number(row.profit_lots),
+      refunded,
+      refund_rate: sold > 0 ? refunded / sold : null,
+      profit_per_listing_cents: listings > 0 ? Math.round(profitCents / listings) : null,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Auto-deactivation
+// ---------------------------------------------------------------------------
+
+/**
+ * Profit of a keyword's most recent fulfilled lots, counting only lots
+ * sourced after it was last turned off (so re-enabling starts fresh).
+ */
+async function getRecentProfits(keyword: SourcingKeyword, window: number): Promise<number[]> {
+  const result = await db.execute({
+    sql: `SELECT profit_cents FROM dropship_lots
+          WHERE source_keyword = ? COLLATE NOCASE
+            AND profit_cents IS NOT NULL
+            AND created_at > ?
+          ORDER BY created_at DESC
+          LIMIT ?`,
+    args: [keyword.keyword, keyword.deactivated_at ?? "", window],
+  });
+  return result.rows.map((row) => Number(row.profit_cents));
+}
+
+/**
+ * Turn off active keywords whose last `KEYWORD_LOSS_WINDOW` fulfilled lots
+ * lost money in total. Returns the keywords deactivated.
+ */
+export async function deactivateLosingKeywords(
+  keywords?: SourcingKeyword[]
+): Promise<SourcingKeyword[]> {
+  const window = getKeywordLossWindow();
+  const active = (keywords ?? (await listKeywords())).filter((k) => k.active);
+  const deactivated: SourcingKeyword[] = [];
+
+  for (const keyword of active) {
+    const profits = await getRecentProfits(keyword, window);
+    if (profits.length < window) continue;
+
+    const total = profits.reduce((sum, p) => sum + p, 0);
+    if (total >= 0) continue;
+
+    const reason =
+      `Last ${window} fulfilled lots lost $${(Math.abs(total) / 100).toFixed(2)} ` +
+      `(${profits.filter((p) => p < 0).length} at a loss)`;
+    await deactivateKeyword(keyword.id, reason);
+    deactivated.push(keyword);
+    console.warn(`[keywords] Deactivated "${keyword.keyword}": ${reason}`);
+    await sendAlert(
+      `Sourcing keyword "${keyword.keyword}" turned off: ${reason}. ` +
+        `Re-enable with \`pnpm pipeline:keywords enable --id ${keyword.id}\` if that's expected.`,
+      "warning"
+    );
+  }
+
+  return deactivated;
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/** Rotation order: never sourced first, then least recently sourced, then priority. */
+function compareRotation(a: SourcingKeyword, b: SourcingKeyword): number {
+  if (!a.last_sourced_at !== !b.last_sourced_at) return a.last_sourced_at ? 1 : -1;
+  if (a.last_sourced_at && b.last_sourced_at && a.last_sourced_at !== b.last_sourced_at) {
+    return a.last_sourced_at < b.last_sourced_at ? -1 : 1;
+  }
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0;
+}
+
+/**
+ * Pick the next keyword from `keywords` (active ones only). Pure apart from
+ * `random`, so the strategy can be exercised without a database.
+ */
+export function selectKeyword(
+  keywords: SourcingKeyword[],
+  performance: KeywordPerformance[],
+  options: { exploreRate: number; minListings: number; random?: () => number }
+): KeywordSelection | null {
+  const active = keywords.filter((k) => k.active);
+  if (active.length === 0) return null;
+
+  const byId = new Map(performance.map((p) => [p.keyword_id, p]));
+  const random = options.random ?? Math.random;
+
+  const scored = active
+    .map((keyword) => ({ keyword, performance: byId.get(keyword.id) ?? null }))
+    .filter(
+      (c): c is { keyword: SourcingKeyword; performance: KeywordPerformance } =>
+        c.performance != null &&
+        c.performance.listings >= options.minListings &&
+        (c.performance.profit_per_listing_cents ?? 0) > 0
+    )
+    .sort(
+      (a, b) =>
+        (b.performance.profit_per_listing_cents ?? 0) - (a.performance.profit_per_listing_cents ?? 0) ||
+        compareRotation(a.keyword, b.keyword)
+    );
+
+  if (scored.length > 0 && random() >= options.exploreRate) {
+    return { ...scored[0], mode: "exploit" };
+  }
+
+  const keyword = [...active].sort(compareRotation)[0];
+  return { keyword, mode: "explore", performance: byId.get(keyword.id) ?? null };
+}
+
+/**
+ * Deactivate losing keywords, then choose the next one to source.
+ * Null when no keyword is active.
+ */
+export async function chooseNextKeyword(): Promise<KeywordSelection | null> {
+  const keywords = await listKeywords();
+  const deactivated = new Set((await deactivateLosingKeywords(keywords)).map((k) => k.id));
+  const performance = await getKeywordPerformance();
+
+  return selectKeyword(
+    keywords.filter((k) => !deactivated.has(k.id)),
+    performance,
+    { exploreRate: getKeywordExploreRate(), minListings: getKeywordMinListings() }
+  );
+}
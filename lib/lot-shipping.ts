@@ -0,0 +1,460 @@
+/**
+ * Per-destination shipping for dropship lots.
+ *
+ * At sourcing every lot is quoted for each country in
+ * DROPSHIP_DESTINATION_COUNTRIES. The first one is the base country: its
+ * freight is what the reserve is priced on (computePricing). Dearer
+ * destinations pay a shipping surcharge on the invoice, sized by
+ * computeShippingSurcharge() so the lot stays profitable at its reserve.
+ *
+ * A destination is ineligible when the supplier has no freight option for
+ * it, or when the surcharge would exceed DROPSHIP_MAX_SHIPPING_SURCHARGE_CENTS.
+ * Bidders in a country no lot of a sale ships to can't register for it; the
+ * lot page warns bidders whose address a lot can't ship to. A winner the lot
+ * still can't ship to (or with no country on file) is never invoiced for it:
+ * the lot is cancelled, and second-chance offers skip such underbidders.
+ *
+ * Lots sourced before destinations were quoted have no rows here and are
+ * treated as shipping anywhere at no surcharge.
+ *
+ * Env:
+ *   DROPSHIP_DESTINATION_COUNTRIES        — ISO country codes, comma separated (default "US")
+ *   DROPSHIP_MAX_SHIPPING_SURCHARGE_CENTS — largest surcharge a buyer is charged (default 2500)
+ */
+
+import { db } from "@/lib/turso";
+import { computeShippingSurcharge } from "@/lib/auction-pricing";
+import {
+  getDropshipLotByBastaItem,
+  getDropshipLotsBySale,
+  InvalidTransitionError,
+  LotConflictError,
+  transitionDropshipLot,
+  type DropshipLot,
+} from "@/lib/dropship";
+import { getBastaUserShippingAddress } from "@/lib/basta-user";
+import { sendAlert } from "@/lib/alerts";
+import { SupplierUnavailableError, type Supplier } from "@/lib/supplier";
+import { readNumberEnv } from "@/lib/env";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LotShippingQuote = {
+  lot_id: string;
+  country: string;
+  shipping_method: string | null;
+  shipping_cents: number | null;
+  delivery_days: string | null;
+  surcharge_cents: number;
+  eligible: boolean;
+  ineligible_reason: string | null;
+  quoted_at: string;
+};
+
+/** A freight quote for one destination, or nulls when there is none. */
+export type DestinationFreight = {
+  country: string;
+  shippingMethod: string | null;
+  shippingCents: number | null;
+  deliveryDays: string | null;
+};
+
+export type LotShippingEligibility = {
+  /** False for lots without destination quotes (they ship anywhere). */
+  restricted: boolean;
+  eligible: boolean;
+  surchargeCents: number;
+  quote: LotShippingQuote | null;
+};
+
+const DEFAULT_DESTINATIONS = ["US"];
+const DEFAULT_MAX_SURCHARGE_CENTS = 2500;
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Destination countries to quote, base country first. */
+export function getDestinationCountries(): string[] {
+  const raw = process.env.DROPSHIP_DESTINATION_COUNTRIES?.trim();
+  if (!raw) return DEFAULT_DESTINATIONS;
+
+  const countries: string[] = [];
+  for (const part of raw.split(",")) {
+    const code = normalizeCountryCode(part);
+    if (!code) {
+      console.warn(`[shipping] Ignoring invalid country "${part.trim()}" in DROPSHIP_DESTINATION_COUNTRIES`);
+      continue;
+    }
+    if (!countries.includes(code)) countries.push(code);
+  }
+  return countries.length ? countries : DEFAULT_DESTINATIONS;
+}
+
+function getMaxSurchargeCents(): number {
+  return readNumberEnv("DROPSHIP_MAX_SHIPPING_SURCHARGE_CENTS", DEFAULT_MAX_SURCHARGE_CENTS, (v) => v >= 0);
+}
+
+// ---------------------------------------------------------------------------
+// Country names
+// ---------------------------------------------------------------------------
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  USA: "US",
+  "UNITED STATES OF AMERICA": "US",
+  UK: "GB",
+  "GREAT BRITAIN": "GB",
+  ENGLAND: "GB",
+};
+
+let countryNameIndex: Map<string, string> | null = null;
+
+/** English region name → ISO code, built once from Intl. */
+function getCountryNameIndex(): Map<string, string> {
+  if (countryNameIndex) return countryNameIndex;
+
+  const names = new Intl.DisplayNames(["en"], { type: "region" });
+  const index = new Map<string, string>();
+  for (let a = 65; a <= 90; a++) {
+    for (let b = 65; b <= 90; b++) {
+      const code = String.fromCharCode(a, b);
+      // Skip deprecated aliases (UK → GB, BU → MM) so the current code wins
+      if (Intl.getCanonicalLocales(`und-${code}`)[0] !== `und-${code}`) continue;
+      const name = names.of(code);
+      if (name && name !== code) index.set(name.toUpperCase(), code);
+    }
+  }
+  countryNameIndex = index;
+  return index;
+}
+
+let countryCodes: Set<string> | null = null;
+
+function knownCodes(index: Map<string, string>): Set<string> {
+  countryCodes ??= new Set(index.values());
+  return countryCodes;
+}
+
+/**
+ * ISO code for a country as typed in an address ("US", "usa",
+ * "United States"). Null when it can't be recognized.
+ */
+export function normalizeCountryCode(value: string | null | undefined): string | null {
+  const key = value?.trim().toUpperCase();
+  if (!key) return null;
+  if (COUNTRY_ALIASES[key]) return COUNTRY_ALIASES[key];
+
+  const index = getCountryNameIndex();
+  if (/^[A-Z]{2}$/.test(key)) return knownCodes(index).has(key) ? key : null;
+  return index.get(key) ?? null;
+}
+
+export function getCountryName(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "region" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Quoting
+// ---------------------------------------------------------------------------
+
+/**
+ * The cheapest freight option from `fromCountry` to each destination, base
+ * country first. Returns null when the base country can't be shipped to
+ * (the reserve can't be priced); other destinations without freight come
+ * back with null costs — the lot is just not eligible there.
+ */
+export async function quoteDestinationFreight(
+  supplier: Supplier,
+  variantId: string,
+  fromCountry: string,
+  countries: string[]
+): Promise<DestinationFreight[] | null> {
+  const destinations: DestinationFreight[] = [];
+
+  for (const country of countries) {
+    let cheapest;
+    try {
+      const freightOptions = await supplier.quoteFreight({
+        variantId,
+        fromCountry,
+        toCountry: country,
+      });
+      cheapest = freightOptions[0];
+    } catch (e) {
+      // A dead supplier API isn't the same as "can't ship there"
+      if (e instanceof SupplierUnavailableError) throw e;
+      cheapest = undefined;
+    }
+
+    if (!cheapest && destinations.length === 0) return null;
+
+    destinations.push({
+      country,
+      shippingMethod: cheapest?.method ?? null,
+      shippingCents: cheapest?.costCents ?? null,
+      deliveryDays: cheapest?.deliveryDays ?? null,
+    });
+  }
+
+  return destinations;
+}
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+/**
+ * Surcharge and eligibility per destination, relative to the base country's
+ * shipping cost (the one the reserve was computed with).
+ */
+export function priceDestinations(
+  baseShippingCents: number,
+  destinations: DestinationFreight[]
+): Array<Omit<LotShippingQuote, "lot_id" | "quoted_at">> {
+  const maxSurchargeCents = getMaxSurchargeCents();
+
+  return destinations.map((d) => {
+    const base = {
+      country: d.country,
+      shipping_method: d.shippingMethod,
+      shipping_cents: d.shippingCents,
+      delivery_days: d.deliveryDays,
+    };
+
+    if (d.shippingCents == null || !d.shippingMethod) {
+      return { ...base, surcharge_cents: 0, eligible: false, ineligible_reason: "No freight option" };
+    }
+
+    const surcharge = computeShippingSurcharge({
+      baseShippingCents,
+      destinationShippingCents: d.shippingCents,
+    });
+    if (surcharge > maxSurchargeCents) {
+      return {
+        ...base,
+        surcharge_cents: surcharge,
+        eligible: false,
+        ineligible_reason: `Surcharge $${(surcharge / 100).toFixed(2)} over the $${(maxSurchargeCents / 100).toFixed(2)} limit`,
+      };
+    }
+
+    return { ...base, surcharge_cents: surcharge, eligible: true, ineligible_reason: null };
+  });
+}
+
+/**
+ * The "Ships to" line for a listing description, e.g.
+ * "Ships to: United States, Canada (+$4.20 shipping)".
+ */
+export function formatShipsTo(
+  quotes: Array<Pick<LotShippingQuote, "country" | "eligible" | "surcharge_cents">>
+): string {
+  const countries = quotes
+    .filter((q) => q.eligible)
+    .map((q) =>
+      q.surcharge_cents > 0
+        ? `${getCountryName(q.country)} (+$${(q.surcharge_cents / 100).toFixed(2)} shipping)`
+        : getCountryName(q.country)
+    );
+  return `Ships to: ${countries.join(", ")}`;
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+function rowToQuote(row: Record<string, unknown>): LotShippingQuote {
+  return {
+    lot_id: row.lot_id as string,
+    country: row.country as string,
+    shipping_method: row.shipping_method as string | null,
+    shipping_cents: row.shipping_cents as number | null,
+    delivery_days: row.delivery_days as string | null,
+    surcharge_cents: Number(row.surcharge_cents ?? 0),
+    eligible: Boolean(row.eligible),
+    ineligible_reason: row.ineligible_reason as string | null,
+    quoted_at: row.quoted_at as string,
+  };
+}
+
+export async function saveLotShippingQuotes(
+  lotId: string,
+  quotes: Array<Omit<LotShippingQuote, "lot_id" | "quoted_at">>
+): Promise<void> {
+  if (quotes.length === 0) return;
+
+  const now = new Date().toISOString();
+  await db.batch(
+    quotes.map((q) => ({
+      sql: `INSERT INTO dropship_lot_shipping
+              (lot_id, country, shipping_method, shipping_cents, delivery_days,
+               surcharge_cents, eligible, ineligible_reason, quoted_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(lot_id, country) DO UPDATE SET
+              shipping_method = excluded.shipping_method,
+              shipping_cents = excluded.shipping_cents,
+              delivery_days = excluded.delivery_days,
+              surcharge_cents = excluded.surcharge_cents,
+              eligible = excluded.eligible,
+              ineligible_reason = excluded.ineligible_reason,
+              quoted_at = excluded.quoted_at`,
+      args: [
+        lotId,
+        q.country,
+        q.shipping_method,
+        q.shipping_cents,
+        q.delivery_days,
+        q.surcharge_cents,
+        q.eligible ? 1 : 0,
+        q.ineligible_reason,
+        now,
+      ],
+    })),
+    "write"
+  );
+}
+
+export async function getLotShippingQuotes(lotId: string): Promise<LotShippingQuote[]> {
+  const result = await db.execute({
+    sql: "SELECT * FROM dropship_lot_shipping WHERE lot_id = ? ORDER BY country",
+    args: [lotId],
+  });
+  return result.rows.map((row) => rowToQuote(row as unknown as Record<string, unknown>));
+}
+
+// ---------------------------------------------------------------------------
+// Eligibility
+// ---------------------------------------------------------------------------
+
+export async function getLotShippingEligibility(
+  lot: Pick<DropshipLot, "id">,
+  country: string | null
+): Promise<LotShippingEligibility> {
+  const quotes = await getLotShippingQuotes(lot.id);
+  if (quotes.length === 0) {
+    return { restricted: false, eligible: true, surchargeCents: 0, quote: null };
+  }
+
+  const quote = country ? quotes.find((q) => q.country === country) ?? null : null;
+  return {
+    restricted: true,
+    eligible: quote?.eligible ?? false,
+    surchargeCents: quote?.eligible ? quote.surcharge_cents : 0,
+    quote,
+  };
+}
+
+/**
+ * How many of a sale's dropship lots ship to `country`. A sale with no
+ * dropship lots (consignment only) reports zero of zero.
+ */
+export async function getSaleShippingEligibility(
+  saleId: string,
+  country: string | null
+): Promise<{ dropshipLots: number; eligibleLots: number }> {
+  const lots = await getDropshipLotsBySale(saleId);
+  let eligibleLots = 0;
+  for (const lot of lots) {
+    if ((await getLotShippingEligibility(lot, country)).eligible) eligibleLots++;
+  }
+  return { dropshipLots: lots.length, eligibleLots };
+}
+
+export type WinnerShipping = {
+  /** Surcharge lines for the invoice, keyed by Basta item ID. */
+  surcharges: Map<string, { description: string; amount: number }>;
+  /**
+   * Dropship items the winner can't be invoiced for, keyed by Basta item ID:
+   * the lot doesn't ship to their country, or they have no country on file
+   * so the freight can't be priced.
+   */
+  blocked: Map<string, { lot: DropshipLot; reason: string }>;
+};
+
+/**
+ * Shipping for a winner's dropship items: the surcharge for each item that
+ * ships to their country, and the items that must not be invoiced at all
+ * (bidding itself goes straight to Basta, so the lot page warning is the
+ * only check before this one).
+ *
+ * Throws if the winner's address can't be read, so the caller retries later
+ * rather than invoicing without knowing the destination.
+ */
+export async function getShippingSurcharges(
+  userId: string,
+  itemIds: string[]
+): Promise<WinnerShipping> {
+  const shipping: WinnerShipping = { surcharges: new Map(), blocked: new Map() };
+
+  const lots: DropshipLot[] = [];
+  for (const itemId of itemIds) {
+    const lot = await getDropshipLotByBastaItem(itemId);
+    if (lot) lots.push(lot);
+  }
+  if (lots.length === 0) return shipping;
+
+  const country = normalizeCountryCode((await getBastaUserShippingAddress(userId))?.country);
+
+  for (const lot of lots) {
+    const itemId = lot.basta_item_id as string;
+    const eligibility = await getLotShippingEligibility(lot, country);
+    if (!eligibility.restricted) continue;
+
+    if (!country) {
+      shipping.blocked.set(itemId, { lot, reason: "no shipping country on file" });
+      continue;
+    }
+
+    if (!eligibility.eligible) {
+      shipping.blocked.set(itemId, {
+        lot,
+        reason: `doesn't ship to ${country} (${eligibility.quote?.ineligible_reason ?? "not quoted"})`,
+      });
+      continue;
+    }
+
+    if (eligibility.surchargeCents > 0) {
+      shipping.surcharges.set(itemId, {
+        description: `Shipping to ${getCountryName(country)}`,
+        amount: eligibility.surchargeCents,
+      });
+    }
+  }
+
+  return shipping;
+}
+
+/**
+ * Cancel a closed lot whose winner can't be shipped to, instead of invoicing
+ * them at a loss. Alerts once; a lot that already moved on is left alone.
+ */
+export async function cancelUnshippableLot(
+  lot: DropshipLot,
+  userId: string,
+  reason: string
+): Promise<void> {
+  try {
+    await transitionDropshipLot(lot.id, {
+      from: "AUCTION_CLOSED",
+      to: "CANCELLED",
+      updates: { error_message: `Winner ${userId}: ${reason}` },
+    }, { actor: "system", reason: `Winner ${reason}` });
+  } catch (e) {
+    if (!(e instanceof InvalidTransitionError || e instanceof LotConflictError)) throw e;
+    console.log(`[shipping] Lot ${lot.id} not invoiced (${reason}) and left as is: ${e.message}`);
+    return;
+  }
+
+  console.log(`[shipping] Lot ${lot.id} cancelled — winner ${userId} ${reason}`);
+  await sendAlert(
+    `Lot ${lot.id} ("${lot.cj_product_name}") was won by user ${userId}, but the lot ${reason}. ` +
+      `The winner was NOT invoiced and the lot was cancelled — let them know.`,
+    "warning"
+  );
+}
@@ -0,0 +1,255 @@
+/**
+ * Media mirroring — copies supplier (CJ) product images into our own
+ * Cloudinary account at sourcing time so lots don't depend on CJ's CDN.
+ *
+ * Every mirrored image is recorded in `media_assets` (original URL, content
+ * hash, mirrored URL, dimensions). Images are deduped by SHA-256 of their
+ * bytes: the same photo served from two CJ URLs is uploaded once.
+ *
+ * Env:
+ *   CLOUDINARY_API_KEY       — required for uploads (mirroring is skipped without it)
+ *   CLOUDINARY_API_SECRET    — required for uploads
+ *   CLOUDINARY_CLOUD_NAME    — target cloud (falls back to lib/cloudinary.ts default)
+ *   CLOUDINARY_MIRROR_FOLDER — folder for mirrored assets (default "dropship")
+ */
+
+import { createHash } from "crypto";
+import { db, generateId } from "@/lib/turso";
+import { getCloudName } from "@/lib/cloudinary";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MediaAsset = {
+  id: string;
+  original_url: string;
+  content_hash: string;
+  mirrored_url: string;
+  public_id: string;
+  width: number | null;
+  height: number | null;
+  bytes: number | null;
+  format: string | null;
+  created_at: string;
+};
+
+type CloudinaryUploadResponse = {
+  public_id: string;
+  secure_url: string;
+  width?: number;
+  height?: number;
+  bytes?: number;
+  format?: string;
+  error?: { message: string };
+};
+
+const DEFAULT_MIRROR_FOLDER = "dropship";
+const IMAGE_FETCH_TIMEOUT_MS = 15_000;
+
+// ---------------------------------------------------------------------------
+// Row mapper
+// ---------------------------------------------------------------------------
+
+function rowToMediaAsset(row: Record<string, unknown>): MediaAsset {
+  return {
+    id: row.id as string,
+    original_url: row.original_url as string,
+    content_hash: row.content_hash as string,
+    mirrored_url: row.mirrored_url as string,
+    public_id: row.public_id as string,
+    width: row.width as number | null,
+    height: row.height as number | null,
+    bytes: row.bytes as number | null,
+    format: row.format as string | null,
+    created_at: row.created_at as string,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+export async function getMediaAssetByUrl(originalUrl: string): Promise<MediaAsset | null> {
+  const result = await db.execute({
+    sql: "SELECT * FROM media_assets WHERE original_url = ?",
+    args: [originalUrl],
+  });
+  const row = result.rows[0];
+  return row ? rowToMediaAsset(row as unknown as Record<string, unknown>) : null;
+}
+
+async function getMediaAssetByHash(contentHash: string): Promise<MediaAsset | null> {
+  const result = await db.execute({
+    sql: "SELECT * FROM media_assets WHERE content_hash = ? ORDER BY created_at ASC LIMIT 1",
+    args: [contentHash],
+  });
+  const row = result.rows[0];
+  return row ? rowToMediaAsset(row as unknown as Record<string, unknown>) : null;
+}
+
+async function insertMediaAsset(asset: Omit<MediaAsset, "id" | "created_at">): Promise<MediaAsset> {
+  // Two sourcing runs can mirror the same URL at once — first writer wins
+  await db.execute({
+    sql: `INSERT INTO media_assets
+            (id, original_url, content_hash, mirrored_url, public_id, width, height, bytes, format)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(original_url) DO NOTHING`,
+    args: [
+      generateId(),
+      asset.original_url,
+      asset.content_hash,
+      asset.mirrored_url,
+      asset.public_id,
+      asset.width,
+      asset.height,
+      asset.bytes,
+      asset.format,
+    ],
+  });
+
+  const stored = await getMediaAssetByUrl(asset.original_url);
+  if (!stored) throw new Error(`media_assets row missing after insert: ${asset.original_url}`);
+  return stored;
+}
+
+// ---------------------------------------------------------------------------
+// Cloudinary upload
+// ---------------------------------------------------------------------------
+
+function getUploadCredentials(): { cloudName: string; apiKey: string; apiSecret: string } | null {
+  const apiKey = process.env.CLOUDINARY_API_KEY?.trim();
+  const apiSecret = process.env.CLOUDINARY_API_SECRET?.trim();
+  const cloudName = getCloudName();
+  if (!apiKey || !apiSecret || !cloudName) return null;
+  return { cloudName, apiKey, apiSecret };
+}
+
+/** Whether Cloudinary upload credentials are configured. */
+export function isMediaMirrorConfigured(): boolean {
+  return getUploadCredentials() !== null;
+}
+
+/**
+ * Signed upload to Cloudinary. The public ID is the content hash, so a
+ * re-upload of the same bytes lands on the same asset.
+ */
+async function uploadToCloudinary(
+  data: Buffer,
+  contentType: string,
+  contentHash: string
+): Promise<CloudinaryUploadResponse> {
+  const creds = getUploadCredentials();
+  if (!creds) throw new Error("Cloudinary upload credentials not configured");
+
+  const folder = process.env.CLOUDINARY_MIRROR_FOLDER?.trim() || DEFAULT_MIRROR_FOLDER;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signedParams: Record<string, string> = {
+    folder,
+    overwrite: "false",
+    public_id: contentHash,
+    timestamp,
+  };
+
+  // Cloudinary signature: sorted key=value pairs joined by "&", then the secret
+  const toSign = Object.keys(signedParams)
+    .sort()
+    .map((key) => `${key}=${signedParams[key]}`)
+    .join("&");
+  const signature = createHash("sha1").update(toSign + creds.apiSecret).digest("hex");
+
+  const form = new FormData();
+  form.append("file", new Blob([new Uint8Array(data)], { type: contentType }));
+  for (const [key, value] of Object.entries(signedParams)) {
+    form.append(key, value);
+  }
+  form.append("api_key", creds.apiKey);
+  form.append("signature", signature);
+
+  const res = await fetch(
+    `https://api.cloudinary.com/v1_1/${creds.cloudName}/image/upload`,
+    { method: "POST", body: form }
+  );
+  const json = (await res.json()) as CloudinaryUploadResponse;
+  if (!res.ok || json.error) {
+    throw new Error(`Cloudinary upload failed (${res.status}): ${json.error?.message ?? "unknown error"}`);
+  }
+  return json;
+}
+
+// ---------------------------------------------------------------------------
+// Mirroring
+// ---------------------------------------------------------------------------
+
+/**
+ * Mirror a single supplier image. Returns the existing mapping when the URL
+ * (or an image with identical bytes) has already been mirrored.
+ */
+export async function mirrorImage(originalUrl: string): Promise<MediaAsset> {
+  const existing = await getMediaAssetByUrl(originalUrl);
+  if (existing) return existing;
+
+  const res = await fetch(originalUrl, { signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`Image fetch failed (${res.status}): ${originalUrl}`);
+
+  const contentType = res.headers.get("content-type") || "image/jpeg";
+  if (!contentType.startsWith("image/")) {
+    throw new Error(`Not an image (${contentType}): ${originalUrl}`);
+  }
+
+  const data = Buffer.from(await res.arrayBuffer());
+  const contentHash = createHash("sha256").update(data).digest("hex");
+
+  const duplicate = await getMediaAssetByHash(contentHash);
+  if (duplicate) {
+    return insertMediaAsset({
+      original_url: originalUrl,
+      content_hash: contentHash,
+      mirrored_url: duplicate.mirrored_url,
+      public_id: duplicate.public_id,
+      width: duplicate.width,
+      height: duplicate.height,
+      bytes: duplicate.bytes,
+      format: duplicate.format,
+    });
+  }
+
+  const uploaded = await uploadToCloudinary(data, contentType, contentHash);
+  return insertMediaAsset({
+    original_url: originalUrl,
+    content_hash: contentHash,
+    mirrored_url: uploaded.secure_url,
+    public_id: uploaded.public_id,
+    width: uploaded.width ?? null,
+    height: uploaded.height ?? null,
+    bytes: uploaded.bytes ?? data.length,
+    format: uploaded.format ?? null,
+  });
+}
+
+/**
+ * Mirror a lot's images, preserving order. Images that fail to mirror keep
+ * their original URL (non-blocking); duplicates by content are dropped.
+ * Returns the input unchanged when Cloudinary isn't configured.
+ */
+export async function mirrorImages(originalUrls: string[]): Promise<string[]> {
+  if (!isMediaMirrorConfigured()) {
+    if (originalUrls.length) {
+      console.warn("[media] Cloudinary upload credentials not set — using supplier image URLs");
+    }
+    return originalUrls;
+  }
+
+  const urls: string[] = [];
+  for (const originalUrl of originalUrls) {
+    let url = originalUrl;
+    try {
+      url = (await mirrorImage(originalUrl)).mirrored_url;
+    } catch (e) {
+      console.warn(`[media] Failed to mirror ${originalUrl} (using original):`, e);
+    }
+    if (!urls.includes(url)) urls.push(url);
+  }
+
+  return urls;
+}
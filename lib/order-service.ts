@@ -10,6 +10,7 @@ import {
 import { notifyAndUpdateOrder } from "@/lib/winner-notification";
 import { sendEmail } from "@/lib/email";
 import { getUserById } from "@/lib/user";
+import { cancelUnshippableLot, getShippingSurcharges } from "@/lib/lot-shipping";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -24,15 +25,17 @@ type AccountFee = {
     upperLteLimit: number | null;
 };
 
-type OrderLineItem = {
-    itemId: string;
-    amount: number;
+type FeeLineItem = {
     description: string;
+    amount: number;
 };
 
-type FeeLineItem = {
-    description: string;
+type OrderLineItem = {
+    itemId: string;
     amount: number;
+    description: string;
+    /** Destination shipping surcharge (lib/lot-shipping.ts), billed as a fee on the line. */
+    shipping?: FeeLineItem;
 };
 
 type ExistingOrder = {
@@ -119,6 +122,12 @@ export function calculateFeesForAmount(
     return fees;
 }
 
+/** Account fees for a line plus its shipping surcharge, as Basta order line fees. */
+function getLineFees(line: OrderLineItem, accountFees: AccountFee[]): FeeLineItem[] {
+    const fees = calculateFeesForAmount(line.amount, accountFees);
+    return line.shipping ? [...fees, line.shipping] : fees;
+}
+
 // ---------------------------------------------------------------------------
 // Basta Order Queries
 // ---------------------------------------------------------------------------
@@ -211,7 +220,7 @@ export async function createBastaOrder(params: {
         itemId: item.itemId,
         amount: item.amount,
         description: item.description,
-        fees: calculateFeesForAmount(item.amount, accountFees).map((f) => ({
+        fees: getLineFees(item, accountFees).map((f) => ({
             description: f.description,
             amount: f.amount,
         })),
@@ -292,7 +301,7 @@ export async function addItemsToBastaOrder(params: {
             continue;
         }
 
-        const fees = calculateFeesForAmount(item.amount, accountFees);
+        const fees = getLineFees(item, accountFees);
 
         try {
             await client.mutation({
@@ -342,8 +351,14 @@ export async function tryCreateStripeInvoice(params: {
     currency: string;
     orderLines: OrderLineItem[];
     accountFees: AccountFee[];
+    /**
+     * Set for offers the buyer has to accept: the invoice is sent for them to
+     * pay from the hosted page (due in this many days) instead of charging
+     * the card on file.
+     */
+    daysUntilDue?: number;
 }): Promise<InvoiceResult> {
-    const { orderId, saleId, userId, currency, orderLines, accountFees } = params;
+    const { orderId, saleId, userId, currency, orderLines, accountFees, daysUntilDue } = params;
 
     // Log the attempt — fire-and-forget
     try {
@@ -383,7 +398,8 @@ export async function tryCreateStripeInvoice(params: {
 
         const invoice = await stripe.invoices.create({
             customer: profile.stripe_customer_id,
-            collection_method: "charge_automatically",
+            collection_method: daysUntilDue ? "send_invoice" : "charge_automatically",
+            days_until_due: daysUntilDue,
             auto_advance: true,
             automatic_tax: { enabled: true },
             default_payment_method: profile.default_payment_method_id,
@@ -391,7 +407,7 @@ export async function tryCreateStripeInvoice(params: {
             idempotency_key: `invoice-${orderId}`,
         } as Parameters<typeof stripe.invoices.create>[0]);
 
-        // Add line items: hammer price + fees for each item
+        // Add line items: hammer price + fees (+ shipping surcharge) for each item
         for (const line of orderLines) {
             await stripe.invoiceItems.create({
                 customer: profile.stripe_customer_id,
@@ -424,6 +440,22 @@ export async function tryCreateStripeInvoice(params: {
                     },
                 });
             }
+
+            if (line.shipping) {
+                await stripe.invoiceItems.create({
+                    customer: profile.stripe_customer_id,
+                    invoice: invoice.id,
+                    amount: line.shipping.amount,
+                    currency: currency.toLowerCase(),
+                    description: `${line.shipping.description} — ${line.description}`,
+                    metadata: {
+                        itemId: line.itemId,
+                        bastaOrderId: orderId,
+                        saleId,
+                        lineType: "shipping",
+                    },
+                });
+            }
         }
 
         const finalized = await stripe.invoices.finalizeInvoice(invoice.id);
@@ -535,8 +567,23 @@ export async function processClosedItems(params: {
         grouped.set(item.leaderId, lines);
     }
 
-    for (const [userId, orderLines] of grouped.entries()) {
+    for (const [userId, wonLines] of grouped.entries()) {
         try {
+            // Winners outside the lot's base shipping country pay the difference;
+            // lots that can't ship to the winner are cancelled, not invoiced
+            const { surcharges, blocked } = await getShippingSurcharges(
+                userId,
+                wonLines.map((line) => line.itemId)
+            );
+            for (const { lot, reason } of blocked.values()) {
+                await cancelUnshippableLot(lot, userId, reason);
+            }
+            const orderLines = wonLines.filter((line) => !blocked.has(line.itemId));
+            if (!orderLines.length) continue;
+            for (const line of orderLines) {
+                line.shipping = surcharges.get(line.itemId);
+            }
+
             // Check Basta for existing order for this user + sale
             const existingOrder = await findExistingBastaOrder(userId, saleId);
 
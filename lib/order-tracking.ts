@@ -0,0 +1,227 @@
+/**
+ * Buyer-facing order tracking — what /account/orders shows for a won lot.
+ *
+ * Combines the lot's status history (`dropship_lot_events`), the synced
+ * carrier tracking (lib/shipment-tracking.ts) and the logistic line chosen
+ * at sourcing into one view. Costs, profit and operator notes never leave
+ * this module.
+ */
+
+import {
+  getDropshipLotEvents,
+  type DropshipLot,
+  type DropshipLotEvent,
+} from "@/lib/dropship";
+import { getShipmentEvents, getShipmentTracking } from "@/lib/shipment-tracking";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A lot without the fields the buyer should never see. */
+export type BuyerOrder = Omit<
+  DropshipLot,
+  | "cj_cost_cents"
+  | "cj_shipping_cents"
+  | "total_cost_cents"
+  | "profit_cents"
+  | "error_message"
+  | "source_keyword"
+  | "relist_count"
+> & {
+  tracking_url: string | null;
+};
+
+export type OrderStepKey = "won" | "paid" | "ordered" | "shipped" | "delivered";
+
+export type OrderStep = {
+  key: OrderStepKey;
+  label: string;
+  reached: boolean;
+  /** When the lot reached this step, if recorded. */
+  at: string | null;
+};
+
+export type ShipmentCheckpoint = {
+  occurred_at: string;
+  status: string;
+  description: string | null;
+  location: string | null;
+};
+
+export type OrderTrackingDetail = {
+  order: BuyerOrder;
+  steps: OrderStep[];
+  shipment: {
+    tracking_number: string;
+    carrier: string | null;
+    tracking_url: string;
+    status: string | null;
+    last_checked_at: string | null;
+    delivered_at: string | null;
+    /** Newest first. */
+    checkpoints: ShipmentCheckpoint[];
+  } | null;
+  /** Delivery window from the logistic line's transit time; null once delivered or unknown. */
+  estimated_delivery: {
+    earliest: string;
+    latest: string;
+    transit_days: string;
+  } | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ORDER_STEPS: Array<{ key: OrderStepKey; label: string; statuses: string[] }> = [
+  { key: "won", label: "Won", statuses: ["AUCTION_CLOSED"] },
+  { key: "paid", label: "Paid", statuses: ["PAID"] },
+  { key: "ordered", label: "Ordered", statuses: ["CJ_ORDERED", "CJ_PAID"] },
+  { key: "shipped", label: "Shipped", statuses: ["SHIPPED"] },
+  { key: "delivered", label: "Delivered", statuses: ["DELIVERED"] },
+];
+
+/** How far along ORDER_STEPS each status is (failure states stop where they happened). */
+const STATUS_STEP_INDEX: Record<string, number> = {
+  AUCTION_CLOSED: 0,
+  PAYMENT_FAILED: 0,
+  PAID: 1,
+  CJ_OUT_OF_STOCK: 1,
+  CJ_PRICE_CHANGED: 1,
+  CJ_ORDERED: 2,
+  CJ_PAID: 2,
+  SHIPPED: 3,
+  DELIVERED: 4,
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Link to the carrier's own tracking page for well-known last-mile carriers,
+ * AfterShip (universal tracker) for everything else.
+ */
+export function getCarrierTrackingUrl(trackingNumber: string, carrier: string | null): string {
+  const number = encodeURIComponent(trackingNumber);
+  const name = (carrier ?? "").toLowerCase();
+
+  if (name.includes("usps")) return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${number}`;
+  if (name.includes("ups")) return `https://www.ups.com/track?tracknum=${number}`;
+  if (name.includes("fedex")) return `https://www.fedex.com/fedextrack/?trknbr=${number}`;
+  if (name.includes("dhl")) return `https://www.dhl.com/us-en/home/tracking.html?tracking-id=${number}`;
+  if (name.includes("yun")) return `https://www.yuntrack.com/parcelTracking?id=${number}`;
+  return `https://track.aftership.com/${number}`;
+}
+
+/** "7-15" / "7 ~ 15" / "10" → { min, max } days; null when there's no number. */
+function parseTransitDays(value: string | null): { min: number; max: number } | null {
+  const numbers = value?.match(/\d+/g)?.map(Number) ?? [];
+  if (numbers.length === 0) return null;
+  return { min: Math.min(...numbers), max: Math.max(...numbers) };
+}
+
+function addDays(iso: string, days: number): string {
+  return new Date(new Date(iso).getTime() + days * DAY_MS).toISOString();
+}
+
+export function toBuyerOrder(lot: DropshipLot): BuyerOrder {
+  const {
+    cj_cost_cents: _cjCost,
+    cj_shipping_cents: _cjShipping,
+    total_cost_cents: _totalCost,
+    profit_cents: _profit,
+    error_message: _err,
+    source_keyword: _keyword,
+    relist_count: _relists,
+    ...rest
+  } = lot;
+
+  return {
+    ...rest,
+    tracking_url: lot.tracking_number
+      ? getCarrierTrackingUrl(lot.tracking_number, lot.tracking_carrier)
+      : null,
+  };
+}
+
+function buildSteps(
+  lot: DropshipLot,
+  events: DropshipLotEvent[],
+  deliveredAt: string | null
+): OrderStep[] {
+  const reachedIndex = STATUS_STEP_INDEX[lot.status] ?? -1;
+
+  return ORDER_STEPS.map((step, index) => {
+    let at =
+      events.find((event) => step.statuses.includes(event.to_status))?.created_at ?? null;
+    // Lots from before the audit trail only have these columns to go on
+    if (!at && step.key === "ordered") at = lot.cj_paid_at;
+    if (step.key === "delivered") at = deliveredAt ?? at;
+
+    return {
+      key: step.key,
+      label: step.label,
+      reached: index <= reachedIndex || at !== null,
+      at,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Detail
+// ---------------------------------------------------------------------------
+
+export async function getOrderTrackingDetail(lot: DropshipLot): Promise<OrderTrackingDetail> {
+  const [events, tracking, checkpoints] = await Promise.all([
+    getDropshipLotEvents(lot.id),
+    getShipmentTracking(lot.id),
+    getShipmentEvents(lot.id),
+  ]);
+
+  const deliveredAt = lot.status === "DELIVERED" ? tracking?.delivered_at ?? null : null;
+  const steps = buildSteps(lot, events, deliveredAt);
+
+  const shipment = lot.tracking_number
+    ? {
+        tracking_number: lot.tracking_number,
+        carrier: lot.tracking_carrier ?? tracking?.carrier ?? null,
+        tracking_url: getCarrierTrackingUrl(
+          lot.tracking_number,
+          lot.tracking_carrier ?? tracking?.carrier ?? null
+        ),
+        status: tracking?.status ?? null,
+        last_checked_at: tracking?.checked_at ?? null,
+        delivered_at: deliveredAt,
+        checkpoints: checkpoints
+          .map(({ occurred_at, status, description, location }) => ({
+            occurred_at,
+            status,
+            description,
+            location,
+          }))
+          .reverse(),
+      }
+    : null;
+
+  // Transit time counts from hand-over to the carrier, or from the order
+  // while the supplier is still preparing it
+  let estimatedDelivery: OrderTrackingDetail["estimated_delivery"] = null;
+  const transit = parseTransitDays(lot.cj_delivery_days);
+  const start =
+    steps.find((s) => s.key === "shipped")?.at ?? steps.find((s) => s.key === "ordered")?.at;
+  const inProgress = ["CJ_ORDERED", "CJ_PAID", "SHIPPED"].includes(lot.status);
+  if (transit && start && inProgress) {
+    estimatedDelivery = {
+      earliest: addDays(start, transit.min),
+      latest: addDays(start, transit.max),
+      transit_days: lot.cj_delivery_days as string,
+    };
+  }
+
+  return {
+    order: toBuyerOrder(lot),
+    steps,
+    shipment,
+    estimated_delivery: estimatedDelivery,
+  };
+}
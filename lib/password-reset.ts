@@ -0,0 +1,68 @@
+import { createHash, randomBytes } from "crypto";
+import { db, generateId } from "@/lib/turso";
+import { updateUserPassword } from "@/lib/user";
+
+/**
+ * Password reset tokens. The raw token only ever exists in the emailed link;
+ * the database keeps its SHA-256, so a leaked table can't be used to reset
+ * anyone's password. Tokens are single use and expire after an hour.
+ */
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issue a fresh reset token for the user, retiring any earlier unused ones.
+ * Returns the raw token to put in the email link.
+ */
+export async function createPasswordResetToken(userId: string): Promise<string> {
+    const token = randomBytes(32).toString("base64url");
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+    await db.batch(
+        [
+            {
+                sql: "UPDATE password_reset_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL",
+                args: [now.toISOString(), userId],
+            },
+            {
+                sql: `INSERT INTO password_reset_tokens (id, user_id, token_hash, expires_at, created_at)
+                      VALUES (?, ?, ?, ?, ?)`,
+                args: [generateId(), userId, hashToken(token), expiresAt.toISOString(), now.toISOString()],
+            },
+        ],
+        "write"
+    );
+
+    return token;
+}
+
+/**
+ * Spend a reset token and set the new password (which also signs the user out
+ * of every existing session). Claiming the token is a single conditional
+ * UPDATE, so two concurrent requests can't both use it.
+ *
+ * Returns the user id, or null if the token is unknown, used, or expired.
+ */
+export async function resetPasswordWithToken(
+    token: string,
+    newPassword: string
+): Promise<string | null> {
+    const now = new Date().toISOString();
+    const result = await db.execute({
+        sql: `UPDATE password_reset_tokens SET used_at = ?
+              WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+              RETURNING user_id`,
+        args: [now, hashToken(token), now],
+    });
+
+    const userId = result.rows[0]?.user_id as string | undefined;
+    if (!userId) return null;
+
+    await updateUserPassword(userId, newPassword);
+    return userId;
+}
@@ -0,0 +1,173 @@
+/**
+ * Pipeline Locks — DB-backed lease locks so pipeline stages never overlap.
+ *
+ * The process cron, `orchestrate.ts monitor`, handleStuckLots() and the
+ * Stripe webhook can all reach the same stage at once, which risks double
+ * supplier orders and double invoices. Each stage (the same names as the
+ * kill switches in lib/pipeline-switches.ts) has one lease in
+ * `pipeline_locks`. The holder renews it on a heartbeat while it works; a
+ * holder that crashes stops renewing and the lease expires after its TTL,
+ * so a dead instance never blocks the pipeline for long.
+ *
+ * Contended callers either wait (up to `waitMs`) or skip the stage and leave
+ * its lots for the next run. Skips are recorded on the run in pipeline_runs.
+ */
+
+import { db, generateId } from "@/lib/turso";
+import { sendAlert } from "@/lib/alerts";
+import type { PipelineStage } from "@/lib/pipeline-switches";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PipelineLock = {
+  name: PipelineStage;
+  /** e.g. "cron:process:3f2a9c1e" */
+  holder: string;
+  /** The pipeline run holding the lock, if it was started from one. */
+  run_id: string | null;
+  acquired_at: string;
+  heartbeat_at: string;
+  expires_at: string;
+};
+
+export type LockOutcome<T> =
+  | { acquired: true; value: T }
+  | { acquired: false; heldBy: PipelineLock | null };
+
+/** Lease length; renewed every third of it while the holder works. */
+const LOCK_TTL_MS = 2 * 60 * 1000;
+const LOCK_POLL_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function rowToLock(row: Record<string, unknown>): PipelineLock {
+  return {
+    name: row.name as PipelineStage,
+    holder: row.holder as string,
+    run_id: (row.run_id as string | null) ?? null,
+    acquired_at: row.acquired_at as string,
+    heartbeat_at: row.heartbeat_at as string,
+    expires_at: row.expires_at as string,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+/** Locks currently held (expired leases are left out). */
+export async function listPipelineLocks(): Promise<PipelineLock[]> {
+  const result = await db.execute({
+    sql: "SELECT * FROM pipeline_locks WHERE expires_at >= ? ORDER BY name",
+    args: [new Date().toISOString()],
+  });
+  return result.rows.map((row) => rowToLock(row as unknown as Record<string, unknown>));
+}
+
+async function getLiveLock(name: PipelineStage): Promise<PipelineLock | null> {
+  const result = await db.execute({
+    sql: "SELECT * FROM pipeline_locks WHERE name = ? AND expires_at >= ?",
+    args: [name, new Date().toISOString()],
+  });
+  const row = result.rows[0] as unknown as Record<string, unknown> | undefined;
+  return row ? rowToLock(row) : null;
+}
+
+/** One-line description of a held lock for logs and skipped-step results. */
+export function describeLock(lock: PipelineLock): string {
+  return `${lock.name} locked by ${lock.holder} since ${lock.acquired_at}`;
+}
+
+// ---------------------------------------------------------------------------
+// Acquire / release
+// ---------------------------------------------------------------------------
+
+async function tryAcquire(name: PipelineStage, holder: string, runId: string | null): Promise<boolean> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + LOCK_TTL_MS).toISOString();
+
+  // Single statement: insert the lock, or take over an expired lease
+  const result = await db.execute({
+    sql: `INSERT INTO pipeline_locks (name, holder, run_id, acquired_at, heartbeat_at, expires_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT(name) DO UPDATE SET
+            holder = excluded.holder,
+            run_id = excluded.run_id,
+            acquired_at = excluded.acquired_at,
+            heartbeat_at = excluded.heartbeat_at,
+            expires_at = excluded.expires_at
+          WHERE pipeline_locks.expires_at < ?`,
+    args: [name, holder, runId, now.toISOString(), now.toISOString(), expiresAt, now.toISOString()],
+  });
+  return result.rowsAffected > 0;
+}
+
+async function renew(name: PipelineStage, holder: string): Promise<boolean> {
+  const now = new Date();
+  const result = await db.execute({
+    sql: `UPDATE pipeline_locks SET heartbeat_at = ?, expires_at = ?
+          WHERE name = ? AND holder = ?`,
+    args: [now.toISOString(), new Date(now.getTime() + LOCK_TTL_MS).toISOString(), name, holder],
+  });
+  return result.rowsAffected > 0;
+}
+
+async function release(name: PipelineStage, holder: string): Promise<void> {
+  await db.execute({
+    sql: "DELETE FROM pipeline_locks WHERE name = ? AND holder = ?",
+    args: [name, holder],
+  });
+}
+
+/**
+ * Run `fn` while holding the stage's lock. If another holder has it, wait
+ * up to `waitMs` (default: don't wait); if it is still held, `fn` is not run
+ * and the current holder is returned instead.
+ *
+ * `owner` names the caller ("cron:process", "cli:monitor", "webhook:stripe").
+ */
+export async function withPipelineLock<T>(
+  name: PipelineStage,
+  owner: string,
+  fn: () => Promise<T>,
+  options?: { waitMs?: number; runId?: string | null }
+): Promise<LockOutcome<T>> {
+  const holder = `${owner}:${generateId().slice(0, 8)}`;
+  const deadline = Date.now() + (options?.waitMs ?? 0);
+
+  while (!(await tryAcquire(name, holder, options?.runId ?? null))) {
+    if (Date.now() >= deadline) {
+      return { acquired: false, heldBy: await getLiveLock(name) };
+    }
+    await sleep(LOCK_POLL_MS);
+  }
+
+  let lost = false;
+  const heartbeat = setInterval(() => {
+    renew(name, holder)
+      .then(async (held) => {
+        if (held || lost) return;
+        lost = true;
+        console.error(`[locks] ${holder} lost the ${name} lock mid-run`);
+        await sendAlert(
+          `Pipeline lock ${name} was lost by ${holder} while it was still running (heartbeat missed for ${LOCK_TTL_MS / 1000}s). Another run may overlap it.`,
+          "critical"
+        );
+      })
+      .catch((e) => console.warn(`[locks] Heartbeat for ${name} failed:`, e));
+  }, LOCK_TTL_MS / 3);
+  heartbeat.unref?.();
+
+  try {
+    return { acquired: true, value: await fn() };
+  } finally {
+    clearInterval(heartbeat);
+    await release(name, holder).catch((e) => {
+      console.warn(`[locks] Failed to release ${name} lock (expires on its own):`, e);
+    });
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * Pipeline Runs — persistent history and per-step telemetry for pipeline runs.
+ *
+ * Every cron invocation (and the CLI source/monitor commands) records a row
+ * in `pipeline_runs` with its trigger, start/end and outcome, and one row per
+ * step in `pipeline_run_steps` with its duration, the numeric counts from the
+ * step's result (PollResult, BatchRefundSummary, StuckLotResult, ...) and
+ * its error, or for a skipped step the reason it was skipped. Recording is
+ * best-effort: a telemetry write that fails is logged and never breaks the
+ * pipeline.
+ *
+ * The watchdog (checkOverdueRuns) marks runs that never finished as
+ * timed_out and alerts when a scheduled job has not completed within its
+ * expected window, once per lapse (`pipeline_overdue_alerts` records the
+ * last completed run it alerted for). It runs from /api/cron/process and
+ * /api/cron/notifications, so a stalled process cron is still noticed.
+ *
+ * Env:
+ *   PIPELINE_PROCESS_EVERY_MINUTES — optional; how often /api/cron/process
+ *     is scheduled (vercel.json). Default 1440
+ *   PIPELINE_SOURCE_EVERY_MINUTES  — optional; same for /api/cron/source. Default 1440
+ *
+ * Viewed with `pnpm pipeline:runs` or GET /api/admin/runs.
+ */
+
+import { db, generateId } from "@/lib/turso";
+import { sendAlert } from "@/lib/alerts";
+import { readNumberEnv } from "@/lib/env";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PipelineJob = "process" | "source" | "monitor";
+
+export type PipelineRunTrigger = "cron" | "cli";
+
+export type PipelineRunStatus =
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "halted"
+  | "skipped"
+  | "timed_out";
+
+export type PipelineStepStatus = "succeeded" | "failed" | "skipped";
+
+export type PipelineRunStep = {
+  id: string;
+  run_id: string;
+  step: string;
+  status: PipelineStepStatus;
+  /** Numeric fields of the step's result, e.g. { salesChecked: 2, newlyProcessed: 1 }. */
+  counts: Record<string, number>;
+  error: string | null;
+  /** Why a skipped step was not run (e.g. its stage is paused). */
+  detail: string | null;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+};
+
+export type PipelineRun = {
+  id: string;
+  job: PipelineJob;
+  trigger: PipelineRunTrigger;
+  status: PipelineRunStatus;
+  /** Why the run halted, was skipped or failed. */
+  detail: string | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  steps: PipelineRunStep[];
+};
+
+export type StepLastSuccess = {
+  step: string;
+  finished_at: string;
+  duration_ms: number;
+};
+
+export type OverdueJob = {
+  job: PipelineJob;
+  everyMinutes: number;
+  lastCompletedAt: string;
+};
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const MINUTE_MS = 60 * 1000;
+
+/** Runs still "running" after this long never finished (function timeout, crash, Ctrl-C). */
+const RUN_TIMEOUT_MINUTES: Record<PipelineJob, number> = {
+  process: 5,   // maxDuration 60s
+  source: 10,   // maxDuration 120s
+  monitor: 30,  // one monitor iteration
+};
+
+/** Cron jobs and how often each is scheduled, in minutes. */
+export function getScheduledJobs(): { job: PipelineJob; everyMinutes: number }[] {
+  return [
+    { job: "process", everyMinutes: readNumberEnv("PIPELINE_PROCESS_EVERY_MINUTES", 1440) },
+    { job: "source", everyMinutes: readNumberEnv("PIPELINE_SOURCE_EVERY_MINUTES", 1440) },
+  ];
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/** The finite numeric fields of a step result (nested objects and arrays are skipped). */
+function countsOf(result: unknown): Record<string, number> {
+  const counts: Record<string, number> = {};
+  if (!result || typeof result !== "object") return counts;
+  for (const [key, value] of Object.entries(result)) {
+    if (typeof value === "number" && Number.isFinite(value)) counts[key] = value;
+  }
+  return counts;
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Open a run. Returns its id, or null if it could not be recorded — the
+ * other recording functions accept null and do nothing.
+ */
+export async function startPipelineRun(
+  job: PipelineJob,
+  trigger: PipelineRunTrigger
+): Promise<string | null> {
+  const id = generateId();
+  try {
+    await db.execute({
+      sql: `INSERT INTO pipeline_runs (id, job, trigger, status, started_at)
+            VALUES (?, ?, ?, 'running', ?)`,
+      args: [id, job, trigger, new Date().toISOString()],
+    });
+    return id;
+  } catch (e) {
+    console.error(`[runs] Failed to record start of ${trigger} ${job} run:`, e);
+    return null;
+  }
+}
+
+async function insertStep(
+  runId: string,
+  step: string,
+  status: PipelineStepStatus,
+  startedAt: Date,
+  details: { counts?: Record<string, number>; error?: string | null; detail?: string | null }
+): Promise<void> {
+  const finishedAt = new Date();
+  try {
+    await db.execute({
+      sql: `INSERT INTO pipeline_run_steps
+              (id, run_id, step, status, counts, error, detail, started_at, finished_at, duration_ms)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        generateId(),
+        runId,
+        step,
+        status,
+        JSON.stringify(details.counts ?? {}),
+        details.error ?? null,
+        details.detail ?? null,
+        startedAt.toISOString(),
+        finishedAt.toISOString(),
+        finishedAt.getTime() - startedAt.getTime(),
+      ],
+    });
+  } catch (e) {
+    console.error(`[runs] Failed to record step ${step} of run ${runId}:`, e);
+  }
+}
+
+/**
+ * Run one step and record its duration, counts and outcome. The step's
+ * result is returned and its error rethrown, so callers keep their own
+ * error handling.
+ */
+export async function runPipelineStep<T>(
+  runId: string | null,
+  step: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const startedAt = new Date();
+  try {
+    const result = await fn();
+    if (runId) await insertStep(runId, step, "succeeded", startedAt, { counts: countsOf(result) });
+    return result;
+  } catch (e) {
+    if (runId) await insertStep(runId, step, "failed", startedAt, { error: errorMessage(e) });
+    throw e;
+  }
+}
+
+/** Record a step that was deliberately not run (e.g. its stage is paused). */
+export async function recordSkippedStep(
+  runId: string | null,
+  step: string,
+  reason: string
+): Promise<void> {
+  if (runId) await insertStep(runId, step, "skipped", new Date(), { detail: reason });
+}
+
+/**
+ * Close a run. Without an explicit status it is "failed" if any step
+ * failed, otherwise "succeeded".
+ */
+export async function finishPipelineRun(
+  runId: string | null,
+  outcome?: { status: Exclude<PipelineRunStatus, "running" | "timed_out">; detail?: string }
+): Promise<void> {
+  if (!runId) return;
+  try {
+    let status = outcome?.status;
+    let detail = outcome?.detail ?? null;
+
+    if (!status) {
+      const failed = await db.execute({
+        sql: "SELECT step FROM pipeline_run_steps WHERE run_id = ? AND status = 'failed'",
+        args: [runId],
+      });
+      const failedSteps = failed.rows.map((row) => row.step as string);
+      status = failedSteps.length > 0 ? "failed" : "succeeded";
+      if (failedSteps.length > 0) detail = `${failedSteps.length} step(s) failed: ${failedSteps.join(", ")}`;
+    }
+
+    const now = new Date().toISOString();
+    await db.execute({
+      sql: `UPDATE pipeline_runs
+            SET status = ?, detail = ?, finished_at = ?,
+                duration_ms = CAST((julianday(?) - julianday(started_at)) * 86400000 AS INTEGER)
+            WHERE id = ? AND status = 'running'`,
+      args: [status, detail, now, now, runId],
+    });
+  } catch (e) {
+    console.error(`[runs] Failed to record end of run ${runId}:`, e);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+function rowToStep(row: Record<string, unknown>): PipelineRunStep {
+  let counts: Record<string, number> = {};
+  try {
+    counts = JSON.parse((row.counts as string | null) ?? "{}");
+  } catch {
+    // Leave counts empty for a malformed row
+  }
+  return {
+    id: row.id as string,
+    run_id: row.run_id as string,
+    step: row.step as string,
+    status: row.status as PipelineStepStatus,
+    counts,
+    error: (row.error as string | null) ?? null,
+    detail: (row.detail as string | null) ?? null,
+    started_at: row.started_at as string,
+    finished_at: row.finished_at as string,
+    duration_ms: Number(row.duration_ms ?? 0),
+  };
+}
+
+async function withSteps(rows: Record<string, unknown>[]): Promise<PipelineRun[]> {
+  if (rows.length === 0) return [];
+
+  const ids = rows.map((row) => row.id as string);
+  const stepRows = await db.execute({
+    sql: `SELECT * FROM pipeline_run_steps WHERE run_id IN (${ids.map(() => "?").join(", ")})
+          ORDER BY started_at ASC`,
+    args: ids,
+  });
+  const stepsByRun = new Map<string, PipelineRunStep[]>();
+  for (const row of stepRows.rows) {
+    const step = rowToStep(row as Record<string, unknown>);
+    stepsByRun.set(step.run_id, [...(stepsByRun.get(step.run_id) ?? []), step]);
+  }
+
+  return rows.map((row) => ({
+    id: row.id as string,
+    job: row.job as PipelineJob,
+    trigger: row.trigger as PipelineRunTrigger,
+    status: row.status as PipelineRunStatus,
+    detail: (row.detail as string | null) ?? null,
+    started_at: row.started_at as string,
+    finished_at: (row.finished_at as string | null) ?? null,
+    duration_ms: row.duration_ms == null ? null : Number(row.duration_ms),
+    steps: stepsByRun.get(row.id as string) ?? [],
+  }));
+}
+
+/** Recent runs with their steps, newest first. */
+export async function listPipelineRuns(options?: {
+  job?: PipelineJob;
+  limit?: number;
+}): Promise<PipelineRun[]> {
+  const limit = options?.limit ?? 20;
+  const result = await db.execute({
+    sql: options?.job
+      ? "SELECT * FROM pipeline_runs WHERE job = ? ORDER BY started_at DESC LIMIT ?"
+      : "SELECT * FROM pipeline_runs ORDER BY started_at DESC LIMIT ?",
+    args: options?.job ? [options.job, limit] : [limit],
+  });
+  return withSteps(result.rows as unknown as Record<string, unknown>[]);
+}
+
+export async function getPipelineRun(id: string): Promise<PipelineRun | null> {
+  const result = await db.execute({
+    sql: "SELECT * FROM pipeline_runs WHERE id = ?",
+    args: [id],
+  });
+  const [run] = await withSteps(result.rows as unknown as Record<string, unknown>[]);
+  return run ?? null;
+}
+
+/** When each step last succeeded, and how long it took. */
+export async function getLastStepSuccesses(): Promise<StepLastSuccess[]> {
+  const result = await db.execute(
+    `SELECT step, finished_at, duration_ms FROM (
+       SELECT step, finished_at, duration_ms,
+              ROW_NUMBER() OVER (PARTITION BY step ORDER BY finished_at DESC) AS rn
+       FROM pipeline_run_steps WHERE status = 'succeeded'
+     ) WHERE rn = 1 ORDER BY step`
+  );
+  return result.rows.map((row) => ({
+    step: row.step as string,
+    finished_at: row.finished_at as string,
+    duration_ms: Number(row.duration_ms ?? 0),
+  }));
+}
+
+/**
+ * Scheduled jobs whose last completed cron run is more than twice their
+ * interval ago. A job that never completed is not reported (fresh install).
+ */
+export async function getOverdueJobs(): Promise<OverdueJob[]> {
+  const overdue: OverdueJob[] = [];
+  for (const { job, everyMinutes } of getScheduledJobs()) {
+    const result = await db.execute({
+      sql: `SELECT MAX(finished_at) AS last FROM pipeline_runs
+            WHERE job = ? AND trigger = 'cron' AND status NOT IN ('running', 'timed_out')`,
+      args: [job],
+    });
+    const last = (result.rows[0]?.last as string | null) ?? null;
+    if (!last) continue;
+    if (Date.now() - new Date(last).getTime() > 2 * everyMinutes * MINUTE_MS) {
+      overdue.push({ job, everyMinutes, lastCompletedAt: last });
+    }
+  }
+  return overdue;
+}
+
+// ---------------------------------------------------------------------------
+// Watchdog
+// ---------------------------------------------------------------------------
+
+/**
+ * Record the overdue alert for a job's lapse. Returns false if this lapse
+ * (same last completed run) was already alerted; a newer completed run
+ * starts a new lapse.
+ */
+async function claimOverdueAlert(o: OverdueJob): Promise<boolean> {
+  const result = await db.execute({
+    sql: `INSERT INTO pipeline_overdue_alerts (job, last_completed_at, alerted_at)
+          VALUES (?, ?, ?)
+          ON CONFLICT(job) DO UPDATE SET
+            last_completed_at = excluded.last_completed_at,
+            alerted_at = excluded.alerted_at
+          WHERE pipeline_overdue_alerts.last_completed_at <> excluded.last_completed_at`,
+    args: [o.job, o.lastCompletedAt, new Date().toISOString()],
+  });
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Mark runs that never finished as timed_out (alerting for cron runs) and
+ * alert once for each scheduled job that has become overdue.
+ */
+export async function checkOverdueRuns(): Promise<{ timedOut: number; overdue: OverdueJob[] }> {
+  let timedOut = 0;
+
+  for (const [job, minutes] of Object.entries(RUN_TIMEOUT_MINUTES) as [PipelineJob, number][]) {
+    const cutoff = new Date(Date.now() - minutes * MINUTE_MS).toISOString();
+    const stale = await db.execute({
+      sql: `SELECT id, trigger, started_at FROM pipeline_runs
+            WHERE job = ? AND status = 'running' AND started_at < ?`,
+      args: [job, cutoff],
+    });
+
+    for (const row of stale.rows) {
+      await db.execute({
+        sql: `UPDATE pipeline_runs SET status = 'timed_out', finished_at = ?, detail = ?
+              WHERE id = ? AND status = 'running'`,
+        args: [new Date().toISOString(), `No result after ${minutes} min`, row.id as string],
+      });
+      timedOut++;
+      if (row.trigger === "cron") {
+        await sendAlert(
+          `Pipeline ${job} run ${row.id} started at ${row.started_at} never finished (timed out or crashed). Check the function logs.`,
+          "critical"
+        );
+      }
+    }
+  }
+
+  const overdue = await getOverdueJobs();
+  for (const o of overdue) {
+    if (!(await claimOverdueAlert(o))) continue;
+    await sendAlert(
+      `Scheduled pipeline ${o.job} run is overdue: last completed ${o.lastCompletedAt}, expected every ${o.everyMinutes} min. Check the cron schedule and logs.`,
+      "critical"
+    );
+  }
+
+  return { timedOut, overdue };
+}
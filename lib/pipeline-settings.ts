@@ -0,0 +1,400 @@
+/**
+ * Pipeline Settings — runtime-editable guardrails for the dropship pipeline.
+ *
+ * Each setting has a typed default and hard bounds. Overrides live in
+ * `pipeline_settings`; every change (and reset) is written to
+ * `pipeline_settings_audit` with who made it and why, and echoed as an info
+ * alert. A value outside its bounds is refused, so a typo can tighten a
+ * guard but never switch it off. The bounds stay close to the constants the
+ * guards used before they were editable. An override that is somehow invalid
+ * in the database (edited by hand, or outside bounds tightened since) is
+ * ignored in favour of its default, and a warning alert is sent once per
+ * process; so are overrides that contradict each other.
+ *
+ * Used by:
+ *  - app/api/cron/process/route.ts — daily spend cap, margin floor
+ *  - lib/pipeline.ts handleStuckLots() — stuck-lot thresholds
+ *  - lib/dropship-fulfillment.ts — supplier price-change limit
+ *
+ * Edited with `pnpm pipeline:settings` or the /admin/settings console.
+ */
+
+import { db, generateId } from "@/lib/turso";
+import { sendAlert } from "@/lib/alerts";
+
+// ---------------------------------------------------------------------------
+// Definitions
+// ---------------------------------------------------------------------------
+
+type SettingDefinition = {
+  label: string;
+  description: string;
+  unit: "cents" | "percent" | "minutes";
+  defaultValue: number;
+  min: number;
+  max: number;
+  integer: boolean;
+};
+
+export type PipelineSettingKey =
+  | "daily_spend_cap_cents"
+  | "margin_floor_percent"
+  | "max_price_increase_percent"
+  | "stuck_auction_closed_minutes"
+  | "stuck_paid_minutes"
+  | "stuck_cj_ordered_minutes"
+  | "stuck_alert_minutes";
+
+export const PIPELINE_SETTINGS: Record<PipelineSettingKey, SettingDefinition> = {
+  daily_spend_cap_cents: {
+    label: "Daily spend cap",
+    description: "Cron halts once today's supplier spend exceeds this",
+    unit: "cents",
+    defaultValue: 50000,
+    min: 0,
+    max: 150_000,
+    integer: true,
+  },
+  margin_floor_percent: {
+    label: "Margin floor",
+    description: "Cron halts when the overall profit margin drops below this",
+    unit: "percent",
+    defaultValue: -5,
+    min: -10,
+    max: 30,
+    integer: false,
+  },
+  max_price_increase_percent: {
+    label: "Supplier price-change limit",
+    description: "Fulfillment stops (CJ_PRICE_CHANGED) when the supplier cost rose more than this since sourcing",
+    unit: "percent",
+    defaultValue: 20,
+    min: 0,
+    max: 40,
+    integer: false,
+  },
+  stuck_auction_closed_minutes: {
+    label: "Stuck AUCTION_CLOSED after",
+    description: "Re-run closed-sale processing for lots idle this long",
+    unit: "minutes",
+    defaultValue: 30,
+    min: 5,
+    max: 720,
+    integer: true,
+  },
+  stuck_paid_minutes: {
+    label: "Stuck PAID after",
+    description: "Retry fulfillment for lots idle this long",
+    unit: "minutes",
+    defaultValue: 30,
+    min: 5,
+    max: 720,
+    integer: true,
+  },
+  stuck_cj_ordered_minutes: {
+    label: "Stuck CJ_ORDERED after",
+    description: "Check the supplier order for lots idle this long",
+    unit: "minutes",
+    defaultValue: 120,
+    min: 15,
+    max: 1440,
+    integer: true,
+  },
+  stuck_alert_minutes: {
+    label: "Stuck-lot alert after",
+    description: "Critical alert for any of those lots idle this long; at least the recovery thresholds",
+    unit: "minutes",
+    defaultValue: 240,
+    min: 30,
+    max: 2880,
+    integer: true,
+  },
+};
+
+export type PipelineSettings = Record<PipelineSettingKey, number>;
+
+export type PipelineSettingActor = "cli" | "system" | `operator:${string}`;
+
+export type PipelineSettingView = {
+  key: PipelineSettingKey;
+  label: string;
+  description: string;
+  unit: SettingDefinition["unit"];
+  value: number;
+  default_value: number;
+  min: number;
+  max: number;
+  /** Null while the default applies. */
+  updated_by: string | null;
+  updated_at: string | null;
+};
+
+export type PipelineSettingAuditEntry = {
+  id: string;
+  key: string;
+  /** Null when the default applied before the change. */
+  old_value: number | null;
+  /** Null when the change was a reset to the default. */
+  new_value: number | null;
+  actor: string;
+  reason: string;
+  created_at: string;
+};
+
+/** A setting change that was refused. Nothing was written. */
+export class InvalidPipelineSettingError extends Error {
+  constructor(
+    readonly key: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "InvalidPipelineSettingError";
+  }
+}
+
+const STUCK_RECOVERY_KEYS: PipelineSettingKey[] = [
+  "stuck_auction_closed_minutes",
+  "stuck_paid_minutes",
+  "stuck_cj_ordered_minutes",
+];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export function isPipelineSettingKey(value: string): value is PipelineSettingKey {
+  return Object.prototype.hasOwnProperty.call(PIPELINE_SETTINGS, value);
+}
+
+/** Human-readable value, e.g. "$500.00", "-5%", "30 min". */
+export function formatPipelineSetting(key: PipelineSettingKey, value: number): string {
+  const unit = PIPELINE_SETTINGS[key].unit;
+  if (unit === "cents") return `$${(value / 100).toFixed(2)}`;
+  if (unit === "percent") return `${value}%`;
+  return `${value} min`;
+}
+
+/** Parse and bounds-check one value. Throws InvalidPipelineSettingError. */
+export function parsePipelineSetting(key: PipelineSettingKey, raw: string | number): number {
+  const def = PIPELINE_SETTINGS[key];
+  const value = typeof raw === "number" ? raw : Number(raw.trim());
+
+  if (typeof raw === "string" && !raw.trim()) {
+    throw new InvalidPipelineSettingError(key, `${key} needs a value`);
+  }
+  if (!Number.isFinite(value)) {
+    throw new InvalidPipelineSettingError(key, `${key} must be a number, got "${raw}"`);
+  }
+  if (def.integer && !Number.isInteger(value)) {
+    throw new InvalidPipelineSettingError(key, `${key} must be a whole number, got ${value}`);
+  }
+  if (value < def.min || value > def.max) {
+    throw new InvalidPipelineSettingError(
+      key,
+      `${key} must be between ${formatPipelineSetting(key, def.min)} and ${formatPipelineSetting(key, def.max)}, got ${formatPipelineSetting(key, value)}`
+    );
+  }
+  return value;
+}
+
+type SettingConflict = { keys: PipelineSettingKey[]; message: string };
+
+/** Rules spanning several settings. Returns the first conflict, or null. */
+function checkConsistency(settings: PipelineSettings): SettingConflict | null {
+  for (const key of STUCK_RECOVERY_KEYS) {
+    if (settings.stuck_alert_minutes < settings[key]) {
+      return {
+        keys: ["stuck_alert_minutes", key],
+        message: `stuck_alert_minutes (${settings.stuck_alert_minutes}) can't be below ${key} (${settings[key]}) — lots would alert before recovery is tried`,
+      };
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+type StoredSetting = { value: number; updated_by: string; updated_at: string };
+
+const alertedProblems = new Set<string>();
+
+/** Warn about stored overrides that are being ignored; alerts once per process. */
+async function reportIgnoredOverrides(message: string): Promise<void> {
+  console.warn(`[settings] ${message}`);
+  if (alertedProblems.has(message)) return;
+  alertedProblems.add(message);
+  await sendAlert(`Pipeline settings: ${message}. Fix them with \`pnpm pipeline:settings\`.`, "warning");
+}
+
+async function getStoredSettings(): Promise<Map<PipelineSettingKey, StoredSetting>> {
+  const result = await db.execute("SELECT key, value, updated_by, updated_at FROM pipeline_settings");
+  const stored = new Map<PipelineSettingKey, StoredSetting>();
+
+  for (const row of result.rows) {
+    const key = row.key as string;
+    if (!isPipelineSettingKey(key)) continue;
+    try {
+      stored.set(key, {
+        value: parsePipelineSetting(key, String(row.value)),
+        updated_by: row.updated_by as string,
+        updated_at: row.updated_at as string,
+      });
+    } catch (e) {
+      await reportIgnoredOverrides(`ignoring stored ${key}="${row.value}", using its default: ${(e as Error).message}`);
+    }
+  }
+
+  return stored;
+}
+
+/** The built-in value of every setting, ignoring overrides. */
+export function defaultPipelineSettings(): PipelineSettings {
+  return Object.fromEntries(
+    Object.entries(PIPELINE_SETTINGS).map(([key, def]) => [key, def.defaultValue])
+  ) as PipelineSettings;
+}
+
+/**
+ * Current guardrail values (stored override or default). Overrides that
+ * contradict each other fall back to their defaults; the rest still apply.
+ */
+export async function getPipelineSettings(): Promise<PipelineSettings> {
+  const settings = defaultPipelineSettings();
+  const overridden = new Set<PipelineSettingKey>();
+  for (const [key, stored] of await getStoredSettings()) {
+    settings[key] = stored.value;
+    overridden.add(key);
+  }
+
+  // Drop the conflicting overrides only, until what's left is consistent
+  for (let conflict = checkConsistency(settings); conflict; conflict = checkConsistency(settings)) {
+    const dropped = conflict.keys.filter((key) => overridden.delete(key));
+    if (dropped.length === 0) break; // the defaults themselves never conflict
+    for (const key of dropped) settings[key] = PIPELINE_SETTINGS[key].defaultValue;
+    await reportIgnoredOverrides(`${conflict.message}; using the default for ${dropped.join(", ")}`);
+  }
+  return settings;
+}
+
+/** Every setting with its definition, current value and last change. */
+export async function listPipelineSettings(): Promise<PipelineSettingView[]> {
+  const stored = await getStoredSettings();
+  const current = await getPipelineSettings();
+
+  return (Object.keys(PIPELINE_SETTINGS) as PipelineSettingKey[]).map((key) => {
+    const def = PIPELINE_SETTINGS[key];
+    return {
+      key,
+      label: def.label,
+      description: def.description,
+      unit: def.unit,
+      value: current[key],
+      default_value: def.defaultValue,
+      min: def.min,
+      max: def.max,
+      updated_by: stored.get(key)?.updated_by ?? null,
+      updated_at: stored.get(key)?.updated_at ?? null,
+    };
+  });
+}
+
+/** Setting changes, newest first. */
+export async function getPipelineSettingsAudit(limit = 50): Promise<PipelineSettingAuditEntry[]> {
+  const result = await db.execute({
+    sql: "SELECT * FROM pipeline_settings_audit ORDER BY created_at DESC LIMIT ?",
+    args: [limit],
+  });
+
+  return result.rows.map((row) => ({
+    id: row.id as string,
+    key: row.key as string,
+    old_value: row.old_value == null ? null : Number(row.old_value),
+    new_value: row.new_value == null ? null : Number(row.new_value),
+    actor: row.actor as string,
+    reason: row.reason as string,
+    created_at: row.created_at as string,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+async function writeSetting(
+  key: PipelineSettingKey,
+  newValue: number | null,
+  context: { actor: PipelineSettingActor; reason: string }
+): Promise<PipelineSettingView> {
+  const reason = context.reason.trim();
+  if (!reason) {
+    throw new InvalidPipelineSettingError(key, "A reason is required to change a pipeline setting");
+  }
+
+  const stored = await getStoredSettings();
+  const current = await getPipelineSettings();
+  const next = { ...current, [key]: newValue ?? PIPELINE_SETTINGS[key].defaultValue };
+  const conflict = checkConsistency(next);
+  if (conflict) throw new InvalidPipelineSettingError(key, conflict.message);
+
+  const oldValue = stored.get(key)?.value ?? null;
+  const now = new Date().toISOString();
+
+  await db.batch([
+    newValue === null
+      ? { sql: "DELETE FROM pipeline_settings WHERE key = ?", args: [key] }
+      : {
+          sql: `INSERT INTO pipeline_settings (key, value, updated_by, updated_at)
+                VALUES (?, ?, ?, ?)
+                ON CONFLICT(key) DO UPDATE SET
+                  value = excluded.value,
+                  updated_by = excluded.updated_by,
+                  updated_at = excluded.updated_at`,
+          args: [key, String(newValue), context.actor, now],
+        },
+    {
+      sql: `INSERT INTO pipeline_settings_audit (id, key, old_value, new_value, actor, reason, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        generateId(),
+        key,
+        oldValue === null ? null : String(oldValue),
+        newValue === null ? null : String(newValue),
+        context.actor,
+        reason,
+        now,
+      ],
+    },
+  ], "write");
+
+  const from = formatPipelineSetting(key, current[key]);
+  const to = newValue === null
+    ? `default ${formatPipelineSetting(key, PIPELINE_SETTINGS[key].defaultValue)}`
+    : formatPipelineSetting(key, newValue);
+  console.log(`[settings] ${context.actor} set ${key}: ${from} → ${to} (${reason})`);
+  await sendAlert(`Pipeline setting ${key} changed ${from} → ${to} by ${context.actor}. Reason: ${reason}`, "info");
+
+  const view = (await listPipelineSettings()).find((s) => s.key === key);
+  return view as PipelineSettingView;
+}
+
+/**
+ * Override a guardrail. The value is bounds-checked and must be consistent
+ * with the other settings; throws InvalidPipelineSettingError otherwise.
+ */
+export async function setPipelineSetting(
+  key: PipelineSettingKey,
+  raw: string | number,
+  context: { actor: PipelineSettingActor; reason: string }
+): Promise<PipelineSettingView> {
+  return writeSetting(key, parsePipelineSetting(key, raw), context);
+}
+
+/** Drop the override so the default applies again. */
+export async function resetPipelineSetting(
+  key: PipelineSettingKey,
+  context: { actor: PipelineSettingActor; reason: string }
+): Promise<PipelineSettingView> {
+  return writeSetting(key, null, context);
+}
@@ -0,0 +1,154 @@
+/**
+ * Pipeline Switches — per-stage kill switches for the dropship pipeline.
+ *
+ * Each stage can be paused independently while a supplier or payment
+ * provider misbehaves. A paused stage is skipped (not failed) by every
+ * caller; its lots wait in their current status and are picked up by the
+ * next cron run after the stage is resumed. The row in `pipeline_switches`
+ * records who made the last change and why; every toggle is also sent as a
+ * warning alert.
+ *
+ * Callers fail closed: if the switches can't be read, a stage is treated as
+ * paused (the process cron skips every stage step; everything else errors
+ * out and leaves its lots for a later cron run).
+ *
+ * Stages and where they are checked:
+ *  - sourcing     — app/api/cron/source/route.ts, orchestrate source/run
+ *  - publishing   — runAutoSource() builds no sale (a draft would strand its lots)
+ *  - closed_sales — pollAndProcessClosedSales() callers (cron, monitor, stuck
+ *                   lots), the Basta close webhook and the cron's
+ *                   unpaid-invoice step
+ *  - fulfillment  — retryFailedFulfillments() callers and the Stripe webhook
+ *  - refunds      — processRefunds() callers
+ *
+ * Edited with `pnpm pipeline:switches` or the /admin/settings console.
+ */
+
+import { db } from "@/lib/turso";
+import { sendAlert } from "@/lib/alerts";
+
+export const PIPELINE_STAGES = {
+  sourcing: "Sourcing new products from the supplier",
+  publishing: "Publishing sourced sales on Basta",
+  closed_sales: "Processing closed sales (winners, invoices, unpaid-invoice follow-up)",
+  fulfillment: "Placing supplier orders for paid lots",
+  refunds: "Refunding lots the supplier could not fill",
+} as const;
+
+export type PipelineStage = keyof typeof PIPELINE_STAGES;
+
+export type PipelineSwitchActor = "cli" | "system" | `operator:${string}`;
+
+export type PipelineSwitch = {
+  stage: PipelineStage;
+  description: string;
+  paused: boolean;
+  /** Who made the last change; null if the stage was never toggled. */
+  updated_by: string | null;
+  reason: string | null;
+  updated_at: string | null;
+};
+
+/** A switch change that was refused. Nothing was written. */
+export class InvalidPipelineSwitchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPipelineSwitchError";
+  }
+}
+
+export function isPipelineStage(value: string): value is PipelineStage {
+  return Object.prototype.hasOwnProperty.call(PIPELINE_STAGES, value);
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+/** Every stage with its current state (unknown stages in the table are ignored). */
+export async function listPipelineSwitches(): Promise<PipelineSwitch[]> {
+  const result = await db.execute(
+    "SELECT stage, paused, updated_by, reason, updated_at FROM pipeline_switches"
+  );
+  const rows = new Map(result.rows.map((row) => [row.stage as string, row]));
+
+  return (Object.keys(PIPELINE_STAGES) as PipelineStage[]).map((stage) => {
+    const row = rows.get(stage);
+    return {
+      stage,
+      description: PIPELINE_STAGES[stage],
+      paused: Number(row?.paused ?? 0) === 1,
+      updated_by: (row?.updated_by as string | undefined) ?? null,
+      reason: (row?.reason as string | undefined) ?? null,
+      updated_at: (row?.updated_at as string | undefined) ?? null,
+    };
+  });
+}
+
+/** Paused stages keyed by stage, for callers that check several. */
+export async function getPausedStages(): Promise<Map<PipelineStage, PipelineSwitch>> {
+  const paused = new Map<PipelineStage, PipelineSwitch>();
+  for (const s of await listPipelineSwitches()) {
+    if (s.paused) paused.set(s.stage, s);
+  }
+  return paused;
+}
+
+/** The switch if the stage is paused, otherwise null. */
+export async function getStagePause(stage: PipelineStage): Promise<PipelineSwitch | null> {
+  return (await getPausedStages()).get(stage) ?? null;
+}
+
+/** One-line description of a pause for logs and skipped-step results. */
+export function describePause(s: PipelineSwitch): string {
+  return `${s.stage} paused by ${s.updated_by ?? "unknown"}${s.reason ? ` (${s.reason})` : ""}`;
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+async function setSwitch(
+  stage: PipelineStage,
+  paused: boolean,
+  context: { actor: PipelineSwitchActor; reason: string }
+): Promise<PipelineSwitch> {
+  const reason = context.reason.trim();
+  if (!reason) {
+    throw new InvalidPipelineSwitchError(`A reason is required to ${paused ? "pause" : "resume"} ${stage}`);
+  }
+
+  await db.execute({
+    sql: `INSERT INTO pipeline_switches (stage, paused, updated_by, reason, updated_at)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT(stage) DO UPDATE SET
+            paused = excluded.paused,
+            updated_by = excluded.updated_by,
+            reason = excluded.reason,
+            updated_at = excluded.updated_at`,
+    args: [stage, paused ? 1 : 0, context.actor, reason, new Date().toISOString()],
+  });
+
+  const verb = paused ? "PAUSED" : "resumed";
+  console.log(`[switches] ${context.actor} ${verb} ${stage} (${reason})`);
+  await sendAlert(`Pipeline stage ${stage} ${verb} by ${context.actor}. Reason: ${reason}`, "warning");
+
+  const updated = (await listPipelineSwitches()).find((s) => s.stage === stage);
+  return updated as PipelineSwitch;
+}
+
+/** Stop a stage until it is resumed. Pausing a paused stage updates the reason. */
+export async function pausePipelineStage(
+  stage: PipelineStage,
+  context: { actor: PipelineSwitchActor; reason: string }
+): Promise<PipelineSwitch> {
+  return setSwitch(stage, true, context);
+}
+
+/** Let a paused stage run again from the next cron cycle. */
+export async function resumePipelineStage(
+  stage: PipelineStage,
+  context: { actor: PipelineSwitchActor; reason: string }
+): Promise<PipelineSwitch> {
+  return setSwitch(stage, false, context);
+}
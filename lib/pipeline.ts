@@ -10,21 +10,69 @@
 
 import { getManagementApiClient, getAccountId } from "@/lib/basta-client";
 import { getCJClient } from "@/lib/cj-client";
+import { DEFAULT_SUPPLIER_ID, getSupplier, type Supplier, type SupplierId } from "@/lib/supplier";
 import { processClosedItems, clearAccountFeesCache } from "@/lib/order-service";
-import { getProcessedItemIds } from "@/lib/db";
+import { stripe } from "@/lib/stripe";
+import {
+  getPaymentOrderItemIds,
+  getProcessedItemIds,
+  getSecondChanceOfferByItemId,
+  getSecondChanceOffersByStatus,
+  getUnpaidPaymentOrders,
+  hasInvoiceAttempt,
+  type PaymentOrder,
+} from "@/lib/db";
 import {
   insertDropshipLot,
   getDropshipLotByBastaItem,
   getDropshipLotsByStatus,
   getAllDropshipLots,
+  InvalidTransitionError,
+  LotConflictError,
+  transitionDropshipLot,
   updateDropshipLot,
   type DropshipLot,
   type DropshipLotStatus,
+  type LotEventActor,
 } from "@/lib/dropship";
 import { fulfillAllPaidLots } from "@/lib/dropship-fulfillment";
 import { refundAllFailedLots, type BatchRefundSummary } from "@/lib/dropship-refund";
+import { syncShippedLots, type TrackingSyncResult } from "@/lib/shipment-tracking";
+import {
+  formatShipsTo,
+  getDestinationCountries,
+  priceDestinations,
+  quoteDestinationFreight,
+  getLotShippingQuotes,
+  saveLotShippingQuotes,
+  type DestinationFreight,
+} from "@/lib/lot-shipping";
+import { getQueuedRelists, relistUnsoldLots, type RelistResult } from "@/lib/relist";
+import {
+  checkProductRules,
+  checkVariantRules,
+  countSourcingRules,
+  loadSourcingRules,
+  pickWarehouse,
+  recordSourcingRejection,
+  type SourcingRejection,
+  type SourcingRuleSet,
+} from "@/lib/sourcing-rules";
+import {
+  addHours,
+  expireSecondChanceOffer,
+  getUnpaidInvoiceWindows,
+  offerToUnderbidder,
+  retryInvoicePayment,
+  voidUnpaidOrder,
+  markOrderVoided,
+} from "@/lib/unpaid-invoices";
 import { sendAlert } from "@/lib/alerts";
+import { getPipelineSettings } from "@/lib/pipeline-settings";
+import { describePause, getPausedStages, getStagePause, type PipelineStage } from "@/lib/pipeline-switches";
+import { describeLock, withPipelineLock } from "@/lib/pipeline-locks";
 import { computePricing } from "@/lib/auction-pricing";
+import { mirrorImages } from "@/lib/media-mirror";
 import {
   DEFAULT_BID_INCREMENT_RULES,
   DEFAULT_BUYER_PREMIUM_RATE,
@@ -91,11 +139,24 @@ export type QuotaReport = {
   healthy: boolean;
 };
 
+export type UnpaidInvoiceResult = {
+  checked: number;        // invoiced orders past the retry window
+  recovered: number;      // retry charge succeeded
+  reminded: number;       // retry failed, buyer emailed
+  expired: number;        // voided at the final deadline
+  offered: number;        // items offered to an underbidder
+  offersExpired: number;  // second-chance offers that lapsed
+};
+
 export type StuckLotResult = {
   auctionClosedRetried: number;
   paidRetried: number;
   cjOrderedChecked: number;
   alertsSent: number;
+  /** Paused stages whose recovery (and stuck alerts) were skipped. */
+  pausedStages: PipelineStage[];
+  /** Stages another run held the lock for; their recovery was left to it. */
+  lockedStages: PipelineStage[];
 };
 
 // ---------------------------------------------------------------------------
@@ -260,8 +321,10 @@ export async function getSaleStatus(
  */
 export async function pollAndProcessClosedSales(options?: {
   dryRun?: boolean;
+  actor?: LotEventActor;
 }): Promise<PollResult> {
   const dryRun = options?.dryRun ?? false;
+  const actor = options?.actor ?? "system";
 
   console.log("[poll] Starting poll for closed sales...");
   if (dryRun) console.log("[poll] DRY RUN mode — no processing will occur.");
@@ -309,7 +372,7 @@ export async function pollAndProcessClosedSales(options?: {
         try {
           const lot = await getDropshipLotByBastaItem(item.id);
           if (lot && lot.status !== "RESERVE_NOT_MET") {
-            await updateDropshipLot(lot.id, { status: "RESERVE_NOT_MET" });
+            await updateDropshipLot(lot.id, { status: "RESERVE_NOT_MET" }, { actor });
             console.log(`[poll]     Updated dropship lot ${lot.id} → RESERVE_NOT_MET`);
           }
         } catch (e) {
@@ -338,7 +401,7 @@ export async function pollAndProcessClosedSales(options?: {
         try {
           const lot = await getDropshipLotByBastaItem(item.id);
           if (lot && lot.status !== "RESERVE_NOT_MET") {
-            await updateDropshipLot(lot.id, { status: "RESERVE_NOT_MET" });
+            await updateDropshipLot(lot.id, { status: "RESERVE_NOT_MET" }, { actor });
             console.log(`[poll]     Updated dropship lot ${lot.id} → RESERVE_NOT_MET`);
           }
         } catch (e) {
@@ -386,16 +449,17 @@ export async function pollAndProcessClosedSales(options?: {
       continue;
     }
 
-    // Update dropship lots with winner info
+    // Update dropship lots with winner info; a lot the webhook already
+    // closed has left PUBLISHED and is left alone
     for (const item of closedItems) {
       try {
         const lot = await getDropshipLotByBastaItem(item.itemId);
-        if (lot) {
+        if (lot?.status === "PUBLISHED") {
           await updateDropshipLot(lot.id, {
             winner_user_id: item.leaderId,
             winning_bid_cents: item.currentBid,
             status: "AUCTION_CLOSED",
-          });
+          }, { actor });
           console.log(
             `[poll]     Updated dropship lot ${lot.id} → AUCTION_CLOSED (winner: ${item.leaderId})`
           );
@@ -438,34 +502,257 @@ export async function pollAndProcessClosedSales(options?: {
 /**
  * Retry fulfillment for all PAID lots that haven't been sent to CJ yet.
  */
-export async function retryFailedFulfillments(): Promise<{ processed: number }> {
+export async function retryFailedFulfillments(options?: {
+  actor?: LotEventActor;
+}): Promise<{ processed: number }> {
   console.log("[fulfill] Retrying failed fulfillments...");
   const paidLots = await getDropshipLotsByStatus("PAID");
   console.log(`[fulfill] Found ${paidLots.length} PAID lot(s) to retry.`);
 
   if (paidLots.length === 0) return { processed: 0 };
 
-  await fulfillAllPaidLots();
+  await fulfillAllPaidLots(options?.actor);
   return { processed: paidLots.length };
 }
 
 /**
  * Process refunds for all CJ-failed lots (CJ_OUT_OF_STOCK, CJ_PRICE_CHANGED).
  */
-export async function processRefunds(): Promise<BatchRefundSummary> {
+export async function processRefunds(options?: {
+  actor?: LotEventActor;
+}): Promise<BatchRefundSummary> {
   console.log("[refund] Processing refunds for failed lots...");
-  const summary = await refundAllFailedLots();
+  const summary = await refundAllFailedLots(options?.actor);
   return summary;
 }
 
+/**
+ * Sync carrier tracking for SHIPPED lots: record checkpoints, mark
+ * delivered lots DELIVERED, alert on parcels with no recent scan.
+ */
+export async function syncShipmentTracking(options?: {
+  actor?: LotEventActor;
+}): Promise<TrackingSyncResult> {
+  return syncShippedLots(options?.actor);
+}
+
+/**
+ * Reprice RESERVE_NOT_MET lots that have relists left and queue them for
+ * the next auto-source sale.
+ */
+export async function relistUnsoldDropshipLots(options?: {
+  actor?: LotEventActor;
+}): Promise<RelistResult> {
+  return relistUnsoldLots(options?.actor);
+}
+
+// ---------------------------------------------------------------------------
+// Unpaid invoices
+// ---------------------------------------------------------------------------
+
+/**
+ * Time out invoices the winner never paid.
+ *
+ * - Past UNPAID_INVOICE_RETRY_HOURS → retry the charge once, email a reminder
+ * - Past UNPAID_INVOICE_DEADLINE_HOURS → void the invoice, move dropship lots
+ *   AUCTION_CLOSED → PAYMENT_FAILED, offer each item to the underbidder
+ * - Second-chance offers past the same deadline → void and alert
+ */
+export async function processUnpaidInvoices(options?: {
+  dryRun?: boolean;
+  actor?: LotEventActor;
+}): Promise<UnpaidInvoiceResult> {
+  const dryRun = options?.dryRun ?? false;
+  const actor = options?.actor ?? "system";
+  const { retryAfterHours, deadlineHours } = getUnpaidInvoiceWindows();
+
+  console.log(
+    `[unpaid] Checking unpaid invoices (retry after ${retryAfterHours}h, deadline ${deadlineHours}h)...`
+  );
+  if (dryRun) console.log("[unpaid] DRY RUN mode — nothing will be charged, voided, or offered.");
+
+  const now = Date.now();
+  const orders = await getUnpaidPaymentOrders(
+    new Date(now - retryAfterHours * 60 * 60 * 1000).toISOString()
+  );
+
+  const result: UnpaidInvoiceResult = {
+    checked: orders.length,
+    recovered: 0,
+    reminded: 0,
+    expired: 0,
+    offered: 0,
+    offersExpired: 0,
+  };
+
+  for (const order of orders) {
+    const invoiceId = order.stripe_invoice_id as string;
+    try {
+      const invoice = await stripe.invoices.retrieve(invoiceId);
+
+      if (invoice.status === "paid") {
+        console.warn(
+          `[unpaid] Invoice ${invoiceId} is paid but order ${order.basta_order_id} is still ${order.status} — check Stripe webhook delivery`
+        );
+        continue;
+      }
+      if (invoice.status === "void") {
+        // Voided by an earlier run that failed before every item was
+        // re-offered, or by hand in Stripe: finish the re-offers
+        console.log(`[unpaid] Invoice ${invoiceId} is already void — re-offering order ${order.basta_order_id}`);
+        if (dryRun) continue;
+
+        result.offered += await reofferUnpaidItems(order, {
+          invoiceId,
+          currency: invoice.currency.toUpperCase(),
+          deadlineHours,
+          actor,
+        });
+        await markOrderVoided(order, invoiceId);
+        continue;
+      }
+
+      const deadline = addHours(order.created_at, deadlineHours);
+
+      if (now >= deadline.getTime()) {
+        console.log(`[unpaid] Order ${order.basta_order_id} passed its deadline — voiding invoice ${invoiceId}`);
+        result.expired++;
+        if (dryRun) continue;
+
+        await voidUnpaidOrder(order, invoiceId);
+        result.offered += await reofferUnpaidItems(order, {
+          invoiceId,
+          currency: invoice.currency.toUpperCase(),
+          deadlineHours,
+          actor,
+        });
+        await markOrderVoided(order, invoiceId);
+        continue;
+      }
+
+      if (await hasInvoiceAttempt(order.basta_order_id, "PAYMENT_RETRIED")) continue;
+
+      console.log(`[unpaid] Retrying payment for order ${order.basta_order_id} (invoice ${invoiceId})`);
+      if (dryRun) continue;
+
+      const outcome = await retryInvoicePayment(order, invoiceId, deadline);
+      if (outcome === "paid") result.recovered++;
+      else result.reminded++;
+    } catch (e) {
+      console.error(`[unpaid] Failed to process order ${order.basta_order_id}:`, e);
+      await sendAlert(
+        `Unpaid invoice ${invoiceId} (order ${order.basta_order_id}) could not be processed: ${e instanceof Error ? e.message : String(e)}`,
+        "warning"
+      );
+    }
+  }
+
+  const offers = await getSecondChanceOffersByStatus("OFFERED");
+  for (const offer of offers) {
+    if (now < addHours(offer.created_at, deadlineHours).getTime()) continue;
+
+    console.log(`[unpaid] Second-chance offer ${offer.id} for item ${offer.item_id} passed its deadline`);
+    if (dryRun) continue;
+
+    try {
+      const outcome = await expireSecondChanceOffer(offer);
+      if (outcome === "paid") continue;
+
+      result.offersExpired++;
+      const lot = await getDropshipLotByBastaItem(offer.item_id);
+      await sendAlert(
+        `Second-chance offer for item ${offer.item_id} lapsed unpaid` +
+          (lot ? ` — lot ${lot.id} ("${lot.cj_product_name}") stays PAYMENT_FAILED; cancel it in /admin/lots.` : "."),
+        "warning"
+      );
+    } catch (e) {
+      console.error(`[unpaid] Failed to expire offer ${offer.id}:`, e);
+      await sendAlert(
+        `Second-chance offer ${offer.id} (invoice ${offer.stripe_invoice_id}) could not be expired: ${e instanceof Error ? e.message : String(e)}`,
+        "warning"
+      );
+    }
+  }
+
+  console.log(
+    `[unpaid] Done — checked=${result.checked} recovered=${result.recovered} ` +
+      `reminded=${result.reminded} expired=${result.expired} offered=${result.offered} ` +
+      `offersExpired=${result.offersExpired}`
+  );
+
+  return result;
+}
+
+/**
+ * After an order is voided: fail its dropship lots and offer every item to
+ * the underbidder. Items that already have an offer are skipped, so a pass
+ * that failed part-way can simply be run again. Returns the number of
+ * offers made.
+ */
+async function reofferUnpaidItems(
+  order: PaymentOrder,
+  params: {
+    invoiceId: string;
+    currency: string;
+    deadlineHours: number;
+    actor: LotEventActor;
+  }
+): Promise<number> {
+  const reason = `Invoice ${params.invoiceId} unpaid after ${params.deadlineHours}h — voided`;
+  let offered = 0;
+
+  for (const itemId of await getPaymentOrderItemIds(order.basta_order_id)) {
+    if (await getSecondChanceOfferByItemId(itemId)) continue;
+
+    const lot = await getDropshipLotByBastaItem(itemId);
+
+    if (lot && lot.status !== "PAYMENT_FAILED") {
+      try {
+        await transitionDropshipLot(lot.id, {
+          from: "AUCTION_CLOSED",
+          to: "PAYMENT_FAILED",
+          expectedUpdatedAt: lot.updated_at,
+          updates: { error_message: reason },
+        }, {
+          actor: params.actor,
+          reason,
+          payload: { bastaOrderId: order.basta_order_id, stripeInvoiceId: params.invoiceId },
+        });
+        console.log(`[unpaid] Lot ${lot.id} → PAYMENT_FAILED`);
+      } catch (e) {
+        if (!(e instanceof LotConflictError || e instanceof InvalidTransitionError)) throw e;
+        console.warn(`[unpaid] Not re-offering lot ${lot.id}: ${e.message}`);
+        continue;
+      }
+    }
+
+    const offer = await offerToUnderbidder({
+      order,
+      itemId,
+      currency: params.currency,
+      productName: lot?.cj_product_name,
+      deadlineHours: params.deadlineHours,
+    });
+
+    if (offer) {
+      offered++;
+    } else {
+      await sendAlert(
+        `Invoice ${params.invoiceId} was voided and no underbidder could be offered item ${itemId}` +
+          (lot ? ` — lot ${lot.id} ("${lot.cj_product_name}") stays PAYMENT_FAILED; cancel it in /admin/lots.` : "."),
+        "warning"
+      );
+    }
+  }
+
+  return offered;
+}
+
 // ---------------------------------------------------------------------------
 // Stuck lot detection and recovery
 // ---------------------------------------------------------------------------
 
-const STUCK_THRESHOLD_AUCTION_CLOSED_MS = 30 * 60 * 1000;  // 30 minutes
-const STUCK_THRESHOLD_PAID_MS = 30 * 60 * 1000;             // 30 minutes
-const STUCK_THRESHOLD_CJ_ORDERED_MS = 2 * 60 * 60 * 1000;  // 2 hours
-const STUCK_THRESHOLD_ALERT_MS = 4 * 60 * 60 * 1000;        // 4 hours
+const MINUTE_MS = 60 * 1000;
 
 function getLotAgeMs(lot: DropshipLot): number {
   return Date.now() - new Date(lot.updated_at).getTime();
@@ -473,13 +760,20 @@ function getLotAgeMs(lot: DropshipLot): number {
 
 /**
  * Detect and recover lots that are stuck in intermediate states.
+ * Thresholds come from pipeline settings (defaults shown):
  *
  * - AUCTION_CLOSED > 30 min → re-run pollAndProcessClosedSales()
  * - PAID > 30 min → re-run retryFailedFulfillments()
  * - CJ_ORDERED > 2 hr → check CJ order status and update accordingly
  * - Any lot > 4 hr → send a critical alert for human intervention
+ *
+ * Lots held by a paused stage (closed_sales, fulfillment) are left alone, and
+ * a re-run is skipped if another run holds that stage's lock (lib/pipeline-locks.ts).
  */
-export async function handleStuckLots(): Promise<StuckLotResult> {
+export async function handleStuckLots(options?: {
+  actor?: LotEventActor;
+}): Promise<StuckLotResult> {
+  const actor = options?.actor ?? "system";
   console.log("[stuck] Checking for stuck lots...");
 
   const result: StuckLotResult = {
@@ -487,55 +781,77 @@ export async function handleStuckLots(): Promise<StuckLotResult> {
     paidRetried: 0,
     cjOrderedChecked: 0,
     alertsSent: 0,
+    pausedStages: [],
+    lockedStages: [],
   };
 
-  // ── AUCTION_CLOSED lots stuck > 30 minutes ──────────────────────────
+  const settings = await getPipelineSettings();
+  const paused = await getPausedStages();
+  result.pausedStages = [...paused.keys()];
+  for (const s of paused.values()) {
+    console.log(`[stuck] ${describePause(s)} — skipping its recovery`);
+  }
+
+  // ── AUCTION_CLOSED lots stuck past the threshold ────────────────────
   const auctionClosedLots = await getDropshipLotsByStatus("AUCTION_CLOSED");
   const stuckAuctionClosed = auctionClosedLots.filter(
-    (lot) => getLotAgeMs(lot) > STUCK_THRESHOLD_AUCTION_CLOSED_MS
+    (lot) => getLotAgeMs(lot) > settings.stuck_auction_closed_minutes * MINUTE_MS
   );
 
-  if (stuckAuctionClosed.length > 0) {
+  if (stuckAuctionClosed.length > 0 && !paused.has("closed_sales")) {
     console.log(
-      `[stuck] ${stuckAuctionClosed.length} AUCTION_CLOSED lot(s) stuck >30min — re-running poll`
+      `[stuck] ${stuckAuctionClosed.length} AUCTION_CLOSED lot(s) stuck >${settings.stuck_auction_closed_minutes}min — re-running poll`
     );
     try {
-      await pollAndProcessClosedSales();
-      result.auctionClosedRetried = stuckAuctionClosed.length;
+      const outcome = await withPipelineLock("closed_sales", `${actor}:stuck-lots`, () =>
+        pollAndProcessClosedSales({ actor })
+      );
+      if (outcome.acquired) {
+        result.auctionClosedRetried = stuckAuctionClosed.length;
+      } else {
+        result.lockedStages.push("closed_sales");
+        if (outcome.heldBy) console.log(`[stuck] ${describeLock(outcome.heldBy)} — leaving its lots to that run`);
+      }
     } catch (e) {
       console.error("[stuck] pollAndProcessClosedSales failed during stuck lot recovery:", e);
     }
   }
 
-  // ── PAID lots stuck > 30 minutes ────────────────────────────────────
+  // ── PAID lots stuck past the threshold ──────────────────────────────
   const paidLots = await getDropshipLotsByStatus("PAID");
   const stuckPaid = paidLots.filter(
-    (lot) => getLotAgeMs(lot) > STUCK_THRESHOLD_PAID_MS
+    (lot) => getLotAgeMs(lot) > settings.stuck_paid_minutes * MINUTE_MS
   );
 
-  if (stuckPaid.length > 0) {
+  if (stuckPaid.length > 0 && !paused.has("fulfillment")) {
     console.log(
-      `[stuck] ${stuckPaid.length} PAID lot(s) stuck >30min — retrying fulfillment`
+      `[stuck] ${stuckPaid.length} PAID lot(s) stuck >${settings.stuck_paid_minutes}min — retrying fulfillment`
     );
     try {
-      await retryFailedFulfillments();
-      result.paidRetried = stuckPaid.length;
+      const outcome = await withPipelineLock("fulfillment", `${actor}:stuck-lots`, () =>
+        retryFailedFulfillments({ actor })
+      );
+      if (outcome.acquired) {
+        result.paidRetried = stuckPaid.length;
+      } else {
+        result.lockedStages.push("fulfillment");
+        if (outcome.heldBy) console.log(`[stuck] ${describeLock(outcome.heldBy)} — leaving its lots to that run`);
+      }
     } catch (e) {
       console.error("[stuck] retryFailedFulfillments failed during stuck lot recovery:", e);
     }
   }
 
-  // ── CJ_ORDERED lots stuck > 2 hours ────────────────────────────────
+  // ── CJ_ORDERED lots stuck past the threshold ───────────────────────
   const cjOrderedLots = await getDropshipLotsByStatus("CJ_ORDERED");
   const stuckCjOrdered = cjOrderedLots.filter(
-    (lot) => getLotAgeMs(lot) > STUCK_THRESHOLD_CJ_ORDERED_MS
+    (lot) => getLotAgeMs(lot) > settings.stuck_cj_ordered_minutes * MINUTE_MS
   );
 
-  if (stuckCjOrdered.length > 0) {
+  if (stuckCjOrdered.length > 0 && !paused.has("fulfillment")) {
     console.log(
-      `[stuck] ${stuckCjOrdered.length} CJ_ORDERED lot(s) stuck >2hr — checking CJ order status`
+      `[stuck] ${stuckCjOrdered.length} CJ_ORDERED lot(s) stuck >${settings.stuck_cj_ordered_minutes}min — checking supplier order status`
     );
-    const cj = getCJClient();
 
     for (const lot of stuckCjOrdered) {
       if (!lot.cj_order_id) {
@@ -544,64 +860,84 @@ export async function handleStuckLots(): Promise<StuckLotResult> {
       }
 
       try {
-        const detail = await cj.getOrderDetail(lot.cj_order_id);
-        const cjStatus = detail.orderStatus?.toUpperCase() ?? "";
+        const detail = await getSupplier(lot.supplier).getOrderStatus(lot.cj_order_id);
 
         console.log(
-          `[stuck] Lot ${lot.id} (CJ order ${lot.cj_order_id}): CJ status="${detail.orderStatus}"`
+          `[stuck] Lot ${lot.id} (${lot.supplier} order ${lot.cj_order_id}): status="${detail.raw}"`
         );
 
-        if (cjStatus === "UNSHIPPED" || cjStatus === "PAID") {
-          // CJ order is paid — update to CJ_PAID
-          await updateDropshipLot(lot.id, {
-            cj_order_status: detail.orderStatus,
-            cj_paid_at: new Date().toISOString(),
-            status: "CJ_PAID",
-          });
-          console.log(`[stuck] Lot ${lot.id} → CJ_PAID (CJ status: ${detail.orderStatus})`);
-        } else if (cjStatus === "SHIPPED" || cjStatus === "IN_TRANSIT") {
-          // CJ order is shipped — update to SHIPPED
-          await updateDropshipLot(lot.id, {
-            cj_order_status: detail.orderStatus,
-            tracking_number: detail.trackNumber ?? null,
-            tracking_carrier: detail.logisticName ?? null,
-            status: "SHIPPED",
-          });
-          console.log(`[stuck] Lot ${lot.id} → SHIPPED (CJ status: ${detail.orderStatus})`);
-        } else if (
-          cjStatus === "CANCELLED" ||
-          cjStatus === "FAILED" ||
-          cjStatus === "REFUNDED"
-        ) {
-          // CJ order failed — mark as CANCELLED
-          await updateDropshipLot(lot.id, {
-            cj_order_status: detail.orderStatus,
-            status: "CANCELLED",
-            error_message: `CJ order ${lot.cj_order_id} status: ${detail.orderStatus}`,
-          });
-          console.log(`[stuck] Lot ${lot.id} → CANCELLED (CJ status: ${detail.orderStatus})`);
+        // Compare-and-set against the lot as read above, so a CJ webhook or
+        // operator that moved it meanwhile wins.
+        const moveFrom = { from: "CJ_ORDERED" as const, expectedUpdatedAt: lot.updated_at };
+
+        if (detail.state === "PAID") {
+          // Supplier order is paid — update to CJ_PAID
+          await transitionDropshipLot(lot.id, {
+            ...moveFrom,
+            to: "CJ_PAID",
+            updates: {
+              cj_order_status: detail.raw,
+              cj_paid_at: new Date().toISOString(),
+            },
+          }, { actor });
+          console.log(`[stuck] Lot ${lot.id} → CJ_PAID (supplier status: ${detail.raw})`);
+        } else if (detail.state === "SHIPPED") {
+          // Supplier order is shipped — it was necessarily paid first
+          const paid = await transitionDropshipLot(lot.id, {
+            ...moveFrom,
+            to: "CJ_PAID",
+            updates: {
+              cj_order_status: detail.raw,
+              cj_paid_at: new Date().toISOString(),
+            },
+          }, { actor, reason: `${lot.supplier} reports ${detail.raw}` });
+          await transitionDropshipLot(lot.id, {
+            from: "CJ_PAID",
+            expectedUpdatedAt: paid.updated_at,
+            to: "SHIPPED",
+            updates: {
+              tracking_number: detail.trackingNumber ?? null,
+              tracking_carrier: detail.carrier ?? null,
+            },
+          }, { actor });
+          console.log(`[stuck] Lot ${lot.id} → SHIPPED (supplier status: ${detail.raw})`);
+        } else if (detail.state === "CANCELLED") {
+          // Supplier order failed — mark as CANCELLED
+          await transitionDropshipLot(lot.id, {
+            ...moveFrom,
+            to: "CANCELLED",
+            updates: {
+              cj_order_status: detail.raw,
+              error_message: `${lot.supplier} order ${lot.cj_order_id} status: ${detail.raw}`,
+            },
+          }, { actor });
+          console.log(`[stuck] Lot ${lot.id} → CANCELLED (supplier status: ${detail.raw})`);
         }
-        // For any other status, leave the lot as-is; the 4-hour alert below will catch it.
+        // For any other status, leave the lot as-is; the stuck-lot alert below will catch it.
 
         result.cjOrderedChecked++;
       } catch (e) {
+        if (e instanceof LotConflictError) {
+          console.log(`[stuck] Lot ${lot.id} moved on while checking the supplier — ${e.message}`);
+          continue;
+        }
         console.error(
-          `[stuck] Failed to check CJ order ${lot.cj_order_id} for lot ${lot.id}:`,
+          `[stuck] Failed to check ${lot.supplier} order ${lot.cj_order_id} for lot ${lot.id}:`,
           e
         );
       }
     }
   }
 
-  // ── Critical alert for any lot stuck > 4 hours ─────────────────────
+  // ── Critical alert for any lot stuck past the alert threshold ──────
+  // Lots held by a paused stage are waiting on purpose.
   const allStuckLots = [
-    ...auctionClosedLots,
-    ...paidLots,
-    ...cjOrderedLots,
+    ...(paused.has("closed_sales") ? [] : auctionClosedLots),
+    ...(paused.has("fulfillment") ? [] : [...paidLots, ...cjOrderedLots]),
   ];
 
   for (const lot of allStuckLots) {
-    if (getLotAgeMs(lot) > STUCK_THRESHOLD_ALERT_MS) {
+    if (getLotAgeMs(lot) > settings.stuck_alert_minutes * MINUTE_MS) {
       const ageHours = (getLotAgeMs(lot) / (60 * 60 * 1000)).toFixed(1);
       await sendAlert(
         `STUCK LOT needs human intervention: lot=${lot.id} status=${lot.status} ` +
@@ -862,15 +1198,100 @@ export type AutoSourceResult = {
   keyword: string;
   saleId: string | null;
   lotsCreated: number;
+  /** Lots queued by relistUnsoldLots() that were listed in this sale. */
+  lotsRelisted: number;
   error?: string;
 };
 
-const AUTO_SOURCE_CJ_DELAY_MS = 1200;
-const autoSourceSleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const AUTO_SOURCE_MAX_VARIANTS_PER_PRODUCT = 3;
+
+type VariantQuote = {
+  fromCountry: string;
+  shippingMethod: string;
+  shippingCents: number;
+  deliveryDays: string | null;
+  /** Cheapest freight per destination country, base country first. */
+  destinations: DestinationFreight[];
+};
 
 /**
- * Run a single sourcing cycle: search CJ for the given keyword, create a
- * Basta auction sale with matching items, and publish it.
+ * Check stock, pick the warehouse (preferred-warehouse rules) and the
+ * cheapest freight option to each destination country for one supplier
+ * variant. Returns why it was rejected when it's out of stock, has no
+ * acceptable warehouse or can't be shipped to the base country.
+ */
+async function quoteVariant(
+  supplier: Supplier,
+  variantId: string,
+  countries: string[],
+  ruleSet: SourcingRuleSet
+): Promise<{ quote: VariantQuote } | { rejection: SourcingRejection }> {
+  let inventory;
+  try {
+    inventory = await supplier.getInventory(variantId);
+  } catch (e) {
+    return { rejection: { ruleId: null, ruleType: "supplier_error", reason: `Inventory lookup failed: ${e instanceof Error ? e.message : String(e)}` } };
+  }
+
+  if (inventory.totalStock < 1) {
+    return { rejection: { ruleId: null, ruleType: "out_of_stock", reason: "Variant out of stock" } };
+  }
+
+  const warehouse = pickWarehouse(ruleSet, inventory);
+  if ("rejection" in warehouse) return warehouse;
+  const fromCountry = warehouse.fromCountry ?? "CN";
+
+  let destinations;
+  try {
+    destinations = await quoteDestinationFreight(supplier, variantId, fromCountry, countries);
+  } catch (e) {
+    return { rejection: { ruleId: null, ruleType: "supplier_error", reason: `Freight quote failed: ${e instanceof Error ? e.message : String(e)}` } };
+  }
+  if (!destinations) {
+    return { rejection: { ruleId: null, ruleType: "no_freight", reason: `No freight option from ${fromCountry} to ${countries[0]}` } };
+  }
+
+  const base = destinations[0];
+  return {
+    quote: {
+      fromCountry,
+      shippingMethod: base.shippingMethod as string,
+      shippingCents: base.shippingCents as number,
+      deliveryDays: base.deliveryDays,
+      destinations,
+    },
+  };
+}
+
+/**
+ * Take a Basta item out of its sale when the lot could not be linked to it.
+ */
+async function removeOrphanedItem(saleId: string, itemId: string, lotId: string): Promise<void> {
+  try {
+    await getManagementApiClient().mutation({
+      removeItemFromSale: {
+        __args: { accountId: getAccountId(), input: { saleId, itemId } },
+        id: true,
+      },
+    });
+    console.log(`[auto-source] Removed item ${itemId} from sale ${saleId}`);
+  } catch (e) {
+    await sendAlert(
+      `Basta item ${itemId} in sale ${saleId} was created for lot ${lotId} but the lot could not be linked, and removing the item failed: ${e instanceof Error ? e.message : String(e)}. Remove it from the sale before it is published.`,
+      "critical"
+    );
+  }
+}
+
+/**
+ * Run a single sourcing cycle: search the supplier for the given keyword,
+ * create a Basta auction sale with matching items, and publish it.
+ *
+ * Every product's variants are fetched and filtered by cost, stock,
+ * freight and the quality/compliance rules in `sourcing_rules` (see
+ * lib/sourcing-rules.ts); each rejection is logged with its reason. Up to
+ * `maxVariantsPerProduct` variants are listed as separate lots, each priced
+ * on its own cost. `maxProducts` caps the total number of lots.
  *
  * This is the server-side equivalent of `commandSource()` in orchestrate.ts,
  * designed to be called from a Vercel cron endpoint.
@@ -879,41 +1300,87 @@ export async function runAutoSource(params: {
   keyword: string;
   maxCostUsd: number;
   maxProducts: number;
+  maxVariantsPerProduct?: number;
+  /** Supplier to source from (defaults to CJ). */
+  supplierId?: SupplierId;
   publish?: boolean;
+  actor?: LotEventActor;
 }): Promise<AutoSourceResult> {
-  const { keyword, maxCostUsd, maxProducts, publish = true } = params;
-
-  console.log(`[auto-source] Starting for keyword="${keyword}" maxCost=$${maxCostUsd} maxProducts=${maxProducts}`);
+  const {
+    keyword,
+    maxCostUsd,
+    maxProducts,
+    maxVariantsPerProduct = AUTO_SOURCE_MAX_VARIANTS_PER_PRODUCT,
+    supplierId = DEFAULT_SUPPLIER_ID,
+    publish = true,
+    actor = "system",
+  } = params;
+
+  console.log(`[auto-source] Starting for keyword="${keyword}" supplier=${supplierId} maxCost=$${maxCostUsd} maxProducts=${maxProducts}`);
+
+  // A sale that can't be published would leave its lots LISTED in a Basta
+  // draft that nothing moves on, so none is built while publishing is paused
+  if (publish) {
+    const publishPause = await getStagePause("publishing");
+    if (publishPause) {
+      console.log(`[auto-source] ${describePause(publishPause)} — not building a sale`);
+      return { keyword, saleId: null, lotsCreated: 0, lotsRelisted: 0 };
+    }
+  }
 
-  const cj = getCJClient();
+  const supplier = getSupplier(supplierId);
   const bastaClient = getManagementApiClient();
   const accountId = getAccountId();
+  const maxCostCents = Math.round(maxCostUsd * 100);
+  const destinationCountries = getDestinationCountries();
+  const baseCountry = destinationCountries[0];
+  const ruleSet = await loadSourcingRules();
+  console.log(`[auto-source] ${countSourcingRules(ruleSet)} active sourcing rule(s)`);
+
+  const rejectCandidate = (
+    productId: string,
+    productName: string,
+    rejection: SourcingRejection,
+    variantId?: string
+  ) =>
+    recordSourcingRejection({
+      keyword,
+      supplier: supplier.id,
+      productId,
+      variantId,
+      productName,
+      rejection,
+    });
 
-  // Step 1: Search CJ
-  const searchResult = await cj.searchProducts({
-    keyWord: keyword,
-    size: maxProducts * 2,
-    countryCode: "US",
-    orderBy: 1,
+  // Step 1: Search the supplier
+  const searchResults = await supplier.searchProducts({
+    keyword,
+    limit: maxProducts * 2,
+    countryCode: baseCountry,
   });
 
-  console.log(`[auto-source] CJ search: ${searchResult.totalRecords} total, ${searchResult.products.length} fetched`);
+  console.log(`[auto-source] ${supplier.name} search: ${searchResults.length} fetched`);
 
-  if (!searchResult.products.length) {
+  // Queued relists still get a sale when the search comes up empty
+  if (!searchResults.length) {
     console.log("[auto-source] No products found.");
-    return { keyword, saleId: null, lotsCreated: 0 };
   }
 
-  // Step 2: Filter and validate candidates
+  // Step 2: Pick variants and validate candidates. Each in-stock variant that
+  // fits the cost cap and has a freight quote to the base country becomes its
+  // own lot, priced on that freight.
   type Candidate = {
-    pid: string;
-    vid: string;
+    productId: string;
+    variantId: string;
+    title: string;
     productName: string;
     variantName: string;
     costCents: number;
     shippingCents: number;
-    logisticName: string;
+    shippingMethod: string;
+    deliveryDays: string | null;
     fromCountry: string;
+    shippingQuotes: ReturnType<typeof priceDestinations>;
     images: string[];
     description: string;
     startingBidCents: number;
@@ -921,119 +1388,214 @@ export async function runAutoSource(params: {
     totalCostCents: number;
   };
 
+  // Lots that missed their reserve and were repriced go into this sale too.
+  // Their variants are not sourced again, so a sale never holds two lots
+  // for one variant (idx_dropship_lots_cj_vid_sale).
+  const relists = await getQueuedRelists();
+
   const candidates: Candidate[] = [];
-  const seenVids = new Set<string>();
+  const seenVariantIds = new Set<string>(relists.map((lot) => lot.cj_vid));
 
-  for (const product of searchResult.products) {
+  for (const result of searchResults) {
     if (candidates.length >= maxProducts) break;
+    // Supplier is failing — list what we already have rather than fail the run
+    if (!supplier.isAvailable()) {
+      console.warn(`[auto-source] ${supplier.name} unavailable — stopping with ${candidates.length} candidate(s)`);
+      break;
+    }
 
-    const priceStr = product.sellPrice.split(/\s*--\s*/)[0];
-    const costUsd = parseFloat(priceStr);
-    if (isNaN(costUsd) || costUsd > maxCostUsd) continue;
-    if (product.warehouseInventoryNum < 1) continue;
+    if (result.minCostCents == null || result.minCostCents > maxCostCents) {
+      await rejectCandidate(result.productId, result.name, {
+        ruleId: null,
+        ruleType: "max_cost",
+        reason: result.minCostCents == null
+          ? "No price in search result"
+          : `Cheapest variant $${(result.minCostCents / 100).toFixed(2)} over $${maxCostUsd} cap`,
+      });
+      continue;
+    }
+    if (result.inventory < 1) {
+      await rejectCandidate(result.productId, result.name, {
+        ruleId: null,
+        ruleType: "out_of_stock",
+        reason: "No warehouse inventory",
+      });
+      continue;
+    }
 
-    await autoSourceSleep(AUTO_SOURCE_CJ_DELAY_MS);
-    let fullProduct;
+    let product;
     try {
-      fullProduct = await cj.getProduct({ pid: product.id });
-    } catch {
+      product = await supplier.getProduct(result.productId);
+    } catch (e) {
+      await rejectCandidate(result.productId, result.name, {
+        ruleId: null,
+        ruleType: "supplier_error",
+        reason: `Product lookup failed: ${e instanceof Error ? e.message : String(e)}`,
+      });
       continue;
     }
 
-    const variant = fullProduct.variants?.[0];
-    if (!variant) continue;
-    if (seenVids.has(variant.vid)) continue;
-    seenVids.add(variant.vid);
-
-    await autoSourceSleep(AUTO_SOURCE_CJ_DELAY_MS);
-    let inventory;
-    try {
-      inventory = await cj.getInventoryByVariant(variant.vid);
-    } catch {
+    const productRejection = checkProductRules(ruleSet, product);
+    if (productRejection) {
+      await rejectCandidate(product.productId, product.name || result.name, productRejection);
       continue;
     }
 
-    const totalStock = inventory.reduce((sum, inv) => sum + inv.totalInventoryNum, 0);
-    if (totalStock < 1) continue;
+    // Cheapest variants first so the per-product cap keeps the best margins
+    const eligible = product.variants
+      .filter((v) => v.costCents > 0 && v.costCents <= maxCostCents)
+      .filter((v) => !seenVariantIds.has(v.variantId))
+      .sort((a, b) => a.costCents - b.costCents);
+
+    const productName = product.name || result.name;
+    const productImages = product.images.length
+      ? product.images
+      : [result.imageUrl].filter((img): img is string => Boolean(img));
+    let chosen = 0;
+
+    for (const variant of eligible) {
+      if (chosen >= maxVariantsPerProduct) break;
+      if (candidates.length >= maxProducts) break;
+      if (!supplier.isAvailable()) break;
+      seenVariantIds.add(variant.variantId);
+
+      const variantRejection = checkVariantRules(ruleSet, product, variant);
+      if (variantRejection) {
+        await rejectCandidate(product.productId, productName, variantRejection, variant.variantId);
+        continue;
+      }
 
-    const fromCountry = inventory.find((i) => i.totalInventoryNum > 0)?.countryCode ?? "CN";
+      const quoted = await quoteVariant(supplier, variant.variantId, destinationCountries, ruleSet);
+      if ("rejection" in quoted) {
+        await rejectCandidate(product.productId, productName, quoted.rejection, variant.variantId);
+        continue;
+      }
+      const { quote } = quoted;
 
-    await autoSourceSleep(AUTO_SOURCE_CJ_DELAY_MS);
-    let freightOptions;
-    try {
-      freightOptions = await cj.calculateFreight({
-        startCountryCode: fromCountry,
-        endCountryCode: "US",
-        products: [{ vid: variant.vid, quantity: 1 }],
+      const pricing = computePricing({
+        productCostCents: variant.costCents,
+        shippingCostCents: quote.shippingCents,
+        buyerPremiumRate: DEFAULT_BUYER_PREMIUM_RATE,
       });
-    } catch {
-      continue;
-    }
 
-    if (!freightOptions.length) continue;
+      const variantName = variant.name;
+      const images = variant.imageUrl
+        ? [variant.imageUrl, ...productImages.filter((img) => img !== variant.imageUrl)]
+        : productImages;
+
+      candidates.push({
+        productId: product.productId,
+        variantId: variant.variantId,
+        // Sibling lots from the same product need the variant in the title
+        title: product.variants.length > 1 && variantName ? `${productName} — ${variantName}` : productName,
+        productName,
+        variantName,
+        costCents: variant.costCents,
+        shippingCents: quote.shippingCents,
+        shippingMethod: quote.shippingMethod,
+        deliveryDays: quote.deliveryDays,
+        fromCountry: quote.fromCountry,
+        shippingQuotes: priceDestinations(quote.shippingCents, quote.destinations),
+        images,
+        description: product.description || result.name,
+        startingBidCents: pricing.startingBidCents,
+        reserveCents: pricing.reserveCents,
+        totalCostCents: pricing.totalCostCents,
+      });
+      chosen++;
 
-    const cheapest = freightOptions.sort((a, b) => a.logisticPrice - b.logisticPrice)[0];
+      console.log(
+        `[auto-source] Candidate: ${productName}${variantName ? ` [${variantName}]` : ""} — $${(pricing.totalCostCents / 100).toFixed(2)}`
+      );
+    }
 
-    const costCents = Math.round(variant.variantSellPrice * 100);
-    const shippingCents = Math.round(cheapest.logisticPrice * 100);
-    const pricing = computePricing({
-      productCostCents: costCents,
-      shippingCostCents: shippingCents,
-      buyerPremiumRate: DEFAULT_BUYER_PREMIUM_RATE,
-    });
-    const totalCostCents = pricing.totalCostCents;
-    const startingBidCents = pricing.startingBidCents;
-    const reserveCents = pricing.reserveCents;
-
-    const images = fullProduct.productImageSet?.length
-      ? fullProduct.productImageSet
-      : [product.bigImage].filter(Boolean);
-
-    candidates.push({
-      pid: fullProduct.pid,
-      vid: variant.vid,
-      productName: fullProduct.productNameEn || product.nameEn,
-      variantName: variant.variantNameEn || "",
-      costCents,
-      shippingCents,
-      logisticName: cheapest.logisticName,
-      fromCountry,
-      images,
-      description: fullProduct.description || product.nameEn,
-      startingBidCents,
-      reserveCents,
-      totalCostCents,
-    });
+    if (eligible.length && chosen === 0) {
+      console.log(`[auto-source] Skipped ${productName}: no variant passed stock, freight and rules`);
+    }
+  }
 
-    console.log(`[auto-source] Candidate: ${product.nameEn} — $${(totalCostCents / 100).toFixed(2)}`);
+  const callStats = supplier.getCallStats?.();
+  if (callStats?.length) {
+    console.log(
+      `[auto-source] ${supplier.name} calls (this process): ${callStats.map((s) => `${s.endpoint}=${s.calls}${s.retries ? ` (${s.retries} retried)` : ""}`).join(", ")}`
+    );
   }
 
-  if (!candidates.length) {
+  if (!candidates.length && !relists.length) {
     console.log("[auto-source] No viable products after filtering.");
-    return { keyword, saleId: null, lotsCreated: 0 };
+    return { keyword, saleId: null, lotsCreated: 0, lotsRelisted: 0 };
   }
 
-  console.log(`[auto-source] ${candidates.length} candidate(s) ready`);
+  console.log(`[auto-source] ${candidates.length} candidate(s) and ${relists.length} relist(s) ready`);
+
+  // Step 3: Mirror supplier images to Cloudinary, then save to DB
+  for (const c of candidates) {
+    c.images = await mirrorImages(c.images);
+  }
 
-  // Step 3: Save to DB
   const lotIds: string[] = [];
   for (const c of candidates) {
     const lotId = await insertDropshipLot({
-      cj_pid: c.pid,
-      cj_vid: c.vid,
+      supplier: supplier.id,
+      cj_pid: c.productId,
+      cj_vid: c.variantId,
       cj_product_name: c.productName,
       cj_variant_name: c.variantName,
       cj_cost_cents: c.costCents,
       cj_shipping_cents: c.shippingCents,
-      cj_logistic_name: c.logisticName,
+      cj_logistic_name: c.shippingMethod,
+      cj_delivery_days: c.deliveryDays,
       cj_from_country: c.fromCountry,
       cj_images: c.images,
+      source_keyword: keyword,
       starting_bid_cents: c.startingBidCents,
       reserve_cents: c.reserveCents,
-    });
+    }, { actor, reason: `Auto-sourced for keyword "${keyword}"` });
+    await saveLotShippingQuotes(lotId, c.shippingQuotes);
     lotIds.push(lotId);
   }
 
+  type Listing = {
+    lotId: string;
+    title: string;
+    description: string;
+    startingBidCents: number;
+    reserveCents: number;
+    images: string[];
+    relist: boolean;
+  };
+
+  const listings: Listing[] = candidates.map((c, i) => ({
+    lotId: lotIds[i],
+    title: c.title,
+    description: `${c.description}\n\n${formatShipsTo(c.shippingQuotes)}`,
+    startingBidCents: c.startingBidCents,
+    reserveCents: c.reserveCents,
+    images: c.images,
+    relist: false,
+  }));
+
+  for (const lot of relists) {
+    // The lot doesn't keep the product description; fall back to the name
+    let description = lot.cj_product_name;
+    try {
+      description = (await getSupplier(lot.supplier).getProduct(lot.cj_pid)).description || description;
+    } catch {
+      // Non-blocking
+    }
+    const quotes = await getLotShippingQuotes(lot.id);
+
+    listings.push({
+      lotId: lot.id,
+      title: lot.cj_variant_name ? `${lot.cj_product_name} — ${lot.cj_variant_name}` : lot.cj_product_name,
+      description: quotes.length ? `${description}\n\n${formatShipsTo(quotes)}` : description,
+      startingBidCents: lot.starting_bid_cents,
+      reserveCents: lot.reserve_cents,
+      images: lot.cj_images ? (JSON.parse(lot.cj_images) as string[]) : [],
+      relist: true,
+    });
+  }
+
   // Step 4: Create Basta sale
   const saleResult = await bastaClient.mutation({
     createSale: {
@@ -1067,11 +1629,12 @@ export async function runAutoSource(params: {
   // Step 5: Create items in the sale
   const openDate = new Date(Date.now() + 60 * 60 * 1000).toISOString();
   const closingDate = new Date(Date.now() + 25 * 60 * 60 * 1000).toISOString();
-  let itemsCreated = 0;
+  const listedLotIds: string[] = [];
 
-  for (let i = 0; i < candidates.length; i++) {
-    const c = candidates[i];
-    const lotId = lotIds[i];
+  for (let i = 0; i < listings.length; i++) {
+    const c = listings[i];
+    const lotId = c.lotId;
+    let itemId: string | null = null;
 
     try {
       const itemResult = await bastaClient.mutation({
@@ -1080,7 +1643,7 @@ export async function runAutoSource(params: {
             accountId,
             input: {
               saleId,
-              title: c.productName,
+              title: c.title,
               description: c.description,
               startingBid: c.startingBidCents,
               reserve: c.reserveCents,
@@ -1095,7 +1658,7 @@ export async function runAutoSource(params: {
         },
       });
 
-      const itemId = itemResult.createItemForSale?.id as string;
+      itemId = (itemResult.createItemForSale?.id as string | undefined) ?? null;
       if (!itemId) throw new Error("No item ID returned");
 
       // Upload images
@@ -1105,20 +1668,30 @@ export async function runAutoSource(params: {
         basta_sale_id: saleId,
         basta_item_id: itemId,
         status: "LISTED",
-      });
+      }, { actor });
 
-      itemsCreated++;
-      console.log(`[auto-source] Item ${i + 1}/${candidates.length}: ${c.productName} -> ${itemId}`);
+      listedLotIds.push(lotId);
+      console.log(
+        `[auto-source] Item ${i + 1}/${listings.length}: ${c.title}${c.relist ? " (relist)" : ""} -> ${itemId}`
+      );
     } catch (error) {
-      console.error(`[auto-source] Failed to create item: ${c.productName}`, error);
+      console.error(`[auto-source] Failed to create item: ${c.title}`, error);
+      // An item no lot points to would be invoiced but never fulfilled
+      if (itemId) await removeOrphanedItem(saleId, itemId, lotId);
+      if (c.relist) {
+        // Already repriced and sellable — leave it queued for the next sale
+        await updateDropshipLot(lotId, { error_message: String(error) });
+        continue;
+      }
       await updateDropshipLot(lotId, {
         status: "CANCELLED",
         error_message: String(error),
-      });
+      }, { actor });
     }
   }
 
   // Step 6: Publish
+  const itemsCreated = listedLotIds.length;
   if (publish && itemsCreated > 0) {
     await bastaClient.mutation({
       publishSale: {
@@ -1128,12 +1701,14 @@ export async function runAutoSource(params: {
       },
     });
 
-    for (const lotId of lotIds) {
-      await updateDropshipLot(lotId, { status: "PUBLISHED" });
+    // Lots whose item creation failed are already CANCELLED (or, for relists, still queued)
+    for (const lotId of listedLotIds) {
+      await updateDropshipLot(lotId, { status: "PUBLISHED" }, { actor });
     }
     console.log("[auto-source] Sale published!");
   }
 
-  console.log(`[auto-source] Complete: sale=${saleId}, lots=${itemsCreated}`);
-  return { keyword, saleId, lotsCreated: itemsCreated };
+  const lotsRelisted = listings.filter((l) => l.relist && listedLotIds.includes(l.lotId)).length;
+  console.log(`[auto-source] Complete: sale=${saleId}, lots=${itemsCreated} (${lotsRelisted} relisted)`);
+  return { keyword, saleId, lotsCreated: itemsCreated - lotsRelisted, lotsRelisted };
 }
@@ -0,0 +1,264 @@
+/**
+ * Relisting — lots that closed below their reserve go back up for auction.
+ *
+ * Each run takes a batch of the RESERVE_NOT_MET lots that haven't used up
+ * their relists, oldest first:
+ * 1. Re-checks supplier stock (out of stock → CANCELLED)
+ * 2. Re-reads the variant's cost and freight to every destination country
+ *    (variant gone, or no freight to the base country → CANCELLED)
+ * 3. Reprices it on the current cost with RELIST_DISCOUNT_STRATEGY
+ *    (see getRelistSafetyMargin in lib/auction-pricing.ts)
+ * 4. Moves it back to SOURCED with relist_count + 1 and the old Basta
+ *    sale/item recorded on the event
+ *
+ * The next auto-source run (runAutoSource) lists queued lots in the sale it
+ * creates, linking the new Basta item to the same lot record. Lots that have
+ * been relisted RELIST_MAX_COUNT times stay RESERVE_NOT_MET.
+ *
+ * Env vars:
+ *   RELIST_MAX_COUNT          — optional; default 2 (0 turns relisting off)
+ *   RELIST_DISCOUNT_STRATEGY  — optional; "none" (default) or "margin"
+ */
+
+import {
+  getDropshipLotsByStatus,
+  LotConflictError,
+  transitionDropshipLot,
+  type DropshipLot,
+  type LotEventActor,
+} from "@/lib/dropship";
+import { getSupplier, SupplierUnavailableError } from "@/lib/supplier";
+import {
+  computePricing,
+  getRelistSafetyMargin,
+  RELIST_DISCOUNT_STRATEGIES,
+  type RelistDiscountStrategy,
+} from "@/lib/auction-pricing";
+import { DEFAULT_BUYER_PREMIUM_RATE } from "@/lib/auction-helpers";
+import {
+  getDestinationCountries,
+  priceDestinations,
+  quoteDestinationFreight,
+  saveLotShippingQuotes,
+} from "@/lib/lot-shipping";
+import { readNumberEnv } from "@/lib/env";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RelistResult = {
+  /** Repriced and waiting (SOURCED) for the next sale. */
+  queued: number;
+  /** Out of stock, discontinued or unshippable — CANCELLED. */
+  cancelled: number;
+  /** Supplier unavailable; retried next run. */
+  skipped: number;
+  failed: number;
+  /** Left for the next run by the batch limit or time budget. */
+  deferred: number;
+};
+
+type RelistOutcome = "queued" | "cancelled";
+
+const DEFAULT_MAX_RELISTS = 2;
+
+/**
+ * Per-run limits. Each lot costs several rate-limited supplier calls (stock,
+ * product, freight per destination) inside the 60s process cron, so a run
+ * relists at most RELIST_MAX_LOTS lots and starts none after
+ * RELIST_BUDGET_MS; the rest wait for the next run.
+ */
+const RELIST_MAX_LOTS = 10;
+const RELIST_BUDGET_MS = 15_000;
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** How many times a lot may be relisted (0 disables relisting). */
+export function getMaxRelistCount(): number {
+  return readNumberEnv("RELIST_MAX_COUNT", DEFAULT_MAX_RELISTS, (v) => Number.isInteger(v) && v >= 0);
+}
+
+export function getRelistDiscountStrategy(): RelistDiscountStrategy {
+  const raw = process.env.RELIST_DISCOUNT_STRATEGY?.trim().toLowerCase();
+  if (!raw) return "none";
+  if (!RELIST_DISCOUNT_STRATEGIES.includes(raw as RelistDiscountStrategy)) {
+    console.warn(`[relist] Ignoring invalid RELIST_DISCOUNT_STRATEGY="${raw}", using none`);
+    return "none";
+  }
+  return raw as RelistDiscountStrategy;
+}
+
+// ---------------------------------------------------------------------------
+// Relist
+// ---------------------------------------------------------------------------
+
+async function cancelLot(
+  lot: DropshipLot,
+  reason: string,
+  actor: LotEventActor
+): Promise<RelistOutcome> {
+  await transitionDropshipLot(lot.id, {
+    from: "RESERVE_NOT_MET",
+    to: "CANCELLED",
+    expectedUpdatedAt: lot.updated_at,
+    updates: { error_message: reason },
+  }, { actor, reason });
+  console.log(`[relist] Lot ${lot.id} → CANCELLED (${reason})`);
+  return "cancelled";
+}
+
+async function relistLot(
+  lot: DropshipLot,
+  actor: LotEventActor,
+  maxRelists: number,
+  strategy: RelistDiscountStrategy
+): Promise<RelistOutcome> {
+  const supplier = getSupplier(lot.supplier);
+
+  const inventory = await supplier.getInventory(lot.cj_vid);
+  if (inventory.totalStock < 1) {
+    return cancelLot(lot, `Not relisted: ${supplier.name} variant ${lot.cj_vid} out of stock`, actor);
+  }
+
+  const product = await supplier.getProduct(lot.cj_pid);
+  const variant = product.variants.find((v) => v.variantId === lot.cj_vid);
+  if (!variant || variant.costCents <= 0) {
+    return cancelLot(lot, `Not relisted: ${supplier.name} no longer sells variant ${lot.cj_vid}`, actor);
+  }
+
+  const fromCountry = inventory.fromCountry ?? lot.cj_from_country ?? "CN";
+  const destinations = await quoteDestinationFreight(
+    supplier,
+    lot.cj_vid,
+    fromCountry,
+    getDestinationCountries()
+  );
+  if (!destinations) {
+    return cancelLot(lot, `Not relisted: no ${supplier.name} freight option to ${getDestinationCountries()[0]}`, actor);
+  }
+
+  const base = destinations[0];
+  const shippingCents = base.shippingCents as number;
+  const relistNumber = lot.relist_count + 1;
+  const pricing = computePricing({
+    productCostCents: variant.costCents,
+    shippingCostCents: shippingCents,
+    buyerPremiumRate: DEFAULT_BUYER_PREMIUM_RATE,
+    safetyMargin: getRelistSafetyMargin(strategy, relistNumber),
+  });
+
+  const costChange = variant.costCents + shippingCents - (lot.cj_cost_cents + lot.cj_shipping_cents);
+  await transitionDropshipLot(lot.id, {
+    from: "RESERVE_NOT_MET",
+    to: "SOURCED",
+    expectedUpdatedAt: lot.updated_at,
+    updates: {
+      cj_cost_cents: variant.costCents,
+      cj_shipping_cents: shippingCents,
+      cj_logistic_name: base.shippingMethod,
+      cj_delivery_days: base.deliveryDays,
+      cj_from_country: fromCountry,
+      starting_bid_cents: pricing.startingBidCents,
+      reserve_cents: pricing.reserveCents,
+      relist_count: relistNumber,
+      basta_sale_id: null,
+      basta_item_id: null,
+      error_message: null,
+    },
+  }, {
+    actor,
+    reason:
+      `Relist ${relistNumber}/${maxRelists}: reserve $${(lot.reserve_cents / 100).toFixed(2)} → ` +
+      `$${(pricing.reserveCents / 100).toFixed(2)} (strategy ${strategy}` +
+      `${costChange ? `, cost ${costChange > 0 ? "+" : "-"}$${(Math.abs(costChange) / 100).toFixed(2)}` : ""})`,
+    payload: {
+      previousSaleId: lot.basta_sale_id,
+      previousItemId: lot.basta_item_id,
+      previousReserveCents: lot.reserve_cents,
+      previousStartingBidCents: lot.starting_bid_cents,
+      strategy,
+    },
+  });
+
+  await saveLotShippingQuotes(lot.id, priceDestinations(shippingCents, destinations));
+
+  console.log(
+    `[relist] Lot ${lot.id} "${lot.cj_product_name}" queued for relist ${relistNumber}/${maxRelists} ` +
+      `at reserve $${(pricing.reserveCents / 100).toFixed(2)}`
+  );
+  return "queued";
+}
+
+/**
+ * Queue a batch of RESERVE_NOT_MET lots with relists left for the next sale
+ * (see RELIST_MAX_LOTS). A supplier whose API is unavailable is skipped for
+ * the rest of the run; its lots are retried next time.
+ */
+export async function relistUnsoldLots(
+  actor: LotEventActor = "system"
+): Promise<RelistResult> {
+  const result: RelistResult = { queued: 0, cancelled: 0, skipped: 0, failed: 0, deferred: 0 };
+
+  const maxRelists = getMaxRelistCount();
+  if (maxRelists === 0) {
+    console.log("[relist] Relisting disabled (RELIST_MAX_COUNT=0)");
+    return result;
+  }
+
+  const strategy = getRelistDiscountStrategy();
+  const lots = (await getDropshipLotsByStatus("RESERVE_NOT_MET")).filter(
+    (lot) => lot.relist_count < maxRelists
+  );
+  console.log(
+    `[relist] ${lots.length} unsold lot(s) to relist, up to ${RELIST_MAX_LOTS} this run (max ${maxRelists}, strategy ${strategy})...`
+  );
+
+  const pausedSuppliers = new Set<string>();
+  const deadline = Date.now() + RELIST_BUDGET_MS;
+  let attempted = 0;
+
+  for (const lot of lots) {
+    if (attempted >= RELIST_MAX_LOTS || Date.now() >= deadline) {
+      result.deferred = lots.length - lots.indexOf(lot);
+      break;
+    }
+    if (pausedSuppliers.has(lot.supplier)) {
+      result.skipped++;
+      continue;
+    }
+    attempted++;
+
+    try {
+      const outcome = await relistLot(lot, actor, maxRelists, strategy);
+      result[outcome]++;
+    } catch (e) {
+      if (e instanceof SupplierUnavailableError) {
+        console.warn(`[relist] ${lot.supplier} unavailable — skipping its remaining lots: ${e.message}`);
+        pausedSuppliers.add(lot.supplier);
+        result.skipped++;
+        continue;
+      }
+      if (e instanceof LotConflictError) {
+        console.log(`[relist] Lot ${lot.id} moved on while relisting — ${e.message}`);
+        continue;
+      }
+      console.error(`[relist] Failed to relist lot ${lot.id}:`, e);
+      result.failed++;
+    }
+  }
+
+  console.log(
+    `[relist] Done — queued=${result.queued} cancelled=${result.cancelled} ` +
+      `skipped=${result.skipped} failed=${result.failed} deferred=${result.deferred}`
+  );
+
+  return result;
+}
+
+/** Lots repriced by relistUnsoldLots() and waiting for a sale. */
+export async function getQueuedRelists(): Promise<DropshipLot[]> {
+  return (await getDropshipLotsByStatus("SOURCED")).filter((lot) => lot.relist_count > 0);
+}
@@ -0,0 +1,53 @@
+import { db } from "@/lib/turso";
+
+/**
+ * User roles, lowest to highest privilege. Every account is a bidder;
+ * operator and admin are granted explicitly via `user_roles`
+ * (see `pnpm users:role`).
+ */
+export type UserRole = "bidder" | "operator" | "admin";
+
+export const USER_ROLES: readonly UserRole[] = ["bidder", "operator", "admin"];
+
+const ROLE_RANK: Record<UserRole, number> = {
+    bidder: 0,
+    operator: 1,
+    admin: 2,
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+    return typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/** True when `role` is at least as privileged as `required` (admin ⊇ operator ⊇ bidder). */
+export function hasRole(role: UserRole | null | undefined, required: UserRole): boolean {
+    if (!role) return false;
+    return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export async function getUserRole(userId: string): Promise<UserRole> {
+    const result = await db.execute({
+        sql: "SELECT role FROM user_roles WHERE user_id = ?",
+        args: [userId],
+    });
+
+    const role = result.rows[0]?.role;
+    return isUserRole(role) ? role : "bidder";
+}
+
+export async function setUserRole(
+    userId: string,
+    role: UserRole,
+    grantedBy: string | null = null
+): Promise<void> {
+    const now = new Date().toISOString();
+    await db.execute({
+        sql: `INSERT INTO user_roles (user_id, role, granted_by, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?)
+              ON CONFLICT(user_id) DO UPDATE SET
+                role = excluded.role,
+                granted_by = excluded.granted_by,
+                updated_at = excluded.updated_at`,
+        args: [userId, role, grantedBy, now, now],
+    });
+}
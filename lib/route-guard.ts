@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getServerSession, type Session } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserRole, hasRole, type UserRole } from "@/lib/roles";
+
+export type GuardResult =
+    | { session: Session; response?: never }
+    | { session?: never; response: NextResponse };
+
+/**
+ * Require a signed-in user holding at least `required`.
+ *
+ * The role is re-read from the database rather than trusted from the JWT so a
+ * revoked operator loses access immediately. Returns either the session (with
+ * `session.user.role` refreshed) or a ready-to-return 401/403 response:
+ *
+ *     const guard = await requireRole("operator");
+ *     if (guard.response) return guard.response;
+ */
+export async function requireRole(required: UserRole): Promise<GuardResult> {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+        return {
+            response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+        };
+    }
+
+    const role = await getUserRole(session.user.id);
+    if (!hasRole(role, required)) {
+        return {
+            response: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+        };
+    }
+
+    session.user.role = role;
+    return { session };
+}
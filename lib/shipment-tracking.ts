@@ -0,0 +1,389 @@
+/**
+ * Shipment Tracking Sync
+ *
+ * Polls the supplier's tracking for SHIPPED lots so delivery doesn't
+ * depend on a supplier webhook arriving. Each run takes a batch of lots,
+ * least recently checked first, and for each:
+ * 1. Fetches tracking for the lot's tracking number
+ * 2. Appends new checkpoints to `shipment_events` (the carrier's scans, or
+ *    one checkpoint per status change when the supplier only reports the
+ *    latest status)
+ * 3. On delivery: moves the lot SHIPPED → DELIVERED and emails the buyer
+ * 4. Otherwise alerts once when the parcel has had no new checkpoint for
+ *    TRACKING_STALE_DAYS
+ *
+ * CJ's trackInfo reports only the current status string, not carrier scans,
+ * so for CJ lots a "checkpoint" is a status change and staleness means the
+ * status hasn't changed for TRACKING_STALE_DAYS. A parcel can sit "in
+ * transit" for most of a normal 7-20 day delivery, hence the 21-day default.
+ *
+ * Env vars:
+ *   TRACKING_STALE_DAYS — optional; default 21
+ */
+
+import { db, generateId } from "@/lib/turso";
+import {
+  getDropshipLotsByStatus,
+  LotConflictError,
+  transitionDropshipLot,
+  type DropshipLot,
+  type LotEventActor,
+} from "@/lib/dropship";
+import {
+  getSupplier,
+  SupplierUnavailableError,
+  type SupplierTracking,
+  type SupplierTrackingEvent,
+} from "@/lib/supplier";
+import { sendAlert } from "@/lib/alerts";
+import { sendEmail } from "@/lib/email";
+import { getUserById } from "@/lib/user";
+import { readNumberEnv } from "@/lib/env";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ShipmentTracking = {
+  lot_id: string;
+  tracking_number: string;
+  carrier: string | null;
+  status: string | null;
+  delivery_days: string | null;
+  last_event_at: string | null;
+  checked_at: string | null;
+  stale_alerted_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ShipmentEvent = {
+  id: string;
+  lot_id: string;
+  tracking_number: string;
+  status: string;
+  description: string | null;
+  location: string | null;
+  occurred_at: string;
+  created_at: string;
+};
+
+export type TrackingSyncResult = {
+  checked: number;
+  delivered: number;
+  staleAlerts: number;
+  /** SHIPPED lots without a tracking number, or whose supplier was unavailable. */
+  skipped: number;
+  failed: number;
+  /** Left for the next run by the batch limit or time budget. */
+  deferred: number;
+};
+
+type SyncOutcome = "delivered" | "stale" | "in_transit";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const DEFAULT_STALE_TRACKING_DAYS = 21;
+
+/**
+ * Per-run limits. Supplier calls are rate limited (CJ: one per second, with
+ * retries backing off for up to 30s) and the sync runs inside the 60s
+ * process cron, so a run checks at most SYNC_MAX_LOTS lots and starts none
+ * after SYNC_BUDGET_MS. A backlog is worked through over several runs.
+ */
+const SYNC_MAX_LOTS = 20;
+const SYNC_BUDGET_MS = 15_000;
+
+/**
+ * Days without a new checkpoint (a scan, or for status-only suppliers like
+ * CJ a status change) before a parcel is reported as stale.
+ */
+export function getStaleTrackingDays(): number {
+  return readNumberEnv("TRACKING_STALE_DAYS", DEFAULT_STALE_TRACKING_DAYS);
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+export async function getShipmentTracking(lotId: string): Promise<ShipmentTracking | null> {
+  const result = await db.execute({
+    sql: "SELECT * FROM shipment_tracking WHERE lot_id = ?",
+    args: [lotId],
+  });
+  const row = result.rows[0];
+  return row ? (row as unknown as ShipmentTracking) : null;
+}
+
+/** A lot's checkpoints, oldest first. */
+export async function getShipmentEvents(lotId: string): Promise<ShipmentEvent[]> {
+  const result = await db.execute({
+    sql: "SELECT * FROM shipment_events WHERE lot_id = ? ORDER BY occurred_at ASC, created_at ASC",
+    args: [lotId],
+  });
+  return result.rows.map((row) => row as unknown as ShipmentEvent);
+}
+
+/** SHIPPED lots, never-checked first, then least recently checked. */
+async function getShippedLotsByCheckAge(): Promise<DropshipLot[]> {
+  const lots = await getDropshipLotsByStatus("SHIPPED");
+  if (lots.length === 0) return lots;
+
+  const result = await db.execute({
+    sql: `SELECT lot_id, checked_at FROM shipment_tracking
+          WHERE lot_id IN (SELECT id FROM dropship_lots WHERE status = 'SHIPPED')`,
+    args: [],
+  });
+  const checkedAt = new Map(
+    result.rows.map((row) => [row.lot_id as string, (row.checked_at as string | null) ?? ""])
+  );
+  return lots.sort((a, b) => (checkedAt.get(a.id) ?? "").localeCompare(checkedAt.get(b.id) ?? ""));
+}
+
+/** Insert checkpoints; ones already stored (same time and status) are ignored. */
+async function insertShipmentEvents(
+  lotId: string,
+  trackingNumber: string,
+  events: SupplierTrackingEvent[]
+): Promise<void> {
+  if (events.length === 0) return;
+
+  await db.batch(
+    events.map((event) => ({
+      sql: `INSERT INTO shipment_events
+              (id, lot_id, tracking_number, status, description, location, occurred_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(lot_id, occurred_at, status) DO NOTHING`,
+      args: [
+        generateId(),
+        lotId,
+        trackingNumber,
+        event.status,
+        event.description,
+        event.location,
+        event.occurredAt,
+      ],
+    })),
+    "write"
+  );
+}
+
+async function saveShipmentTracking(
+  lotId: string,
+  fields: Omit<ShipmentTracking, "lot_id" | "created_at" | "updated_at">
+): Promise<void> {
+  await db.execute({
+    sql: `INSERT INTO shipment_tracking
+            (lot_id, tracking_number, carrier, status, delivery_days, last_event_at,
+             checked_at, stale_alerted_at, delivered_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(lot_id) DO UPDATE SET
+            tracking_number = excluded.tracking_number,
+            carrier = excluded.carrier,
+            status = excluded.status,
+            delivery_days = excluded.delivery_days,
+            last_event_at = excluded.last_event_at,
+            checked_at = excluded.checked_at,
+            stale_alerted_at = excluded.stale_alerted_at,
+            delivered_at = excluded.delivered_at,
+            updated_at = excluded.updated_at`,
+    args: [
+      lotId,
+      fields.tracking_number,
+      fields.carrier,
+      fields.status,
+      fields.delivery_days,
+      fields.last_event_at,
+      fields.checked_at,
+      fields.stale_alerted_at,
+      fields.delivered_at,
+      new Date().toISOString(),
+    ],
+  });
+}
+
+async function getLastEventAt(lotId: string): Promise<string | null> {
+  const result = await db.execute({
+    sql: "SELECT MAX(occurred_at) AS last_event_at FROM shipment_events WHERE lot_id = ?",
+    args: [lotId],
+  });
+  return (result.rows[0]?.last_event_at as string | null) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Sync
+// ---------------------------------------------------------------------------
+
+/**
+ * The checkpoints to record for this poll: the supplier's scans, or — when
+ * it only reports the current status — one checkpoint if that changed.
+ */
+function checkpointsFor(
+  tracking: SupplierTracking,
+  previous: ShipmentTracking | null,
+  now: string
+): SupplierTrackingEvent[] {
+  if (tracking.events.length > 0) return tracking.events;
+  if (!tracking.status || tracking.status === previous?.status) return [];
+
+  return [{
+    occurredAt: (tracking.delivered && tracking.deliveredAt) || now,
+    status: tracking.status,
+    description: null,
+    location: null,
+  }];
+}
+
+async function syncLotTracking(
+  lot: DropshipLot & { tracking_number: string },
+  actor: LotEventActor,
+  staleDays: number
+): Promise<SyncOutcome> {
+  const supplier = getSupplier(lot.supplier);
+  const tracking = await supplier.getTracking(lot.tracking_number);
+  const previous = await getShipmentTracking(lot.id);
+  const now = new Date().toISOString();
+
+  await insertShipmentEvents(lot.id, lot.tracking_number, checkpointsFor(tracking, previous, now));
+  const lastEventAt = (await getLastEventAt(lot.id)) ?? previous?.last_event_at ?? now;
+
+  // A new checkpoint since the last alert re-arms the stale alert
+  let staleAlertedAt = previous?.stale_alerted_at ?? null;
+  if (staleAlertedAt && lastEventAt !== previous?.last_event_at) staleAlertedAt = null;
+
+  const isStale =
+    !tracking.delivered &&
+    !staleAlertedAt &&
+    Date.now() - new Date(lastEventAt).getTime() > staleDays * DAY_MS;
+  if (isStale) staleAlertedAt = now;
+
+  await saveShipmentTracking(lot.id, {
+    tracking_number: lot.tracking_number,
+    carrier: tracking.carrier || lot.tracking_carrier,
+    status: tracking.status || null,
+    delivery_days: tracking.deliveryDays != null ? String(tracking.deliveryDays) : previous?.delivery_days ?? null,
+    last_event_at: lastEventAt,
+    checked_at: now,
+    stale_alerted_at: staleAlertedAt,
+    delivered_at: tracking.delivered ? tracking.deliveredAt ?? now : null,
+  });
+
+  if (tracking.delivered) {
+    await transitionDropshipLot(lot.id, {
+      from: "SHIPPED",
+      to: "DELIVERED",
+      expectedUpdatedAt: lot.updated_at,
+      updates: lot.tracking_carrier ? undefined : { tracking_carrier: tracking.carrier || null },
+    }, {
+      actor,
+      reason: `${supplier.name} tracking ${lot.tracking_number}: ${tracking.status || "delivered"}`,
+      payload: { tracking },
+    });
+    console.log(`[tracking] Lot ${lot.id} → DELIVERED (${lot.tracking_number})`);
+    await sendDeliveredEmail(lot);
+    return "delivered";
+  }
+
+  if (isStale) {
+    const idleDays = ((Date.now() - new Date(lastEventAt).getTime()) / DAY_MS).toFixed(1);
+    await sendAlert(
+      `Parcel has had no tracking ${tracking.events.length > 0 ? "scan" : "status change"} for ${idleDays} days: lot=${lot.id} ` +
+        `"${lot.cj_product_name}" tracking=${lot.tracking_number} ` +
+        `(${tracking.carrier || lot.tracking_carrier || "unknown carrier"}, status "${tracking.status || "unknown"}")`,
+      "warning"
+    );
+    return "stale";
+  }
+
+  return "in_transit";
+}
+
+async function sendDeliveredEmail(lot: DropshipLot): Promise<void> {
+  if (!lot.winner_user_id) return;
+  try {
+    const user = await getUserById(lot.winner_user_id);
+    if (!user?.email) return;
+    await sendEmail({
+      to: user.email,
+      template: "order_delivered",
+      data: { productName: lot.cj_product_name },
+    });
+  } catch (e) {
+    console.warn(`[email] Failed to send email for lot ${lot.id}:`, e);
+  }
+}
+
+/**
+ * Check tracking for a batch of SHIPPED lots, least recently checked first
+ * (see SYNC_MAX_LOTS). A supplier whose API is unavailable is skipped for
+ * the rest of the run; its lots are retried next time.
+ */
+export async function syncShippedLots(
+  actor: LotEventActor = "system"
+): Promise<TrackingSyncResult> {
+  const lots = await getShippedLotsByCheckAge();
+  const staleDays = getStaleTrackingDays();
+  console.log(`[tracking] ${lots.length} SHIPPED lot(s), checking up to ${SYNC_MAX_LOTS} (stale after ${staleDays}d)...`);
+
+  const result: TrackingSyncResult = {
+    checked: 0,
+    delivered: 0,
+    staleAlerts: 0,
+    skipped: 0,
+    failed: 0,
+    deferred: 0,
+  };
+  const pausedSuppliers = new Set<string>();
+  const deadline = Date.now() + SYNC_BUDGET_MS;
+  let attempted = 0;
+
+  for (const lot of lots) {
+    if (attempted >= SYNC_MAX_LOTS || Date.now() >= deadline) {
+      result.deferred = lots.length - lots.indexOf(lot);
+      break;
+    }
+    if (!lot.tracking_number) {
+      console.warn(`[tracking] Lot ${lot.id} is SHIPPED but has no tracking number — skipping`);
+      result.skipped++;
+      continue;
+    }
+    if (pausedSuppliers.has(lot.supplier)) {
+      result.skipped++;
+      continue;
+    }
+
+    attempted++;
+    try {
+      const outcome = await syncLotTracking({ ...lot, tracking_number: lot.tracking_number }, actor, staleDays);
+      result.checked++;
+      if (outcome === "delivered") result.delivered++;
+      if (outcome === "stale") result.staleAlerts++;
+    } catch (e) {
+      if (e instanceof SupplierUnavailableError) {
+        console.warn(`[tracking] ${lot.supplier} unavailable — skipping its remaining lots: ${e.message}`);
+        pausedSuppliers.add(lot.supplier);
+        result.skipped++;
+        continue;
+      }
+      if (e instanceof LotConflictError) {
+        console.log(`[tracking] Lot ${lot.id} moved on while checking tracking — ${e.message}`);
+        result.checked++;
+        continue;
+      }
+      console.error(`[tracking] Failed to sync tracking for lot ${lot.id} (${lot.tracking_number}):`, e);
+      result.failed++;
+    }
+  }
+
+  console.log(
+    `[tracking] Done — checked=${result.checked} delivered=${result.delivered} ` +
+      `staleAlerts=${result.staleAlerts} skipped=${result.skipped} failed=${result.failed} deferred=${result.deferred}`
+  );
+
+  return result;
+}
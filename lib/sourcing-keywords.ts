@@ -18,6 +18,10 @@ export type SourcingKeyword = {
   last_sourced_at: string | null;
   total_runs: number;
   total_lots_created: number;
+  /** When rotation last turned the keyword off for losing money. */
+  deactivated_at: string | null;
+  /** Why it was turned off; cleared when it's re-enabled. */
+  deactivated_reason: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -37,6 +41,8 @@ function rowToKeyword(row: Record<string, unknown>): SourcingKeyword {
     last_sourced_at: row.last_sourced_at as string | null,
     total_runs: row.total_runs as number,
     total_lots_created: row.total_lots_created as number,
+    deactivated_at: (row.deactivated_at as string | null) ?? null,
+    deactivated_reason: (row.deactivated_reason as string | null) ?? null,
     created_at: row.created_at as string,
     updated_at: row.updated_at as string,
   };
@@ -130,7 +136,8 @@ export async function listKeywords(): Promise<SourcingKeyword[]> {
 }
 
 /**
- * Toggle a keyword active/inactive.
+ * Toggle a keyword active/inactive. Re-enabling clears the deactivation
+ * reason; `deactivated_at` stays so loss checks only count newer lots.
  */
 export async function toggleKeyword(
   id: string,
@@ -138,8 +145,23 @@ export async function toggleKeyword(
 ): Promise<void> {
   const now = new Date().toISOString();
   await db.execute({
-    sql: `UPDATE sourcing_keywords SET active = ?, updated_at = ? WHERE id = ?`,
-    args: [active ? 1 : 0, now, id],
+    sql: active
+      ? `UPDATE sourcing_keywords SET active = 1, deactivated_reason = NULL, updated_at = ? WHERE id = ?`
+      : `UPDATE sourcing_keywords SET active = 0, updated_at = ? WHERE id = ?`,
+    args: [now, id],
+  });
+}
+
+/**
+ * Turn a keyword off automatically, recording when and why.
+ */
+export async function deactivateKeyword(id: string, reason: string): Promise<void> {
+  const now = new Date().toISOString();
+  await db.execute({
+    sql: `UPDATE sourcing_keywords
+          SET active = 0, deactivated_at = ?, deactivated_reason = ?, updated_at = ?
+          WHERE id = ?`,
+    args: [now, reason, now, id],
   });
 }
 
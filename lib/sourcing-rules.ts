@@ -0,0 +1,487 @@
+/**
+ * Sourcing Rules — quality and compliance filters applied to auto-sourcing
+ * candidates, stored in `sourcing_rules` so they can be tuned without a deploy.
+ *
+ * Rule types (each row is one value; add several rows for a list):
+ *   blocked_category             category name contains the value
+ *   blocked_term                 title/description mentions the term
+ *   brand_term                   title/description names the brand (knock-off risk)
+ *   ip_risk_term                 title/description uses the phrase ("replica", "inspired by")
+ *   min_images                   fewer product images than this
+ *   min_description_chars        description shorter than this once HTML is
+ *                                stripped, or mostly untranslated (CJK)
+ *   max_weight_grams             heavier than this, or weight unknown
+ *   max_dimension_mm             longest side over this, or size unknown
+ *   preferred_warehouse          ship from this country when it has stock
+ *   warehouse_policy             "prefer" (default) or "require" a preferred warehouse
+ *
+ * Terms match whole words, case-insensitively. With several numeric limits
+ * of one type the strictest wins.
+ *
+ * Every candidate runAutoSource() passes over — by a rule or by the built-in
+ * cost/stock/freight checks — is written to `sourcing_rejections` with its
+ * reason, so `pnpm pipeline:rules rejections` shows what each rule costs.
+ */
+
+import { db, generateId } from "@/lib/turso";
+import { normalizeCountryCode } from "@/lib/lot-shipping";
+import type {
+  SupplierInventory,
+  SupplierProduct,
+  SupplierVariant,
+} from "@/lib/supplier";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const SOURCING_RULE_TYPES = {
+  blocked_category: { kind: "term", description: "Reject products whose category contains this" },
+  blocked_term: { kind: "term", description: "Reject titles/descriptions mentioning this" },
+  brand_term: { kind: "term", description: "Reject titles/descriptions naming this brand" },
+  ip_risk_term: { kind: "term", description: "Reject titles/descriptions using this phrase" },
+  min_images: { kind: "number", description: "Minimum product images" },
+  min_description_chars: { kind: "number", description: "Minimum description length (text only)" },
+  max_weight_grams: { kind: "number", description: "Maximum weight in grams" },
+  max_dimension_mm: { kind: "number", description: "Maximum longest side in mm" },
+  preferred_warehouse: { kind: "country", description: "Ship from this country when it has stock" },
+  warehouse_policy: { kind: "policy", description: '"prefer" or "require" a preferred warehouse' },
+} as const;
+
+export type SourcingRuleType = keyof typeof SOURCING_RULE_TYPES;
+
+/** Checks runAutoSource() always makes, logged alongside rule rejections. */
+export type BuiltInSourcingCheck = "max_cost" | "out_of_stock" | "no_freight" | "supplier_error";
+
+export type SourcingRule = {
+  id: string;
+  rule_type: SourcingRuleType;
+  value: string;
+  active: number; // 0 or 1 (SQLite boolean)
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SourcingRejection = {
+  ruleId: string | null;
+  ruleType: SourcingRuleType | BuiltInSourcingCheck;
+  reason: string;
+};
+
+export type SourcingRejectionRecord = {
+  id: string;
+  keyword: string;
+  supplier: string;
+  product_id: string;
+  variant_id: string | null;
+  product_name: string | null;
+  rule_id: string | null;
+  rule_type: string;
+  reason: string;
+  created_at: string;
+};
+
+type TermRule = { rule: SourcingRule; pattern: RegExp };
+type LimitRule = { rule: SourcingRule; limit: number };
+
+/** Active rules, compiled for checking candidates. */
+export type SourcingRuleSet = {
+  blockedCategories: SourcingRule[];
+  terms: TermRule[];
+  minImages: LimitRule | null;
+  minDescriptionChars: LimitRule | null;
+  maxWeightGrams: LimitRule | null;
+  maxDimensionMm: LimitRule | null;
+  preferredWarehouses: SourcingRule[];
+  warehousePolicy: SourcingRule | null;
+};
+
+const WAREHOUSE_POLICIES = ["prefer", "require"] as const;
+
+/** Share of CJK characters above which a description counts as untranslated. */
+const MAX_CJK_SHARE = 0.2;
+
+// ---------------------------------------------------------------------------
+// Row mapper
+// ---------------------------------------------------------------------------
+
+function rowToRule(row: Record<string, unknown>): SourcingRule {
+  return {
+    id: row.id as string,
+    rule_type: row.rule_type as SourcingRuleType,
+    value: row.value as string,
+    active: row.active as number,
+    note: (row.note as string | null) ?? null,
+    created_at: row.created_at as string,
+    updated_at: row.updated_at as string,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+export function isSourcingRuleType(value: string): value is SourcingRuleType {
+  return Object.prototype.hasOwnProperty.call(SOURCING_RULE_TYPES, value);
+}
+
+/**
+ * Validate and normalize a rule value for its type (trimmed term, positive
+ * integer, ISO country code or policy name). Throws on an invalid value.
+ */
+export function normalizeRuleValue(type: SourcingRuleType, raw: string): string {
+  const value = raw.trim();
+  const kind = SOURCING_RULE_TYPES[type].kind;
+
+  if (kind === "term") {
+    if (!value) throw new Error(`${type} needs a non-empty value`);
+    return value;
+  }
+  if (kind === "number") {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 1) throw new Error(`${type} needs a positive whole number, got "${raw}"`);
+    return String(n);
+  }
+  if (kind === "country") {
+    const code = normalizeCountryCode(value);
+    if (!code) throw new Error(`${type} needs a country code or name, got "${raw}"`);
+    return code;
+  }
+  const policy = value.toLowerCase();
+  if (!WAREHOUSE_POLICIES.includes(policy as (typeof WAREHOUSE_POLICIES)[number])) {
+    throw new Error(`${type} must be one of ${WAREHOUSE_POLICIES.join(", ")}, got "${raw}"`);
+  }
+  return policy;
+}
+
+/**
+ * List all sourcing rules (active and inactive), grouped by type.
+ */
+export async function listSourcingRules(): Promise<SourcingRule[]> {
+  const result = await db.execute(
+    "SELECT * FROM sourcing_rules ORDER BY rule_type ASC, active DESC, created_at ASC"
+  );
+  return result.rows.map((row) => rowToRule(row as unknown as Record<string, unknown>));
+}
+
+/**
+ * Insert a sourcing rule. The value is normalized for its type first.
+ */
+export async function insertSourcingRule(params: {
+  type: SourcingRuleType;
+  value: string;
+  note?: string | null;
+}): Promise<string> {
+  const id = generateId();
+  const now = new Date().toISOString();
+
+  await db.execute({
+    sql: `INSERT INTO sourcing_rules (id, rule_type, value, active, note, created_at, updated_at)
+          VALUES (?, ?, ?, 1, ?, ?, ?)`,
+    args: [id, params.type, normalizeRuleValue(params.type, params.value), params.note ?? null, now, now],
+  });
+
+  return id;
+}
+
+/**
+ * Toggle a rule active/inactive.
+ */
+export async function toggleSourcingRule(id: string, active: boolean): Promise<void> {
+  await db.execute({
+    sql: `UPDATE sourcing_rules SET active = ?, updated_at = ? WHERE id = ?`,
+    args: [active ? 1 : 0, new Date().toISOString(), id],
+  });
+}
+
+/**
+ * Delete a sourcing rule by id. Logged rejections keep its id and type.
+ */
+export async function deleteSourcingRule(id: string): Promise<void> {
+  await db.execute({
+    sql: `DELETE FROM sourcing_rules WHERE id = ?`,
+    args: [id],
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Rule set
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Whole-word, case-insensitive match that also works for terms like "AirPods®" or "3M". */
+function termPattern(term: string): RegExp {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`, "iu");
+}
+
+function strictest(rules: SourcingRule[], pick: (a: number, b: number) => boolean): LimitRule | null {
+  let best: LimitRule | null = null;
+  for (const rule of rules) {
+    const limit = Number(rule.value);
+    if (!Number.isFinite(limit)) continue;
+    if (!best || pick(limit, best.limit)) best = { rule, limit };
+  }
+  return best;
+}
+
+/** Compile rules for checking. Unknown or malformed rows are skipped with a warning. */
+export function compileSourcingRules(rules: SourcingRule[]): SourcingRuleSet {
+  const byType = new Map<SourcingRuleType, SourcingRule[]>();
+  for (const rule of rules) {
+    if (!rule.active) continue;
+    if (!isSourcingRuleType(rule.rule_type)) {
+      console.warn(`[rules] Ignoring rule ${rule.id} with unknown type "${rule.rule_type}"`);
+      continue;
+    }
+    byType.set(rule.rule_type, [...(byType.get(rule.rule_type) ?? []), rule]);
+  }
+  const of = (type: SourcingRuleType) => byType.get(type) ?? [];
+  const policies = of("warehouse_policy");
+
+  return {
+    blockedCategories: of("blocked_category"),
+    terms: [...of("blocked_term"), ...of("brand_term"), ...of("ip_risk_term")].map((rule) => ({
+      rule,
+      pattern: termPattern(rule.value),
+    })),
+    minImages: strictest(of("min_images"), (a, b) => a > b),
+    minDescriptionChars: strictest(of("min_description_chars"), (a, b) => a > b),
+    maxWeightGrams: strictest(of("max_weight_grams"), (a, b) => a < b),
+    maxDimensionMm: strictest(of("max_dimension_mm"), (a, b) => a < b),
+    preferredWarehouses: of("preferred_warehouse"),
+    // The newest policy row wins
+    warehousePolicy: policies[policies.length - 1] ?? null,
+  };
+}
+
+/** Active rules from the database, compiled. */
+export async function loadSourcingRules(): Promise<SourcingRuleSet> {
+  const result = await db.execute("SELECT * FROM sourcing_rules WHERE active = 1 ORDER BY created_at ASC");
+  return compileSourcingRules(
+    result.rows.map((row) => rowToRule(row as unknown as Record<string, unknown>))
+  );
+}
+
+export function countSourcingRules(ruleSet: SourcingRuleSet): number {
+  return (
+    ruleSet.blockedCategories.length +
+    ruleSet.terms.length +
+    [ruleSet.minImages, ruleSet.minDescriptionChars, ruleSet.maxWeightGrams, ruleSet.maxDimensionMm].filter(Boolean).length +
+    ruleSet.preferredWarehouses.length +
+    (ruleSet.warehousePolicy ? 1 : 0)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+function reject(rule: SourcingRule, reason: string): SourcingRejection {
+  return { ruleId: rule.id, ruleType: rule.rule_type, reason };
+}
+
+/** Description text without markup, entities or runs of whitespace. */
+function descriptionText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&[a-z0-9#]+;/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Product-level rules: category, terms, images and description. Returns the
+ * first rule the product breaks, or null.
+ */
+export function checkProductRules(
+  ruleSet: SourcingRuleSet,
+  product: SupplierProduct
+): SourcingRejection | null {
+  const category = product.category?.toLowerCase() ?? "";
+  for (const rule of ruleSet.blockedCategories) {
+    if (category.includes(rule.value.toLowerCase())) {
+      return reject(rule, `Category "${product.category}" is blocked ("${rule.value}")`);
+    }
+  }
+
+  const text = descriptionText(product.description);
+  for (const { rule, pattern } of ruleSet.terms) {
+    const where = pattern.test(product.name) ? "title" : pattern.test(text) ? "description" : null;
+    if (where) {
+      const label = rule.rule_type === "brand_term" ? "brand" : rule.rule_type === "ip_risk_term" ? "IP-risk term" : "blocked term";
+      return reject(rule, `${where[0].toUpperCase()}${where.slice(1)} contains ${label} "${rule.value}"`);
+    }
+  }
+
+  if (ruleSet.minImages && product.images.length < ruleSet.minImages.limit) {
+    return reject(
+      ruleSet.minImages.rule,
+      `${product.images.length} image(s), need at least ${ruleSet.minImages.limit}`
+    );
+  }
+
+  if (ruleSet.minDescriptionChars) {
+    const { rule, limit } = ruleSet.minDescriptionChars;
+    if (text.length < limit) {
+      return reject(rule, `Description has ${text.length} characters, need at least ${limit}`);
+    }
+    const letters = text.match(/\p{L}/gu)?.length ?? 0;
+    const cjk = text.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu)?.length ?? 0;
+    if (letters > 0 && cjk / letters > MAX_CJK_SHARE) {
+      return reject(rule, `Description is mostly untranslated (${Math.round((cjk / letters) * 100)}% CJK)`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Variant-level rules: weight and size. Unknown measurements fail a limit —
+ * we can't tell the item fits.
+ */
+export function checkVariantRules(
+  ruleSet: SourcingRuleSet,
+  product: SupplierProduct,
+  variant: SupplierVariant
+): SourcingRejection | null {
+  if (ruleSet.maxWeightGrams) {
+    const { rule, limit } = ruleSet.maxWeightGrams;
+    const weight = variant.weightGrams ?? product.weightGrams;
+    if (weight == null) return reject(rule, `Weight unknown (limit ${limit} g)`);
+    if (weight > limit) return reject(rule, `Weighs ${weight} g (limit ${limit} g)`);
+  }
+
+  if (ruleSet.maxDimensionMm) {
+    const { rule, limit } = ruleSet.maxDimensionMm;
+    const size = variant.dimensionsMm;
+    if (!size) return reject(rule, `Size unknown (limit ${limit} mm)`);
+    const longest = Math.max(size.length, size.width, size.height);
+    if (longest > limit) return reject(rule, `Longest side ${longest} mm (limit ${limit} mm)`);
+  }
+
+  return null;
+}
+
+/**
+ * Warehouse to ship from: the first preferred country with stock, else the
+ * supplier's default — or a rejection when the policy requires a preferred one.
+ */
+export function pickWarehouse(
+  ruleSet: SourcingRuleSet,
+  inventory: SupplierInventory
+): { fromCountry: string | null } | { rejection: SourcingRejection } {
+  const preferred = ruleSet.preferredWarehouses.find((rule) =>
+    inventory.warehouses.some((w) => w.countryCode === rule.value && w.stock > 0)
+  );
+  if (preferred) return { fromCountry: preferred.value };
+
+  const policy = ruleSet.warehousePolicy;
+  if (policy?.value === "require" && ruleSet.preferredWarehouses.length) {
+    const stocked = inventory.warehouses.map((w) => w.countryCode).join(", ") || "none";
+    return {
+      rejection: reject(
+        policy,
+        `No stock in preferred warehouse(s) ${ruleSet.preferredWarehouses.map((r) => r.value).join(", ")} (stocked: ${stocked})`
+      ),
+    };
+  }
+
+  return { fromCountry: inventory.fromCountry };
+}
+
+// ---------------------------------------------------------------------------
+// Rejection log
+// ---------------------------------------------------------------------------
+
+/**
+ * Record why a sourcing candidate was passed over. Never throws — a logging
+ * failure must not stop the sourcing run.
+ */
+export async function recordSourcingRejection(params: {
+  keyword: string;
+  supplier: string;
+  productId: string;
+  variantId?: string | null;
+  productName?: string | null;
+  rejection: SourcingRejection;
+}): Promise<void> {
+  const { rejection } = params;
+  console.log(
+    `[rules] Rejected ${params.productName ?? params.productId}` +
+      `${params.variantId ? ` [${params.variantId}]` : ""} — ${rejection.ruleType}: ${rejection.reason}`
+  );
+
+  try {
+    await db.execute({
+      sql: `INSERT INTO sourcing_rejections
+              (id, keyword, supplier, product_id, variant_id, product_name, rule_id, rule_type, reason, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        generateId(),
+        params.keyword,
+        params.supplier,
+        params.productId,
+        params.variantId ?? null,
+        params.productName ?? null,
+        rejection.ruleId,
+        rejection.ruleType,
+        rejection.reason,
+        new Date().toISOString(),
+      ],
+    });
+  } catch (e) {
+    console.error("[rules] Failed to record sourcing rejection:", e);
+  }
+}
+
+/**
+ * Rejection counts per rule over the last `days` days, most frequent first.
+ */
+export async function getSourcingRejectionSummary(days: number): Promise<
+  Array<{ rule_type: string; rule_id: string | null; value: string | null; count: number }>
+> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const result = await db.execute({
+    sql: `SELECT j.rule_type, j.rule_id, r.value, COUNT(*) AS count
+          FROM sourcing_rejections j
+          LEFT JOIN sourcing_rules r ON r.id = j.rule_id
+          WHERE j.created_at >= ?
+          GROUP BY j.rule_type, j.rule_id
+          ORDER BY count DESC`,
+    args: [since],
+  });
+
+  return result.rows.map((row) => ({
+    rule_type: row.rule_type as string,
+    rule_id: (row.rule_id as string | null) ?? null,
+    value: (row.value as string | null) ?? null,
+    count: Number(row.count),
+  }));
+}
+
+/**
+ * Most recent rejections, newest first.
+ */
+export async function listSourcingRejections(limit = 20): Promise<SourcingRejectionRecord[]> {
+  const result = await db.execute({
+    sql: `SELECT * FROM sourcing_rejections ORDER BY created_at DESC LIMIT ?`,
+    args: [limit],
+  });
+
+  return result.rows.map((row) => ({
+    id: row.id as string,
+    keyword: row.keyword as string,
+    supplier: row.supplier as string,
+    product_id: row.product_id as string,
+    variant_id: (row.variant_id as string | null) ?? null,
+    product_name: (row.product_name as string | null) ?? null,
+    rule_id: (row.rule_id as string | null) ?? null,
+    rule_type: row.rule_type as string,
+    reason: row.reason as string,
+    created_at: row.created_at as string,
+  }));
+}
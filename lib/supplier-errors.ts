@@ -0,0 +1,20 @@
+/**
+ * Supplier errors — thrown by supplier adapters and handled by the pipeline.
+ * Kept out of lib/supplier.ts so adapters don't import the registry.
+ */
+
+import type { SupplierId } from "@/lib/supplier-types";
+
+/**
+ * The supplier's API is refusing calls (e.g. its circuit breaker is open).
+ * Nothing was sent, so the operation can simply be retried on a later run.
+ */
+export class SupplierUnavailableError extends Error {
+  constructor(
+    readonly supplierId: SupplierId,
+    message: string
+  ) {
+    super(message);
+    this.name = "SupplierUnavailableError";
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Supplier types — the data shapes and the `Supplier` interface the
+ * dropship pipeline works with (see lib/supplier.ts for the registry).
+ *
+ * Kept free of runtime imports so supplier adapters (lib/cj-supplier.ts)
+ * can depend on it without importing the registry that constructs them.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SupplierId = "cj";
+
+export type SupplierSearchResult = {
+  productId: string;
+  name: string;
+  imageUrl: string | null;
+  /** Cheapest variant cost (search results often quote a price range). */
+  minCostCents: number | null;
+  /** Units in stock across the supplier's warehouses. */
+  inventory: number;
+};
+
+export type SupplierVariant = {
+  variantId: string;
+  name: string;
+  sku: string | null;
+  costCents: number;
+  imageUrl: string | null;
+  /** Packed weight in grams, if the supplier reports it. */
+  weightGrams: number | null;
+  /** Package size in millimetres, if the supplier reports it. */
+  dimensionsMm: { length: number; width: number; height: number } | null;
+};
+
+export type SupplierProduct = {
+  productId: string;
+  name: string;
+  description: string;
+  images: string[];
+  /** The supplier's category name, e.g. "Phone Accessories". */
+  category: string | null;
+  /** Product weight in grams; variants may override it. */
+  weightGrams: number | null;
+  variants: SupplierVariant[];
+};
+
+export type SupplierWarehouseStock = {
+  countryCode: string;
+  stock: number;
+};
+
+export type SupplierInventory = {
+  totalStock: number;
+  /** Country of a warehouse holding stock, if known. */
+  fromCountry: string | null;
+  /** Stock per warehouse country, largest first. */
+  warehouses: SupplierWarehouseStock[];
+};
+
+export type SupplierFreightQuote = {
+  /** Shipping method name, passed back to createOrder. */
+  method: string;
+  costCents: number;
+  /** Supplier's delivery estimate, e.g. "7-15" (days). */
+  deliveryDays: string | null;
+};
+
+/** Buyer shipping address, as stored on the lot (`shipping_address`). */
+export type ShippingAddress = {
+  name: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  phone?: string;
+};
+
+export type SupplierOrder = {
+  orderId: string;
+  orderNumber: string;
+  status: string;
+};
+
+/**
+ * Normalized order state. `raw` keeps the supplier's own status string,
+ * which is what gets stored in `cj_order_status`.
+ */
+export type SupplierOrderState = "PENDING" | "PAID" | "SHIPPED" | "CANCELLED";
+
+export type SupplierOrderStatus = {
+  orderId: string;
+  state: SupplierOrderState;
+  raw: string;
+  trackingNumber: string | null;
+  carrier: string | null;
+};
+
+/** One carrier scan. */
+export type SupplierTrackingEvent = {
+  occurredAt: string;
+  status: string;
+  description: string | null;
+  location: string | null;
+};
+
+export type SupplierTracking = {
+  trackingNumber: string;
+  carrier: string;
+  /** The supplier's own tracking status string. */
+  status: string;
+  delivered: boolean;
+  deliveredAt: string | null;
+  deliveryDays: number | null;
+  /**
+   * Carrier scans, if the supplier reports them. May be empty when only the
+   * current status is available — the tracking sync then records a
+   * checkpoint each time `status` changes.
+   */
+  events: SupplierTrackingEvent[];
+};
+
+// ---------------------------------------------------------------------------
+// Interface
+// ---------------------------------------------------------------------------
+
+export interface Supplier {
+  readonly id: SupplierId;
+  /** Human-readable name for logs and alerts. */
+  readonly name: string;
+
+  searchProducts(params: {
+    keyword: string;
+    limit: number;
+    /** Destination country the products should ship to. */
+    countryCode?: string;
+  }): Promise<SupplierSearchResult[]>;
+  /** Product detail including every purchasable variant. */
+  getProduct(productId: string): Promise<SupplierProduct>;
+  getInventory(variantId: string): Promise<SupplierInventory>;
+  /** Shipping options for one unit, cheapest first. */
+  quoteFreight(params: {
+    variantId: string;
+    fromCountry: string;
+    toCountry: string;
+  }): Promise<SupplierFreightQuote[]>;
+
+  createOrder(params: {
+    orderNumber: string;
+    variantId: string;
+    quantity: number;
+    shippingMethod: string;
+    fromCountry: string;
+    shippingAddress: ShippingAddress;
+  }): Promise<SupplierOrder>;
+  /** Pay for (and, where the supplier needs it, confirm) a created order. */
+  payOrder(orderId: string): Promise<void>;
+  getOrderStatus(orderId: string): Promise<SupplierOrderStatus>;
+  getTracking(trackingNumber: string): Promise<SupplierTracking>;
+
+  /** False while the supplier's API is known to be failing (circuit open). */
+  isAvailable(): boolean;
+  /** Optional per-endpoint API call counts, logged after sourcing runs. */
+  getCallStats?(): Array<{ endpoint: string; calls: number; retries: number }>;
+}
@@ -0,0 +1,51 @@
+/**
+ * Supplier abstraction — what the dropship pipeline needs from a product
+ * source, independent of who that source is.
+ *
+ * Sourcing (`runAutoSource`), fulfillment and stuck-lot recovery talk to a
+ * `Supplier`; each lot records which one it came from in
+ * `dropship_lots.supplier`. CJ Dropshipping (`lib/cj-supplier.ts`) is the
+ * first implementation. To add another source, implement the interface
+ * (lib/supplier-types.ts) and register it in `getSupplier()`. Types and
+ * errors are re-exported here, so callers keep importing from this module.
+ *
+ * All money is in cents; all IDs are the supplier's own. The `cj_*` lot
+ * columns predate this abstraction and hold the lot supplier's IDs/costs
+ * whichever supplier that is.
+ */
+
+import { CJSupplier } from "@/lib/cj-supplier";
+import type { Supplier, SupplierId } from "@/lib/supplier-types";
+
+export type * from "@/lib/supplier-types";
+export { SupplierUnavailableError } from "@/lib/supplier-errors";
+
+export const DEFAULT_SUPPLIER_ID: SupplierId = "cj";
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const SUPPLIER_FACTORIES: Record<SupplierId, () => Supplier> = {
+  cj: () => new CJSupplier(),
+};
+
+const suppliers = new Map<SupplierId, Supplier>();
+
+export function isSupplierId(value: string): value is SupplierId {
+  return Object.prototype.hasOwnProperty.call(SUPPLIER_FACTORIES, value);
+}
+
+/** The supplier adapter for a lot's `supplier` column (defaults to CJ). */
+export function getSupplier(id: string = DEFAULT_SUPPLIER_ID): Supplier {
+  if (!isSupplierId(id)) {
+    throw new Error(`Unknown supplier "${id}"`);
+  }
+
+  let supplier = suppliers.get(id);
+  if (!supplier) {
+    supplier = SUPPLIER_FACTORIES[id]();
+    suppliers.set(id, supplier);
+  }
+  return supplier;
+}
@@ -0,0 +1,375 @@
+/**
+ * Unpaid Invoice Recovery
+ *
+ * Building blocks for processUnpaidInvoices() in lib/pipeline.ts. A winner's
+ * invoice that is still unpaid after the retry window gets one more charge
+ * attempt and a reminder email. Past the final deadline the invoice is voided
+ * and each item on it is offered to the underbidder at their last bid.
+ *
+ * Second-chance offers are `send_invoice` Stripe invoices: the underbidder
+ * pays from the hosted page, nothing is charged unless they act. Each item
+ * gets at most one offer; a lapsed offer is voided and left for an operator.
+ *
+ * Env vars:
+ *   UNPAID_INVOICE_RETRY_HOURS    — optional; default 48
+ *   UNPAID_INVOICE_DEADLINE_HOURS — optional; default 96 (also the offer window)
+ */
+
+import { stripe } from "@/lib/stripe";
+import { getManagementApiClient, getAccountId } from "@/lib/basta-client";
+import {
+  createBastaOrder,
+  getAccountFees,
+  tryCreateStripeInvoice,
+} from "@/lib/order-service";
+import { getPaymentProfile } from "@/lib/payment-profile";
+import {
+  getSecondChanceOfferByItemId,
+  insertSecondChanceOffer,
+  logInvoiceAttempt,
+  updatePaymentOrder,
+  updateSecondChanceOfferStatus,
+  type PaymentOrder,
+  type SecondChanceOffer,
+} from "@/lib/db";
+import { cancelBastaPaymentOrder } from "@/lib/dropship-refund";
+import { sendEmail } from "@/lib/email";
+import { getUserById } from "@/lib/user";
+import { getShippingSurcharges } from "@/lib/lot-shipping";
+import { readNumberEnv } from "@/lib/env";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type UnpaidInvoiceWindows = {
+  retryAfterHours: number;
+  deadlineHours: number;
+};
+
+/** Retry window and final deadline, both measured from invoice creation. */
+export function getUnpaidInvoiceWindows(): UnpaidInvoiceWindows {
+  const retryAfterHours = readNumberEnv("UNPAID_INVOICE_RETRY_HOURS", 48);
+  const deadlineHours = Math.max(
+    readNumberEnv("UNPAID_INVOICE_DEADLINE_HOURS", 96),
+    retryAfterHours
+  );
+  return { retryAfterHours, deadlineHours };
+}
+
+export function addHours(iso: string, hours: number): Date {
+  return new Date(new Date(iso).getTime() + hours * HOUR_MS);
+}
+
+function formatDeadline(date: Date): string {
+  return `${date.toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "UTC",
+  })} UTC`;
+}
+
+// ---------------------------------------------------------------------------
+// Retry + reminder
+// ---------------------------------------------------------------------------
+
+/**
+ * Charge the card on file once more. If that fails too, record the attempt
+ * (so the reminder goes out only once) and email the buyer the invoice link
+ * and deadline.
+ */
+export async function retryInvoicePayment(
+  order: PaymentOrder,
+  invoiceId: string,
+  deadline: Date
+): Promise<"paid" | "reminded"> {
+  let error: string | undefined;
+  try {
+    const invoice = await stripe.invoices.pay(invoiceId);
+    if (invoice.status === "paid") {
+      console.log(`[unpaid] Retried invoice ${invoiceId} — paid`);
+      return "paid";
+    }
+    error = `Invoice status after retry: ${invoice.status}`;
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  console.log(`[unpaid] Retry failed for invoice ${invoiceId}: ${error}`);
+  await logInvoiceAttempt({
+    basta_order_id: order.basta_order_id,
+    sale_id: order.sale_id,
+    user_id: order.user_id,
+    status: "PAYMENT_RETRIED",
+    stripe_invoice_id: invoiceId,
+    error,
+  });
+
+  const user = await getUserById(order.user_id);
+  if (user?.email) {
+    await sendEmail({
+      to: user.email,
+      template: "payment_reminder",
+      data: {
+        invoiceUrl: order.stripe_invoice_url,
+        deadline: formatDeadline(deadline),
+      },
+    });
+  }
+
+  return "reminded";
+}
+
+// ---------------------------------------------------------------------------
+// Void
+// ---------------------------------------------------------------------------
+
+/**
+ * Void an unpaid order: the Stripe invoice first (throws if that fails, so
+ * nothing is re-offered while the winner can still pay), then the Basta
+ * order. The local record stays open until markOrderVoided().
+ */
+export async function voidUnpaidOrder(
+  order: PaymentOrder,
+  invoiceId: string
+): Promise<void> {
+  await stripe.invoices.voidInvoice(invoiceId);
+  console.log(`[unpaid] Voided invoice ${invoiceId} for order ${order.basta_order_id}`);
+
+  await cancelBastaPaymentOrder(order.basta_order_id);
+}
+
+/**
+ * Close a voided order once every item on it has been re-offered. Until
+ * then getUnpaidPaymentOrders() keeps returning it, so a run that fails
+ * part-way is finished by the next one.
+ */
+export async function markOrderVoided(
+  order: PaymentOrder,
+  invoiceId: string
+): Promise<void> {
+  await updatePaymentOrder(order.basta_order_id, { status: "VOIDED" });
+  await logInvoiceAttempt({
+    basta_order_id: order.basta_order_id,
+    sale_id: order.sale_id,
+    user_id: order.user_id,
+    status: "VOIDED",
+    stripe_invoice_id: invoiceId,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Basta bid history
+// ---------------------------------------------------------------------------
+
+export type Underbidder = {
+  userId: string;
+  amount: number;
+};
+
+type SaleItemBidsResponse = {
+  saleItem?: {
+    id?: string | null;
+    title?: string | null;
+    reserve?: number | null;
+    bids?: Array<{
+      userId?: string | null;
+      amount?: number | null;
+      date?: string | null;
+    } | null> | null;
+  } | null;
+};
+
+/**
+ * Underbidders for an item, best first. Each bidder appears once, at the
+ * amount of their most recent bid; bids below the reserve are dropped since
+ * the item never sold at that price.
+ */
+export async function findUnderbidders(params: {
+  saleId: string;
+  itemId: string;
+  excludeUserIds: string[];
+}): Promise<{ title: string | null; underbidders: Underbidder[] }> {
+  const client = getManagementApiClient();
+  const accountId = getAccountId();
+
+  const response = (await client.query({
+    saleItem: {
+      __args: { accountId, saleId: params.saleId, itemId: params.itemId },
+      id: true,
+      title: true,
+      reserve: true,
+      bids: {
+        __args: { collapseSequentialUserBids: true },
+        userId: true,
+        amount: true,
+        date: true,
+      },
+    },
+  })) as unknown as SaleItemBidsResponse;
+
+  const item = response.saleItem;
+  const excluded = new Set(params.excludeUserIds);
+  const lastBids = new Map<string, { amount: number; date: string }>();
+
+  for (const bid of item?.bids ?? []) {
+    if (!bid?.userId || !bid.amount || excluded.has(bid.userId)) continue;
+    const date = bid.date ?? "";
+    const previous = lastBids.get(bid.userId);
+    if (!previous || date > previous.date) {
+      lastBids.set(bid.userId, { amount: bid.amount, date });
+    }
+  }
+
+  const reserve = item?.reserve ?? 0;
+  const underbidders = Array.from(lastBids.entries())
+    .map(([userId, { amount }]) => ({ userId, amount }))
+    .filter((bidder) => bidder.amount >= reserve)
+    .sort((a, b) => b.amount - a.amount);
+
+  return { title: item?.title ?? null, underbidders };
+}
+
+// ---------------------------------------------------------------------------
+// Second-chance offers
+// ---------------------------------------------------------------------------
+
+/**
+ * Offer an item from a voided order to the best underbidder who can be
+ * invoiced. Returns null when the item was already offered or nobody
+ * eligible is left.
+ */
+export async function offerToUnderbidder(params: {
+  order: PaymentOrder;
+  itemId: string;
+  currency: string;
+  productName?: string | null;
+  deadlineHours: number;
+}): Promise<SecondChanceOffer | null> {
+  const { order, itemId, currency, deadlineHours } = params;
+
+  const existing = await getSecondChanceOfferByItemId(itemId);
+  if (existing) {
+    console.log(`[unpaid] Item ${itemId} was already offered (offer ${existing.id}), skipping`);
+    return null;
+  }
+
+  const { title, underbidders } = await findUnderbidders({
+    saleId: order.sale_id,
+    itemId,
+    excludeUserIds: [order.user_id],
+  });
+  const productName = params.productName || title || "Auction item";
+
+  for (const bidder of underbidders) {
+    const profile = await getPaymentProfile(bidder.userId);
+    if (!profile?.stripe_customer_id || !profile.default_payment_method_id) {
+      console.log(`[unpaid] Underbidder ${bidder.userId} has no payment profile, trying next`);
+      continue;
+    }
+
+    const { surcharges, blocked } = await getShippingSurcharges(bidder.userId, [itemId]);
+    const unshippable = blocked.get(itemId);
+    if (unshippable) {
+      console.log(`[unpaid] Item ${itemId} ${unshippable.reason} for underbidder ${bidder.userId}, trying next`);
+      continue;
+    }
+
+    const accountFees = await getAccountFees();
+    const orderLines = [
+      {
+        itemId,
+        amount: bidder.amount,
+        description: `Second-chance offer: ${productName}`,
+        shipping: surcharges.get(itemId),
+      },
+    ];
+
+    const bastaOrderId = await createBastaOrder({
+      saleId: order.sale_id,
+      userId: bidder.userId,
+      currency,
+      items: orderLines,
+      accountFees,
+    });
+
+    const invoice = await tryCreateStripeInvoice({
+      orderId: bastaOrderId,
+      saleId: order.sale_id,
+      userId: bidder.userId,
+      currency,
+      orderLines,
+      accountFees,
+      daysUntilDue: Math.max(1, Math.ceil(deadlineHours / 24)),
+    });
+
+    if (!invoice.success) {
+      console.warn(
+        `[unpaid] Could not invoice underbidder ${bidder.userId} for item ${itemId}: ${invoice.reason}`
+      );
+      await cancelBastaPaymentOrder(bastaOrderId);
+      continue;
+    }
+
+    const offer = await insertSecondChanceOffer({
+      sale_id: order.sale_id,
+      item_id: itemId,
+      original_order_id: order.basta_order_id,
+      original_user_id: order.user_id,
+      user_id: bidder.userId,
+      amount_cents: bidder.amount,
+      basta_order_id: bastaOrderId,
+      stripe_invoice_id: invoice.stripeInvoiceId,
+      stripe_invoice_url: invoice.invoiceUrl,
+    });
+
+    console.log(
+      `[unpaid] Offered item ${itemId} to underbidder ${bidder.userId} at ${bidder.amount} (invoice ${invoice.stripeInvoiceId})`
+    );
+
+    const user = await getUserById(bidder.userId);
+    if (user?.email) {
+      await sendEmail({
+        to: user.email,
+        template: "second_chance_offer",
+        data: {
+          productName,
+          amount: bidder.amount,
+          invoiceUrl: invoice.invoiceUrl,
+          deadline: formatDeadline(addHours(offer.created_at, deadlineHours)),
+        },
+      });
+    }
+
+    return offer;
+  }
+
+  return null;
+}
+
+/**
+ * Close out an offer past its deadline. An offer paid in the meantime (the
+ * webhook normally records that) is marked PAID; otherwise its invoice and
+ * Basta order are voided.
+ */
+export async function expireSecondChanceOffer(
+  offer: SecondChanceOffer
+): Promise<"paid" | "expired"> {
+  const invoice = await stripe.invoices.retrieve(offer.stripe_invoice_id);
+  if (invoice.status === "paid") {
+    await updateSecondChanceOfferStatus(offer.id, "PAID");
+    return "paid";
+  }
+
+  if (invoice.status !== "void") {
+    await stripe.invoices.voidInvoice(offer.stripe_invoice_id);
+  }
+  await cancelBastaPaymentOrder(offer.basta_order_id);
+  await updatePaymentOrder(offer.basta_order_id, { status: "VOIDED" });
+  await updateSecondChanceOfferStatus(offer.id, "EXPIRED");
+
+  console.log(`[unpaid] Second-chance offer ${offer.id} for item ${offer.item_id} expired`);
+  return "expired";
+}
@@ -5,6 +5,7 @@ export type User = {
     id: string;
     email: string;
     name: string;
+    email_verified_at: string | null;
     created_at: string;
     updated_at: string;
 };
@@ -27,6 +28,7 @@ export async function getUserWithPasswordById(id: string): Promise<UserWithPassw
         email: row.email as string,
         name: row.name as string,
         password_hash: row.password_hash as string,
+        email_verified_at: (row.email_verified_at as string | null) ?? null,
         created_at: row.created_at as string,
         updated_at: row.updated_at as string,
     };
@@ -46,6 +48,7 @@ export async function getUserByEmail(email: string): Promise<UserWithPassword |
         email: row.email as string,
         name: row.name as string,
         password_hash: row.password_hash as string,
+        email_verified_at: (row.email_verified_at as string | null) ?? null,
         created_at: row.created_at as string,
         updated_at: row.updated_at as string,
     };
@@ -53,7 +56,7 @@ export async function getUserByEmail(email: string): Promise<UserWithPassword |
 
 export async function getUserById(id: string): Promise<User | null> {
     const result = await db.execute({
-        sql: "SELECT id, email, name, created_at, updated_at FROM users WHERE id = ?",
+        sql: "SELECT id, email, name, email_verified_at, created_at, updated_at FROM users WHERE id = ?",
         args: [id],
     });
 
@@ -64,6 +67,7 @@ export async function getUserById(id: string): Promise<User | null> {
         id: row.id as string,
         email: row.email as string,
         name: row.name as string,
+        email_verified_at: (row.email_verified_at as string | null) ?? null,
         created_at: row.created_at as string,
         updated_at: row.updated_at as string,
     };
@@ -88,6 +92,7 @@ export async function createUser(
         id,
         email: email.toLowerCase(),
         name,
+        email_verified_at: null,
         created_at: now,
         updated_at: now,
     };
@@ -141,10 +146,12 @@ export async function updateUser(
         }
     }
 
+    // A new address has to be verified again before sale registration
     const now = new Date().toISOString();
+    const emailVerifiedAt = nextEmail === existing.email ? existing.email_verified_at : null;
     await db.execute({
-        sql: "UPDATE users SET email = ?, name = ?, updated_at = ? WHERE id = ?",
-        args: [nextEmail, nextName, now, userId],
+        sql: "UPDATE users SET email = ?, name = ?, email_verified_at = ?, updated_at = ? WHERE id = ?",
+        args: [nextEmail, nextName, emailVerifiedAt, now, userId],
     });
 
     const updated = await getUserById(userId);
@@ -154,12 +161,35 @@ export async function updateUser(
     return updated;
 }
 
+/**
+ * Set a new password and sign the user out everywhere: any session issued
+ * before now is rejected on its next request (see `jwt` in lib/auth.ts).
+ */
 export async function updateUserPassword(userId: string, newPassword: string): Promise<void> {
     const password_hash = await bcrypt.hash(newPassword, 12);
     const now = new Date().toISOString();
 
-    await db.execute({
-        sql: "UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?",
-        args: [password_hash, now, userId],
+    await db.batch(
+        [
+            {
+                sql: "UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?",
+                args: [password_hash, now, userId],
+            },
+            {
+                sql: `INSERT INTO session_revocations (user_id, revoked_at) VALUES (?, ?)
+                      ON CONFLICT(user_id) DO UPDATE SET revoked_at = excluded.revoked_at`,
+                args: [userId, now],
+            },
+        ],
+        "write"
+    );
+}
+
+/** When the user's sessions were last revoked, or null if never. */
+export async function getSessionsRevokedAt(userId: string): Promise<string | null> {
+    const result = await db.execute({
+        sql: "SELECT revoked_at FROM session_revocations WHERE user_id = ?",
+        args: [userId],
     });
+    return (result.rows[0]?.revoked_at as string | undefined) ?? null;
 }
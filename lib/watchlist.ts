@@ -1,4 +1,90 @@
-import { db } from "@/lib/turso";
+import { db, generateId } from "@/lib/turso";
+
+export type WatchlistItem = {
+  id: string;
+  user_id: string;
+  sale_id: string;
+  item_id: string;
+  created_at: string;
+};
+
+function rowToWatchlistItem(row: Record<string, unknown>): WatchlistItem {
+  return {
+    id: row.id as string,
+    user_id: row.user_id as string,
+    sale_id: row.sale_id as string,
+    item_id: row.item_id as string,
+    created_at: row.created_at as string,
+  };
+}
+
+/** A user's watchlist, most recently added first. Optionally limited to one sale. */
+export async function listWatchlistItems(
+  userId: string,
+  saleId?: string
+): Promise<WatchlistItem[]> {
+  const result = saleId
+    ? await db.execute({
+        sql: "SELECT * FROM watchlist_items WHERE user_id = ? AND sale_id = ? ORDER BY created_at DESC",
+        args: [userId, saleId],
+      })
+    : await db.execute({
+        sql: "SELECT * FROM watchlist_items WHERE user_id = ? ORDER BY created_at DESC",
+        args: [userId],
+      });
+
+  return result.rows.map((row) => rowToWatchlistItem(row as unknown as Record<string, unknown>));
+}
+
+/** Every user's watchlist entries for one sale (used by bid notifications). */
+export async function listWatchlistItemsForSale(saleId: string): Promise<WatchlistItem[]> {
+  const result = await db.execute({
+    sql: "SELECT * FROM watchlist_items WHERE sale_id = ?",
+    args: [saleId],
+  });
+
+  return result.rows.map((row) => rowToWatchlistItem(row as unknown as Record<string, unknown>));
+}
+
+/** Add a lot to the watchlist. Adding a lot that is already watched is a no-op. */
+export async function addWatchlistItem(
+  userId: string,
+  saleId: string,
+  itemId: string
+): Promise<void> {
+  await db.execute({
+    sql: `INSERT INTO watchlist_items (id, user_id, sale_id, item_id, created_at)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT(user_id, sale_id, item_id) DO NOTHING`,
+    args: [generateId(), userId, saleId, itemId, new Date().toISOString()],
+  });
+}
+
+/** Remove a lot from the watchlist. Returns false if it wasn't on it. */
+export async function removeWatchlistItem(
+  userId: string,
+  saleId: string,
+  itemId: string
+): Promise<boolean> {
+  const result = await db.execute({
+    sql: "DELETE FROM watchlist_items WHERE user_id = ? AND sale_id = ? AND item_id = ?",
+    args: [userId, saleId, itemId],
+  });
+  return result.rowsAffected > 0;
+}
+
+/** Whether the user is watching a specific lot. */
+export async function isWatchlisted(
+  userId: string,
+  saleId: string,
+  itemId: string
+): Promise<boolean> {
+  const result = await db.execute({
+    sql: "SELECT 1 FROM watchlist_items WHERE user_id = ? AND sale_id = ? AND item_id = ?",
+    args: [userId, saleId, itemId],
+  });
+  return result.rows.length > 0;
+}
 
 /** Count how many watchlist items a user has. */
 export async function countWatchlistItems(userId: string): Promise<number> {
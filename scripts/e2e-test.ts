@@ -98,7 +98,7 @@ async function main() {
     cj_shipping_cents: shippingCostCents,
     starting_bid_cents: startingBidCents,
     reserve_cents: reserveCents,
-  });
+  }, { actor: "cli" });
   console.log(`  Lot ID: ${lotId}`);
 
   // Step 4: Create Basta sale (5-minute window)
@@ -164,7 +164,7 @@ async function main() {
     basta_sale_id: saleId,
     basta_item_id: itemId,
     status: "LISTED",
-  });
+  }, { actor: "cli" });
 
   await bastaClient.mutation({
     publishSale: {
@@ -172,7 +172,7 @@ async function main() {
       id: true,
     },
   });
-  await updateDropshipLot(lotId, { status: "PUBLISHED" });
+  await updateDropshipLot(lotId, { status: "PUBLISHED" }, { actor: "cli" });
   console.log("  Published!");
 
   // Step 6: Wait for open
@@ -239,7 +239,7 @@ async function main() {
   }
 
   console.log("\n\n  Running post-close pipeline...");
-  const pollResult = await pollAndProcessClosedSales();
+  const pollResult = await pollAndProcessClosedSales({ actor: "cli" });
   console.log(`  Poll: ${pollResult.newlyProcessed} newly processed, ${pollResult.reserveNotMet} reserve not met`);
 
   // Step 9: Check results
@@ -22,6 +22,54 @@ async function initDatabase() {
     const tx = await db.transaction("write");
     try {
         await tx.executeMultiple(schema);
+
+        // CREATE TABLE IF NOT EXISTS leaves existing tables alone, so columns
+        // added after a table was first created are backfilled here.
+        const userColumns = await tx.execute("PRAGMA table_info(users)");
+        if (!userColumns.rows.some((row) => row.name === "email_verified_at")) {
+            await tx.execute("ALTER TABLE users ADD COLUMN email_verified_at TEXT");
+            // Accounts created before verification existed are grandfathered in
+            await tx.execute("UPDATE users SET email_verified_at = created_at");
+            console.log("Added users.email_verified_at (existing users marked verified)");
+        }
+
+        const lotColumns = await tx.execute("PRAGMA table_info(dropship_lots)");
+        if (!lotColumns.rows.some((row) => row.name === "supplier")) {
+            // Every lot before the supplier abstraction came from CJ
+            await tx.execute("ALTER TABLE dropship_lots ADD COLUMN supplier TEXT NOT NULL DEFAULT 'cj'");
+            console.log("Added dropship_lots.supplier (existing lots set to cj)");
+        }
+        if (!lotColumns.rows.some((row) => row.name === "cj_delivery_days")) {
+            await tx.execute("ALTER TABLE dropship_lots ADD COLUMN cj_delivery_days TEXT");
+            console.log("Added dropship_lots.cj_delivery_days");
+        }
+        if (!lotColumns.rows.some((row) => row.name === "relist_count")) {
+            await tx.execute("ALTER TABLE dropship_lots ADD COLUMN relist_count INTEGER NOT NULL DEFAULT 0");
+            console.log("Added dropship_lots.relist_count");
+        }
+        if (!lotColumns.rows.some((row) => row.name === "source_keyword")) {
+            await tx.execute("ALTER TABLE dropship_lots ADD COLUMN source_keyword TEXT");
+            // Auto-sourced lots name their keyword in the SOURCED event's reason
+            await tx.execute(`
+                UPDATE dropship_lots SET source_keyword = (
+                    SELECT substr(e.reason, 27, length(e.reason) - 27)
+                    FROM dropship_lot_events e
+                    WHERE e.lot_id = dropship_lots.id
+                      AND e.from_status IS NULL
+                      AND e.reason LIKE 'Auto-sourced for keyword "%"'
+                    LIMIT 1
+                )
+            `);
+            console.log("Added dropship_lots.source_keyword (backfilled from lot events)");
+        }
+
+        const keywordColumns = await tx.execute("PRAGMA table_info(sourcing_keywords)");
+        if (!keywordColumns.rows.some((row) => row.name === "deactivated_at")) {
+            await tx.execute("ALTER TABLE sourcing_keywords ADD COLUMN deactivated_at TEXT");
+            await tx.execute("ALTER TABLE sourcing_keywords ADD COLUMN deactivated_reason TEXT");
+            console.log("Added sourcing_keywords.deactivated_at / deactivated_reason");
+        }
+
         await tx.commit();
         console.log("Database initialized successfully!");
     } catch (error) {
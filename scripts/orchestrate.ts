@@ -6,17 +6,37 @@
  *   pnpm pipeline:monitor --sale-id <id> --poll-interval 30
  *   pnpm pipeline:run     --keyword "phone stand" --max-cost 15
  *   pnpm pipeline:status  [--sale-id <id>]
+ *   pnpm pipeline:timeline --lot-id <id>
+ *   pnpm pipeline:unpaid  [--dry-run]
+ *   pnpm pipeline:tracking
+ *   pnpm pipeline:relist
+ *   pnpm pipeline:rules   <list|add|enable|disable|remove|rejections>
+ *   pnpm pipeline:settings <list|set|reset|history>
+ *   pnpm pipeline:switches <list|pause|resume>
+ *   pnpm pipeline:runs    [--job <job>] [--limit <n>] [--run-id <id>]
+ *
+ * Paused stages (see lib/pipeline-switches.ts) are skipped by every command.
+ * Stage work runs under the stage's lock (lib/pipeline-locks.ts), so the CLI
+ * never overlaps the cron; monitor waits for a busy lock, source skips.
+ * source and monitor record their runs in pipeline_runs (lib/pipeline-runs.ts).
  */
 
 import { config } from "dotenv";
 import { resolve } from "path";
 config({ path: resolve(process.cwd(), ".env.local") });
 
-import { getDropshipLotsBySale } from "../lib/dropship";
+import {
+  getDropshipLotById,
+  getDropshipLotEvents,
+  getDropshipLotsBySale,
+} from "../lib/dropship";
 import {
   pollAndProcessClosedSales,
   retryFailedFulfillments,
   processRefunds,
+  processUnpaidInvoices,
+  syncShipmentTracking,
+  relistUnsoldDropshipLots,
   getSaleStatus,
   getStatusDashboard,
   checkCjQuota,
@@ -27,7 +47,54 @@ import {
   listKeywords,
   insertKeyword,
   deleteKeyword,
+  toggleKeyword,
 } from "../lib/sourcing-keywords";
+import { getKeywordPerformance } from "../lib/keyword-performance";
+import {
+  deleteSourcingRule,
+  getSourcingRejectionSummary,
+  insertSourcingRule,
+  isSourcingRuleType,
+  listSourcingRejections,
+  listSourcingRules,
+  normalizeRuleValue,
+  SOURCING_RULE_TYPES,
+  toggleSourcingRule,
+} from "../lib/sourcing-rules";
+import { getShipmentEvents } from "../lib/shipment-tracking";
+import {
+  formatPipelineSetting,
+  getPipelineSettingsAudit,
+  isPipelineSettingKey,
+  listPipelineSettings,
+  PIPELINE_SETTINGS,
+  resetPipelineSetting,
+  setPipelineSetting,
+  type PipelineSettingKey,
+} from "../lib/pipeline-settings";
+import {
+  describePause,
+  getStagePause,
+  isPipelineStage,
+  listPipelineSwitches,
+  pausePipelineStage,
+  PIPELINE_STAGES,
+  resumePipelineStage,
+  type PipelineStage,
+} from "../lib/pipeline-switches";
+import {
+  finishPipelineRun,
+  getLastStepSuccesses,
+  getOverdueJobs,
+  getPipelineRun,
+  listPipelineRuns,
+  recordSkippedStep,
+  runPipelineStep,
+  startPipelineRun,
+  type PipelineJob,
+  type PipelineRun,
+} from "../lib/pipeline-runs";
+import { describeLock, listPipelineLocks, withPipelineLock } from "../lib/pipeline-locks";
 
 // ---------------------------------------------------------------------------
 // CLI helpers
@@ -43,6 +110,58 @@ function hasFlag(name: string): boolean {
   return process.argv.includes(name);
 }
 
+/** True (after saying so) when the stage's kill switch is on. */
+async function isPaused(stage: PipelineStage, prefix: string): Promise<boolean> {
+  const pause = await getStagePause(stage);
+  if (pause) console.log(`[${prefix}] ${describePause(pause)} — skipping`);
+  return pause !== null;
+}
+
+/** How long monitor waits for a stage another run holds before skipping it. */
+const STAGE_LOCK_WAIT_MS = 60_000;
+
+/**
+ * Run a recorded step under its stage's lock. A paused stage, or one whose
+ * lock is still held after STAGE_LOCK_WAIT_MS, is recorded as skipped.
+ */
+async function runStage<T>(
+  runId: string | null,
+  stage: PipelineStage,
+  step: string,
+  fn: () => Promise<T>
+): Promise<T | null> {
+  const pause = await getStagePause(stage);
+  if (pause) {
+    console.log(`[${step}] ${describePause(pause)} — skipping`);
+    await recordSkippedStep(runId, step, describePause(pause));
+    return null;
+  }
+  const outcome = await withPipelineLock(stage, "cli:monitor", () => runPipelineStep(runId, step, fn), {
+    waitMs: STAGE_LOCK_WAIT_MS,
+    runId,
+  });
+  if (outcome.acquired) return outcome.value;
+  const detail = outcome.heldBy ? describeLock(outcome.heldBy) : `${stage} is locked`;
+  console.log(`[${step}] ${detail} — skipping`);
+  await recordSkippedStep(runId, step, detail);
+  return null;
+}
+
+/** Print the stage locks currently held by a running job. */
+async function printPipelineLocks(): Promise<void> {
+  const locks = await listPipelineLocks();
+  console.log("\n=== Stage locks ===\n");
+  if (locks.length === 0) {
+    console.log("  None held.");
+  }
+  for (const lock of locks) {
+    console.log(
+      `  ${lock.name.padEnd(14)} ${lock.holder.padEnd(30)} since ${lock.acquired_at}, ` +
+        `heartbeat ${lock.heartbeat_at}${lock.run_id ? ` (run ${lock.run_id})` : ""}`
+    );
+  }
+}
+
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
 // ---------------------------------------------------------------------------
@@ -85,14 +204,20 @@ async function commandSource() {
   const keyword = getArg("--keyword", "wireless headphones")!;
   const maxCost = parseFloat(getArg("--max-cost", "50")!);
   const maxProducts = parseInt(getArg("--max-products", "5")!, 10);
+  const maxVariants = parseInt(getArg("--max-variants", "3")!, 10);
   const publish = hasFlag("--publish");
 
   console.log("=== Pipeline: Source ===");
   console.log(`  Keyword:      ${keyword}`);
   console.log(`  Max cost:     $${maxCost}`);
   console.log(`  Max products: ${maxProducts}`);
+  console.log(`  Max variants: ${maxVariants} per product`);
   console.log(`  Publish:      ${publish}\n`);
 
+  if (await isPaused("sourcing", "source")) return;
+  // A draft sale nothing publishes would strand its lots LISTED
+  if (publish && (await isPaused("publishing", "source"))) return;
+
   // Pre-flight: Check CJ API quota
   try {
     const quotaReport = await checkCjQuota();
@@ -110,12 +235,34 @@ async function commandSource() {
     console.warn("[source] Failed to check CJ quota (non-blocking):", e);
   }
 
-  const result = await runAutoSource({
-    keyword,
-    maxCostUsd: maxCost,
-    maxProducts,
-    publish,
-  });
+  const runId = await startPipelineRun("source", "cli");
+  let skipped: string | null = null;
+  let result;
+  try {
+    const outcome = await withPipelineLock("sourcing", "cli:source", () =>
+      runPipelineStep(runId, "source", () =>
+        runAutoSource({
+          keyword,
+          maxCostUsd: maxCost,
+          maxProducts,
+          maxVariantsPerProduct: maxVariants,
+          publish,
+          actor: "cli",
+        })
+      ), { runId });
+    if (outcome.acquired) {
+      result = outcome.value;
+    } else {
+      skipped = outcome.heldBy ? describeLock(outcome.heldBy) : "sourcing is locked";
+    }
+  } finally {
+    await finishPipelineRun(runId, skipped ? { status: "skipped", detail: skipped } : undefined);
+  }
+
+  if (!result) {
+    console.log(`[source] ${skipped} — skipping`);
+    return;
+  }
 
   if (!result.saleId) {
     console.log("No products sourced. Try a different keyword or increase --max-cost.");
@@ -127,6 +274,7 @@ async function commandSource() {
   console.log("═══════════════════════════════════════════════════════════");
   console.log(`Sale ID:        ${result.saleId}`);
   console.log(`Items listed:   ${result.lotsCreated}`);
+  console.log(`Relisted:       ${result.lotsRelisted}`);
   console.log(`Dashboard:      https://dashboard.basta.app/sales/${result.saleId}`);
   console.log("═══════════════════════════════════════════════════════════");
 
@@ -165,14 +313,25 @@ async function commandMonitor() {
       if (status.status === "CLOSED") {
         console.log("[monitor] Sale is CLOSED — processing winners...");
 
-        // Step 1: Poll and process closed sales
-        await pollAndProcessClosedSales();
-
-        // Step 2: Retry failed fulfillments
-        await retryFailedFulfillments();
-
-        // Step 3: Process refunds
-        await processRefunds();
+        const runId = await startPipelineRun("monitor", "cli");
+        try {
+          // Step 1: Poll and process closed sales
+          await runStage(runId, "closed_sales", "poll", () =>
+            pollAndProcessClosedSales({ actor: "cli" })
+          );
+
+          // Step 2: Retry failed fulfillments
+          await runStage(runId, "fulfillment", "fulfillment", () =>
+            retryFailedFulfillments({ actor: "cli" })
+          );
+
+          // Step 3: Process refunds
+          await runStage(runId, "refunds", "refund", () =>
+            processRefunds({ actor: "cli" })
+          );
+        } finally {
+          await finishPipelineRun(runId);
+        }
       }
     } catch (e) {
       console.error("[monitor] Error:", e);
@@ -321,6 +480,8 @@ async function commandStatus() {
   console.log(`  Refunds:     ${f.refundCount} lots, ${fmt(f.refundAmount)} returned`);
   console.log(`  Delivered:   ${f.lotsDelivered} lots`);
 
+  await printPipelineLocks();
+
   // CJ API quota report
   try {
     const quotaReport = await checkCjQuota();
@@ -335,17 +496,19 @@ async function commandStatus() {
 // ---------------------------------------------------------------------------
 
 async function commandKeywords() {
-  const action = process.argv[3]; // list | add | remove
+  const action = process.argv[3]; // list | add | enable | disable | remove
 
-  if (!action || !["list", "add", "remove"].includes(action)) {
+  if (!action || !["list", "add", "enable", "disable", "remove"].includes(action)) {
     console.log(`Usage: pnpm pipeline:keywords <action>
 
 Actions:
-  list                             List all sourcing keywords
+  list                             List all sourcing keywords with lot outcomes
   add    --keyword <term>          Add a keyword
          [--max-cost <usd>]        Max wholesale cost (default: 50)
          [--max-products <n>]      Max products per run (default: 5)
          [--priority <n>]          Priority (higher = first, default: 0)
+  enable  --id <id>                Put a keyword (back) into rotation
+  disable --id <id>                Take a keyword out of rotation
   remove --id <id>                 Remove a keyword by ID
 `);
     process.exit(1);
@@ -358,6 +521,10 @@ Actions:
       return;
     }
 
+    const performance = new Map((await getKeywordPerformance()).map((p) => [p.keyword_id, p]));
+    const percent = (value: number | null | undefined) =>
+      value == null ? "-" : `${Math.round(value * 100)}%`;
+
     console.log("=== Sourcing Keywords ===\n");
     console.log(
       "  " +
@@ -369,14 +536,20 @@ Actions:
       "Active".padEnd(8) +
       "Runs".padEnd(6) +
       "Lots".padEnd(6) +
+      "Sold".padEnd(9) +
+      "H/R".padEnd(7) +
+      "Profit".padEnd(11) +
+      "Refund".padEnd(8) +
       "Last Sourced"
     );
-    console.log("  " + "-".repeat(120));
+    console.log("  " + "-".repeat(155));
 
     for (const kw of keywords) {
       const lastSourced = kw.last_sourced_at
         ? new Date(kw.last_sourced_at).toLocaleDateString()
         : "never";
+      const perf = performance.get(kw.id);
+      const hammer = perf?.avg_hammer_over_reserve;
       console.log(
         "  " +
         kw.id.slice(0, 36).padEnd(38) +
@@ -387,9 +560,19 @@ Actions:
         (kw.active ? "yes" : "no").padEnd(8) +
         String(kw.total_runs).padEnd(6) +
         String(kw.total_lots_created).padEnd(6) +
+        (perf?.listings ? `${percent(perf.sell_through)}/${perf.listings}` : "-").padEnd(9) +
+        (hammer != null ? `${hammer.toFixed(2)}x` : "-").padEnd(7) +
+        (perf?.profit_lots ? `${perf.profit_cents < 0 ? "-" : ""}$${(Math.abs(perf.profit_cents) / 100).toFixed(2)}` : "-").padEnd(11) +
+        percent(perf?.refund_rate).padEnd(8) +
         lastSourced
       );
+      if (kw.deactivated_reason && kw.deactivated_at) {
+        console.log(
+          `  ${"".padEnd(38)}turned off ${new Date(kw.deactivated_at).toLocaleDateString()}: ${kw.deactivated_reason}`
+        );
+      }
     }
+    console.log("\n  Sold = sell-through/listings, H/R = average hammer over reserve");
     console.log(`\n  Total: ${keywords.length} keyword(s)`);
     return;
   }
@@ -409,6 +592,17 @@ Actions:
     return;
   }
 
+  if (action === "enable" || action === "disable") {
+    const id = getArg("--id");
+    if (!id) {
+      console.error("Missing --id argument");
+      process.exit(1);
+    }
+    await toggleKeyword(id, action === "enable");
+    console.log(`${action === "enable" ? "Enabled" : "Disabled"} keyword ${id}`);
+    return;
+  }
+
   if (action === "remove") {
     const id = getArg("--id");
     if (!id) {
@@ -421,6 +615,482 @@ Actions:
   }
 }
 
+// ---------------------------------------------------------------------------
+// rules — Manage sourcing quality/compliance rules
+// ---------------------------------------------------------------------------
+
+async function commandRules() {
+  const action = process.argv[3]; // list | add | enable | disable | remove | rejections
+
+  if (!action || !["list", "add", "enable", "disable", "remove", "rejections"].includes(action)) {
+    const types = Object.entries(SOURCING_RULE_TYPES)
+      .map(([type, { description }]) => `  ${type.padEnd(24)} ${description}`)
+      .join("\n");
+    console.log(`Usage: pnpm pipeline:rules <action>
+
+Actions:
+  list                             List all sourcing rules
+  add    --type <type>             Add a rule
+         --value <value>           Term, number, country code or policy
+         [--note <text>]           Why the rule exists
+  enable  --id <id>                Turn a rule on
+  disable --id <id>                Turn a rule off
+  remove --id <id>                 Remove a rule by ID
+  rejections [--days <n>]          Rejections per rule (default: 7 days) and the latest 20
+
+Rule types:
+${types}
+`);
+    process.exit(1);
+  }
+
+  if (action === "list") {
+    const rules = await listSourcingRules();
+    if (rules.length === 0) {
+      console.log("No sourcing rules configured. Add one with: pnpm pipeline:rules add --type brand_term --value \"Nike\"");
+      return;
+    }
+
+    console.log("=== Sourcing Rules ===\n");
+    console.log(
+      "  " +
+      "ID".padEnd(38) +
+      "Type".padEnd(24) +
+      "Value".padEnd(25) +
+      "Active".padEnd(8) +
+      "Note"
+    );
+    console.log("  " + "-".repeat(110));
+
+    for (const rule of rules) {
+      console.log(
+        "  " +
+        rule.id.slice(0, 36).padEnd(38) +
+        rule.rule_type.padEnd(24) +
+        rule.value.padEnd(25) +
+        (rule.active ? "yes" : "no").padEnd(8) +
+        (rule.note ?? "")
+      );
+    }
+    console.log(`\n  Total: ${rules.length} rule(s)`);
+    return;
+  }
+
+  if (action === "add") {
+    const type = getArg("--type");
+    const value = getArg("--value");
+    if (!type || !isSourcingRuleType(type)) {
+      console.error(`Missing or unknown --type (one of: ${Object.keys(SOURCING_RULE_TYPES).join(", ")})`);
+      process.exit(1);
+    }
+    if (value === undefined) {
+      console.error("Missing --value argument");
+      process.exit(1);
+    }
+
+    try {
+      const id = await insertSourcingRule({ type, value, note: getArg("--note") });
+      console.log(`Added ${type} rule "${normalizeRuleValue(type, value)}" (id: ${id})`);
+    } catch (e) {
+      console.error(e instanceof Error ? e.message : e);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (action === "rejections") {
+    const days = parseInt(getArg("--days", "7")!, 10);
+    const [summary, recent] = await Promise.all([
+      getSourcingRejectionSummary(days),
+      listSourcingRejections(20),
+    ]);
+
+    console.log(`=== Sourcing Rejections (last ${days} days) ===\n`);
+    if (summary.length === 0) {
+      console.log("  None.");
+      return;
+    }
+    for (const row of summary) {
+      const label = row.value ? `${row.rule_type} "${row.value}"` : row.rule_type;
+      console.log(`  ${String(row.count).padStart(5)}  ${label}${row.rule_id && !row.value ? " (rule removed)" : ""}`);
+    }
+
+    console.log("\n  Latest:");
+    for (const r of recent) {
+      console.log(
+        `  ${new Date(r.created_at).toLocaleString()}  "${r.keyword}"  ${r.product_name ?? r.product_id}` +
+          `${r.variant_id ? ` [${r.variant_id}]` : ""} — ${r.rule_type}: ${r.reason}`
+      );
+    }
+    return;
+  }
+
+  const id = getArg("--id");
+  if (!id) {
+    console.error("Missing --id argument");
+    process.exit(1);
+  }
+
+  if (action === "remove") {
+    await deleteSourcingRule(id);
+    console.log(`Removed rule ${id}`);
+    return;
+  }
+
+  await toggleSourcingRule(id, action === "enable");
+  console.log(`${action === "enable" ? "Enabled" : "Disabled"} rule ${id}`);
+}
+
+// ---------------------------------------------------------------------------
+// settings — Runtime pipeline guardrails (spend cap, margin floor, thresholds)
+// ---------------------------------------------------------------------------
+
+async function commandSettings() {
+  const action = process.argv[3]; // list | set | reset | history
+
+  if (!action || !["list", "set", "reset", "history"].includes(action)) {
+    const keys = (Object.keys(PIPELINE_SETTINGS) as PipelineSettingKey[])
+      .map((key) => {
+        const def = PIPELINE_SETTINGS[key];
+        const range = `${formatPipelineSetting(key, def.min)} – ${formatPipelineSetting(key, def.max)}`;
+        return `  ${key.padEnd(30)} ${range.padEnd(24)} ${def.description}`;
+      })
+      .join("\n");
+    console.log(`Usage: pnpm pipeline:settings <action>
+
+Actions:
+  list                             Current value, default and last change of every setting
+  set   --key <key> --value <v>    Override a setting (cents, percent or minutes)
+        --reason <text>            Why (required; recorded in the audit log)
+  reset --key <key> --reason <t>   Drop the override so the default applies
+  history [--limit <n>]            Latest changes (default: 20)
+
+Settings (allowed range):
+${keys}
+`);
+    process.exit(1);
+  }
+
+  if (action === "list") {
+    const settings = await listPipelineSettings();
+
+    console.log("=== Pipeline Settings ===\n");
+    console.log(
+      "  " +
+      "Key".padEnd(32) +
+      "Value".padEnd(14) +
+      "Default".padEnd(14) +
+      "Changed"
+    );
+    console.log("  " + "-".repeat(90));
+
+    for (const s of settings) {
+      const changed = s.updated_at ? `${new Date(s.updated_at).toLocaleString()} by ${s.updated_by}` : "";
+      console.log(
+        "  " +
+        s.key.padEnd(32) +
+        formatPipelineSetting(s.key, s.value).padEnd(14) +
+        formatPipelineSetting(s.key, s.default_value).padEnd(14) +
+        changed
+      );
+    }
+    return;
+  }
+
+  if (action === "history") {
+    const limit = parseInt(getArg("--limit", "20")!, 10);
+    const entries = await getPipelineSettingsAudit(limit);
+
+    console.log("=== Pipeline Setting Changes ===\n");
+    if (entries.length === 0) {
+      console.log("  None.");
+      return;
+    }
+    for (const entry of entries) {
+      const show = (value: number | null) =>
+        value === null ? "default" : isPipelineSettingKey(entry.key) ? formatPipelineSetting(entry.key, value) : String(value);
+      console.log(
+        `  ${new Date(entry.created_at).toLocaleString()}  ${entry.key}: ${show(entry.old_value)} → ${show(entry.new_value)}  ${entry.actor}`
+      );
+      console.log(`  ${"".padEnd(22)}  ${entry.reason}`);
+    }
+    return;
+  }
+
+  const key = getArg("--key");
+  const reason = getArg("--reason");
+  if (!key || !isPipelineSettingKey(key)) {
+    console.error(`Missing or unknown --key (one of: ${Object.keys(PIPELINE_SETTINGS).join(", ")})`);
+    process.exit(1);
+  }
+  if (!reason) {
+    console.error("Missing --reason argument");
+    process.exit(1);
+  }
+
+  try {
+    if (action === "set") {
+      const value = getArg("--value");
+      if (value === undefined) {
+        console.error("Missing --value argument");
+        process.exit(1);
+      }
+      const updated = await setPipelineSetting(key, value, { actor: "cli", reason });
+      console.log(`Set ${key} to ${formatPipelineSetting(key, updated.value)}`);
+    } else {
+      const updated = await resetPipelineSetting(key, { actor: "cli", reason });
+      console.log(`Reset ${key} to its default ${formatPipelineSetting(key, updated.value)}`);
+    }
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(1);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// switches — Per-stage kill switches
+// ---------------------------------------------------------------------------
+
+async function commandSwitches() {
+  const action = process.argv[3]; // list | pause | resume
+
+  if (!action || !["list", "pause", "resume"].includes(action)) {
+    const stages = (Object.keys(PIPELINE_STAGES) as PipelineStage[])
+      .map((stage) => `  ${stage.padEnd(16)} ${PIPELINE_STAGES[stage]}`)
+      .join("\n");
+    console.log(`Usage: pnpm pipeline:switches <action>
+
+Actions:
+  list                                   State of every stage
+  pause  --stage <stage> --reason <text> Stop a stage (cron, CLI and webhooks skip it)
+  resume --stage <stage> --reason <text> Let it run again
+
+Stages:
+${stages}
+`);
+    process.exit(1);
+  }
+
+  if (action === "list") {
+    const switches = await listPipelineSwitches();
+
+    console.log("=== Pipeline Switches ===\n");
+    for (const s of switches) {
+      const state = s.paused ? "PAUSED" : "running";
+      const changed = s.updated_at
+        ? `  ${new Date(s.updated_at).toLocaleString()} by ${s.updated_by}: ${s.reason}`
+        : "";
+      console.log(`  ${s.stage.padEnd(16)} ${state.padEnd(9)}${changed}`);
+    }
+    return;
+  }
+
+  const stage = getArg("--stage");
+  const reason = getArg("--reason");
+  if (!stage || !isPipelineStage(stage)) {
+    console.error(`Missing or unknown --stage (one of: ${Object.keys(PIPELINE_STAGES).join(", ")})`);
+    process.exit(1);
+  }
+  if (!reason) {
+    console.error("Missing --reason argument");
+    process.exit(1);
+  }
+
+  if (action === "pause") {
+    await pausePipelineStage(stage, { actor: "cli", reason });
+    console.log(`Paused ${stage}`);
+  } else {
+    await resumePipelineStage(stage, { actor: "cli", reason });
+    console.log(`Resumed ${stage}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// runs — Pipeline run history and per-step telemetry
+// ---------------------------------------------------------------------------
+
+function formatDuration(ms: number | null): string {
+  if (ms == null) return "--";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function printRunSteps(run: PipelineRun) {
+  for (const step of run.steps) {
+    const counts = Object.entries(step.counts)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(" ");
+    console.log(
+      `      ${step.step.padEnd(14)} ${step.status.padEnd(10)} ${formatDuration(step.duration_ms).padStart(7)}  ` +
+        (step.error ?? step.detail ?? counts)
+    );
+  }
+}
+
+async function commandRuns() {
+  const runId = getArg("--run-id");
+  const job = getArg("--job");
+  const limit = parseInt(getArg("--limit", "10")!, 10);
+
+  if (job && !["process", "source", "monitor"].includes(job)) {
+    console.error("Unknown --job (one of: process, source, monitor)");
+    process.exit(1);
+  }
+
+  if (runId) {
+    const run = await getPipelineRun(runId);
+    if (!run) {
+      console.error(`No pipeline run found with id ${runId}`);
+      process.exit(1);
+    }
+    console.log(`=== Run ${run.id}: ${run.trigger} ${run.job} — ${run.status} ===`);
+    console.log(`  Started:  ${run.started_at}`);
+    console.log(`  Finished: ${run.finished_at ?? "--"} (${formatDuration(run.duration_ms)})`);
+    if (run.detail) console.log(`  Detail:   ${run.detail}`);
+    console.log("");
+    printRunSteps(run);
+    return;
+  }
+
+  const [runs, lastSuccesses, overdue] = await Promise.all([
+    listPipelineRuns({ job: job as PipelineJob | undefined, limit }),
+    getLastStepSuccesses(),
+    getOverdueJobs(),
+  ]);
+
+  console.log("=== Pipeline Runs ===\n");
+  if (runs.length === 0) {
+    console.log("  None recorded yet.");
+  }
+  for (const run of runs) {
+    console.log(
+      `  ${new Date(run.started_at).toLocaleString().padEnd(24)} ${`${run.trigger} ${run.job}`.padEnd(14)} ` +
+        `${run.status.padEnd(10)} ${formatDuration(run.duration_ms).padStart(7)}  ${run.detail ?? ""}  (${run.id})`
+    );
+    printRunSteps(run);
+  }
+
+  console.log("\n=== Last success per step ===\n");
+  for (const s of lastSuccesses) {
+    console.log(`  ${s.step.padEnd(14)} ${new Date(s.finished_at).toLocaleString().padEnd(24)} ${formatDuration(s.duration_ms)}`);
+  }
+
+  if (overdue.length > 0) {
+    console.log("\n  *** Overdue scheduled jobs ***");
+    for (const o of overdue) {
+      console.log(`  ${o.job}: last completed ${o.lastCompletedAt}, expected every ${o.everyMinutes} min`);
+    }
+  }
+
+  await printPipelineLocks();
+}
+
+// ---------------------------------------------------------------------------
+// timeline — Status history for one lot
+// ---------------------------------------------------------------------------
+
+async function commandTimeline() {
+  const lotId = getArg("--lot-id");
+
+  if (!lotId) {
+    console.error("Usage: pnpm pipeline:timeline --lot-id <id>");
+    process.exit(1);
+  }
+
+  const lot = await getDropshipLotById(lotId);
+  if (!lot) {
+    console.error(`No dropship lot found with id ${lotId}`);
+    process.exit(1);
+  }
+
+  console.log(`=== Timeline: ${lot.cj_product_name} (${lot.id}) ===`);
+  console.log(`Current status: ${lot.status}\n`);
+
+  const events = await getDropshipLotEvents(lotId);
+  if (events.length === 0) {
+    console.log("  No recorded events (lot predates the audit trail).");
+    return;
+  }
+
+  for (const event of events) {
+    const transition = `${event.from_status ?? "(new)"} → ${event.to_status}`;
+    console.log(`  ${event.created_at}  ${transition.padEnd(34)} ${event.actor}`);
+    if (event.reason) {
+      console.log(`  ${"".padEnd(24)}  ${event.reason}`);
+    }
+  }
+
+  const checkpoints = await getShipmentEvents(lotId);
+  if (checkpoints.length > 0) {
+    console.log(`\n=== Shipment: ${lot.tracking_number} (${lot.tracking_carrier ?? "unknown carrier"}) ===`);
+    for (const checkpoint of checkpoints) {
+      const where = checkpoint.location ? ` @ ${checkpoint.location}` : "";
+      console.log(`  ${checkpoint.occurred_at}  ${checkpoint.status}${where}`);
+      if (checkpoint.description) {
+        console.log(`  ${"".padEnd(24)}  ${checkpoint.description}`);
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// unpaid — Retry, remind, or void unpaid invoices
+// ---------------------------------------------------------------------------
+
+async function commandUnpaid() {
+  if (await isPaused("closed_sales", "unpaid")) return;
+
+  const outcome = await withPipelineLock("closed_sales", "cli:unpaid", () =>
+    processUnpaidInvoices({
+      dryRun: hasFlag("--dry-run"),
+      actor: "cli",
+    })
+  );
+  if (!outcome.acquired) {
+    console.log(`[unpaid] ${outcome.heldBy ? describeLock(outcome.heldBy) : "closed_sales is locked"} — skipping`);
+    return;
+  }
+  const result = outcome.value;
+
+  console.log("\n=== Unpaid Invoices ===");
+  console.log(`  Past retry window:     ${result.checked}`);
+  console.log(`  Recovered on retry:    ${result.recovered}`);
+  console.log(`  Reminders sent:        ${result.reminded}`);
+  console.log(`  Voided at deadline:    ${result.expired}`);
+  console.log(`  Second-chance offers:  ${result.offered}`);
+  console.log(`  Offers lapsed:         ${result.offersExpired}`);
+}
+
+// ---------------------------------------------------------------------------
+// tracking — Sync carrier tracking for shipped lots
+// ---------------------------------------------------------------------------
+
+async function commandTracking() {
+  const result = await syncShipmentTracking({ actor: "cli" });
+
+  console.log("\n=== Shipment Tracking ===");
+  console.log(`  Checked:       ${result.checked}`);
+  console.log(`  Delivered:     ${result.delivered}`);
+  console.log(`  Stale alerts:  ${result.staleAlerts}`);
+  console.log(`  Skipped:       ${result.skipped}`);
+  console.log(`  Failed:        ${result.failed}`);
+  console.log(`  Deferred:      ${result.deferred}`);
+}
+
+// ---------------------------------------------------------------------------
+// relist — Queue lots that missed their reserve for the next sale
+// ---------------------------------------------------------------------------
+
+async function commandRelist() {
+  const result = await relistUnsoldDropshipLots({ actor: "cli" });
+
+  console.log("\n=== Relisting ===");
+  console.log(`  Queued for next sale:  ${result.queued}`);
+  console.log(`  Cancelled:             ${result.cancelled}`);
+  console.log(`  Skipped:               ${result.skipped}`);
+  console.log(`  Failed:                ${result.failed}`);
+  console.log(`  Deferred:              ${result.deferred}`);
+}
+
 // ---------------------------------------------------------------------------
 // Dispatch
 // ---------------------------------------------------------------------------
@@ -439,6 +1109,14 @@ const commands: Record<string, () => Promise<void | string>> = {
   run: commandRun,
   status: commandStatus,
   keywords: commandKeywords,
+  rules: commandRules,
+  settings: commandSettings,
+  switches: commandSwitches,
+  runs: commandRuns,
+  timeline: commandTimeline,
+  unpaid: commandUnpaid,
+  tracking: commandTracking,
+  relist: commandRelist,
 };
 
 if (!subcommand || !commands[subcommand]) {
@@ -449,6 +1127,7 @@ Commands:
            --keyword <term>       Search keyword (default: "wireless headphones")
            --max-cost <usd>       Max wholesale cost (default: 50)
            --max-products <n>     Max products to source (default: 5)
+           --max-variants <n>     Max variant lots per product (default: 3)
            --publish              Publish the sale immediately
 
   monitor  Poll a sale and auto-process winners, fulfillment, and refunds
@@ -464,7 +1143,40 @@ Commands:
   keywords Manage sourcing keywords for auto-sourcing rotation
            list                   List all keywords
            add --keyword <term>   Add a keyword (--max-cost, --max-products, --priority)
+           enable|disable --id    Put a keyword into or take it out of rotation
            remove --id <id>       Remove a keyword
+
+  rules    Manage sourcing quality/compliance rules (blocklists, brands, limits, warehouses)
+           list                   List all rules
+           add --type <t> --value <v>  Add a rule (--note)
+           enable|disable --id    Turn a rule on or off
+           remove --id <id>       Remove a rule
+           rejections [--days n]  What the rules (and cost/stock/freight checks) rejected
+
+  settings Pipeline guardrails: spend cap, margin floor, price-change limit, stuck-lot thresholds
+           list                   Current values and defaults
+           set --key <k> --value <v> --reason <why>  Override a setting
+           reset --key <k> --reason <why>           Go back to the default
+           history [--limit n]    Who changed what, and why
+
+  switches Kill switches for sourcing, publishing, closed_sales, fulfillment, refunds
+           list                   Which stages are paused, by whom and why
+           pause|resume --stage <s> --reason <why>
+
+  runs     Recent pipeline runs with per-step timing, counts and errors
+           --job <job>            process, source or monitor
+           --limit <n>            Runs to show (default: 10)
+           --run-id <id>          One run in detail
+
+  timeline Show the status history (who/why) of a single lot
+           --lot-id <id>          Dropship lot ID (required)
+
+  unpaid   Retry unpaid invoices, void them at the deadline, offer to underbidders
+           --dry-run              Report what would happen without acting
+
+  tracking Sync carrier tracking for SHIPPED lots, mark deliveries, flag stale parcels
+
+  relist   Reprice RESERVE_NOT_MET lots and queue them for the next sourced sale
 `);
   process.exit(subcommand ? 1 : 0);
 }
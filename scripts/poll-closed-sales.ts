@@ -16,7 +16,7 @@ import { pollAndProcessClosedSales } from "../lib/pipeline";
 
 const dryRun = process.argv.includes("--dry-run");
 
-pollAndProcessClosedSales({ dryRun }).catch((error) => {
+pollAndProcessClosedSales({ dryRun, actor: "cli" }).catch((error) => {
   console.error("[poll] Fatal error:", error);
   process.exit(1);
 });
@@ -0,0 +1,72 @@
+import { config } from "dotenv";
+import { resolve } from "path";
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), ".env.local") });
+
+import { getUserByEmail } from "../lib/user";
+import { getUserRole, isUserRole, setUserRole, USER_ROLES } from "../lib/roles";
+
+function getArg(name: string): string | null {
+    const idx = process.argv.findIndex((a) => a === name);
+    if (idx === -1) return null;
+    return process.argv[idx + 1] ?? null;
+}
+
+function usage(): never {
+    console.error(
+        [
+            "Usage:",
+            `  tsx scripts/set-role.ts --email <user@example.com> [--role <${USER_ROLES.join("|")}>] [--granted-by "..."]`,
+            "",
+            "Examples:",
+            "  tsx scripts/set-role.ts --email ops@example.com                 # show current role",
+            "  tsx scripts/set-role.ts --email ops@example.com --role operator",
+            "  tsx scripts/set-role.ts --email ops@example.com --role bidder   # revoke",
+            "",
+            "Notes:",
+            "  - operator: access to /admin and /api/admin routes.",
+            "  - admin: everything an operator can do, plus role management.",
+        ].join("\n")
+    );
+    process.exit(1);
+}
+
+async function main() {
+    const email = getArg("--email");
+    const role = getArg("--role");
+    const grantedBy = getArg("--granted-by") || "cli";
+
+    if (!email) {
+        usage();
+    }
+
+    const user = await getUserByEmail(email);
+    if (!user) {
+        throw new Error(`No user found for email: ${email}`);
+    }
+
+    const current = await getUserRole(user.id);
+    if (!role) {
+        console.log(`${user.email}: ${current}`);
+        return;
+    }
+
+    if (!isUserRole(role)) {
+        console.error(`Invalid --role "${role}".`);
+        usage();
+    }
+
+    await setUserRole(user.id, role, grantedBy);
+
+    console.log("Role updated:");
+    console.log(`- userId: ${user.id}`);
+    console.log(`- email: ${user.email}`);
+    console.log(`- role: ${current} -> ${role}`);
+    console.log("Note: the user's session picks up the new role within the hour (or on next sign-in); API routes enforce it immediately.");
+}
+
+main().catch((error) => {
+    console.error("Failed to set role:", error);
+    process.exit(1);
+});
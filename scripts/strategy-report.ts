@@ -15,6 +15,7 @@ import Anthropic from "@anthropic-ai/sdk";
 import { getStatusDashboard, getFinancialSummary, checkCjQuota } from "../lib/pipeline";
 import { getDropshipLotStatusCounts } from "../lib/dropship";
 import { listKeywords } from "../lib/sourcing-keywords";
+import { getKeywordPerformance } from "../lib/keyword-performance";
 
 const STRATEGY_PROMPT = `You are the Strategy Analyst for Placer Auctions, a dropship auction platform.
 
@@ -54,13 +55,15 @@ async function main() {
 
   console.log("Gathering pipeline data...\n");
 
-  const [dashboard, financials, quota, statusCounts, keywords] = await Promise.all([
+  const [dashboard, financials, quota, statusCounts, keywords, keywordPerformance] = await Promise.all([
     getStatusDashboard(),
     getFinancialSummary(),
     checkCjQuota().catch(() => null),
     getDropshipLotStatusCounts(),
     listKeywords(),
+    getKeywordPerformance(),
   ]);
+  const performanceById = new Map(keywordPerformance.map((p) => [p.keyword_id, p]));
 
   const data = {
     dashboard: {
@@ -72,13 +75,22 @@ async function main() {
     financials,
     quota,
     statusCounts,
-    keywords: keywords.map((k) => ({
-      keyword: k.keyword,
-      active: k.active,
-      totalRuns: k.total_runs,
-      totalLots: k.total_lots_created,
-      lastSourced: k.last_sourced_at,
-    })),
+    keywords: keywords.map((k) => {
+      const perf = performanceById.get(k.id);
+      return {
+        keyword: k.keyword,
+        active: k.active,
+        deactivatedReason: k.deactivated_reason,
+        totalRuns: k.total_runs,
+        totalLots: k.total_lots_created,
+        lastSourced: k.last_sourced_at,
+        listings: perf?.listings ?? 0,
+        sellThrough: perf?.sell_through ?? null,
+        avgHammerOverReserve: perf?.avg_hammer_over_reserve ?? null,
+        profitCents: perf?.profit_cents ?? 0,
+        refundRate: perf?.refund_rate ?? null,
+      };
+    }),
   };
 
   console.log("Requesting strategy analysis from Claude...\n");
@@ -13,7 +13,7 @@ type TableSpec = {
 
 const expectedTables: Record<string, TableSpec> = {
     users: {
-        columns: ["id", "email", "password_hash", "name", "created_at", "updated_at"],
+        columns: ["id", "email", "password_hash", "name", "email_verified_at", "created_at", "updated_at"],
     },
     payment_profiles: {
         columns: [
@@ -50,9 +50,36 @@ const expectedTables: Record<string, TableSpec> = {
     webhook_events: {
         columns: ["id", "provider", "idempotency_key", "payload", "created_at"],
     },
+    bid_events: {
+        columns: [
+            "id",
+            "idempotency_key",
+            "sale_id",
+            "item_id",
+            "user_id",
+            "amount_cents",
+            "max_amount_cents",
+            "bid_type",
+            "bid_date",
+            "payload",
+            "created_at",
+        ],
+    },
     user_profiles: {
         columns: ["user_id", "phone", "location", "created_at", "updated_at"],
     },
+    user_roles: {
+        columns: ["user_id", "role", "granted_by", "created_at", "updated_at"],
+    },
+    password_reset_tokens: {
+        columns: ["id", "user_id", "token_hash", "expires_at", "used_at", "created_at"],
+    },
+    email_verification_tokens: {
+        columns: ["id", "user_id", "email", "token_hash", "expires_at", "used_at", "created_at"],
+    },
+    session_revocations: {
+        columns: ["user_id", "revoked_at"],
+    },
     user_preferences: {
         columns: [
             "user_id",
@@ -66,6 +93,9 @@ const expectedTables: Record<string, TableSpec> = {
     watchlist_items: {
         columns: ["id", "user_id", "sale_id", "item_id", "created_at"],
     },
+    notification_deliveries: {
+        columns: ["id", "user_id", "kind", "sale_id", "item_id", "ref", "created_at"],
+    },
     lead_submissions: {
         columns: ["id", "type", "email", "payload", "created_at"],
     },
@@ -103,6 +133,7 @@ const expectedTables: Record<string, TableSpec> = {
     dropship_lots: {
         columns: [
             "id",
+            "supplier",
             "cj_pid",
             "cj_vid",
             "cj_product_name",
@@ -110,12 +141,15 @@ const expectedTables: Record<string, TableSpec> = {
             "cj_cost_cents",
             "cj_shipping_cents",
             "cj_logistic_name",
+            "cj_delivery_days",
             "cj_from_country",
             "cj_images",
+            "source_keyword",
             "basta_sale_id",
             "basta_item_id",
             "starting_bid_cents",
             "reserve_cents",
+            "relist_count",
             "winner_user_id",
             "winning_bid_cents",
             "basta_order_id",
@@ -136,15 +170,208 @@ const expectedTables: Record<string, TableSpec> = {
             "updated_at",
         ],
     },
+    sourcing_keywords: {
+        columns: [
+            "id",
+            "keyword",
+            "max_cost_usd",
+            "max_products",
+            "priority",
+            "active",
+            "last_sourced_at",
+            "total_runs",
+            "total_lots_created",
+            "deactivated_at",
+            "deactivated_reason",
+            "created_at",
+            "updated_at",
+        ],
+    },
+    dropship_lot_events: {
+        columns: [
+            "id",
+            "lot_id",
+            "from_status",
+            "to_status",
+            "actor",
+            "reason",
+            "payload",
+            "created_at",
+        ],
+    },
+    second_chance_offers: {
+        columns: [
+            "id",
+            "sale_id",
+            "item_id",
+            "original_order_id",
+            "original_user_id",
+            "user_id",
+            "amount_cents",
+            "basta_order_id",
+            "stripe_invoice_id",
+            "stripe_invoice_url",
+            "status",
+            "created_at",
+            "updated_at",
+        ],
+    },
+    media_assets: {
+        columns: [
+            "id",
+            "original_url",
+            "content_hash",
+            "mirrored_url",
+            "public_id",
+            "width",
+            "height",
+            "bytes",
+            "format",
+            "created_at",
+        ],
+    },
+    cj_tokens: {
+        columns: [
+            "id",
+            "open_id",
+            "access_token",
+            "refresh_token",
+            "access_token_expires_at",
+            "refresh_token_expires_at",
+            "created_date",
+            "lease_holder",
+            "lease_expires_at",
+            "updated_at",
+        ],
+    },
+    shipment_tracking: {
+        columns: [
+            "lot_id",
+            "tracking_number",
+            "carrier",
+            "status",
+            "delivery_days",
+            "last_event_at",
+            "checked_at",
+            "stale_alerted_at",
+            "delivered_at",
+            "created_at",
+            "updated_at",
+        ],
+    },
+    shipment_events: {
+        columns: [
+            "id",
+            "lot_id",
+            "tracking_number",
+            "status",
+            "description",
+            "location",
+            "occurred_at",
+            "created_at",
+        ],
+    },
+    dropship_lot_shipping: {
+        columns: [
+            "lot_id",
+            "country",
+            "shipping_method",
+            "shipping_cents",
+            "delivery_days",
+            "surcharge_cents",
+            "eligible",
+            "ineligible_reason",
+            "quoted_at",
+        ],
+    },
+    sourcing_rules: {
+        columns: [
+            "id",
+            "rule_type",
+            "value",
+            "active",
+            "note",
+            "created_at",
+            "updated_at",
+        ],
+    },
+    sourcing_rejections: {
+        columns: [
+            "id",
+            "keyword",
+            "supplier",
+            "product_id",
+            "variant_id",
+            "product_name",
+            "rule_id",
+            "rule_type",
+            "reason",
+            "created_at",
+        ],
+    },
+    pipeline_settings: {
+        columns: ["key", "value", "updated_by", "updated_at"],
+    },
+    pipeline_settings_audit: {
+        columns: [
+            "id",
+            "key",
+            "old_value",
+            "new_value",
+            "actor",
+            "reason",
+            "created_at",
+        ],
+    },
+    pipeline_switches: {
+        columns: ["stage", "paused", "updated_by", "reason", "updated_at"],
+    },
+    pipeline_runs: {
+        columns: [
+            "id",
+            "job",
+            "trigger",
+            "status",
+            "detail",
+            "started_at",
+            "finished_at",
+            "duration_ms",
+        ],
+    },
+    pipeline_run_steps: {
+        columns: [
+            "id",
+            "run_id",
+            "step",
+            "status",
+            "counts",
+            "error",
+            "detail",
+            "started_at",
+            "finished_at",
+            "duration_ms",
+        ],
+    },
+    pipeline_overdue_alerts: {
+        columns: ["job", "last_completed_at", "alerted_at"],
+    },
+    pipeline_locks: {
+        columns: ["name", "holder", "run_id", "acquired_at", "heartbeat_at", "expires_at"],
+    },
 };
 
 const expectedIndexes = [
     "idx_users_email",
+    "idx_bid_events_item",
+    "idx_bid_events_user",
     "idx_payment_orders_user",
     "idx_payment_orders_sale_user",
     "idx_payment_orders_stripe_invoice",
     "idx_payment_order_items_order",
+    "idx_password_reset_tokens_user",
+    "idx_email_verification_tokens_user",
     "idx_watchlist_user",
+    "idx_watchlist_sale",
     "idx_lead_submissions_type",
     "idx_lead_submissions_email",
     "idx_lead_uploads_submission",
@@ -158,6 +385,18 @@ const expectedIndexes = [
     "idx_dropship_lots_basta_sale",
     "idx_dropship_lots_cj_order",
     "idx_dropship_lots_cj_vid_sale",
+    "idx_dropship_lot_events_lot",
+    "idx_second_chance_offers_status",
+    "idx_second_chance_offers_invoice",
+    "idx_media_assets_hash",
+    "idx_shipment_events_lot",
+    "idx_sourcing_rules_type_value",
+    "idx_sourcing_rejections_created",
+    "idx_pipeline_settings_audit_created",
+    "idx_pipeline_runs_job_started",
+    "idx_pipeline_runs_status",
+    "idx_pipeline_run_steps_run",
+    "idx_pipeline_run_steps_step_status",
 ];
 
 async function getTableColumns(params: { db: ReturnType<typeof createClient>; table: string }) {
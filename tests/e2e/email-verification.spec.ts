@@ -0,0 +1,58 @@
+import "./env";
+import { test, expect } from "@playwright/test";
+import { createEmailVerificationToken, isEmailVerified } from "@/lib/email-verification";
+
+test("email verification: unverified users can't register until they follow the link", async ({ page, request }) => {
+  const password = "Password123!";
+  const email = `e2e_verify_${Date.now()}@example.com`;
+
+  const signupRes = await request.post("/api/auth/signup", {
+    data: { name: "E2E Verify", email, password },
+  });
+  expect(signupRes.status(), await signupRes.text()).toBe(201);
+  const userId = ((await signupRes.json()) as { user?: { id: string } }).user?.id;
+  expect(userId).toBeTruthy();
+  expect(await isEmailVerified(userId!)).toBe(false);
+
+  await page.goto("/login");
+  await page.getByLabel("Email").fill(email);
+  await page.getByLabel("Password").fill(password);
+  await page.getByRole("button", { name: /^sign in$/i }).click();
+  await page.waitForURL("**/");
+
+  const blockedRes = await page.request.post("/api/protected/register", { data: {} });
+  expect(blockedRes.status()).toBe(403);
+  expect(((await blockedRes.json()) as { code?: string }).code).toBe("EMAIL_NOT_VERIFIED");
+
+  // The emailed token is never stored in the clear, so issue a fresh one
+  const token = await createEmailVerificationToken(userId!, email);
+
+  await page.goto(`/api/auth/verify-email?token=${encodeURIComponent(token)}`);
+  await page.waitForURL("**/login?verified=1");
+  expect(await isEmailVerified(userId!)).toBe(true);
+
+  const allowedRes = await page.request.post("/api/protected/register", { data: {} });
+  expect(allowedRes.status()).not.toBe(403);
+
+  // The token is single use
+  await page.context().clearCookies();
+  await page.goto(`/api/auth/verify-email?token=${encodeURIComponent(token)}`);
+  await page.waitForURL("**/login?verified=invalid");
+  await expect(page.getByText("Verification link invalid or expired")).toBeVisible();
+});
+
+test("email verification: a link for an address the account no longer uses is refused", async ({ page, request }) => {
+  const email = `e2e_verify_old_${Date.now()}@example.com`;
+
+  const signupRes = await request.post("/api/auth/signup", {
+    data: { name: "E2E Verify", email, password: "Password123!" },
+  });
+  expect(signupRes.status(), await signupRes.text()).toBe(201);
+  const userId = ((await signupRes.json()) as { user?: { id: string } }).user?.id;
+
+  const token = await createEmailVerificationToken(userId!, `changed_${email}`);
+
+  await page.goto(`/api/auth/verify-email?token=${encodeURIComponent(token)}`);
+  await page.waitForURL("**/login?verified=invalid");
+  expect(await isEmailVerified(userId!)).toBe(false);
+});
@@ -0,0 +1,6 @@
+import path from "path";
+import dotenv from "dotenv";
+
+// Specs that import from lib/ must import this first: lib/turso picks its
+// database from the environment when it is loaded.
+dotenv.config({ path: path.join(process.cwd(), ".env.local"), quiet: true });
@@ -0,0 +1,101 @@
+import "./env";
+import { test, expect } from "@playwright/test";
+import { selectKeyword, type KeywordPerformance } from "@/lib/keyword-performance";
+import type { SourcingKeyword } from "@/lib/sourcing-keywords";
+
+function keyword(id: string, overrides: Partial<SourcingKeyword> = {}): SourcingKeyword {
+  return {
+    id,
+    keyword: id,
+    max_cost_usd: 20,
+    max_products: 5,
+    priority: 0,
+    active: 1,
+    last_sourced_at: "2026-01-01T00:00:00.000Z",
+    total_runs: 0,
+    total_lots_created: 0,
+    deactivated_at: null,
+    deactivated_reason: null,
+    created_at: "2025-01-01T00:00:00.000Z",
+    updated_at: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function performance(keywordId: string, listings: number, profitPerListingCents: number | null): KeywordPerformance {
+  return {
+    keyword_id: keywordId,
+    keyword: keywordId,
+    lots: listings,
+    listings,
+    sold: listings,
+    unsold: 0,
+    sell_through: listings ? 1 : null,
+    avg_hammer_over_reserve: null,
+    profit_cents: (profitPerListingCents ?? 0) * listings,
+    profit_lots: listings,
+    refunded: 0,
+    refund_rate: null,
+    profit_per_listing_cents: profitPerListingCents,
+  };
+}
+
+const options = { exploreRate: 0.2, minListings: 3 };
+const exploit = () => 0.5;
+const explore = () => 0.1;
+
+test.describe("selectKeyword", () => {
+  test("returns null when no keyword is active", () => {
+    expect(selectKeyword([keyword("a", { active: 0 })], [], options)).toBeNull();
+  });
+
+  test("exploits the keyword with the best profit per listing", () => {
+    const keywords = [keyword("a"), keyword("b"), keyword("c")];
+    const stats = [performance("a", 5, 100), performance("b", 5, 300), performance("c", 5, 200)];
+
+    const selection = selectKeyword(keywords, stats, { ...options, random: exploit });
+    expect(selection?.mode).toBe("exploit");
+    expect(selection?.keyword.id).toBe("b");
+    expect(selection?.performance?.profit_per_listing_cents).toBe(300);
+  });
+
+  test("explores in rotation order on explore runs", () => {
+    const keywords = [
+      keyword("recent", { last_sourced_at: "2026-03-01T00:00:00.000Z" }),
+      keyword("old", { last_sourced_at: "2026-02-01T00:00:00.000Z" }),
+    ];
+    const stats = [performance("recent", 5, 500)];
+
+    const selection = selectKeyword(keywords, stats, { ...options, random: explore });
+    expect(selection?.mode).toBe("explore");
+    expect(selection?.keyword.id).toBe("old");
+  });
+
+  test("sources never-sourced keywords first when exploring", () => {
+    const keywords = [
+      keyword("old", { last_sourced_at: "2026-02-01T00:00:00.000Z" }),
+      keyword("new", { last_sourced_at: null }),
+    ];
+
+    expect(selectKeyword(keywords, [], { ...options, random: exploit })?.keyword.id).toBe("new");
+  });
+
+  test("explores while no keyword has enough profitable listings", () => {
+    const keywords = [
+      keyword("few", { last_sourced_at: "2026-03-01T00:00:00.000Z" }),
+      keyword("losing", { last_sourced_at: "2026-02-01T00:00:00.000Z" }),
+    ];
+    const stats = [performance("few", 2, 1000), performance("losing", 10, -50)];
+
+    const selection = selectKeyword(keywords, stats, { ...options, random: exploit });
+    expect(selection?.mode).toBe("explore");
+    expect(selection?.keyword.id).toBe("losing");
+  });
+
+  test("never picks an inactive keyword", () => {
+    const keywords = [keyword("off", { active: 0 }), keyword("on")];
+    const stats = [performance("off", 10, 1000), performance("on", 10, 10)];
+
+    expect(selectKeyword(keywords, stats, { ...options, random: exploit })?.keyword.id).toBe("on");
+  });
+});
@@ -0,0 +1,46 @@
+import "./env";
+import { test, expect } from "@playwright/test";
+import { computeShippingSurcharge } from "@/lib/auction-pricing";
+import { normalizeCountryCode } from "@/lib/lot-shipping";
+
+test.describe("normalizeCountryCode", () => {
+  test("recognizes codes, names and common aliases", () => {
+    expect(normalizeCountryCode("US")).toBe("US");
+    expect(normalizeCountryCode(" de ")).toBe("DE");
+    expect(normalizeCountryCode("usa")).toBe("US");
+    expect(normalizeCountryCode("United States")).toBe("US");
+    expect(normalizeCountryCode("UK")).toBe("GB");
+    expect(normalizeCountryCode("germany")).toBe("DE");
+  });
+
+  test("returns null for anything it can't place", () => {
+    expect(normalizeCountryCode(null)).toBeNull();
+    expect(normalizeCountryCode("   ")).toBeNull();
+    expect(normalizeCountryCode("QQ")).toBeNull();
+    expect(normalizeCountryCode("Atlantis")).toBeNull();
+  });
+});
+
+test.describe("computeShippingSurcharge", () => {
+  test("is zero when the destination is no dearer than the base", () => {
+    expect(computeShippingSurcharge({ baseShippingCents: 800, destinationShippingCents: 800 })).toBe(0);
+    expect(computeShippingSurcharge({ baseShippingCents: 800, destinationShippingCents: 500 })).toBe(0);
+  });
+
+  test("covers the extra freight after buffers and card fees", () => {
+    const surcharge = computeShippingSurcharge({ baseShippingCents: 500, destinationShippingCents: 1500 });
+    expect(surcharge).toBe(1298);
+    expect(surcharge * (1 - 0.029)).toBeGreaterThanOrEqual(1000 * 1.2 * 1.05);
+  });
+
+  test("applies the given margin and buffer", () => {
+    expect(
+      computeShippingSurcharge({
+        baseShippingCents: 500,
+        destinationShippingCents: 1500,
+        safetyMargin: 0,
+        priceFluctuationBuffer: 0,
+      })
+    ).toBe(1030);
+  });
+});
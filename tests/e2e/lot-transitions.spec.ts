@@ -0,0 +1,139 @@
+import "./env";
+import { test, expect } from "@playwright/test";
+import {
+  getAllowedTransitions,
+  getDropshipLotById,
+  getDropshipLotEvents,
+  insertDropshipLot,
+  InvalidTransitionError,
+  isDropshipLotStatus,
+  LotConflictError,
+  transitionDropshipLot,
+  updateDropshipLot,
+  validateTransition,
+} from "@/lib/dropship";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test.describe("lot transition table", () => {
+  test("walks the happy path from SOURCED to DELIVERED", () => {
+    const path = [
+      "SOURCED",
+      "LISTED",
+      "PUBLISHED",
+      "AUCTION_CLOSED",
+      "PAID",
+      "CJ_ORDERED",
+      "CJ_PAID",
+      "SHIPPED",
+      "DELIVERED",
+    ] as const;
+    for (let i = 1; i < path.length; i++) {
+      expect(validateTransition(path[i - 1], path[i]), `${path[i - 1]} → ${path[i]}`).toBe(true);
+    }
+  });
+
+  test("rejects skipped steps and moves out of terminal statuses", () => {
+    expect(validateTransition("SOURCED", "PAID")).toBe(false);
+    expect(validateTransition("PUBLISHED", "SHIPPED")).toBe(false);
+    expect(getAllowedTransitions("DELIVERED")).toEqual([]);
+    expect(getAllowedTransitions("CANCELLED")).toEqual([]);
+  });
+
+  test("lets a failed payment be retried or cancelled", () => {
+    expect(getAllowedTransitions("PAYMENT_FAILED")).toEqual(["PAID", "CANCELLED"]);
+  });
+
+  test("treats unknown statuses as having no moves", () => {
+    expect(getAllowedTransitions("NOT_A_STATUS")).toEqual([]);
+    expect(isDropshipLotStatus("NOT_A_STATUS")).toBe(false);
+    expect(isDropshipLotStatus("toString")).toBe(false);
+    expect(isDropshipLotStatus("SHIPPED")).toBe(true);
+  });
+
+  test("returns a copy callers can't use to edit the table", () => {
+    getAllowedTransitions("SOURCED").push("DELIVERED");
+    expect(validateTransition("SOURCED", "DELIVERED")).toBe(false);
+  });
+});
+
+test.describe("transitionDropshipLot compare-and-set", () => {
+  let lotId: string;
+
+  test.beforeEach(async () => {
+    lotId = await insertDropshipLot(
+      {
+        cj_pid: `e2e_pid_${Date.now()}`,
+        cj_vid: `e2e_vid_${Date.now()}`,
+        cj_product_name: "E2E transition lot",
+        cj_cost_cents: 1000,
+        cj_shipping_cents: 500,
+        starting_bid_cents: 100,
+        reserve_cents: 2000,
+      },
+      { actor: "cli", reason: "e2e" }
+    );
+  });
+
+  test.afterEach(async () => {
+    const lot = await getDropshipLotById(lotId);
+    if (lot && isDropshipLotStatus(lot.status) && validateTransition(lot.status, "CANCELLED")) {
+      await transitionDropshipLot(
+        lotId,
+        { from: lot.status, to: "CANCELLED" },
+        { actor: "cli", reason: "e2e cleanup" }
+      );
+    }
+  });
+
+  test("moves the lot and records the event", async () => {
+    const lot = await getDropshipLotById(lotId);
+    expect(lot?.status).toBe("SOURCED");
+
+    await sleep(5);
+    const next = await transitionDropshipLot(
+      lotId,
+      { from: "SOURCED", to: "LISTED", expectedUpdatedAt: lot!.updated_at, updates: { basta_sale_id: "sale_e2e" } },
+      { actor: "operator:e2e", reason: "listed by test" }
+    );
+    expect(next.status).toBe("LISTED");
+    expect(next.basta_sale_id).toBe("sale_e2e");
+    expect(next.updated_at).not.toBe(lot!.updated_at);
+
+    const events = await getDropshipLotEvents(lotId);
+    expect(events.map((e) => [e.from_status, e.to_status])).toEqual([
+      [null, "SOURCED"],
+      ["SOURCED", "LISTED"],
+    ]);
+    expect(events[1].actor).toBe("operator:e2e");
+    expect(events[1].reason).toBe("listed by test");
+  });
+
+  test("rejects a write based on a stale read", async () => {
+    const stale = await getDropshipLotById(lotId);
+    await sleep(5);
+    await updateDropshipLot(lotId, { error_message: "touched by test" });
+
+    await expect(
+      transitionDropshipLot(lotId, { from: "SOURCED", to: "LISTED", expectedUpdatedAt: stale!.updated_at })
+    ).rejects.toBeInstanceOf(LotConflictError);
+    expect((await getDropshipLotById(lotId))?.status).toBe("SOURCED");
+  });
+
+  test("rejects a write when the lot already moved on", async () => {
+    await transitionDropshipLot(lotId, { from: "SOURCED", to: "LISTED" });
+
+    const error = await transitionDropshipLot(lotId, { from: "SOURCED", to: "CANCELLED" }).catch((e) => e);
+    expect(error).toBeInstanceOf(LotConflictError);
+    expect((error as LotConflictError).actualStatus).toBe("LISTED");
+  });
+
+  test("rejects moves the table doesn't allow", async () => {
+    await transitionDropshipLot(lotId, { from: "SOURCED", to: "LISTED" });
+
+    await expect(transitionDropshipLot(lotId, { from: "LISTED", to: "PAID" })).rejects.toBeInstanceOf(
+      InvalidTransitionError
+    );
+    expect((await getDropshipLotEvents(lotId)).map((e) => e.to_status)).toEqual(["SOURCED", "LISTED"]);
+  });
+});
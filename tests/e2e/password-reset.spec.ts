@@ -0,0 +1,66 @@
+import "./env";
+import { test, expect } from "@playwright/test";
+import { createPasswordResetToken } from "@/lib/password-reset";
+
+test("password reset: request a link, set a new password, sign in with it", async ({ page, request }) => {
+  const oldPassword = "Password123!";
+  const newPassword = "NewPassword456!";
+  const email = `e2e_reset_${Date.now()}@example.com`;
+
+  const signupRes = await request.post("/api/auth/signup", {
+    data: { name: "E2E Reset", email, password: oldPassword },
+  });
+  expect(signupRes.status(), await signupRes.text()).toBe(201);
+  const userId = ((await signupRes.json()) as { user?: { id: string } }).user?.id;
+  expect(userId).toBeTruthy();
+
+  // Request a link from the sign-in page
+  await page.goto("/login");
+  await page.getByRole("link", { name: /forgot/i }).click();
+  await page.waitForURL("**/forgot-password");
+  await page.getByLabel("Email").fill(email);
+  await page.getByRole("button", { name: /^continue$/i }).click();
+  await expect(page.getByText("Check your inbox")).toBeVisible();
+
+  // The emailed token is never stored in the clear, so issue a fresh one
+  // (which also retires the one just sent)
+  const token = await createPasswordResetToken(userId!);
+
+  await page.goto(`/reset-password?token=${encodeURIComponent(token)}`);
+  await page.getByLabel("New password", { exact: true }).fill(newPassword);
+  await page.getByLabel("Confirm new password").fill("mismatch-123");
+  await page.getByRole("button", { name: /^set new password$/i }).click();
+  await expect(page.getByText("Passwords do not match.")).toBeVisible();
+
+  await page.getByLabel("Confirm new password").fill(newPassword);
+  await page.getByRole("button", { name: /^set new password$/i }).click();
+  await page.waitForURL("**/login?reset=1");
+  await expect(page.getByText("Password updated")).toBeVisible();
+
+  // The token is single use
+  const reuseRes = await request.post("/api/auth/reset-password", {
+    data: { token, password: "AnotherPassword789!" },
+  });
+  expect(reuseRes.status()).toBe(400);
+
+  // The old password no longer works; the new one does
+  await page.getByLabel("Email").fill(email);
+  await page.getByLabel("Password").fill(oldPassword);
+  await page.getByRole("button", { name: /^sign in$/i }).click();
+  await expect(page.getByText("Invalid email or password. Please try again.")).toBeVisible();
+
+  await page.getByLabel("Password").fill(newPassword);
+  await page.getByRole("button", { name: /^sign in$/i }).click();
+  await page.waitForURL("**/");
+});
+
+test("password reset: a link without a valid token is refused", async ({ page }) => {
+  await page.goto("/reset-password");
+  await expect(page.getByText("Reset link incomplete")).toBeVisible();
+
+  await page.goto("/reset-password?token=not-a-real-token");
+  await page.getByLabel("New password", { exact: true }).fill("Password123!");
+  await page.getByLabel("Confirm new password").fill("Password123!");
+  await page.getByRole("button", { name: /^set new password$/i }).click();
+  await expect(page.getByText("This reset link is invalid or has expired.", { exact: false })).toBeVisible();
+});
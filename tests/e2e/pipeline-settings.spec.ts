@@ -0,0 +1,124 @@
+import "./env";
+import { test, expect } from "@playwright/test";
+import { db } from "@/lib/turso";
+import {
+  defaultPipelineSettings,
+  getPipelineSettings,
+  InvalidPipelineSettingError,
+  parsePipelineSetting,
+  PIPELINE_SETTINGS,
+  setPipelineSetting,
+  type PipelineSettingKey,
+} from "@/lib/pipeline-settings";
+
+test.describe("parsePipelineSetting", () => {
+  test("accepts every default", () => {
+    for (const [key, value] of Object.entries(defaultPipelineSettings())) {
+      expect(parsePipelineSetting(key as PipelineSettingKey, String(value)), key).toBe(value);
+    }
+  });
+
+  test("accepts the bounds themselves", () => {
+    expect(parsePipelineSetting("daily_spend_cap_cents", "0")).toBe(0);
+    expect(parsePipelineSetting("daily_spend_cap_cents", " 150000 ")).toBe(150_000);
+    expect(parsePipelineSetting("margin_floor_percent", -10)).toBe(-10);
+    expect(parsePipelineSetting("max_price_increase_percent", "12.5")).toBe(12.5);
+  });
+
+  test("refuses values outside the bounds", () => {
+    expect(() => parsePipelineSetting("daily_spend_cap_cents", "150001")).toThrow(InvalidPipelineSettingError);
+    expect(() => parsePipelineSetting("daily_spend_cap_cents", "-1")).toThrow(InvalidPipelineSettingError);
+    expect(() => parsePipelineSetting("margin_floor_percent", "-11")).toThrow(InvalidPipelineSettingError);
+    expect(() => parsePipelineSetting("max_price_increase_percent", "41")).toThrow(InvalidPipelineSettingError);
+    expect(() => parsePipelineSetting("stuck_paid_minutes", "4")).toThrow(InvalidPipelineSettingError);
+  });
+
+  test("refuses empty, non-numeric and fractional whole-number values", () => {
+    expect(() => parsePipelineSetting("margin_floor_percent", "  ")).toThrow(/needs a value/);
+    expect(() => parsePipelineSetting("margin_floor_percent", "five")).toThrow(/must be a number/);
+    expect(() => parsePipelineSetting("margin_floor_percent", Number.NaN)).toThrow(/must be a number/);
+    expect(() => parsePipelineSetting("daily_spend_cap_cents", "100.5")).toThrow(/whole number/);
+  });
+});
+
+test.describe("stored pipeline settings", () => {
+  const keys: PipelineSettingKey[] = [
+    "daily_spend_cap_cents",
+    "margin_floor_percent",
+    "stuck_paid_minutes",
+    "stuck_alert_minutes",
+  ];
+  let saved: { key: string; value: string; updated_by: string; updated_at: string }[] = [];
+  const placeholders = keys.map(() => "?").join(", ");
+
+  test.beforeEach(async () => {
+    const result = await db.execute({
+      sql: `SELECT key, value, updated_by, updated_at FROM pipeline_settings WHERE key IN (${placeholders})`,
+      args: keys,
+    });
+    saved = result.rows.map((row) => ({
+      key: row.key as string,
+      value: row.value as string,
+      updated_by: row.updated_by as string,
+      updated_at: row.updated_at as string,
+    }));
+    await db.execute({ sql: `DELETE FROM pipeline_settings WHERE key IN (${placeholders})`, args: keys });
+  });
+
+  test.afterEach(async () => {
+    await db.execute({ sql: `DELETE FROM pipeline_settings WHERE key IN (${placeholders})`, args: keys });
+    for (const row of saved) {
+      await db.execute({
+        sql: "INSERT INTO pipeline_settings (key, value, updated_by, updated_at) VALUES (?, ?, ?, ?)",
+        args: [row.key, row.value, row.updated_by, row.updated_at],
+      });
+    }
+  });
+
+  async function store(key: PipelineSettingKey, value: string) {
+    await db.execute({
+      sql: "INSERT INTO pipeline_settings (key, value, updated_by) VALUES (?, ?, 'cli')",
+      args: [key, value],
+    });
+  }
+
+  test("uses valid overrides and the default for invalid ones", async () => {
+    await store("margin_floor_percent", "10");
+    await store("daily_spend_cap_cents", "999999");
+
+    const settings = await getPipelineSettings();
+    expect(settings.margin_floor_percent).toBe(10);
+    expect(settings.daily_spend_cap_cents).toBe(PIPELINE_SETTINGS.daily_spend_cap_cents.defaultValue);
+  });
+
+  test("drops only the overrides that contradict each other", async () => {
+    await store("margin_floor_percent", "10");
+    await store("stuck_paid_minutes", "200");
+    await store("stuck_alert_minutes", "100");
+
+    const settings = await getPipelineSettings();
+    expect(settings.margin_floor_percent).toBe(10);
+    expect(settings.stuck_paid_minutes).toBe(PIPELINE_SETTINGS.stuck_paid_minutes.defaultValue);
+    expect(settings.stuck_alert_minutes).toBe(PIPELINE_SETTINGS.stuck_alert_minutes.defaultValue);
+  });
+
+  test("refuses a change without a reason", async () => {
+    await expect(
+      setPipelineSetting("margin_floor_percent", "10", { actor: "cli", reason: "  " })
+    ).rejects.toThrow(/reason is required/);
+    expect((await getPipelineSettings()).margin_floor_percent).toBe(
+      PIPELINE_SETTINGS.margin_floor_percent.defaultValue
+    );
+  });
+
+  test("refuses an alert threshold below a recovery threshold", async () => {
+    await store("stuck_paid_minutes", "200");
+
+    await expect(
+      setPipelineSetting("stuck_alert_minutes", "100", { actor: "cli", reason: "e2e" })
+    ).rejects.toThrow(InvalidPipelineSettingError);
+    expect((await getPipelineSettings()).stuck_alert_minutes).toBe(
+      PIPELINE_SETTINGS.stuck_alert_minutes.defaultValue
+    );
+  });
+});
@@ -1,5 +1,6 @@
 import "next-auth";
 import "next-auth/jwt";
+import type { UserRole } from "@/lib/roles";
 
 declare module "next-auth" {
     interface Session {
@@ -7,6 +8,7 @@ declare module "next-auth" {
             id: string;
             name?: string | null;
             email?: string | null;
+            role: UserRole;
         };
         bidderToken?: string;
         bidderTokenExpiration?: string;
@@ -16,6 +18,7 @@ declare module "next-auth" {
         id: string;
         name?: string | null;
         email?: string | null;
+        role?: UserRole;
     }
 }
 
@@ -24,6 +27,11 @@ declare module "next-auth/jwt" {
         id: string;
         name?: string | null;
         email?: string | null;
+        role?: UserRole;
+        /** Epoch ms of sign-in; compared against session_revocations. */
+        signedInAt?: number;
+        /** Epoch ms the revocation check last ran (see REVOCATION_CHECK_INTERVAL_MS). */
+        revocationCheckedAt?: number;
         bidderToken?: string;
         bidderTokenExpiration?: string;
     }